@@ -0,0 +1,113 @@
+/** @jest-environment node */
+
+import { NextRequest } from 'next/server';
+import { GET as listJobs, POST as launchJob } from '@/app/api/jobs/route';
+import { GET as listKeys, POST as createKeyRoute } from '@/app/api/api-keys/route';
+import { DELETE as revokeKeyRoute } from '@/app/api/api-keys/[keyId]/route';
+import { createApiKey, listApiKeys } from '@/lib/api/apiKeys';
+import { listAuditEvents } from '@/lib/api/audit';
+import { resetAppConfigCache } from '@/lib/config/env';
+import { middleware } from '@/middleware';
+import { requestAs, useTempDataDir } from './support/routes';
+
+function withKey(url: string, secret: string, init: RequestInit = {}): Request {
+  return new Request(url, { ...init, headers: { authorization: `Bearer ${secret}` } });
+}
+
+const launchBody = JSON.stringify({
+  name: 'CI run',
+  summary: 'Nightly',
+  target: '10.0.0.5',
+  portRange: { start: 1, end: 100 },
+  authorized: true
+});
+
+useTempDataDir('redmesh-apikeys-');
+
+beforeEach(() => {
+  process.env.REDMESH_SCOPE_OPEN = 'true';
+  resetAppConfigCache();
+});
+
+afterEach(() => {
+  delete process.env.REDMESH_SCOPE_OPEN;
+  resetAppConfigCache();
+});
+
+describe('API key authentication', () => {
+  it('lets read-only keys list jobs but not launch them', async () => {
+    const { secret, key } = await createApiKey({ name: 'reader', scope: 'read', createdBy: 'root' });
+    expect(secret.startsWith('rmk_')).toBe(true);
+
+    const list = await listJobs(withKey('http://localhost/api/jobs', secret));
+    expect(list.status).toBe(200);
+
+    const launch = await launchJob(withKey('http://localhost/api/jobs', secret, { method: 'POST', body: launchBody }));
+    expect(launch.status).toBe(403);
+
+    const [stored] = await listApiKeys();
+    expect(stored.id).toBe(key.id);
+    expect(stored.lastUsedAt).toBeDefined();
+    expect(stored).not.toHaveProperty('hash');
+  });
+
+  it('lets launch keys start jobs and attributes them in the audit log', async () => {
+    const { secret } = await createApiKey({ name: 'ci', scope: 'launch', createdBy: 'root' });
+
+    const launch = await launchJob(withKey('http://localhost/api/jobs', secret, { method: 'POST', body: launchBody }));
+    expect(launch.status).toBe(201);
+
+    const { entries } = await listAuditEvents();
+    expect(entries[0].actor.username).toBe('apikey:ci');
+  });
+
+  it('rejects revoked and unknown keys', async () => {
+    const { secret, key } = await createApiKey({ name: 'old', scope: 'read', createdBy: 'root' });
+
+    const revoke = await revokeKeyRoute(
+      await requestAs(`http://localhost/api/api-keys/${key.id}`, ['admin'], { method: 'DELETE' }),
+      { params: Promise.resolve({ keyId: key.id }) }
+    );
+    expect(revoke.status).toBe(200);
+
+    expect((await listJobs(withKey('http://localhost/api/jobs', secret))).status).toBe(401);
+    expect((await listJobs(withKey('http://localhost/api/jobs', 'rmk_unknown'))).status).toBe(401);
+  });
+
+  it('lets the middleware pass API keys only on automation routes', async () => {
+    const headers = { authorization: 'Bearer rmk_anything' };
+    const jobs = await middleware(new NextRequest('http://localhost/api/jobs/abc', { headers }));
+    expect(jobs.headers.get('x-middleware-next')).toBe('1');
+
+    const audit = await middleware(new NextRequest('http://localhost/api/audit', { headers }));
+    expect(audit.status).toBe(401);
+  });
+});
+
+describe('API key management routes', () => {
+  it('restricts key management to administrators and never lists secrets', async () => {
+    const denied = await listKeys(await requestAs('http://localhost/api/api-keys', ['operator']));
+    expect(denied.status).toBe(403);
+
+    const created = await createKeyRoute(
+      await requestAs('http://localhost/api/api-keys', ['admin'], {
+        method: 'POST',
+        body: JSON.stringify({ name: 'pipeline', scope: 'launch' })
+      })
+    );
+    expect(created.status).toBe(201);
+    const { secret } = await created.json();
+
+    const listed = await (await listKeys(await requestAs('http://localhost/api/api-keys', ['admin']))).json();
+    expect(listed.keys).toHaveLength(1);
+    expect(JSON.stringify(listed)).not.toContain(secret);
+
+    const invalid = await createKeyRoute(
+      await requestAs('http://localhost/api/api-keys', ['admin'], {
+        method: 'POST',
+        body: JSON.stringify({ name: 'bad', scope: 'admin' })
+      })
+    );
+    expect(invalid.status).toBe(400);
+  });
+});
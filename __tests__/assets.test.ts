@@ -0,0 +1,105 @@
+/** @jest-environment node */
+
+import { GET as assetsRoute } from '@/app/api/assets/route';
+import { getMockJobs } from '@/lib/api/mockData';
+import type { AssetHost, Job } from '@/lib/api/types';
+import { collectAssetFacts, matchesAssetQuery, mergeAssetFacts } from '@/lib/domain/assets';
+import { requestAs, useTempDataDir } from './support/routes';
+
+function job(id: string, target: string, passes: Array<{ passNr: number; completedAt: string; cid: string }>): Job {
+  return {
+    id,
+    displayName: `Scan ${id}`,
+    target,
+    workers: [],
+    timeline: [],
+    passHistory: passes.map(({ passNr, completedAt, cid }) => ({ passNr, completedAt, reports: { node: cid } }))
+  } as unknown as Job;
+}
+
+describe('asset inventory model', () => {
+  const jobs = [
+    job('job-a', 'Web.Lab.Local', [{ passNr: 1, completedAt: '2025-01-01T00:00:00Z', cid: 'cid-a1' }]),
+    job('job-b', 'web.lab.local', [
+      { passNr: 1, completedAt: '2025-02-01T00:00:00Z', cid: 'cid-b1' },
+      { passNr: 2, completedAt: '2025-03-01T00:00:00Z', cid: 'cid-missing' }
+    ])
+  ];
+  const reports = {
+    'cid-a1': {
+      open_ports: [22],
+      service_info: { '22': { _service_info_22: 'SSH-2.0-OpenSSH_8.9' } }
+    },
+    'cid-b1': {
+      open_ports: [22, 443],
+      service_info: {
+        '22': { _service_info_22: 'SSH-2.0-OpenSSH_9.6' },
+        '443': { _service_info_443: { server: 'nginx/1.24.0', version: '1.24.0' }, _service_info_tls: { error: 'timeout' } }
+      }
+    }
+  };
+
+  it('folds reports into host -> port -> service facts with first and last seen', () => {
+    const hosts = mergeAssetFacts({}, collectAssetFacts(jobs, reports));
+    const host = hosts['web.lab.local'];
+
+    expect(Object.keys(hosts)).toEqual(['web.lab.local']);
+    expect(host).toMatchObject({ firstSeen: '2025-01-01T00:00:00Z', lastSeen: '2025-02-01T00:00:00Z' });
+    expect(host.ports.map((port) => port.port)).toEqual([22, 443]);
+
+    const ssh = host.ports[0];
+    expect(ssh).toMatchObject({ service: 'SSH', firstSeen: '2025-01-01T00:00:00Z', lastSeen: '2025-02-01T00:00:00Z' });
+    expect(ssh.services).toEqual([
+      expect.objectContaining({
+        probe: '_service_info_22',
+        banner: 'SSH-2.0-OpenSSH_9.6',
+        firstSeen: '2025-01-01T00:00:00Z',
+        lastObservation: { jobId: 'job-b', jobName: 'Scan job-b', passNr: 1, observedAt: '2025-02-01T00:00:00Z' }
+      })
+    ]);
+    expect(ssh.observations.map((entry) => entry.jobId)).toEqual(['job-b', 'job-a']);
+
+    expect(host.ports[1].services).toEqual([
+      expect.objectContaining({ probe: '_service_info_443', product: 'nginx/1.24.0', version: '1.24.0' })
+    ]);
+  });
+
+  it('keeps history across re-ingests and purged jobs', () => {
+    const first = mergeAssetFacts({}, collectAssetFacts(jobs, reports));
+    expect(mergeAssetFacts(first, collectAssetFacts(jobs, reports))).toEqual(first);
+
+    const afterPurge: Record<string, AssetHost> = mergeAssetFacts(first, collectAssetFacts([jobs[1]], reports));
+    expect(afterPurge['web.lab.local'].ports[0].firstSeen).toBe('2025-01-01T00:00:00Z');
+    expect(matchesAssetQuery(afterPurge['web.lab.local'], 'nginx')).toBe(true);
+    expect(matchesAssetQuery(afterPurge['web.lab.local'], 'mysql')).toBe(false);
+  });
+});
+
+describe('GET /api/assets', () => {
+  useTempDataDir('redmesh-assets-');
+
+  it('ingests every job and serves search and host detail', async () => {
+    const [mockJob] = getMockJobs();
+    const host = mockJob.target.toLowerCase();
+
+    const list = await assetsRoute(await requestAs('http://localhost/api/assets', ['viewer']));
+    expect(list.status).toBe(200);
+    const inventory = await list.json();
+    expect(inventory.ingestedAt).toEqual(expect.any(String));
+    expect(inventory.hosts.find((entry: { host: string }) => entry.host === host)).toMatchObject({
+      jobIds: expect.arrayContaining([mockJob.id])
+    });
+
+    const search = await assetsRoute(await requestAs(`http://localhost/api/assets?q=${encodeURIComponent(host)}`, ['viewer']));
+    expect((await search.json()).hosts.map((entry: { host: string }) => entry.host)).toEqual([host]);
+
+    const detail = await assetsRoute(await requestAs(`http://localhost/api/assets?host=${encodeURIComponent(host)}`, ['viewer']));
+    expect(detail.status).toBe(200);
+    const { host: asset } = await detail.json();
+    expect(asset.ports.length).toBeGreaterThan(0);
+    expect(asset.ports[0].observations[0]).toMatchObject({ jobId: mockJob.id });
+
+    const missing = await assetsRoute(await requestAs('http://localhost/api/assets?host=unknown.example', ['viewer']));
+    expect(missing.status).toBe(404);
+  });
+});
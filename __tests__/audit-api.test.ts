@@ -0,0 +1,92 @@
+/** @jest-environment node */
+
+import { POST as launchJob } from '@/app/api/jobs/route';
+import { GET as listAudit } from '@/app/api/audit/route';
+import { listAuditEvents, recordAuditEvent } from '@/lib/api/audit';
+import { resetAppConfigCache } from '@/lib/config/env';
+import { requestAs, useTempDataDir } from './support/routes';
+
+const operator = { id: 'olga', username: 'olga', displayName: 'Olga', roles: ['operator'] };
+
+useTempDataDir('redmesh-audit-');
+
+beforeEach(() => {
+  process.env.REDMESH_SCOPE_OPEN = 'true';
+  resetAppConfigCache();
+});
+
+afterEach(() => {
+  delete process.env.REDMESH_SCOPE_OPEN;
+  resetAppConfigCache();
+});
+
+describe('audit log', () => {
+  it('records launches with the session user instead of body-supplied identity', async () => {
+    const response = await launchJob(
+      await requestAs(
+        'http://localhost/api/jobs',
+        ['operator'],
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            name: 'Audited run',
+            summary: 'Audit check',
+            target: '10.0.0.7',
+            portRange: { start: 1, end: 100 },
+            authorized: true,
+            createdByName: 'someone-else'
+          })
+        },
+        'olga'
+      )
+    );
+    expect(response.status).toBe(201);
+    const { job } = await response.json();
+
+    const { entries, total } = await listAuditEvents();
+    expect(total).toBe(1);
+    expect(entries[0]).toMatchObject({
+      action: 'job.launch',
+      outcome: 'success',
+      jobId: job.id,
+      target: '10.0.0.7',
+      actor: { username: 'olga' }
+    });
+    expect(entries[0].payload).toMatchObject({ createdByName: 'olga' });
+  });
+
+  it('filters and paginates newest first', async () => {
+    await recordAuditEvent({ action: 'job.launch', outcome: 'success', user: operator, jobId: 'job-1' });
+    await recordAuditEvent({ action: 'job.stop', outcome: 'success', user: operator, jobId: 'job-1' });
+    await recordAuditEvent({ action: 'job.stop', outcome: 'failure', user: operator, jobId: 'job-2' });
+
+    const stops = await listAuditEvents({ action: 'job.stop' });
+    expect(stops.total).toBe(2);
+    expect(stops.entries.map((entry) => entry.jobId)).toEqual(['job-2', 'job-1']);
+
+    const secondPage = await listAuditEvents({ page: 2, pageSize: 2 });
+    expect(secondPage.entries).toHaveLength(1);
+    expect(secondPage.entries[0].action).toBe('job.launch');
+
+    const future = await listAuditEvents({ from: new Date(Date.now() + 60_000).toISOString() });
+    expect(future.total).toBe(0);
+  });
+
+  it('restricts /api/audit to administrators', async () => {
+    await recordAuditEvent({ action: 'job.purge', outcome: 'success', user: operator, jobId: 'job-3' });
+
+    const denied = await listAudit(await requestAs('http://localhost/api/audit', ['operator'], {}, 'olga'));
+    expect(denied.status).toBe(403);
+
+    const allowed = await listAudit(
+      await requestAs('http://localhost/api/audit?username=OLGA&jobId=job-3', ['admin'], {}, 'root')
+    );
+    expect(allowed.status).toBe(200);
+    const body = await allowed.json();
+    expect(body.total).toBe(1);
+    expect(body.entries[0].action).toBe('job.purge');
+
+    const invalid = await listAudit(await requestAs('http://localhost/api/audit?action=job.delete', ['admin'], {}, 'root'));
+    expect(invalid.status).toBe(400);
+  });
+});
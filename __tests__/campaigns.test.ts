@@ -0,0 +1,120 @@
+/** @jest-environment node */
+
+import path from 'path';
+import { POST as launchJob } from '@/app/api/jobs/route';
+import { GET as listCampaignsRoute } from '@/app/api/campaigns/route';
+import { GET as getCampaignRoute } from '@/app/api/campaigns/[campaignId]/route';
+import { addScopeRule } from '@/lib/api/scope';
+import { listAuditEvents } from '@/lib/api/audit';
+import { getMockJobs } from '@/lib/api/mockData';
+import { resetAppConfigCache } from '@/lib/config/env';
+import { expandTargetEntry, parseTargetList } from '@/lib/domain/targets';
+import { requestAs, useTempDataDir } from './support/routes';
+
+function campaignBody(targets: string | string[]): string {
+  return JSON.stringify({ name: 'Sweep', summary: 'Campaign', targets, portRange: { start: 1, end: 100 }, authorized: true });
+}
+
+describe('parseTargetList', () => {
+  it('expands CIDR blocks without network and broadcast addresses', () => {
+    expect(expandTargetEntry('10.0.0.0/30')).toEqual(['10.0.0.1', '10.0.0.2']);
+    expect(expandTargetEntry('10.0.0.7/32')).toEqual(['10.0.0.7']);
+    expect(expandTargetEntry('10.0.0.0/31')).toEqual(['10.0.0.0', '10.0.0.1']);
+  });
+
+  it('expands full and short dash ranges', () => {
+    expect(expandTargetEntry('10.0.0.1-10.0.0.3')).toEqual(['10.0.0.1', '10.0.0.2', '10.0.0.3']);
+    expect(expandTargetEntry('192.168.1.254-255')).toEqual(['192.168.1.254', '192.168.1.255']);
+    expect(expandTargetEntry('10.0.0.5-3')).toMatch(/ends before it starts/);
+  });
+
+  it('splits lines and commas, skips comments and removes duplicates', () => {
+    const result = parseTargetList('# lab hosts\napi.internal.local, 10.0.0.1\n10.0.0.0/30\nAPI.internal.local');
+    expect(result.errors).toEqual([]);
+    expect(result.targets).toEqual(['api.internal.local', '10.0.0.1', '10.0.0.2']);
+  });
+
+  it('reports invalid entries and lists over the limit', () => {
+    expect(parseTargetList('not_a_host!').errors[0]).toMatch(/not a valid host/);
+    expect(parseTargetList('10.0.0.0/16').errors[0]).toMatch(/more than 256 hosts/);
+    expect(parseTargetList('10.0.0.1-10, 10.0.1.1-10', 15).errors[0]).toMatch(/limit is 15/);
+  });
+});
+
+describe('campaign launches', () => {
+  useTempDataDir('redmesh-campaigns-');
+
+  beforeEach(() => {
+    process.env.REDMESH_SCOPE_OPEN = 'true';
+    resetAppConfigCache();
+  });
+
+  afterEach(() => {
+    delete process.env.REDMESH_SCOPE_OPEN;
+    resetAppConfigCache();
+  });
+
+  it('launches one job per host and groups them under a campaign', async () => {
+    const before = getMockJobs().length;
+    const response = await launchJob(
+      await requestAs('http://localhost/api/jobs', ['operator'], { method: 'POST', body: campaignBody('10.0.0.0/30\nweb.lab.local') })
+    );
+
+    expect(response.status).toBe(201);
+    const { campaign, jobs } = await response.json();
+    expect(jobs).toHaveLength(3);
+    expect(campaign.jobs.map((ref: { target: string }) => ref.target)).toEqual(['10.0.0.1', '10.0.0.2', 'web.lab.local']);
+    expect(jobs[0].displayName).toBe('Sweep (10.0.0.1)');
+    expect(getMockJobs()).toHaveLength(before + 3);
+
+    const { entries } = await listAuditEvents({ action: 'job.launch' });
+    expect(entries).toHaveLength(3);
+    expect(entries.every((entry) => entry.payload?.campaignId === campaign.id)).toBe(true);
+
+    const listed = await (await listCampaignsRoute(await requestAs('http://localhost/api/campaigns', ['viewer']))).json();
+    expect(listed.campaigns).toHaveLength(1);
+    expect(listed.campaigns[0].progress).toMatchObject({ total: 3, running: 3, failed: 0 });
+
+    const detailResponse = await getCampaignRoute(
+      await requestAs(`http://localhost/api/campaigns/${campaign.id}`, ['viewer']),
+      { params: Promise.resolve({ campaignId: campaign.id }) }
+    );
+    expect(detailResponse.status).toBe(200);
+    const detail = await detailResponse.json();
+    expect(detail.jobs).toHaveLength(3);
+    expect(Array.isArray(detail.findings)).toBe(true);
+  });
+
+  it('keeps single-host lists on the plain job path', async () => {
+    const response = await launchJob(
+      await requestAs('http://localhost/api/jobs', ['operator'], { method: 'POST', body: campaignBody(['10.0.0.9']) })
+    );
+    expect(response.status).toBe(201);
+    const payload = await response.json();
+    expect(payload.job.target).toBe('10.0.0.9');
+    expect(payload.campaign).toBeUndefined();
+  });
+
+  it('rejects invalid lists and out-of-scope hosts before launching anything', async () => {
+    const before = getMockJobs().length;
+    const invalid = await launchJob(
+      await requestAs('http://localhost/api/jobs', ['operator'], { method: 'POST', body: campaignBody('10.0.0.1, bad host!') })
+    );
+    expect(invalid.status).toBe(400);
+
+    await addScopeRule({ effect: 'deny', value: '10.0.0.2', createdBy: 'admin' });
+    const outOfScope = await launchJob(
+      await requestAs('http://localhost/api/jobs', ['operator'], { method: 'POST', body: campaignBody('10.0.0.1-3') })
+    );
+    expect(outOfScope.status).toBe(403);
+    expect(getMockJobs()).toHaveLength(before);
+  });
+
+  it('returns 404 for unknown campaigns', async () => {
+    const response = await getCampaignRoute(
+      await requestAs('http://localhost/api/campaigns/missing', ['viewer']),
+      { params: Promise.resolve({ campaignId: 'missing' }) }
+    );
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,142 @@
+/** @jest-environment node */
+
+import { mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import { gzipSync } from 'zlib';
+import { GET as feedStatusRoute, POST as importFeedRoute } from '@/app/api/cves/feed/route';
+import { POST as matchRoute } from '@/app/api/cves/match/route';
+import { resetAppConfigCache } from '@/lib/config/env';
+import { aggregatePorts, extractFindings } from '@/lib/domain/findings';
+import { attachCveFindings, buildCveLookup, cveMatchItems, matchCves, parseNvdFeed } from '@/lib/domain/cves';
+import { requestAs, useTempDataDir } from './support/routes';
+
+const apiFeed = {
+  vulnerabilities: [
+    {
+      cve: {
+        id: 'CVE-2023-38408',
+        published: '2023-07-20T03:15:10.170',
+        descriptions: [{ lang: 'en', value: 'The PKCS#11 feature in ssh-agent in OpenSSH before 9.3p2 has an insufficiently trustworthy search path.' }],
+        metrics: {
+          cvssMetricV31: [
+            { type: 'Primary', cvssData: { baseScore: 9.8, baseSeverity: 'CRITICAL', vectorString: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H' } }
+          ]
+        },
+        configurations: [
+          { nodes: [{ operator: 'OR', cpeMatch: [{ vulnerable: true, criteria: 'cpe:2.3:a:openbsd:openssh:*:*:*:*:*:*:*:*', versionEndExcluding: '9.3p2' }] }] }
+        ]
+      }
+    },
+    {
+      cve: {
+        id: 'CVE-2021-23017',
+        descriptions: [{ lang: 'en', value: 'A security issue in nginx resolver.' }],
+        metrics: { cvssMetricV31: [{ type: 'Primary', cvssData: { baseScore: 7.7, vectorString: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:N/S:C/C:L/I:L/A:H' } }] },
+        configurations: [
+          { nodes: [{ cpeMatch: [{ vulnerable: true, criteria: 'cpe:2.3:a:f5:nginx:*:*:*:*:*:*:*:*', versionStartIncluding: '0.6.18', versionEndExcluding: '1.20.1' }] }] }
+        ]
+      }
+    }
+  ]
+};
+
+const legacyFeed = {
+  CVE_Items: [
+    {
+      cve: { CVE_data_meta: { ID: 'CVE-2018-15473' }, description: { description_data: [{ lang: 'en', value: 'OpenSSH through 7.7 user enumeration.' }] } },
+      impact: { baseMetricV3: { cvssV3: { baseScore: 5.3, baseSeverity: 'MEDIUM', vectorString: 'CVSS:3.0/AV:N/AC:L/PR:N/UI:N/S:U/C:L/I:N/A:N' } } },
+      configurations: { nodes: [{ cpe_match: [{ vulnerable: true, cpe23Uri: 'cpe:2.3:a:openbsd:openssh:7.4:p1:*:*:*:*:*:*' }] }] },
+      publishedDate: '2018-08-17T19:29Z'
+    }
+  ]
+};
+
+describe('CVE feed matching', () => {
+  const records = [...parseNvdFeed(apiFeed), ...parseNvdFeed(legacyFeed)];
+  const lookup = buildCveLookup(records);
+
+  it('matches ranges and exact CPE versions with CVSS scores', () => {
+    expect(records.map((record) => record.id)).toEqual(['CVE-2023-38408', 'CVE-2021-23017', 'CVE-2018-15473']);
+
+    const matches = matchCves(lookup, {}, [
+      { port: 22, product: 'OpenSSH', version: '7.4p1' },
+      { port: 80, product: 'nginx', version: '1.24.0' },
+      { port: 8080, product: 'nginx', version: '1.18.0' }
+    ]);
+    expect(matches.map((match) => [match.port, match.cveId, match.cvssScore])).toEqual([
+      [22, 'CVE-2023-38408', 9.8],
+      [22, 'CVE-2018-15473', 5.3],
+      [8080, 'CVE-2021-23017', 7.7]
+    ]);
+    expect(matches[0]).toMatchObject({ severity: 'CRITICAL', cvssVector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H' });
+    expect(matchCves(lookup, {}, [{ port: 22, product: 'OpenSSH', version: '9.6p1' }])).toEqual([]);
+  });
+
+  it('attaches matches as synthetic findings from service banners', () => {
+    const aggregated = aggregatePorts(
+      { node: { open_ports: [22], service_info: { '22': { _service_info_22: 'SSH-2.0-OpenSSH_7.4p1 Debian' } } } },
+      null
+    );
+    const items = cveMatchItems(aggregated);
+    expect(items).toEqual([{ port: 22, product: 'OpenSSH', version: '7.4p1' }]);
+
+    const findings = extractFindings(attachCveFindings(aggregated, matchCves(lookup, {}, items)));
+    expect(findings).toEqual([
+      expect.objectContaining({ probe: '_cve_match', severity: 'CRITICAL', cve_id: 'CVE-2023-38408', cvss_score: 9.8 }),
+      expect.objectContaining({ probe: '_cve_match', severity: 'MEDIUM', cve_id: 'CVE-2018-15473', cvss_score: 5.3 })
+    ]);
+  });
+});
+
+describe('/api/cves', () => {
+  const dataDir = useTempDataDir('redmesh-cves-');
+
+  beforeEach(() => {
+    process.env.REDMESH_CVE_FEED_DIR = path.join(dataDir(), 'feeds');
+    resetAppConfigCache();
+  });
+
+  afterEach(() => {
+    delete process.env.REDMESH_CVE_FEED_DIR;
+    resetAppConfigCache();
+  });
+
+  it('imports feeds from disk, reports the import date and matches products', async () => {
+    const feedDir = path.join(dataDir(), 'feeds');
+    const match = (roles: string[]) =>
+      requestAs('http://localhost/api/cves/match', roles, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ items: [{ port: 22, product: 'OpenSSH', version: '7.4p1' }] })
+      });
+
+    expect((await importFeedRoute(await requestAs('http://localhost/api/cves/feed', ['admin'], { method: 'POST' }))).status).toBe(404);
+    expect(await (await matchRoute(await match(['viewer']))).json()).toEqual({ importedAt: null, matches: [] });
+
+    mkdirSync(feedDir);
+    writeFileSync(path.join(feedDir, 'nvdcve-2.0-2023.json.gz'), gzipSync(JSON.stringify(apiFeed)));
+    writeFileSync(path.join(feedDir, 'nvdcve-1.1-2018.json'), JSON.stringify(legacyFeed));
+    writeFileSync(path.join(feedDir, 'notes.json'), JSON.stringify({ hello: 'world' }));
+
+    expect((await importFeedRoute(await requestAs('http://localhost/api/cves/feed', ['operator'], { method: 'POST' }))).status).toBe(403);
+    const imported = await importFeedRoute(await requestAs('http://localhost/api/cves/feed', ['admin'], { method: 'POST' }));
+    expect(imported.status).toBe(200);
+    expect((await imported.json()).feed).toMatchObject({
+      importedBy: 'tester',
+      cveCount: 3,
+      sourceFiles: ['nvdcve-1.1-2018.json', 'nvdcve-2.0-2023.json.gz']
+    });
+
+    const status = await (await feedStatusRoute(await requestAs('http://localhost/api/cves/feed', ['viewer']))).json();
+    expect(status.feed).toMatchObject({ importedAt: expect.any(String), feedDir });
+
+    const result = await (await matchRoute(await match(['viewer']))).json();
+    expect(result.importedAt).toBe(status.feed.importedAt);
+    expect(result.matches.map((entry: { cveId: string }) => entry.cveId)).toEqual(['CVE-2023-38408', 'CVE-2018-15473']);
+
+    const invalid = await matchRoute(
+      await requestAs('http://localhost/api/cves/match', ['viewer'], { method: 'POST', body: JSON.stringify({ items: [{ port: 'x' }] }) })
+    );
+    expect(invalid.status).toBe(400);
+  });
+});
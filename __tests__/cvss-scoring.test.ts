@@ -0,0 +1,132 @@
+/** @jest-environment node */
+
+import { PUT as updateTriageRoute } from '@/app/api/findings/triage/route';
+import { loadSourceFindings } from '@/lib/api/jobFindings';
+import type { FindingTriage, Job } from '@/lib/api/types';
+import { compareFindingScores, scoreCvssVector, tryScoreCvssVector } from '@/lib/domain/cvss';
+import { applyCvssVectors } from '@/lib/domain/cvssVectors';
+import { aggregatePorts, extractFindings, findingFingerprint } from '@/lib/domain/findings';
+import { buildDefectDojoReport } from '@/lib/export/defectDojo';
+import { buildSarifLog } from '@/lib/export/sarif';
+import { buildFindingRows } from '@/lib/export/tabular';
+import { normalizeProbeResult } from '@/lib/utils/probeResult';
+import { requestAs, useTempDataDir } from './support/routes';
+
+const JOB = { id: 'job-1234567890', displayName: 'Web audit', target: 'web.lab.local', workers: [] } as unknown as Job;
+
+const REPORTS = {
+  cid: {
+    service_info: {
+      '21': {
+        _service_info_21: {
+          findings: [{ severity: 'HIGH', title: 'Anonymous FTP login allowed', cwe_id: 'CWE-284' }]
+        }
+      },
+      '80': {
+        _web_test_security_headers: {
+          findings: [
+            { severity: 'MEDIUM', title: 'Missing Content-Security-Policy', cwe_id: 'CWE-693' },
+            { severity: 'MEDIUM', title: 'Outdated jQuery', cvss_vector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:C/C:L/I:L/A:N' }
+          ]
+        }
+      }
+    }
+  }
+};
+
+describe('CVSS calculator', () => {
+  it('computes v3.x base scores', () => {
+    expect(scoreCvssVector('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H')).toMatchObject({ score: 9.8, severity: 'CRITICAL' });
+    expect(scoreCvssVector('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:C/C:H/I:H/A:H').score).toBe(10);
+    expect(scoreCvssVector('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:N/I:N/A:H')).toMatchObject({ score: 7.5, severity: 'HIGH' });
+    expect(scoreCvssVector('CVSS:3.1/AV:L/AC:L/PR:L/UI:N/S:U/C:H/I:H/A:H').score).toBe(7.8);
+    expect(scoreCvssVector('CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:C/C:L/I:L/A:N')).toMatchObject({ score: 6.1, severity: 'MEDIUM' });
+    expect(scoreCvssVector('CVSS:3.0/AV:N/AC:L/PR:N/UI:N/S:U/C:N/I:N/A:N')).toMatchObject({ score: 0, severity: 'INFO' });
+  });
+
+  it('computes v4.0 base scores', () => {
+    const score = (vector: string) => scoreCvssVector(`CVSS:4.0/${vector}`).score;
+    expect(score('AV:N/AC:L/AT:N/PR:N/UI:N/VC:H/VI:H/VA:H/SC:H/SI:H/SA:H')).toBe(10);
+    expect(score('AV:N/AC:L/AT:N/PR:N/UI:N/VC:H/VI:H/VA:H/SC:N/SI:N/SA:N')).toBe(9.3);
+    expect(score('AV:N/AC:L/AT:N/PR:L/UI:N/VC:H/VI:H/VA:H/SC:N/SI:N/SA:N')).toBe(8.7);
+    expect(score('AV:L/AC:L/AT:N/PR:L/UI:N/VC:H/VI:H/VA:H/SC:N/SI:N/SA:N')).toBe(8.5);
+    expect(score('AV:N/AC:L/AT:N/PR:N/UI:N/VC:L/VI:N/VA:N/SC:N/SI:N/SA:N')).toBe(6.9);
+    expect(score('AV:N/AC:L/AT:N/PR:N/UI:A/VC:N/VI:N/VA:N/SC:L/SI:L/SA:N')).toBe(5.1);
+    expect(score('AV:N/AC:L/AT:N/PR:N/UI:N/VC:N/VI:N/VA:N/SC:N/SI:N/SA:N')).toBe(0);
+  });
+
+  it('validates vectors and normalizes metric order and case', () => {
+    expect(scoreCvssVector(' cvss:3.1/c:h/i:h/a:h/AV:N/AC:L/PR:N/UI:N/S:U/E:P ').vector).toBe(
+      'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H/E:P'
+    );
+    expect(() => scoreCvssVector('AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H')).toThrow('must start with');
+    expect(() => scoreCvssVector('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H')).toThrow('Missing base metrics: A');
+    expect(() => scoreCvssVector('CVSS:3.1/AV:X/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H')).toThrow('AV must be one of');
+    expect(() => scoreCvssVector('CVSS:4.0/AV:N/AV:N/AC:L/AT:N/PR:N/UI:N/VC:H/VI:H/VA:H/SC:N/SI:N/SA:N')).toThrow('more than once');
+    expect(tryScoreCvssVector('CVSS:3.1/S:U')).toBeNull();
+  });
+});
+
+describe('finding scores', () => {
+  it('fills scores from reported vectors and ranks unscored findings by severity band', () => {
+    const [, csp, jquery] = extractFindings(aggregatePorts(REPORTS, null));
+    expect(jquery.cvss_score).toBe(6.1);
+    expect(normalizeProbeResult(REPORTS.cid.service_info['80']._web_test_security_headers).lines).toContain(
+      'VULNERABILITY: [MEDIUM] Outdated jQuery (CVSS 6.1)'
+    );
+    expect([csp, jquery].sort(compareFindingScores).map((finding) => finding.title)).toEqual([
+      'Outdated jQuery',
+      'Missing Content-Security-Policy'
+    ]);
+  });
+
+  it('applies analyst vectors to the page data and every export', async () => {
+    const vector = 'CVSS:4.0/AV:N/AC:L/AT:N/PR:N/UI:N/VC:H/VI:H/VA:H/SC:N/SI:N/SA:N';
+    const identity = { target: JOB.target, port: 80, probe: '_web_test_security_headers', title: 'Missing Content-Security-Policy', cweId: 'CWE-693' };
+    const triage = [{ ...identity, fingerprint: findingFingerprint(identity), status: 'open', cvssVector: vector } as FindingTriage];
+
+    const findings = extractFindings(applyCvssVectors(aggregatePorts(REPORTS, null), JOB.target, triage));
+    const csp = findings.find((finding) => finding.title === identity.title);
+    expect(csp).toMatchObject({ severity: 'CRITICAL', cvss_score: 9.3, cvss_vector: vector });
+
+    const rows = buildFindingRows(JOB, await loadSourceFindings(JOB, REPORTS, triage), triage);
+    expect(rows.map((row) => [row.title, row.severity, row.cvssScore])).toEqual([
+      ['Anonymous FTP login allowed', 'HIGH', null],
+      ['Missing Content-Security-Policy', 'CRITICAL', 9.3],
+      ['Outdated jQuery', 'MEDIUM', 6.1]
+    ]);
+
+    const sarif = buildSarifLog(JOB, findings).runs[0].results;
+    expect(sarif.map((result) => result.properties['security-severity'])).toEqual(['8.0', '9.3', '6.1']);
+
+    const dojo = buildDefectDojoReport(JOB, findings).findings;
+    expect(dojo[1].severity).toBe('Critical');
+    expect(dojo[1].description).toContain(`**CVSS:** 9.3 (\`${vector}\`)`);
+    expect(dojo[2]).toMatchObject({ cvssv3: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:C/C:L/I:L/A:N', cvssv3_score: 6.1 });
+  });
+});
+
+describe('PUT /api/findings/triage with a CVSS vector', () => {
+  useTempDataDir('redmesh-cvss-');
+
+  const put = async (changes: Record<string, unknown>) =>
+    updateTriageRoute(
+      await requestAs('http://localhost/api/findings/triage', ['operator'], {
+        method: 'PUT',
+        body: JSON.stringify({ target: JOB.target, port: 21, probe: '_service_info_21', title: 'Anonymous FTP login allowed', ...changes })
+      })
+    );
+
+  it('stores the normalized vector, rejects invalid ones and clears on empty string', async () => {
+    const invalid = await put({ cvssVector: 'CVSS:3.1/AV:N' });
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).message).toContain('Invalid CVSS vector');
+
+    const saved = await put({ cvssVector: 'CVSS:3.1/C:H/I:H/A:H/AV:N/AC:L/PR:N/UI:N/S:U' });
+    expect(saved.status).toBe(200);
+    expect((await saved.json()).record).toMatchObject({ status: 'open', cvssVector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H' });
+
+    const cleared = await put({ cvssVector: '' });
+    expect((await cleared.json()).record.cvssVector).toBeUndefined();
+  });
+});
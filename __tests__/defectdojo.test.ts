@@ -0,0 +1,151 @@
+/** @jest-environment node */
+
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { POST as pushRoute } from '@/app/api/jobs/[jobId]/defectdojo/route';
+import { GET as exportRoute } from '@/app/api/jobs/[jobId]/export/route';
+import { resetAppConfigCache } from '@/lib/config/env';
+import { getMockJobs } from '@/lib/api/mockData';
+import type { FindingTriage, Job } from '@/lib/api/types';
+import { aggregatePorts, extractFindings, findingFingerprint } from '@/lib/domain/findings';
+import { buildDefectDojoReport } from '@/lib/export/defectDojo';
+import { requestAs, useTempDataDir } from './support/routes';
+
+const JOB = {
+  id: 'job-1234567890',
+  displayName: 'Web audit',
+  target: 'web.lab.local',
+  workers: [],
+  passHistory: [{ passNr: 1, completedAt: '2025-03-04T10:00:00Z', reports: {} }]
+} as unknown as Job;
+
+const FINDINGS = extractFindings(
+  aggregatePorts(
+    {
+      cid: {
+        service_info: {
+          '21': {
+            _service_info_21: {
+              findings: [
+                {
+                  severity: 'HIGH',
+                  title: 'Anonymous FTP login allowed',
+                  description: 'The server accepts the anonymous user.',
+                  evidence: '230 Login successful',
+                  remediation: 'Disable anonymous login.',
+                  cwe_id: 'CWE-284',
+                  owasp_id: 'A01:2021'
+                }
+              ]
+            }
+          },
+          '8081': { _service_info_generic: { findings: [{ severity: 'INFO', title: 'Banner disclosed' }] } }
+        }
+      }
+    },
+    null
+  )
+);
+
+describe('buildDefectDojoReport', () => {
+  it('maps findings, endpoints and triage status onto generic import fields', () => {
+    const fingerprint = findingFingerprint({
+      target: JOB.target,
+      port: 21,
+      probe: '_service_info_21',
+      title: 'Anonymous FTP login allowed',
+      cweId: 'CWE-284'
+    });
+    const { findings } = buildDefectDojoReport(JOB, FINDINGS, {
+      triage: [{ fingerprint, status: 'false_positive' } as FindingTriage]
+    });
+
+    expect(findings[0]).toMatchObject({
+      title: 'Anonymous FTP login allowed',
+      severity: 'High',
+      mitigation: 'Disable anonymous login.',
+      references: 'OWASP A01:2021',
+      cwe: 284,
+      date: '2025-03-04',
+      active: false,
+      false_p: true,
+      dynamic_finding: true,
+      unique_id_from_tool: fingerprint,
+      vuln_id_from_tool: '_service_info_21',
+      endpoints: [{ host: 'web.lab.local', port: 21, protocol: 'ftp' }]
+    });
+    expect(findings[0].description).toContain('230 Login successful');
+    expect(findings[1]).toMatchObject({ severity: 'Info', active: true, false_p: false });
+    expect(findings[1].cwe).toBeUndefined();
+  });
+});
+
+describe('DefectDojo routes', () => {
+  useTempDataDir('redmesh-defectdojo-');
+  let server: Server | null = null;
+
+  beforeEach(() => {
+    delete process.env.DEFECTDOJO_URL;
+    delete process.env.DEFECTDOJO_API_KEY;
+    delete process.env.DEFECTDOJO_ENGAGEMENT_ID;
+    resetAppConfigCache();
+  });
+
+  afterEach(async () => {
+    if (server) {
+      await new Promise((resolve) => server?.close(resolve));
+      server = null;
+    }
+    delete process.env.DEFECTDOJO_URL;
+    delete process.env.DEFECTDOJO_API_KEY;
+    delete process.env.DEFECTDOJO_ENGAGEMENT_ID;
+    resetAppConfigCache();
+  });
+
+  it('downloads the generic findings import JSON', async () => {
+    const [job] = getMockJobs();
+    const response = await exportRoute(
+      await requestAs(`http://localhost/api/jobs/${job.id}/export?format=defectdojo`, ['viewer']),
+      { params: Promise.resolve({ jobId: job.id }) }
+    );
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-disposition')).toContain('-defectdojo.json');
+    expect(Array.isArray((await response.json()).findings)).toBe(true);
+  });
+
+  it('pushes to a DefectDojo-compatible endpoint', async () => {
+    const [job] = getMockJobs();
+    const params = { params: Promise.resolve({ jobId: job.id }) };
+    const push = async (roles: string[]) =>
+      pushRoute(await requestAs(`http://localhost/api/jobs/${job.id}/defectdojo`, roles, { method: 'POST' }), params);
+
+    expect((await push(['operator'])).status).toBe(501);
+
+    const received: Array<{ url?: string; headers: IncomingHttpHeaders; body: string }> = [];
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ url: req.url, headers: req.headers, body });
+        res.writeHead(201, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ test: 42, engagement_id: 7 }));
+      });
+    });
+    await new Promise<void>((resolve) => server?.listen(0, '127.0.0.1', resolve));
+    process.env.DEFECTDOJO_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    process.env.DEFECTDOJO_API_KEY = 'dd-secret';
+    process.env.DEFECTDOJO_ENGAGEMENT_ID = '7';
+    resetAppConfigCache();
+
+    expect((await push(['viewer'])).status).toBe(403);
+
+    const response = await push(['operator']);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ testId: 42 });
+    expect(received).toHaveLength(1);
+    expect(received[0].url).toBe('/api/v2/import-scan/');
+    expect(received[0].headers.authorization).toBe('Token dd-secret');
+    expect(received[0].body).toContain('Generic Findings Import');
+    expect(received[0].body).toContain('"findings":');
+  });
+});
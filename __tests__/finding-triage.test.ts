@@ -0,0 +1,117 @@
+/** @jest-environment node */
+
+import { GET as listTriageRoute, PUT as updateTriageRoute } from '@/app/api/findings/triage/route';
+import type { FindingTriage } from '@/lib/api/types';
+import { findingFingerprint, reopenRegressions } from '@/lib/domain/findings';
+import type { FlatFinding } from '@/lib/domain/findings';
+import { requestAs, useTempDataDir } from './support/routes';
+
+const FINDING = {
+  target: 'ftp.lab.local',
+  port: 21,
+  probe: '_service_info_ftp',
+  title: 'Anonymous FTP login allowed',
+  cweId: 'CWE-284'
+};
+
+function triageBody(changes: Record<string, unknown>): string {
+  return JSON.stringify({ ...FINDING, ...changes });
+}
+
+describe('findingFingerprint', () => {
+  it('ignores target case and title whitespace but not the port or CWE', () => {
+    const base = findingFingerprint(FINDING);
+    expect(base).toMatch(/^[0-9a-f]{16}$/);
+    expect(findingFingerprint({ ...FINDING, target: 'FTP.lab.local', title: ' Anonymous  FTP login allowed' })).toBe(base);
+    expect(findingFingerprint({ ...FINDING, port: 2121 })).not.toBe(base);
+    expect(findingFingerprint({ ...FINDING, cweId: undefined })).not.toBe(base);
+  });
+});
+
+describe('reopenRegressions', () => {
+  const record = (status: FindingTriage['status'], fixedAt?: string) =>
+    ({
+      ...FINDING,
+      fingerprint: findingFingerprint(FINDING),
+      status,
+      fixedAt,
+      comments: [],
+      createdAt: '2024-03-01T00:00:00.000Z',
+      updatedAt: '2024-03-01T00:00:00.000Z',
+      updatedBy: 'alice'
+    }) as FindingTriage;
+  const seen = [{ port: 21, probe: FINDING.probe, title: FINDING.title, cwe_id: FINDING.cweId, severity: 'HIGH' } as FlatFinding];
+  const job = (completedAt: string) => ({ target: FINDING.target, passHistory: [{ passNr: 1, completedAt, reports: {} }] });
+
+  it('reopens fixed findings that a later pass still reports', () => {
+    const [reopened] = reopenRegressions([record('fixed', '2024-03-02T00:00:00.000Z')], job('2024-03-03T00:00:00.000Z'), seen);
+    expect(reopened).toMatchObject({ status: 'open', regression: true });
+  });
+
+  it('keeps the fix when the pass predates it, the finding is gone or the status is not fixed', () => {
+    const fixed = record('fixed', '2024-03-02T00:00:00.000Z');
+    expect(reopenRegressions([fixed], job('2024-03-01T12:00:00.000Z'), seen)[0]).toBe(fixed);
+    expect(reopenRegressions([fixed], job('2024-03-03T00:00:00.000Z'), [])[0]).toBe(fixed);
+    const accepted = record('accepted_risk');
+    expect(reopenRegressions([accepted], job('2024-03-03T00:00:00.000Z'), seen)[0]).toBe(accepted);
+  });
+});
+
+describe('finding triage API', () => {
+  useTempDataDir('redmesh-triage-');
+
+  it('creates a record on first update and keeps comments on later ones', async () => {
+    const first = await updateTriageRoute(
+      await requestAs('http://localhost/api/findings/triage', ['operator'], {
+        method: 'PUT',
+        body: triageBody({ status: 'confirmed', assignee: 'alice' })
+      })
+    );
+    expect(first.status).toBe(200);
+    const { record } = await first.json();
+    expect(record).toMatchObject({ fingerprint: findingFingerprint(FINDING), status: 'confirmed', assignee: 'alice' });
+
+    await updateTriageRoute(
+      await requestAs('http://localhost/api/findings/triage', ['operator'], {
+        method: 'PUT',
+        body: triageBody({ comment: 'Mirror is intentional.', status: 'accepted_risk', assignee: '' })
+      })
+    );
+
+    const listed = await listTriageRoute(
+      await requestAs('http://localhost/api/findings/triage?target=FTP.LAB.LOCAL', ['viewer'])
+    );
+    const { records } = await listed.json();
+    expect(records).toHaveLength(1);
+    expect(records[0].status).toBe('accepted_risk');
+    expect(records[0].assignee).toBeUndefined();
+    expect(records[0].comments).toEqual([
+      expect.objectContaining({ author: 'tester', body: 'Mirror is intentional.' })
+    ]);
+
+    const fixed = await updateTriageRoute(
+      await requestAs('http://localhost/api/findings/triage', ['operator'], { method: 'PUT', body: triageBody({ status: 'fixed' }) })
+    );
+    expect((await fixed.json()).record.fixedAt).toEqual(expect.any(String));
+
+    const other = await listTriageRoute(await requestAs('http://localhost/api/findings/triage?target=web.lab.local', ['viewer']));
+    expect((await other.json()).records).toEqual([]);
+  });
+
+  it('rejects viewers and invalid updates', async () => {
+    const forbidden = await updateTriageRoute(
+      await requestAs('http://localhost/api/findings/triage', ['viewer'], { method: 'PUT', body: triageBody({ status: 'fixed' }) })
+    );
+    expect(forbidden.status).toBe(403);
+
+    const badStatus = await updateTriageRoute(
+      await requestAs('http://localhost/api/findings/triage', ['operator'], { method: 'PUT', body: triageBody({ status: 'ignored' }) })
+    );
+    expect(badStatus.status).toBe(400);
+
+    const empty = await updateTriageRoute(
+      await requestAs('http://localhost/api/findings/triage', ['operator'], { method: 'PUT', body: triageBody({}) })
+    );
+    expect(empty.status).toBe(400);
+  });
+});
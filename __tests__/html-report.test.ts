@@ -0,0 +1,97 @@
+/** @jest-environment node */
+
+import type { Job, LlmAnalysis } from '@/lib/api/types';
+import { getMockJobs, resetMockJobs } from '@/lib/api/mockData';
+import { aggregatePorts } from '@/lib/domain/findings';
+import { markdownToHtml, renderJobHtmlReport } from '@/lib/html/generateJobHtmlReport';
+
+const REPORTS = {
+  cid: {
+    open_ports: [22, 8080],
+    service_info: {
+      '22': {
+        _service_info_22: {
+          banner: 'SSH-2.0-<script>alert(1)</script>',
+          findings: [
+            {
+              severity: 'HIGH',
+              title: 'Weak key exchange',
+              description: 'diffie-hellman-group1-sha1 offered',
+              evidence: 'kex: <b>group1</b>',
+              remediation: 'Disable legacy KEX.',
+              cwe_id: 'CWE-327'
+            }
+          ]
+        }
+      },
+      '8080': {
+        _service_info_generic: {
+          findings: [
+            { severity: 'INFO', title: 'Banner disclosed' },
+            { severity: '"><img src=x onerror=alert(2)>', title: 'Unknown severity' }
+          ]
+        }
+      }
+    }
+  }
+};
+
+function render(overrides: Partial<Job> = {}, llmAnalyses?: Record<number, LlmAnalysis>) {
+  resetMockJobs();
+  const [job] = getMockJobs();
+  return renderJobHtmlReport({
+    job: { ...job, ...overrides },
+    reports: {},
+    aggregatedPorts: aggregatePorts(REPORTS, null),
+    workerActivity: [{ nodeAddress: '0xai_node', startPort: 1, endPort: 1024, progress: 100, openPorts: [22, 8080], done: true }],
+    llmAnalyses,
+    suppressedCount: 2,
+    now: new Date('2025-03-04T10:00:00Z')
+  });
+}
+
+describe('renderJobHtmlReport', () => {
+  it('renders a standalone document with escaped scan data', () => {
+    const html = render({ displayName: 'Audit <img src=x onerror=alert(1)>', riskScore: 72 });
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).not.toContain('<script>alert(1)</script>');
+    expect(html).not.toContain('<img src=x');
+    expect(html).not.toContain('onerror=alert(2)');
+    expect(html).toContain('SSH-2.0-&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).toContain('Audit &lt;img src=x onerror=alert(1)&gt;');
+    expect(html).toContain('High Risk');
+    expect(html).toContain('2 findings hidden by suppression rules');
+    expect(html).toContain('<code>0xai_node</code>');
+    expect(html).not.toMatch(/<(link|img)\b|\bsrc=["']?https?:/);
+  });
+
+  it('prints numeric job fields only when they are numbers', () => {
+    const html = render({ riskScore: '<b>99</b>' as unknown as number });
+
+    expect(html).not.toContain('<b>99</b>');
+    expect(html).toContain('<td>1 - 1024</td>');
+  });
+
+  it('groups findings by port with collapsible evidence and a severity filter', () => {
+    const html = render();
+
+    expect(html).toContain('<section class="port" data-severities="HIGH">');
+    expect(html).toContain('<li class="finding" data-severity="HIGH">');
+    expect(html).toContain('<details><summary>Evidence</summary><pre>kex: &lt;b&gt;group1&lt;/b&gt;</pre></details>');
+    expect(html).toContain('<input type="checkbox" data-severity="CRITICAL" checked>');
+    expect(html).toContain("document.querySelectorAll('.finding')");
+  });
+
+  it('renders the LLM analysis markdown without passing raw HTML through', () => {
+    const html = markdownToHtml(
+      ['## Summary', '- **Critical**: open `telnet`', '<iframe src="x"></iframe>', '[link](javascript:alert(1))', '```', '<pre>', '```'].join('\n')
+    );
+
+    expect(html).toContain('<h4>Summary</h4>');
+    expect(html).toContain('<ul><li><strong>Critical</strong>: open <code>telnet</code></li></ul>');
+    expect(html).toContain('<p>&lt;iframe src=&quot;x&quot;&gt;&lt;/iframe&gt;</p>');
+    expect(html).not.toContain('href="javascript');
+    expect(html).toContain('<pre><code>&lt;pre&gt;</code></pre>');
+  });
+});
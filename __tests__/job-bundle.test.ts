@@ -0,0 +1,129 @@
+/** @jest-environment node */
+
+import { GET as bundleRoute } from '@/app/api/jobs/[jobId]/bundle/route';
+import { GET as jobRoute } from '@/app/api/jobs/[jobId]/route';
+import { GET as exportRoute } from '@/app/api/jobs/[jobId]/export/route';
+import { POST as importRoute } from '@/app/api/bundles/route';
+import { getMockJobs } from '@/lib/api/mockData';
+import type { Job } from '@/lib/api/types';
+import { JobBundle, buildJobBundle, verifyJobBundle } from '@/lib/export/bundle';
+import { requestAs, useTempDataDir } from './support/routes';
+
+const JOB = {
+  id: 'job-1234567890',
+  displayName: 'Web audit',
+  target: 'web.lab.local',
+  status: 'COMPLETED',
+  workers: [],
+  timeline: [{ type: 'created', label: 'Created', date: '2025-01-01T00:00:00Z' }],
+  passHistory: [
+    { passNr: 1, completedAt: '2025-01-01T01:00:00Z', reports: { 'node-a': 'cid-1' }, llmAnalysisCid: 'cid-llm-1' },
+    { passNr: 2, completedAt: '2025-01-02T01:00:00Z', reports: { 'node-a': 'cid-2', 'node-b': 'cid-3' }, quickSummaryCid: 'cid-qs-2' }
+  ]
+} as unknown as Job;
+
+const SOURCE = {
+  job: JOB,
+  reports: {
+    'cid-1': { open_ports: [21] },
+    'cid-2': { open_ports: [21, 80] },
+    'cid-3': { open_ports: [443] },
+    'cid-x': { localWorkerId: 'node-c', open_ports: [] }
+  },
+  llmAnalyses: { 1: { content: '# Analysis' } },
+  quickSummaries: { 2: { content: 'All good.' } }
+};
+
+describe('buildJobBundle', () => {
+  it('keys reports by pass and node and keeps their CIDs', () => {
+    const bundle = buildJobBundle(SOURCE, { exportedBy: 'tester', now: new Date('2025-02-01T00:00:00Z') });
+
+    expect(bundle).toMatchObject({ format: 'redmesh-job-bundle', schemaVersion: 1, exportedAt: '2025-02-01T00:00:00.000Z' });
+    expect(bundle.reports['2']['node-b']).toEqual({ cid: 'cid-3', report: { open_ports: [443] } });
+    expect(bundle.reports.unassigned['node-c'].cid).toBe('cid-x');
+    expect(bundle.llmAnalyses['1'].cid).toBe('cid-llm-1');
+    expect(bundle.quickSummaries['2'].cid).toBe('cid-qs-2');
+    expect(bundle.checksums.reports['1']['node-a']).toMatch(/^[0-9a-f]{64}$/);
+    expect(verifyJobBundle(JSON.parse(JSON.stringify(bundle)))).toEqual([]);
+  });
+
+  it('detects tampered content and unknown schema versions', () => {
+    const bundle: JobBundle = JSON.parse(JSON.stringify(buildJobBundle(SOURCE, { exportedBy: 'tester' })));
+
+    bundle.reports['2']['node-a'].report.open_ports = [22];
+    expect(verifyJobBundle(bundle)).toEqual(['Report checksum mismatch for pass 2, node node-a.']);
+
+    expect(verifyJobBundle({ ...bundle, schemaVersion: 99 })[0]).toContain('Unsupported bundle schema version 99');
+    expect(verifyJobBundle({ format: 'other' })).toEqual(['Not a redmesh-job-bundle document.']);
+    expect(verifyJobBundle({ ...bundle, reports: { '1': null } })).toEqual(['Reports of pass 1 are not an object.']);
+    expect(verifyJobBundle({ ...bundle, reports: { '1': { 'node-a': { cid: 'cid-1' } } } })).toEqual([
+      'Report for pass 1, node node-a is malformed.'
+    ]);
+    expect(verifyJobBundle({ ...bundle, quickSummaries: { '2': null } })).toEqual(['Quick summary for pass 2 is malformed.']);
+  });
+});
+
+describe('job bundle routes', () => {
+  useTempDataDir('redmesh-bundle-');
+
+  it('exports a job and serves an imported bundle once the job is gone', async () => {
+    const [job] = getMockJobs();
+    const exported = await bundleRoute(await requestAs(`http://localhost/api/jobs/${job.id}/bundle`, ['viewer']), {
+      params: Promise.resolve({ jobId: job.id })
+    });
+    expect(exported.status).toBe(200);
+    expect(exported.headers.get('content-disposition')).toContain('-bundle.json');
+    const bundle: JobBundle = await exported.json();
+    expect(bundle.job.id).toBe(job.id);
+
+    const archivedId = 'purged-job-0001';
+    const archivedBundle = buildJobBundle({ ...SOURCE, job: { ...JOB, id: archivedId } }, { exportedBy: 'tester' });
+    const post = (body: unknown, roles: string[]) =>
+      requestAs('http://localhost/api/bundles', roles, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      }).then(importRoute);
+
+    expect((await post(archivedBundle, ['viewer'])).status).toBe(403);
+    expect((await post({ ...archivedBundle, exportedBy: 'someone else' }, ['operator'])).status).toBe(400);
+    const malformed = await post({ ...archivedBundle, reports: { '1': null } }, ['operator']);
+    expect(malformed.status).toBe(400);
+    expect((await malformed.json()).message).toContain('Reports of pass 1 are not an object.');
+
+    const badJob = buildJobBundle(
+      { ...SOURCE, job: { ...JOB, id: archivedId, workers: {}, timeline: 'today', passHistory: null } as unknown as Job },
+      { exportedBy: 'tester' }
+    );
+    const rejectedJob = await post(badJob, ['operator']);
+    expect(rejectedJob.status).toBe(400);
+    const { message } = await rejectedJob.json();
+    expect(message).toContain('Job workers must be an array.');
+    expect(message).toContain('Job timeline must be an array.');
+    expect(message).toContain('Job passHistory must be an array.');
+    expect((await post(archivedBundle, ['operator'])).status).toBe(201);
+
+    const response = await jobRoute(
+      await requestAs(`http://localhost/api/jobs/${archivedId}?includeReports=true`, ['viewer']),
+      { params: Promise.resolve({ jobId: archivedId }) }
+    );
+    expect(response.status).toBe(200);
+    const payload = await response.json();
+    expect(payload.job.displayName).toBe('Web audit');
+    expect(Object.keys(payload.reports).sort()).toEqual(['cid-1', 'cid-2', 'cid-3', 'cid-x']);
+    expect(payload.llmAnalyses['1']).toEqual({ content: '# Analysis' });
+    expect(payload.archived).toMatchObject({ jobId: archivedId, importedBy: 'tester' });
+
+    const exportedArchive = await exportRoute(
+      await requestAs(`http://localhost/api/jobs/${archivedId}/export?format=csv`, ['viewer']),
+      { params: Promise.resolve({ jobId: archivedId }) }
+    );
+    expect(exportedArchive.status).toBe(200);
+
+    const rebundled = await bundleRoute(await requestAs(`http://localhost/api/jobs/${archivedId}/bundle`, ['viewer']), {
+      params: Promise.resolve({ jobId: archivedId })
+    });
+    expect(rebundled.status).toBe(200);
+    expect(verifyJobBundle(await rebundled.json())).toEqual([]);
+  });
+});
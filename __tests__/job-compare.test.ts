@@ -0,0 +1,109 @@
+/** @jest-environment node */
+
+import { GET as compareRoute } from '@/app/api/jobs/compare/route';
+import { resetAppConfigCache } from '@/lib/config/env';
+import { getMockJobs, resetMockJobs } from '@/lib/api/mockData';
+import type { Job, WorkerReport } from '@/lib/api/types';
+import { compareJobs } from '@/lib/domain/jobCompare';
+import { requestAs } from './support/routes';
+
+function job(id: string, target: string): Job {
+  return { id, target, workers: [] } as unknown as Job;
+}
+
+const BASELINE = {
+  'cid-1': {
+    open_ports: [21, 80],
+    service_info: {
+      '21': { _service_info_ftp: { banner: 'vsFTPd 2.3.4', findings: [{ severity: 'CRITICAL', title: 'Backdoored vsFTPd' }] } },
+      '80': {
+        _service_info_http: {
+          server: 'nginx/1.18.0',
+          findings: [
+            { severity: 'LOW', title: 'Directory listing enabled' },
+            { severity: 'MEDIUM', title: 'Missing security headers' }
+          ]
+        }
+      }
+    }
+  }
+} as unknown as Record<string, WorkerReport>;
+
+const RESCAN = {
+  'cid-2': {
+    open_ports: [80, 8080],
+    service_info: {
+      '80': {
+        _service_info_http: {
+          server: 'nginx/1.24.0',
+          findings: [
+            { severity: 'HIGH', title: 'Directory listing enabled' },
+            { severity: 'MEDIUM', title: 'Missing security headers' }
+          ]
+        }
+      },
+      '8080': { _service_info_http: { findings: [{ severity: 'MEDIUM', title: 'Admin console exposed' }] } }
+    }
+  }
+} as unknown as Record<string, WorkerReport>;
+
+describe('compareJobs', () => {
+  it('aligns ports and flags fixed, regressed, new and persisting findings', () => {
+    const comparison = compareJobs(
+      { job: job('base', 'app.lab.local'), reports: BASELINE },
+      { job: job('rescan', 'APP.lab.local'), reports: RESCAN }
+    );
+
+    expect(comparison.sameTarget).toBe(true);
+    expect(comparison.ports.map((port) => [port.port, port.state])).toEqual([
+      [21, 'closed'],
+      [80, 'unchanged'],
+      [8080, 'opened']
+    ]);
+    expect(comparison.ports[1].changes).toEqual([
+      { port: 80, probe: '_service_info_http', field: 'server', before: 'nginx/1.18.0', after: 'nginx/1.24.0' }
+    ]);
+    expect(comparison.findings.map((finding) => [finding.state, finding.title])).toEqual([
+      ['regressed', 'Directory listing enabled'],
+      ['new', 'Admin console exposed'],
+      ['persisting', 'Missing security headers'],
+      ['fixed', 'Backdoored vsFTPd']
+    ]);
+    expect(comparison.summary).toEqual({ fixed: 1, new: 1, regressed: 1, persisting: 1, openedPorts: 1, closedPorts: 1 });
+  });
+});
+
+describe('GET /api/jobs/compare', () => {
+  beforeEach(() => {
+    delete process.env.EE_REDMESH_API_URL;
+    delete process.env.EE_CHAINSTORE_API_URL;
+    delete process.env.EE_R1FS_API_URL;
+    delete process.env.EE_HOST_ID;
+    delete process.env.REDMESH_TOKEN;
+    resetAppConfigCache();
+    resetMockJobs();
+  });
+
+  it('validates the job ids', async () => {
+    const [first] = getMockJobs();
+    for (const query of [`a=${first.id}`, `a=${first.id}&b=${first.id}`]) {
+      const response = await compareRoute(await requestAs(`http://localhost/api/jobs/compare?${query}`, ['viewer']));
+      expect(response.status).toBe(400);
+    }
+
+    const missing = await compareRoute(await requestAs(`http://localhost/api/jobs/compare?a=${first.id}&b=missing`, ['viewer']));
+    expect(missing.status).toBe(404);
+  });
+
+  it('returns the comparison together with both jobs', async () => {
+    const [first, second] = getMockJobs();
+    const response = await compareRoute(
+      await requestAs(`http://localhost/api/jobs/compare?a=${first.id}&b=${second.id}`, ['viewer'])
+    );
+    expect(response.status).toBe(200);
+    const payload = await response.json();
+    expect(payload.comparison).toMatchObject({ baselineJobId: first.id, currentJobId: second.id });
+    expect(payload.baseline.job.id).toBe(first.id);
+    expect(payload.current.job.id).toBe(second.id);
+  });
+});
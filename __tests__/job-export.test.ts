@@ -0,0 +1,161 @@
+/** @jest-environment node */
+
+import { GET as exportRoute } from '@/app/api/jobs/[jobId]/export/route';
+import { getMockJobs } from '@/lib/api/mockData';
+import { loadSourceFindings } from '@/lib/api/jobFindings';
+import type { FindingTriage, Job, SuppressionRule } from '@/lib/api/types';
+import { aggregatePorts, extractFindings, findingFingerprint } from '@/lib/domain/findings';
+import { buildSarifLog } from '@/lib/export/sarif';
+import { FINDING_COLUMNS, buildFindingRows, buildPortRows, toCsv } from '@/lib/export/tabular';
+import { buildXlsx } from '@/lib/export/xlsx';
+import { requestAs, useTempDataDir } from './support/routes';
+
+const JOB = { id: 'job-1234567890', displayName: 'Web audit', target: 'web.lab.local', workers: [] } as unknown as Job;
+
+const FINDINGS = extractFindings(
+  aggregatePorts(
+    {
+      cid: {
+        service_info: {
+          '21': {
+            _service_info_21: {
+              findings: [{ severity: 'HIGH', title: 'Anonymous FTP login allowed', cwe_id: 'CWE-284', owasp_id: 'A01:2021' }]
+            }
+          },
+          '80': {
+            _web_test_security_headers: {
+              findings: [
+                { severity: 'MEDIUM', title: 'Missing Content-Security-Policy', cwe_id: 'CWE-693' },
+                { severity: 'INFO', title: 'Server header present' }
+              ]
+            }
+          }
+        }
+      }
+    },
+    null
+  )
+);
+
+describe('buildSarifLog', () => {
+  it('maps probes to rules and findings to located results', () => {
+    const log = buildSarifLog(JOB, FINDINGS);
+    const [run] = log.runs;
+
+    expect(log.version).toBe('2.1.0');
+    expect(run.tool.driver.rules.map((rule) => rule.id)).toEqual(['_service_info_21', '_web_test_security_headers']);
+    expect(run.tool.driver.rules[1].properties.tags).toEqual(['security', 'external/cwe/cwe-693']);
+    expect(run.results.map((result) => [result.ruleIndex, result.level])).toEqual([
+      [0, 'error'],
+      [1, 'warning'],
+      [1, 'note']
+    ]);
+    expect(run.results[0]).toMatchObject({
+      message: { text: 'Anonymous FTP login allowed' },
+      locations: [{ physicalLocation: { artifactLocation: { uri: 'web.lab.local:21' } } }],
+      properties: { severity: 'HIGH', tags: ['security', 'external/cwe/cwe-284', 'external/owasp/A01:2021'] }
+    });
+    expect(run.results[0].suppressions).toBeUndefined();
+  });
+
+  it('marks findings hidden by an active suppression rule as accepted', () => {
+    const rule: SuppressionRule = {
+      id: 'rule-1',
+      port: 80,
+      severity: 'INFO',
+      justification: 'Header is required by the load balancer',
+      expiresAt: '2099-01-01T00:00:00Z',
+      createdAt: '2025-01-01T00:00:00Z',
+      createdBy: 'tester'
+    };
+    const { results } = buildSarifLog(JOB, FINDINGS, { suppressionRules: [rule] }).runs[0];
+    expect(results.filter((result) => result.suppressions)).toEqual([
+      expect.objectContaining({
+        message: { text: 'Server header present' },
+        suppressions: [{ kind: 'external', status: 'accepted', justification: 'Header is required by the load balancer' }]
+      })
+    ]);
+  });
+});
+
+describe('tabular exports', () => {
+  const job = {
+    ...JOB,
+    passHistory: [
+      { passNr: 1, completedAt: '2025-01-01T00:00:00Z', reports: { 'node-a': 'cid-1' } },
+      { passNr: 2, completedAt: '2025-01-02T00:00:00Z', reports: { 'node-a': 'cid-2', 'node-b': 'cid-3' } }
+    ]
+  } as Job;
+  const ftp = { _service_info_21: { banner: '=cmd|vsFTPd 3.0.3', findings: [{ severity: 'HIGH', title: 'Anonymous, "open" login' }] } };
+  const reports = {
+    'cid-1': { open_ports: [21], service_info: { '21': ftp } },
+    'cid-2': { open_ports: [21], service_info: { '21': ftp } },
+    'cid-3': { open_ports: [443] }
+  };
+
+  it('lists every finding per pass and worker with its triage status', async () => {
+    const fingerprint = findingFingerprint({ target: job.target, port: 21, probe: '_service_info_21', title: 'Anonymous, "open" login' });
+    const triage = [{ fingerprint, status: 'confirmed' } as FindingTriage];
+    const rows = buildFindingRows(job, await loadSourceFindings(job, reports, triage), triage);
+    expect(rows.map((row) => [row.pass, row.worker, row.port, row.protocol, row.triageStatus])).toEqual([
+      [1, 'node-a', 21, 'FTP', 'confirmed'],
+      [2, 'node-a', 21, 'FTP', 'confirmed']
+    ]);
+
+    expect(buildPortRows(job, reports).map((row) => [row.pass, row.worker, row.port, row.banner])).toEqual([
+      [1, 'node-a', 21, '=cmd|vsFTPd 3.0.3'],
+      [2, 'node-a', 21, '=cmd|vsFTPd 3.0.3'],
+      [2, 'node-b', 443, '']
+    ]);
+  });
+
+  it('escapes CSV cells and neutralises spreadsheet formulas', async () => {
+    const csv = toCsv(FINDING_COLUMNS, buildFindingRows(job, await loadSourceFindings(job, reports, [])).slice(0, 1));
+    const [header, row] = csv.trim().split('\r\n');
+    expect(header.split(',')).toHaveLength(FINDING_COLUMNS.length);
+    expect(row).toContain('"Anonymous, ""open"" login"');
+    expect(toCsv([{ key: 'banner', header: 'Banner' }], [{ banner: '=cmd|calc' }])).toBe("Banner\r\n'=cmd|calc\r\n");
+  });
+
+  it('packs sheets into an XLSX archive', () => {
+    const workbook = buildXlsx([
+      { name: 'Findings', header: ['Port', 'Title'], rows: [[21, 'A & B']] },
+      { name: 'Open ports', header: ['Port'], rows: [[443]] }
+    ]);
+    const text = workbook.toString('latin1');
+    expect(workbook.subarray(0, 2).toString()).toBe('PK');
+    expect(text).toContain('xl/worksheets/sheet2.xml');
+    expect(text).toContain('<sheet name="Open ports" sheetId="2" r:id="rId2"/>');
+    expect(text).toContain('<t xml:space="preserve">A &amp; B</t>');
+  });
+});
+
+describe('GET /api/jobs/[jobId]/export', () => {
+  useTempDataDir('redmesh-export-');
+
+  it('rejects unknown formats and downloads SARIF, CSV and XLSX', async () => {
+    const [job] = getMockJobs();
+    const params = { params: Promise.resolve({ jobId: job.id }) };
+
+    const invalid = await exportRoute(await requestAs(`http://localhost/api/jobs/${job.id}/export?format=docx`, ['viewer']), params);
+    expect(invalid.status).toBe(400);
+
+    const response = await exportRoute(await requestAs(`http://localhost/api/jobs/${job.id}/export?format=sarif`, ['viewer']), params);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/sarif+json');
+    expect(response.headers.get('content-disposition')).toContain('.sarif');
+    const log = await response.json();
+    expect(log.runs[0].automationDetails.id).toBe(`redmesh/${job.id}`);
+
+    const findingsCsv = await exportRoute(await requestAs(`http://localhost/api/jobs/${job.id}/export?format=csv`, ['viewer']), params);
+    expect((await findingsCsv.text()).split('\r\n')[0]).toMatch(/^Job,Pass,Worker node,Port,/);
+
+    const csv = await exportRoute(await requestAs(`http://localhost/api/jobs/${job.id}/export?format=csv&table=ports`, ['viewer']), params);
+    expect(csv.headers.get('content-type')).toBe('text/csv; charset=utf-8');
+    expect((await csv.text()).split('\r\n')[0]).toBe('Job,Pass,Worker node,Port,Protocol,Probe,Banner');
+
+    const xlsx = await exportRoute(await requestAs(`http://localhost/api/jobs/${job.id}/export?format=xlsx`, ['viewer']), params);
+    expect(xlsx.status).toBe(200);
+    expect(Buffer.from(await xlsx.arrayBuffer()).subarray(0, 2).toString()).toBe('PK');
+  });
+});
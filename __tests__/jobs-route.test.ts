@@ -1,22 +1,25 @@
 /** @jest-environment node */
 
 import { GET, POST } from '@/app/api/jobs/route';
-import { resetMockJobs } from '@/lib/api/mockData';
 import { resetAppConfigCache } from '@/lib/config/env';
+import { requestAs, useTempDataDir } from './support/routes';
+
+// Launches append to the audit log under REDMESH_DATA_DIR; keep it out of ./data.
+useTempDataDir('redmesh-jobs-route-');
 
 beforeEach(() => {
-  delete process.env.EE_REDMESH_API_URL;
-  delete process.env.EE_CHAINSTORE_API_URL;
-  delete process.env.EE_R1FS_API_URL;
-  delete process.env.EE_HOST_ID;
-  delete process.env.REDMESH_TOKEN;
+  process.env.REDMESH_SCOPE_OPEN = 'true';
+  resetAppConfigCache();
+});
+
+afterEach(() => {
+  delete process.env.REDMESH_SCOPE_OPEN;
   resetAppConfigCache();
-  resetMockJobs();
 });
 
 describe('jobs API route', () => {
   it('returns jobs in mock mode', async () => {
-    const response = await GET(new Request('http://localhost/api/jobs'));
+    const response = await GET(await requestAs('http://localhost/api/jobs', ['admin']));
     expect(response.status).toBe(200);
     const payload = await response.json();
     expect(Array.isArray(payload.jobs)).toBe(true);
@@ -24,7 +27,7 @@ describe('jobs API route', () => {
 
   it('creates jobs in mock mode', async () => {
     const response = await POST(
-      new Request('http://localhost/api/jobs', {
+      await requestAs('http://localhost/api/jobs', ['admin'], {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -33,7 +36,8 @@ describe('jobs API route', () => {
           target: '10.1.1.5',
           portRange: { start: 1, end: 2048 },
           features: ['service_info_common'],
-          workerCount: 1
+          workerCount: 1,
+          authorized: true
         })
       })
     );
@@ -0,0 +1,130 @@
+/** @jest-environment node */
+
+import { POST as login } from '@/app/api/auth/login/route';
+import {
+  BASE_LOCKOUT_MS,
+  FREE_ATTEMPTS,
+  MAX_LOCKOUT_MS,
+  MAX_TRACKED_KEYS,
+  getClientIp,
+  getLockoutRemainingSeconds,
+  lockoutDurationMs,
+  registerLoginFailure,
+  resetLoginThrottle
+} from '@/lib/api/loginThrottle';
+import { resetAppConfigCache } from '@/lib/config/env';
+
+function loginRequest(username: string, password: string, ip = '203.0.113.7'): Request {
+  return new Request('http://localhost/api/auth/login', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'x-forwarded-for': ip },
+    body: JSON.stringify({ username, password })
+  });
+}
+
+beforeEach(() => {
+  delete process.env.EE_REDMESH_API_URL;
+  delete process.env.EE_CHAINSTORE_API_URL;
+  delete process.env.EE_HOST_ID;
+  process.env.REDMESH_TRUSTED_PROXY_HOPS = '1';
+  resetAppConfigCache();
+  resetLoginThrottle();
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  delete process.env.REDMESH_TRUSTED_PROXY_HOPS;
+  jest.restoreAllMocks();
+});
+
+describe('lockout policy', () => {
+  it('grows exponentially after the free attempts and caps at the maximum', () => {
+    expect(lockoutDurationMs(FREE_ATTEMPTS - 1)).toBe(0);
+    expect(lockoutDurationMs(FREE_ATTEMPTS)).toBe(BASE_LOCKOUT_MS);
+    expect(lockoutDurationMs(FREE_ATTEMPTS + 1)).toBe(BASE_LOCKOUT_MS * 2);
+    expect(lockoutDurationMs(FREE_ATTEMPTS + 20)).toBe(MAX_LOCKOUT_MS);
+  });
+
+  it('expires lockouts once the backoff has elapsed', () => {
+    const keys = { ip: '198.51.100.1', username: 'admin' };
+    const start = Date.now();
+    for (let i = 0; i < FREE_ATTEMPTS; i += 1) {
+      registerLoginFailure(keys, start);
+    }
+    expect(getLockoutRemainingSeconds(keys, start)).toBe(BASE_LOCKOUT_MS / 1000);
+    expect(getLockoutRemainingSeconds(keys, start + BASE_LOCKOUT_MS)).toBe(0);
+  });
+
+  it('caps the number of tracked keys', () => {
+    const now = Date.now();
+    for (let i = 0; i <= MAX_TRACKED_KEYS; i += 1) {
+      registerLoginFailure({ username: `user-${i}` }, now);
+    }
+    for (let i = 0; i < FREE_ATTEMPTS; i += 1) {
+      registerLoginFailure({ username: 'latest' }, now);
+    }
+
+    expect(getLockoutRemainingSeconds({ username: 'latest' }, now)).toBe(BASE_LOCKOUT_MS / 1000);
+    registerLoginFailure({ username: 'user-0' }, now);
+    expect(getLockoutRemainingSeconds({ username: 'user-0' }, now)).toBe(0);
+  });
+});
+
+describe('client IP', () => {
+  const withHeaders = (headers: Record<string, string>) => new Request('http://localhost/api/auth/login', { headers });
+
+  it('ignores forwarded headers unless a trusted proxy is configured', () => {
+    delete process.env.REDMESH_TRUSTED_PROXY_HOPS;
+    resetAppConfigCache();
+    expect(getClientIp(withHeaders({ 'x-forwarded-for': '203.0.113.7', 'x-real-ip': '203.0.113.8' }))).toBeUndefined();
+  });
+
+  it('takes the address the outermost trusted proxy saw', () => {
+    expect(getClientIp(withHeaders({ 'x-forwarded-for': '1.2.3.4, 203.0.113.7' }))).toBe('203.0.113.7');
+
+    process.env.REDMESH_TRUSTED_PROXY_HOPS = '2';
+    resetAppConfigCache();
+    expect(getClientIp(withHeaders({ 'x-forwarded-for': '1.2.3.4, 203.0.113.7, 10.0.0.2' }))).toBe('203.0.113.7');
+    expect(getClientIp(withHeaders({ 'x-real-ip': '203.0.113.9' }))).toBe('203.0.113.9');
+  });
+});
+
+describe('POST /api/auth/login throttling', () => {
+  it('returns 429 with Retry-After after repeated failures and blocks even correct passwords', async () => {
+    for (let i = 0; i < FREE_ATTEMPTS - 1; i += 1) {
+      expect((await login(loginRequest('admin', 'nope'))).status).toBe(401);
+    }
+
+    const locked = await login(loginRequest('admin', 'nope'));
+    expect(locked.status).toBe(429);
+    expect(locked.headers.get('Retry-After')).toBe(String(BASE_LOCKOUT_MS / 1000));
+    expect((await locked.json()).retryAfterSeconds).toBe(BASE_LOCKOUT_MS / 1000);
+
+    const blocked = await login(loginRequest('admin', 'admin123'));
+    expect(blocked.status).toBe(429);
+  });
+
+  it('locks a username across IPs and an IP across usernames', async () => {
+    for (let i = 0; i < FREE_ATTEMPTS; i += 1) {
+      await login(loginRequest('operator', 'nope', `192.0.2.${i}`));
+    }
+    expect((await login(loginRequest('operator', 'operator123', '192.0.2.99'))).status).toBe(429);
+
+    for (let i = 0; i < FREE_ATTEMPTS; i += 1) {
+      await login(loginRequest(`ghost-${i}`, 'nope', '192.0.2.200'));
+    }
+    expect((await login(loginRequest('admin', 'admin123', '192.0.2.200'))).status).toBe(429);
+    expect((await login(loginRequest('admin', 'admin123', '192.0.2.201'))).status).toBe(200);
+  });
+
+  it('counts concurrent guesses before the passwords are checked', async () => {
+    const responses = await Promise.all(
+      Array.from({ length: FREE_ATTEMPTS * 2 }, () => login(loginRequest('viewer', 'nope')))
+    );
+
+    // Only the attempts let through before the lock count, so the backoff has not grown past the first step.
+    expect(responses.map((response) => response.status)).toEqual(Array(FREE_ATTEMPTS * 2).fill(429));
+    expect(getLockoutRemainingSeconds({ ip: '203.0.113.7', username: 'viewer' })).toBe(BASE_LOCKOUT_MS / 1000);
+  });
+});
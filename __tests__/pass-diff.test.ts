@@ -0,0 +1,112 @@
+/** @jest-environment node */
+
+import { GET as diffRoute } from '@/app/api/jobs/[jobId]/diff/route';
+import { resetAppConfigCache } from '@/lib/config/env';
+import { resetMockJobs } from '@/lib/api/mockData';
+import type { Job } from '@/lib/api/types';
+import { defaultDiffRange, diffPasses } from '@/lib/domain/passDiff';
+import { requestAs } from './support/routes';
+
+const JOB = {
+  id: 'job-1',
+  target: 'web.lab.local',
+  runMode: 'continuous',
+  workers: [],
+  passHistory: [
+    {
+      passNr: 1,
+      completedAt: '2025-01-01T00:00:00Z',
+      reports: { 'node-a': 'cid-1' },
+      riskScore: 40,
+      riskBreakdown: {
+        findingsScore: 20,
+        openPortsScore: 10,
+        breadthScore: 10,
+        credentialsPenalty: 0,
+        rawTotal: 40,
+        findingCounts: { HIGH: 1 }
+      }
+    },
+    {
+      passNr: 2,
+      completedAt: '2025-01-02T00:00:00Z',
+      reports: { 'node-a': 'cid-2' },
+      riskScore: 55,
+      riskBreakdown: {
+        findingsScore: 30,
+        openPortsScore: 15,
+        breadthScore: 10,
+        credentialsPenalty: 0,
+        rawTotal: 55,
+        findingCounts: { HIGH: 1, MEDIUM: 1 }
+      }
+    }
+  ]
+} as unknown as Job;
+
+const REPORTS = {
+  'cid-1': {
+    open_ports: [21, 80],
+    service_info: {
+      '21': { _service_info_ftp: { banner: 'vsFTPd 3.0.3', findings: [{ severity: 'HIGH', title: 'Anonymous FTP login allowed' }] } },
+      '80': { _service_info_http: { server: 'nginx/1.18.0' } }
+    }
+  },
+  'cid-2': {
+    open_ports: [80, 443],
+    service_info: {
+      '80': { _service_info_http: { server: 'nginx/1.24.0' } },
+      '443': { _service_info_https: { findings: [{ severity: 'MEDIUM', title: 'TLS 1.0 enabled' }] } }
+    }
+  }
+};
+
+describe('diffPasses', () => {
+  it('reports port, service, finding and risk changes between two passes', () => {
+    expect(defaultDiffRange(JOB)).toEqual({ from: 1, to: 2 });
+
+    const diff = diffPasses(JOB, REPORTS, 1, 2);
+
+    expect(diff.openedPorts).toEqual([443]);
+    expect(diff.closedPorts).toEqual([21]);
+    expect(diff.serviceChanges).toEqual([
+      { port: 80, probe: '_service_info_http', field: 'server', before: 'nginx/1.18.0', after: 'nginx/1.24.0' }
+    ]);
+    expect(diff.newFindings.map((finding) => finding.title)).toEqual(['TLS 1.0 enabled']);
+    expect(diff.resolvedFindings.map((finding) => finding.title)).toEqual(['Anonymous FTP login allowed']);
+    expect(diff.risk).toMatchObject({ from: 40, to: 55, delta: 15 });
+    expect(diff.risk.components.find((component) => component.key === 'findingsScore')).toMatchObject({ delta: 10 });
+    expect(diff.risk.findingCounts).toEqual([
+      { key: 'HIGH', label: 'HIGH', from: 1, to: 1, delta: 0 },
+      { key: 'MEDIUM', label: 'MEDIUM', from: 0, to: 1, delta: 1 }
+    ]);
+  });
+
+  it('rejects passes that are not in the history', () => {
+    expect(() => diffPasses(JOB, REPORTS, 1, 3)).toThrow('Pass 3 is not in the history of this job.');
+  });
+});
+
+describe('GET /api/jobs/[jobId]/diff', () => {
+  beforeEach(() => {
+    delete process.env.EE_REDMESH_API_URL;
+    delete process.env.EE_CHAINSTORE_API_URL;
+    delete process.env.EE_R1FS_API_URL;
+    delete process.env.EE_HOST_ID;
+    delete process.env.REDMESH_TOKEN;
+    resetAppConfigCache();
+    resetMockJobs();
+  });
+
+  it('validates pass numbers and returns 404 for unknown jobs', async () => {
+    const invalid = await diffRoute(await requestAs('http://localhost/api/jobs/job-1/diff?from=0', ['viewer']), {
+      params: Promise.resolve({ jobId: 'job-1' })
+    });
+    expect(invalid.status).toBe(400);
+
+    const missing = await diffRoute(await requestAs('http://localhost/api/jobs/missing/diff', ['viewer']), {
+      params: Promise.resolve({ jobId: 'missing' })
+    });
+    expect(missing.status).toBe(404);
+  });
+});
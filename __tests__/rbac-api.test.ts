@@ -0,0 +1,153 @@
+/** @jest-environment node */
+
+import { writeFileSync } from 'fs';
+import path from 'path';
+import { GET as listJobs, POST as launchJob } from '@/app/api/jobs/route';
+import { DELETE as stopJob } from '@/app/api/jobs/[jobId]/route';
+import { DELETE as purgeJob } from '@/app/api/jobs/[jobId]/purge/route';
+import { POST as refreshSession } from '@/app/api/auth/refresh/route';
+import { authenticateUser } from '@/lib/api/auth';
+import { ApiError } from '@/lib/api/errors';
+import { createSessionToken, verifySessionToken } from '@/lib/api/session';
+import { hashPassword } from '@/lib/api/users';
+import { hasPermission, resolveRole } from '@/lib/domain/roles';
+import { resetAppConfigCache } from '@/lib/config/env';
+import { SESSION_COOKIE_NAME } from '@/lib/config/constants';
+import { requestAs, useTempDataDir } from './support/routes';
+
+const launchBody = JSON.stringify({
+  name: 'RBAC run',
+  summary: 'Role check',
+  target: '10.0.0.9',
+  portRange: { start: 1, end: 1024 },
+  authorized: true
+});
+
+const params = { params: Promise.resolve({ jobId: 'job-1' }) };
+
+const dataDir = useTempDataDir('redmesh-rbac-');
+
+beforeEach(() => {
+  process.env.REDMESH_SCOPE_OPEN = 'true';
+  resetAppConfigCache();
+});
+
+afterEach(() => {
+  delete process.env.REDMESH_SCOPE_OPEN;
+  resetAppConfigCache();
+});
+
+describe('role resolution', () => {
+  it('picks the most privileged known role and defaults to viewer', () => {
+    expect(resolveRole(['viewer', 'admin'])).toBe('admin');
+    expect(resolveRole(['Operator'])).toBe('operator');
+    expect(resolveRole(['auditor'])).toBe('viewer');
+    expect(resolveRole([])).toBe('viewer');
+  });
+
+  it('grants purge only to admins', () => {
+    expect(hasPermission({ roles: ['admin'] }, 'jobs:purge')).toBe(true);
+    expect(hasPermission({ roles: ['operator'] }, 'jobs:purge')).toBe(false);
+    expect(hasPermission({ roles: ['operator'] }, 'jobs:stop')).toBe(true);
+    expect(hasPermission({ roles: ['viewer'] }, 'jobs:create')).toBe(false);
+    expect(hasPermission(null, 'jobs:read')).toBe(false);
+  });
+});
+
+describe('route enforcement', () => {
+  it('lets viewers read jobs but not launch them', async () => {
+    const list = await listJobs(await requestAs('http://localhost/api/jobs', ['viewer']));
+    expect(list.status).toBe(200);
+
+    const launch = await launchJob(
+      await requestAs('http://localhost/api/jobs', ['viewer'], { method: 'POST', body: launchBody })
+    );
+    expect(launch.status).toBe(403);
+  });
+
+  it('lets operators launch jobs', async () => {
+    const launch = await launchJob(
+      await requestAs('http://localhost/api/jobs', ['operator'], { method: 'POST', body: launchBody })
+    );
+    expect(launch.status).toBe(201);
+  });
+
+  it('rejects stop requests from viewers', async () => {
+    const response = await stopJob(
+      await requestAs('http://localhost/api/jobs/job-1', ['viewer'], { method: 'DELETE' }),
+      params
+    );
+    expect(response.status).toBe(403);
+  });
+
+  it('rejects purge requests from operators', async () => {
+    const env = process.env as Record<string, string | undefined>;
+    const previous = env.NODE_ENV;
+    env.NODE_ENV = 'development';
+    try {
+      const response = await purgeJob(
+        await requestAs('http://localhost/api/jobs/job-1/purge', ['operator'], { method: 'DELETE' }),
+        params
+      );
+      expect(response.status).toBe(403);
+      expect((await response.json()).message).toMatch(/permission/i);
+    } finally {
+      env.NODE_ENV = previous;
+    }
+  });
+
+  it('returns 401 without a session', async () => {
+    const response = await listJobs(new Request('http://localhost/api/jobs'));
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('local user directory', () => {
+  it('authenticates users from users.json with their configured roles', async () => {
+    writeFileSync(
+      path.join(dataDir(), 'users.json'),
+      JSON.stringify({
+        users: [
+          { username: 'alice', displayName: 'Alice', roles: ['operator'], passwordHash: await hashPassword('s3cret') }
+        ]
+      })
+    );
+
+    const result = await authenticateUser('alice', 's3cret');
+    expect(result.user).toEqual({ id: 'alice', username: 'alice', displayName: 'Alice', roles: ['operator'] });
+    await expect(authenticateUser('alice', 'wrong')).rejects.toBeInstanceOf(ApiError);
+  });
+
+  it('re-reads roles and the disabled flag when a session is refreshed', async () => {
+    const writeAlice = (entry: Record<string, unknown>) =>
+      writeFileSync(
+        path.join(dataDir(), 'users.json'),
+        JSON.stringify({ users: [{ username: 'alice', displayName: 'Alice', password: 's3cret', ...entry }] })
+      );
+    const { token } = await createSessionToken({ id: 'alice', username: 'alice', displayName: 'Alice', roles: ['admin'] });
+    const refresh = () =>
+      refreshSession(
+        new Request('http://localhost/api/auth/refresh', {
+          method: 'POST',
+          headers: { cookie: `${SESSION_COOKIE_NAME}=${token}` }
+        })
+      );
+
+    writeAlice({ roles: ['viewer'] });
+    const demoted = await refresh();
+    expect(demoted.status).toBe(200);
+    expect((await demoted.json()).user.roles).toEqual(['viewer']);
+    const cookie = demoted.headers.get('set-cookie')?.match(new RegExp(`${SESSION_COOKIE_NAME}=([^;]*)`))?.[1];
+    expect((await verifySessionToken(cookie))?.user.roles).toEqual(['viewer']);
+
+    writeAlice({ roles: ['operator'], disabled: true });
+    const disabled = await refresh();
+    expect(disabled.status).toBe(401);
+    expect(disabled.headers.get('set-cookie')).toMatch(new RegExp(`${SESSION_COOKIE_NAME}=;`));
+  });
+
+  it('rejects refreshing a session for a user no auth path knows', async () => {
+    const response = await refreshSession(await requestAs('http://localhost/api/auth/refresh', ['admin'], { method: 'POST' }));
+    expect(response.status).toBe(401);
+  });
+});
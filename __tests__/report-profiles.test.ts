@@ -0,0 +1,96 @@
+/** @jest-environment node */
+
+import { GET as listProfiles, POST as createProfile } from '@/app/api/report-profiles/route';
+import { DELETE as deleteProfile, PUT as updateProfile } from '@/app/api/report-profiles/[profileId]/route';
+import { requestAs, useTempDataDir } from './support/routes';
+
+function params(profileId: string) {
+  return { params: Promise.resolve({ profileId }) };
+}
+
+const LOGO = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+
+describe('report profiles API', () => {
+  useTempDataDir('redmesh-report-profiles-');
+
+  it('stores branding and section selection, filling in defaults', async () => {
+    const response = await createProfile(
+      await requestAs('http://localhost/api/report-profiles', ['operator'], {
+        method: 'POST',
+        body: JSON.stringify({
+          name: 'Acme delivery',
+          fields: {
+            companyName: ' Acme Security ',
+            logoDataUrl: LOGO,
+            primaryColor: '#0055AA',
+            classification: 'CONFIDENTIAL',
+            sections: { rawEvidence: false },
+            unrelated: 'dropped'
+          }
+        })
+      })
+    );
+
+    expect(response.status).toBe(201);
+    const { profile } = await response.json();
+    expect(profile.createdBy).toBe('tester');
+    expect(profile.fields).toEqual({
+      companyName: 'Acme Security',
+      logoDataUrl: LOGO,
+      primaryColor: '#0055aa',
+      secondaryColor: '#475569',
+      classification: 'CONFIDENTIAL',
+      sections: { timeline: true, llmAnalysis: true, workerActivity: true, rawEvidence: false }
+    });
+
+    const list = await listProfiles(await requestAs('http://localhost/api/report-profiles', ['viewer']));
+    expect((await list.json()).profiles.map((entry: { name: string }) => entry.name)).toEqual(['Acme delivery']);
+  });
+
+  it('rejects invalid colors and logos, duplicate names and viewers', async () => {
+    const post = async (roles: string[], body: unknown) =>
+      createProfile(
+        await requestAs('http://localhost/api/report-profiles', roles, { method: 'POST', body: JSON.stringify(body) })
+      );
+
+    expect((await post(['viewer'], { name: 'Acme', fields: {} })).status).toBe(403);
+    expect((await post(['operator'], { name: 'Acme', fields: { primaryColor: 'red' } })).status).toBe(400);
+    expect((await post(['operator'], { name: 'Acme', fields: { logoDataUrl: 'data:image/svg+xml;base64,PHN2Zz4=' } })).status).toBe(400);
+    expect((await post(['operator'], { name: 'Acme', fields: {} })).status).toBe(201);
+    expect((await post(['operator'], { name: 'acme', fields: {} })).status).toBe(409);
+  });
+
+  it('updates and deletes profiles', async () => {
+    const created = await createProfile(
+      await requestAs('http://localhost/api/report-profiles', ['operator'], {
+        method: 'POST',
+        body: JSON.stringify({ name: 'Draft', fields: {} })
+      })
+    );
+    const { profile } = await created.json();
+
+    const updated = await updateProfile(
+      await requestAs(`http://localhost/api/report-profiles/${profile.id}`, ['operator'], {
+        method: 'PUT',
+        body: JSON.stringify({ name: 'Final', fields: { coverTitle: 'Penetration Test Report', sections: { timeline: false } } })
+      }),
+      params(profile.id)
+    );
+    expect(updated.status).toBe(200);
+    expect((await updated.json()).profile).toMatchObject({
+      name: 'Final',
+      fields: { coverTitle: 'Penetration Test Report', sections: { timeline: false, llmAnalysis: true } }
+    });
+
+    const removed = await deleteProfile(
+      await requestAs(`http://localhost/api/report-profiles/${profile.id}`, ['operator'], { method: 'DELETE' }),
+      params(profile.id)
+    );
+    expect(removed.status).toBe(200);
+    const missing = await deleteProfile(
+      await requestAs(`http://localhost/api/report-profiles/${profile.id}`, ['operator'], { method: 'DELETE' }),
+      params(profile.id)
+    );
+    expect(missing.status).toBe(404);
+  });
+});
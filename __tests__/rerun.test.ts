@@ -0,0 +1,86 @@
+/** @jest-environment node */
+
+import { getMockJobs, resetMockJobs } from '@/lib/api/mockData';
+import type { Job } from '@/lib/api/types';
+import { buildRerunPlan } from '@/lib/domain/rerun';
+
+function jobFixture(overrides: Partial<Job> = {}): Job {
+  resetMockJobs();
+  const base = getMockJobs()[0];
+  return {
+    ...base,
+    displayName: 'Perimeter sweep',
+    target: '10.0.0.5',
+    portRange: { start: 20, end: 443 },
+    exceptionPorts: [25],
+    featureSet: ['service_info_common', 'web_test_legacy'],
+    excludedFeatures: [],
+    distribution: 'mirror',
+    runMode: 'continuous',
+    duration: 'continuous',
+    monitorInterval: 900,
+    tempo: { minSeconds: 0.2, maxSeconds: 0.4 },
+    workerCount: 2,
+    workers: [
+      { ...base.workers[0], id: '0xai_peer_a' },
+      { ...base.workers[0], id: '0xai_peer_b' }
+    ],
+    ...overrides
+  };
+}
+
+const catalog = [
+  { id: 'service_info_common', label: 'Common services' },
+  { id: 'web_test_common', label: 'Web tests' }
+];
+
+describe('buildRerunPlan', () => {
+  it('carries the original configuration into the form fields', () => {
+    const plan = buildRerunPlan(jobFixture(), {
+      featureCatalog: catalog,
+      peers: [
+        { address: '0xai_peer_a', label: 'A' },
+        { address: '0xai_peer_b', label: 'B' }
+      ]
+    });
+
+    expect(plan.target).toBe('10.0.0.5');
+    expect(plan.fields).toMatchObject({
+      name: 'Perimeter sweep (re-run)',
+      portRange: { start: 20, end: 443 },
+      exceptions: [25],
+      distribution: 'mirror',
+      duration: 'continuous',
+      monitorInterval: 900,
+      scanDelay: { minSeconds: 0.2, maxSeconds: 0.4 },
+      selectedPeers: ['0xai_peer_a', '0xai_peer_b'],
+      workerCount: 2
+    });
+    expect(plan.differences.map((difference) => difference.field)).not.toContain('Worker peers');
+  });
+
+  it('reports removed features and offline peers', () => {
+    const plan = buildRerunPlan(jobFixture(), {
+      featureCatalog: catalog,
+      peers: [{ address: '0xai_peer_b', label: 'B' }]
+    });
+
+    expect(plan.fields.features).toEqual(['service_info_common']);
+    expect(plan.fields.selectedPeers).toEqual(['0xai_peer_b']);
+    expect(plan.fields.workerCount).toBe(1);
+
+    const byField = Object.fromEntries(plan.differences.map((difference) => [difference.field, difference]));
+    expect(byField['Features'].original).toBe('web_test_legacy');
+    expect(byField['Worker peers'].original).toBe('0xai_peer_a');
+    expect(byField['Worker count']).toMatchObject({ original: '2', rerun: '1' });
+  });
+
+  it('derives enabled features from exclusions for older jobs', () => {
+    const plan = buildRerunPlan(jobFixture({ featureSet: [], excludedFeatures: ['web_test_common'] }), {
+      featureCatalog: catalog,
+      peers: []
+    });
+    expect(plan.fields.features).toEqual(['service_info_common']);
+    expect(plan.fields.selectedPeers).toEqual(['0xai_peer_a', '0xai_peer_b']);
+  });
+});
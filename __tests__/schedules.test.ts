@@ -0,0 +1,167 @@
+/** @jest-environment node */
+
+import { GET as listSchedulesRoute, POST as createScheduleRoute } from '@/app/api/schedules/route';
+import { POST as runScheduleRoute } from '@/app/api/schedules/[scheduleId]/run/route';
+import { listScheduleRuns, listSchedules, runDueSchedules } from '@/lib/api/schedules';
+import { listAuditEvents } from '@/lib/api/audit';
+import { getMockJobs } from '@/lib/api/mockData';
+import { resetAppConfigCache } from '@/lib/config/env';
+import { nextCronRuns, validateCron } from '@/lib/domain/cron';
+import { requestAs, useTempDataDir } from './support/routes';
+
+function scheduleBody(overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    name: 'Weekly sweep',
+    cron: '0 2 * * MON',
+    timezone: 'Europe/Bucharest',
+    targets: 'web.lab.local',
+    authorized: true,
+    ...overrides
+  });
+}
+
+describe('nextCronRuns', () => {
+  it('evaluates expressions in the schedule timezone', () => {
+    const from = new Date('2024-01-10T12:00:00Z'); // a Wednesday
+    const runs = nextCronRuns('0 2 * * MON', 'Europe/Bucharest', from, 2);
+    expect(runs.map((run) => run.toISOString())).toEqual(['2024-01-15T00:00:00.000Z', '2024-01-22T00:00:00.000Z']);
+    expect(nextCronRuns('*/20 9 * * *', 'UTC', from, 3).map((run) => run.toISOString())).toEqual([
+      '2024-01-11T09:00:00.000Z',
+      '2024-01-11T09:20:00.000Z',
+      '2024-01-11T09:40:00.000Z'
+    ]);
+  });
+
+  it('skips wall-clock times that a DST change removes', () => {
+    // 02:30 does not exist in New York on 10 March 2024
+    const runs = nextCronRuns('30 2 * * *', 'America/New_York', new Date('2024-03-09T12:00:00Z'), 2);
+    expect(runs.map((run) => run.toISOString())).toEqual(['2024-03-11T06:30:00.000Z', '2024-03-12T06:30:00.000Z']);
+  });
+
+  it('matches either day field when both are restricted', () => {
+    const runs = nextCronRuns('0 0 13 * FRI', 'UTC', new Date('2024-09-01T00:00:00Z'), 3);
+    expect(runs.map((run) => run.toISOString().slice(0, 10))).toEqual(['2024-09-06', '2024-09-13', '2024-09-20']);
+  });
+
+  it('reports readable validation errors', () => {
+    expect(validateCron('0 2 * *')).toMatch(/five fields/);
+    expect(validateCron('61 * * * *')).toMatch(/minute value 61/);
+    expect(validateCron('0 2 * * FUNDAY')).toMatch(/Invalid day of week/);
+    expect(validateCron('0 9-17/2 * JAN-MAR 1-5')).toBeNull();
+  });
+
+  it('rejects expressions that can never fire', () => {
+    expect(validateCron('0 0 31 2 *')).toMatch(/never run/);
+    expect(validateCron('0 0 31 4,6,9,11 *')).toMatch(/never run/);
+    expect(validateCron('0 0 29 2 *')).toBeNull();
+    expect(validateCron('0 0 31 2 MON')).toBeNull();
+  });
+});
+
+describe('schedules', () => {
+  useTempDataDir('redmesh-schedules-');
+
+  beforeEach(() => {
+    process.env.REDMESH_SCOPE_OPEN = 'true';
+    resetAppConfigCache();
+  });
+
+  afterEach(() => {
+    delete process.env.REDMESH_SCOPE_OPEN;
+    resetAppConfigCache();
+  });
+
+  it('validates new schedules and lists upcoming runs', async () => {
+    const unauthorized = await createScheduleRoute(
+      await requestAs('http://localhost/api/schedules', ['operator'], { method: 'POST', body: scheduleBody({ authorized: false }) })
+    );
+    expect(unauthorized.status).toBe(400);
+
+    const badCron = await createScheduleRoute(
+      await requestAs('http://localhost/api/schedules', ['operator'], { method: 'POST', body: scheduleBody({ cron: '* *' }) })
+    );
+    expect(badCron.status).toBe(400);
+
+    const neverRuns = await createScheduleRoute(
+      await requestAs('http://localhost/api/schedules', ['operator'], { method: 'POST', body: scheduleBody({ cron: '0 0 30 2 *' }) })
+    );
+    expect(neverRuns.status).toBe(400);
+
+    const badZone = await createScheduleRoute(
+      await requestAs('http://localhost/api/schedules', ['operator'], {
+        method: 'POST',
+        body: scheduleBody({ timezone: 'Mars/Olympus' })
+      })
+    );
+    expect(badZone.status).toBe(400);
+
+    const created = await createScheduleRoute(
+      await requestAs('http://localhost/api/schedules', ['operator'], { method: 'POST', body: scheduleBody() })
+    );
+    expect(created.status).toBe(201);
+
+    const listed = await listSchedulesRoute(await requestAs('http://localhost/api/schedules', ['viewer']));
+    const payload = await listed.json();
+    expect(payload.schedules).toHaveLength(1);
+    expect(payload.schedules[0].upcomingRuns).toHaveLength(5);
+    expect(payload.schedules[0].nextRunAt).toBe(payload.schedules[0].upcomingRuns[0]);
+  });
+
+  it('fires due schedules once and records the run history', async () => {
+    await createScheduleRoute(
+      await requestAs('http://localhost/api/schedules', ['operator'], {
+        method: 'POST',
+        body: scheduleBody({ targets: '10.0.0.0/30' })
+      })
+    );
+    const [schedule] = await listSchedules();
+    const before = getMockJobs().length;
+
+    expect(await runDueSchedules(new Date(new Date(schedule.nextRunAt!).getTime() - 1000))).toEqual([]);
+
+    const slot = new Date(schedule.nextRunAt!);
+    const runs = await runDueSchedules(new Date(slot.getTime() + 60_000));
+    expect(runs).toHaveLength(1);
+    expect(runs[0].outcome).toBe('success');
+    expect(runs[0].trigger).toBe('cron');
+    expect(runs[0].campaignId).toBeDefined();
+    expect(runs[0].scheduledFor).toBe(slot.toISOString());
+    expect(getMockJobs().length).toBe(before + 2);
+
+    // The slot has been claimed, so the next tick does nothing
+    expect(await runDueSchedules(new Date(slot.getTime() + 90_000))).toEqual([]);
+    const [advanced] = await listSchedules();
+    expect(new Date(advanced.nextRunAt!).getTime()).toBeGreaterThan(slot.getTime());
+
+    expect(await listScheduleRuns({ scheduleId: schedule.id })).toHaveLength(1);
+    const audit = await listAuditEvents({ action: 'job.launch' });
+    expect(audit.entries).toHaveLength(2);
+    expect(audit.entries[0].actor.displayName).toBe('Weekly sweep (schedule)');
+  });
+
+  it('runs a schedule on demand for operators only', async () => {
+    await createScheduleRoute(
+      await requestAs('http://localhost/api/schedules', ['operator'], { method: 'POST', body: scheduleBody() })
+    );
+    const [schedule] = await listSchedules();
+    const params = { params: Promise.resolve({ scheduleId: schedule.id }) };
+
+    const forbidden = await runScheduleRoute(
+      await requestAs(`http://localhost/api/schedules/${schedule.id}/run`, ['viewer'], { method: 'POST' }),
+      params
+    );
+    expect(forbidden.status).toBe(403);
+
+    const response = await runScheduleRoute(
+      await requestAs(`http://localhost/api/schedules/${schedule.id}/run`, ['operator'], { method: 'POST' }),
+      params
+    );
+    expect(response.status).toBe(201);
+    const { run } = await response.json();
+    expect(run.trigger).toBe('manual');
+    expect(run.outcome).toBe('success');
+    expect(run.jobIds).toHaveLength(1);
+    const job = getMockJobs().find((entry) => entry.id === run.jobIds[0]);
+    expect(job?.target).toBe('web.lab.local');
+  });
+});
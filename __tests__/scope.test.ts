@@ -0,0 +1,145 @@
+/** @jest-environment node */
+
+import { POST as launchJob } from '@/app/api/jobs/route';
+import { GET as checkScope } from '@/app/api/scope/check/route';
+import { POST as addRuleRoute } from '@/app/api/scope/route';
+import { addScopeRule } from '@/lib/api/scope';
+import { listAuditEvents } from '@/lib/api/audit';
+import { getMockJobs } from '@/lib/api/mockData';
+import { ScopeRule, classifyScopeValue, evaluateScope } from '@/lib/domain/scope';
+import { requestAs, useTempDataDir } from './support/routes';
+
+jest.mock('dns/promises', () => ({
+  lookup: jest.fn(async (hostname: string) => {
+    const table: Record<string, string[]> = {
+      'app.corp.example': ['10.1.2.3'],
+      'db.corp.example': ['10.9.0.5'],
+      'mixed.example.net': ['10.1.0.1', '172.16.0.1']
+    };
+    if (!table[hostname]) {
+      throw new Error('ENOTFOUND');
+    }
+    return table[hostname].map((address) => ({ address, family: 4 }));
+  })
+}));
+
+function rule(effect: ScopeRule['effect'], value: string): ScopeRule {
+  return { id: value, effect, value, createdAt: '2024-01-01T00:00:00.000Z', createdBy: 'admin' };
+}
+
+function launchBody(target: string): string {
+  return JSON.stringify({ name: 'Scoped', summary: 'Scope check', target, portRange: { start: 1, end: 100 }, authorized: true });
+}
+
+describe('evaluateScope', () => {
+  const rules = [
+    rule('allow', '10.0.0.0/8'),
+    rule('allow', '*.corp.example'),
+    rule('allow', '2001:db8::/32'),
+    rule('deny', '10.9.0.0/16'),
+    rule('deny', 'vpn.corp.example')
+  ];
+
+  it('classifies rule values', () => {
+    expect(classifyScopeValue('10.0.0.0/8')).toBe('cidr');
+    expect(classifyScopeValue('192.168.1.4')).toBe('cidr');
+    expect(classifyScopeValue('fe80::1/64')).toBe('cidr');
+    expect(classifyScopeValue('*.corp.example')).toBe('wildcard');
+    expect(classifyScopeValue('api.corp.example')).toBe('hostname');
+    expect(classifyScopeValue('10.0.0.0/33')).toBeNull();
+    expect(classifyScopeValue('not a host')).toBeNull();
+  });
+
+  it('allows addresses and networks inside allowed CIDRs', () => {
+    expect(evaluateScope('10.4.5.6', rules).allowed).toBe(true);
+    expect(evaluateScope('10.4.0.0/16', rules).allowed).toBe(true);
+    expect(evaluateScope('2001:db8:0:1::20', rules).allowed).toBe(true);
+    expect(evaluateScope('192.168.1.1', rules).allowed).toBe(false);
+    expect(evaluateScope('8.0.0.0/4', rules).allowed).toBe(false);
+  });
+
+  it('lets deny rules win, including for overlapping networks and resolved addresses', () => {
+    expect(evaluateScope('10.9.1.1', rules).allowed).toBe(false);
+    expect(evaluateScope('10.0.0.0/8', rules).reason).toMatch(/deny rule 10\.9\.0\.0\/16/);
+    expect(evaluateScope('vpn.corp.example', rules).allowed).toBe(false);
+    expect(evaluateScope('db.corp.example', rules, ['10.9.0.5']).allowed).toBe(false);
+  });
+
+  it('matches hostnames by name or requires every resolved address to be in scope', () => {
+    expect(evaluateScope('app.corp.example', rules, ['10.1.2.3']).allowed).toBe(true);
+    expect(evaluateScope('intranet.local', rules, ['10.1.1.1']).allowed).toBe(true);
+    expect(evaluateScope('intranet.local', rules, ['10.1.1.1', '172.16.0.1']).allowed).toBe(false);
+    expect(evaluateScope('unknown.local', rules, []).allowed).toBe(false);
+  });
+
+  it('rejects hostnames that did not resolve while CIDR rules exist', () => {
+    expect(evaluateScope('app.corp.example', rules, []).reason).toMatch(/did not resolve/);
+    expect(evaluateScope('app.corp.example', [rule('allow', '*.corp.example')], []).allowed).toBe(true);
+    expect(evaluateScope('app.corp.example', [rule('allow', '*.corp.example'), rule('deny', '10.9.0.0/16')], []).allowed).toBe(false);
+  });
+
+  it('denies by default without allow rules unless open scope is on', () => {
+    expect(evaluateScope('8.8.8.8', []).allowed).toBe(false);
+    expect(evaluateScope('8.8.8.8', [rule('deny', '10.0.0.0/8')]).allowed).toBe(false);
+    expect(evaluateScope('8.8.8.8', [rule('deny', '10.0.0.0/8')], [], { open: true }).allowed).toBe(true);
+    expect(evaluateScope('10.0.0.1', [rule('deny', '10.0.0.0/8')], [], { open: true }).allowed).toBe(false);
+  });
+});
+
+describe('scope enforcement on launch', () => {
+  useTempDataDir('redmesh-scope-');
+
+  beforeEach(async () => {
+    await addScopeRule({ effect: 'allow', value: '10.1.0.0/16', createdBy: 'admin' });
+    await addScopeRule({ effect: 'deny', value: '10.9.0.0/16', createdBy: 'admin' });
+  });
+
+  it('rejects out-of-scope targets without launching and records the attempt', async () => {
+    const before = getMockJobs().length;
+    const response = await launchJob(
+      await requestAs('http://localhost/api/jobs', ['operator'], { method: 'POST', body: launchBody('mixed.example.net') })
+    );
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).message).toMatch(/172\.16\.0\.1 is outside the allowed scope/);
+    expect(getMockJobs()).toHaveLength(before);
+
+    const { entries } = await listAuditEvents({ action: 'job.launch' });
+    expect(entries[0].outcome).toBe('failure');
+  });
+
+  it('launches targets whose resolved addresses are in scope', async () => {
+    const response = await launchJob(
+      await requestAs('http://localhost/api/jobs', ['operator'], { method: 'POST', body: launchBody('app.corp.example') })
+    );
+    expect(response.status).toBe(201);
+  });
+
+  it('reports decisions through /api/scope/check', async () => {
+    const response = await checkScope(
+      await requestAs('http://localhost/api/scope/check?target=db.corp.example', ['operator'])
+    );
+    expect(response.status).toBe(200);
+    const decision = await response.json();
+    expect(decision.allowed).toBe(false);
+    expect(decision.resolvedAddresses).toEqual(['10.9.0.5']);
+  });
+
+  it('lets only admins manage rules and rejects invalid values', async () => {
+    const denied = await addRuleRoute(
+      await requestAs('http://localhost/api/scope', ['operator'], {
+        method: 'POST',
+        body: JSON.stringify({ effect: 'allow', value: '0.0.0.0/0' })
+      })
+    );
+    expect(denied.status).toBe(403);
+
+    const invalid = await addRuleRoute(
+      await requestAs('http://localhost/api/scope', ['admin'], {
+        method: 'POST',
+        body: JSON.stringify({ effect: 'allow', value: '10.0.0.0/99' })
+      })
+    );
+    expect(invalid.status).toBe(400);
+  });
+});
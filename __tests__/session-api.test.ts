@@ -0,0 +1,180 @@
+/** @jest-environment node */
+
+import { NextRequest } from 'next/server';
+import { POST as login } from '@/app/api/auth/login/route';
+import { POST as logout } from '@/app/api/auth/logout/route';
+import { POST as refresh } from '@/app/api/auth/refresh/route';
+import { middleware } from '@/middleware';
+import { createSessionToken, verifySessionToken } from '@/lib/api/session';
+import { resetAppConfigCache } from '@/lib/config/env';
+import { SESSION_COOKIE_NAME } from '@/lib/config/constants';
+
+const adminUser = {
+  id: 'admin',
+  username: 'admin',
+  displayName: 'RedMesh Admin',
+  roles: ['admin']
+};
+
+function extractSessionCookie(response: Response): string | undefined {
+  const header = response.headers.get('set-cookie') ?? '';
+  const match = header.match(new RegExp(`${SESSION_COOKIE_NAME}=([^;]*)`));
+  return match?.[1];
+}
+
+beforeEach(() => {
+  delete process.env.EE_REDMESH_API_URL;
+  delete process.env.EE_CHAINSTORE_API_URL;
+  delete process.env.EE_HOST_ID;
+  delete process.env.REDMESH_SESSION_TTL;
+  process.env.REDMESH_SESSION_SECRET = 'test-session-secret-0123456789abcdef';
+  resetAppConfigCache();
+});
+
+afterAll(() => {
+  delete process.env.REDMESH_SESSION_SECRET;
+  resetAppConfigCache();
+});
+
+describe('session tokens', () => {
+  it('round-trips a signed token', async () => {
+    const { token, expiresAt } = await createSessionToken(adminUser);
+    const session = await verifySessionToken(token);
+
+    expect(session?.user.username).toBe('admin');
+    expect(session?.expiresAt.getTime()).toBe(expiresAt.getTime());
+  });
+
+  it('rejects tampered tokens', async () => {
+    const { token } = await createSessionToken(adminUser);
+    const [body, signature] = token.split('.');
+    const forgedBody = Buffer.from(
+      JSON.stringify({ user: { ...adminUser, username: 'mallory' }, iat: 0, exp: 9999999999 })
+    ).toString('base64url');
+
+    expect(await verifySessionToken(`${forgedBody}.${signature}`)).toBeNull();
+    expect(await verifySessionToken(`${body}.${signature}x`)).toBeNull();
+    expect(await verifySessionToken('not-a-token')).toBeNull();
+  });
+
+  it('rejects expired tokens', async () => {
+    const issued = new Date('2024-01-01T00:00:00Z');
+    const { token, expiresAt } = await createSessionToken(adminUser, issued);
+
+    expect(await verifySessionToken(token, new Date(expiresAt.getTime() + 1000))).toBeNull();
+  });
+
+  it('rejects tokens signed with another secret', async () => {
+    const { token } = await createSessionToken(adminUser);
+    process.env.REDMESH_SESSION_SECRET = 'rotated-session-secret-0123456789abcdef';
+    resetAppConfigCache();
+
+    expect(await verifySessionToken(token)).toBeNull();
+  });
+
+  it('refuses to sign or accept tokens without a long enough secret', async () => {
+    const { token } = await createSessionToken(adminUser);
+
+    for (const secret of [undefined, 'short-secret']) {
+      if (secret) {
+        process.env.REDMESH_SESSION_SECRET = secret;
+      } else {
+        delete process.env.REDMESH_SESSION_SECRET;
+      }
+      resetAppConfigCache();
+
+      await expect(createSessionToken(adminUser)).rejects.toMatchObject({ status: 503 });
+      expect(await verifySessionToken(token)).toBeNull();
+    }
+  });
+});
+
+describe('auth routes', () => {
+  it('issues an HttpOnly session cookie on login', async () => {
+    const response = await login(
+      new Request('http://localhost/api/auth/login', {
+        method: 'POST',
+        body: JSON.stringify({ username: 'admin', password: 'admin123' })
+      })
+    );
+
+    expect(response.status).toBe(200);
+    const payload = await response.json();
+    expect(payload.user.username).toBe('admin');
+    expect(payload.token).toBeUndefined();
+    expect(response.headers.get('set-cookie')).toMatch(/HttpOnly/i);
+    expect(await verifySessionToken(extractSessionCookie(response))).not.toBeNull();
+  });
+
+  it('answers 503 on login while no session secret is configured', async () => {
+    delete process.env.REDMESH_SESSION_SECRET;
+    resetAppConfigCache();
+
+    const response = await login(
+      new Request('http://localhost/api/auth/login', {
+        method: 'POST',
+        body: JSON.stringify({ username: 'admin', password: 'admin123' })
+      })
+    );
+
+    expect(response.status).toBe(503);
+    expect(extractSessionCookie(response)).toBeUndefined();
+  });
+
+  it('does not issue a cookie for invalid credentials', async () => {
+    const response = await login(
+      new Request('http://localhost/api/auth/login', {
+        method: 'POST',
+        body: JSON.stringify({ username: 'admin', password: 'wrong' })
+      })
+    );
+
+    expect(response.status).toBe(401);
+    expect(extractSessionCookie(response)).toBeUndefined();
+  });
+
+  it('refreshes a valid session and rejects a missing one', async () => {
+    const { token } = await createSessionToken(adminUser);
+    const refreshed = await refresh(
+      new Request('http://localhost/api/auth/refresh', {
+        method: 'POST',
+        headers: { cookie: `${SESSION_COOKIE_NAME}=${token}` }
+      })
+    );
+    expect(refreshed.status).toBe(200);
+    expect(extractSessionCookie(refreshed)).toBeTruthy();
+
+    const anonymous = await refresh(new Request('http://localhost/api/auth/refresh', { method: 'POST' }));
+    expect(anonymous.status).toBe(401);
+  });
+
+  it('clears the cookie on logout', async () => {
+    const response = await logout();
+    expect(response.status).toBe(200);
+    expect(extractSessionCookie(response)).toBe('');
+  });
+});
+
+describe('api middleware', () => {
+  it('rejects api calls without a session', async () => {
+    const response = await middleware(new NextRequest('http://localhost/api/jobs'));
+    expect(response.status).toBe(401);
+  });
+
+  it('allows api calls with a valid session cookie', async () => {
+    const { token } = await createSessionToken(adminUser);
+    const response = await middleware(
+      new NextRequest('http://localhost/api/jobs/abc/purge', {
+        headers: { cookie: `${SESSION_COOKIE_NAME}=${token}` }
+      })
+    );
+    expect(response.headers.get('x-middleware-next')).toBe('1');
+  });
+
+  it('leaves login and config public', async () => {
+    for (const path of ['/api/auth/login', '/api/config']) {
+      const response = await middleware(new NextRequest(`http://localhost${path}`));
+      expect(response.headers.get('x-middleware-next')).toBe('1');
+    }
+  });
+});
@@ -0,0 +1,45 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createSessionToken } from '@/lib/api/session';
+import { resetMockJobs } from '@/lib/api/mockData';
+import { resetAppConfigCache } from '@/lib/config/env';
+import { SESSION_COOKIE_NAME } from '@/lib/config/constants';
+
+/** Mesh connection settings; clearing them puts the config in mock mode. */
+const MESH_ENV = ['EE_REDMESH_API_URL', 'EE_CHAINSTORE_API_URL', 'EE_R1FS_API_URL', 'EE_HOST_ID', 'REDMESH_TOKEN'];
+
+/**
+ * A request carrying a signed session cookie for `username` with `roles`.
+ */
+export async function requestAs(url: string, roles: string[], init: RequestInit = {}, username = 'tester'): Promise<Request> {
+  const { token } = await createSessionToken({ id: username, username, displayName: username, roles });
+  return new Request(url, {
+    ...init,
+    headers: { ...(init.headers as Record<string, string>), cookie: `${SESSION_COOKIE_NAME}=${token}` }
+  });
+}
+
+/**
+ * Run each test in mock mode against its own temporary REDMESH_DATA_DIR, removed afterwards.
+ * Call at the top of a file or describe block; the returned function gives the current directory.
+ */
+export function useTempDataDir(prefix: string): () => string {
+  let dataDir = '';
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(path.join(tmpdir(), prefix));
+    process.env.REDMESH_DATA_DIR = dataDir;
+    MESH_ENV.forEach((name) => delete process.env[name]);
+    resetAppConfigCache();
+    resetMockJobs();
+  });
+
+  afterEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+    delete process.env.REDMESH_DATA_DIR;
+    resetAppConfigCache();
+  });
+
+  return () => dataDir;
+}
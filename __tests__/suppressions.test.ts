@@ -0,0 +1,164 @@
+/** @jest-environment node */
+
+import { GET as listRulesRoute, POST as createRuleRoute } from '@/app/api/suppressions/route';
+import { DELETE as deleteRuleRoute } from '@/app/api/suppressions/[ruleId]/route';
+import type { Job, SuppressionRule } from '@/lib/api/types';
+import { aggregatePorts, extractFindings } from '@/lib/domain/findings';
+import { applySuppressions, looksLikeRegex, riskScoreWithoutSuppressed, titleMatches } from '@/lib/domain/suppressions';
+import { normalizeProbeResult } from '@/lib/utils/probeResult';
+import { requestAs, useTempDataDir } from './support/routes';
+
+const NOW = new Date('2025-01-01T00:00:00Z');
+
+function rule(overrides: Partial<SuppressionRule>): SuppressionRule {
+  return {
+    id: 'rule-1',
+    justification: 'Public mirror',
+    expiresAt: '2025-06-01T00:00:00Z',
+    createdAt: '2024-12-01T00:00:00Z',
+    createdBy: 'tester',
+    ...overrides
+  };
+}
+
+const REPORTS = {
+  cid: {
+    service_info: {
+      '21': {
+        _service_info_ftp: {
+          banner: 'vsFTPd 3.0.3',
+          findings: [
+            { severity: 'HIGH', title: 'Anonymous FTP login allowed' },
+            { severity: 'LOW', title: 'FTP banner discloses version' }
+          ],
+          vulnerabilities: ['Anonymous FTP login allowed']
+        }
+      }
+    }
+  }
+};
+
+describe('applySuppressions', () => {
+  const aggregated = aggregatePorts(REPORTS, null);
+
+  it('hides findings matched by an active rule, including their legacy vulnerability line', () => {
+    const result = applySuppressions(
+      aggregated,
+      'ftp.lab.local',
+      [rule({ target: 'ftp.lab.local', port: 21, titlePattern: 'anonymous*login' })],
+      NOW
+    );
+
+    expect(result.suppressed).toEqual([
+      { port: 21, probe: '_service_info_ftp', severity: 'HIGH', title: 'Anonymous FTP login allowed', ruleId: 'rule-1' }
+    ]);
+    expect(extractFindings(result.aggregated).map((finding) => finding.title)).toEqual(['FTP banner discloses version']);
+    const normalized = normalizeProbeResult(result.aggregated.services.get(21)?._service_info_ftp);
+    expect(normalized.hasVulnerability).toBe(false);
+    // The original data is left untouched for the "show suppressed" toggle
+    expect(extractFindings(aggregated)).toHaveLength(2);
+  });
+
+  it('ignores expired rules and rules for other targets or severities', () => {
+    const rules = [
+      rule({ id: 'expired', expiresAt: '2024-12-31T00:00:00Z' }),
+      rule({ id: 'other-host', target: 'web.lab.local' }),
+      rule({ id: 'other-severity', target: 'ftp.lab.local', severity: 'CRITICAL' })
+    ];
+    expect(applySuppressions(aggregated, 'ftp.lab.local', rules, NOW).suppressed).toEqual([]);
+  });
+});
+
+describe('titleMatches', () => {
+  it('matches text anywhere in the title, case-insensitively, with * and ? wildcards', () => {
+    expect(titleMatches('ftp login', 'Anonymous FTP login allowed')).toBe(true);
+    expect(titleMatches('anonymous*allowed', 'Anonymous FTP login allowed')).toBe(true);
+    expect(titleMatches('f?p', 'Anonymous FTP login allowed')).toBe(true);
+    expect(titleMatches('^anonymous', 'Anonymous FTP login allowed')).toBe(false);
+    expect(titleMatches('login*denied', 'Anonymous FTP login allowed')).toBe(false);
+  });
+
+  it('recognises regular expressions so they are rejected on save', () => {
+    expect(['^Anonymous FTP', 'login allowed$', 'FTP.*login', 'a\\d', 'ftp|ssh'].every(looksLikeRegex)).toBe(true);
+    expect(['Anonymous FTP*', 'f?p', 'Outdated jQuery (3.4)'].some(looksLikeRegex)).toBe(false);
+  });
+
+  it('stays fast on patterns that backtrack badly as regular expressions', () => {
+    const started = Date.now();
+    expect(titleMatches('*a*a*a*a*a*a*a*a*a*b', 'a'.repeat(5000))).toBe(false);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
+
+describe('riskScoreWithoutSuppressed', () => {
+  const job = {
+    riskScore: 60,
+    passHistory: [
+      { passNr: 1, completedAt: '2025-05-01T00:00:00Z', reports: {}, riskBreakdown: { findingsScore: 40, openPortsScore: 10, breadthScore: 10, credentialsPenalty: 0, rawTotal: 60 } }
+    ]
+  } as unknown as Job;
+  const findings = [
+    { severity: 'HIGH' as const, title: 'Anonymous FTP login allowed' },
+    { severity: 'HIGH' as const, title: 'Weak TLS' }
+  ];
+
+  it('takes the suppressed share out of the findings component', () => {
+    const suppressed = [{ port: 21, probe: '_service_info_ftp', severity: 'HIGH' as const, title: 'Anonymous FTP login allowed', ruleId: 'rule-1' }];
+    expect(riskScoreWithoutSuppressed(job, findings, suppressed)).toBe(40);
+  });
+
+  it('keeps the reported score when nothing is suppressed or there is no breakdown', () => {
+    expect(riskScoreWithoutSuppressed(job, findings, [])).toBe(60);
+    expect(riskScoreWithoutSuppressed({ riskScore: 60 }, findings, [{ port: 21, probe: 'p', severity: 'HIGH', title: 'x', ruleId: 'r' }])).toBe(60);
+  });
+});
+
+describe('suppression rules API', () => {
+  useTempDataDir('redmesh-suppressions-');
+
+  const future = new Date(Date.now() + 30 * 86_400_000).toISOString();
+
+  it('validates, creates, lists and deletes rules', async () => {
+    const invalid = [
+      { justification: 'No matcher', expiresAt: future },
+      { port: 21, expiresAt: future },
+      { port: 21, justification: 'Past', expiresAt: '2020-01-01T00:00:00Z' },
+      { titlePattern: 'a'.repeat(201), justification: 'Overlong pattern', expiresAt: future },
+      { titlePattern: '^Anonymous FTP.*', justification: 'Regex pattern', expiresAt: future }
+    ];
+    for (const body of invalid) {
+      const response = await createRuleRoute(
+        await requestAs('http://localhost/api/suppressions', ['operator'], { method: 'POST', body: JSON.stringify(body) })
+      );
+      expect(response.status).toBe(400);
+    }
+
+    const created = await createRuleRoute(
+      await requestAs('http://localhost/api/suppressions', ['operator'], {
+        method: 'POST',
+        body: JSON.stringify({ target: 'FTP.lab.local', port: '21', severity: 'high', justification: 'Mirror', expiresAt: future })
+      })
+    );
+    expect(created.status).toBe(201);
+    const { rule: saved } = await created.json();
+    expect(saved).toMatchObject({ target: 'ftp.lab.local', port: 21, severity: 'HIGH', createdBy: 'tester' });
+
+    const listed = await listRulesRoute(await requestAs('http://localhost/api/suppressions', ['viewer']));
+    expect((await listed.json()).rules).toHaveLength(1);
+
+    const params = { params: Promise.resolve({ ruleId: saved.id }) };
+    const forbidden = await deleteRuleRoute(
+      await requestAs(`http://localhost/api/suppressions/${saved.id}`, ['viewer'], { method: 'DELETE' }),
+      params
+    );
+    expect(forbidden.status).toBe(403);
+
+    const deleted = await deleteRuleRoute(
+      await requestAs(`http://localhost/api/suppressions/${saved.id}`, ['operator'], { method: 'DELETE' }),
+      params
+    );
+    expect(deleted.status).toBe(200);
+    const after = await listRulesRoute(await requestAs('http://localhost/api/suppressions', ['viewer']));
+    expect((await after.json()).rules).toEqual([]);
+  });
+});
@@ -0,0 +1,120 @@
+/** @jest-environment node */
+
+import { GET as technologiesRoute } from '@/app/api/assets/technologies/route';
+import { getMockJobs } from '@/lib/api/mockData';
+import type { Job } from '@/lib/api/types';
+import {
+  collectTechFacts,
+  compareVersions,
+  extractTechnologies,
+  matchesTechQuery,
+  mergeTechFacts,
+  parseTechQuery,
+  techDistribution
+} from '@/lib/domain/techStack';
+import { requestAs, useTempDataDir } from './support/routes';
+
+function job(id: string, target: string, passes: Array<{ passNr: number; completedAt: string; cid: string }>): Job {
+  return {
+    id,
+    displayName: `Scan ${id}`,
+    target,
+    workers: [],
+    timeline: [],
+    passHistory: passes.map(({ passNr, completedAt, cid }) => ({ passNr, completedAt, reports: { node: cid } }))
+  } as unknown as Job;
+}
+
+describe('technology extraction', () => {
+  it('normalizes banners, server headers and fingerprint lists', () => {
+    expect(extractTechnologies('_service_info_22', 'SSH-2.0-OpenSSH_7.4p1 Debian-10')).toEqual([
+      { product: 'OpenSSH', version: '7.4p1' }
+    ]);
+    expect(extractTechnologies('_service_info_80', { server: 'Apache/2.4.57 (Ubuntu) OpenSSL/3.0.2' })).toEqual([
+      { product: 'Apache httpd', version: '2.4.57' },
+      { product: 'OpenSSL', version: '3.0.2' }
+    ]);
+    expect(
+      extractTechnologies('_web_test_tech_fingerprint', {
+        technologies: [{ name: 'WordPress', version: '6.4.2' }, 'PHP/8.1.2', 'jQuery'],
+        headers: { 'X-Powered-By': 'PHP/8.1.2' }
+      })
+    ).toEqual([
+      { product: 'PHP', version: '8.1.2' },
+      { product: 'WordPress', version: '6.4.2' },
+      { product: 'jQuery', version: null }
+    ]);
+    expect(extractTechnologies('_service_info_3306', { error: 'timeout' })).toEqual([]);
+  });
+
+  it('compares versions and answers version constraint queries', () => {
+    expect(compareVersions('7.4p1', '8.0')).toBeLessThan(0);
+    expect(compareVersions('9.6p1', '9.6')).toBeGreaterThan(0);
+    expect(compareVersions('10.0', '9.9')).toBeGreaterThan(0);
+
+    const query = parseTechQuery('openssh < 8.0');
+    expect(query).toMatchObject({ product: 'OpenSSH', operator: '<', version: '8.0' });
+    expect(matchesTechQuery({ host: 'a', product: 'OpenSSH', version: '7.4p1' }, query)).toBe(true);
+    expect(matchesTechQuery({ host: 'a', product: 'OpenSSH', version: '9.6p1' }, query)).toBe(false);
+    expect(matchesTechQuery({ host: 'a', product: 'OpenSSH', version: null }, query)).toBe(false);
+    expect(matchesTechQuery({ host: 'a', product: 'nginx', version: '1.24.0' }, parseTechQuery('ngin'))).toBe(true);
+  });
+
+  it('records version changes between passes and builds the distribution', () => {
+    const jobs = [
+      job('job-a', 'web.lab.local', [
+        { passNr: 1, completedAt: '2025-01-01T00:00:00Z', cid: 'cid-1' },
+        { passNr: 2, completedAt: '2025-02-01T00:00:00Z', cid: 'cid-2' }
+      ]),
+      job('job-b', 'db.lab.local', [{ passNr: 1, completedAt: '2025-01-15T00:00:00Z', cid: 'cid-3' }])
+    ];
+    const ssh = (banner: string) => ({ open_ports: [22], service_info: { '22': { _service_info_22: banner } } });
+    const reports = {
+      'cid-1': ssh('SSH-2.0-OpenSSH_7.4'),
+      'cid-2': ssh('SSH-2.0-OpenSSH_9.6p1'),
+      'cid-3': ssh('SSH-2.0-OpenSSH_9.6p1')
+    };
+
+    const hosts = mergeTechFacts({}, collectTechFacts(jobs, reports));
+    expect(hosts['web.lab.local'].installs).toEqual([
+      expect.objectContaining({ product: 'OpenSSH', version: '9.6p1', firstSeen: '2025-01-01T00:00:00Z', lastSeen: '2025-02-01T00:00:00Z' })
+    ]);
+    expect(hosts['web.lab.local'].changes).toEqual([
+      expect.objectContaining({ port: 22, from: '7.4', to: '9.6p1', observation: expect.objectContaining({ passNr: 2 }) })
+    ]);
+    expect(mergeTechFacts(hosts, collectTechFacts(jobs, reports))).toEqual(hosts);
+
+    const installs = Object.values(hosts).flatMap((entry) => entry.installs);
+    expect(techDistribution(installs)).toEqual([{ product: 'OpenSSH', hosts: 2, versions: [{ version: '9.6p1', hosts: 2 }] }]);
+  });
+});
+
+describe('GET /api/assets/technologies', () => {
+  useTempDataDir('redmesh-tech-');
+
+  it('serves installs matching a version constraint', async () => {
+    const host = getMockJobs()[0].target.toLowerCase();
+
+    const all = await technologiesRoute(await requestAs('http://localhost/api/assets/technologies', ['viewer']));
+    expect(all.status).toBe(200);
+    const page = await all.json();
+    expect(page.installs).toEqual(
+      expect.arrayContaining([expect.objectContaining({ host, product: 'OpenSSH', version: '9.0p1' })])
+    );
+    expect(page.distribution.map((entry: { product: string }) => entry.product)).toEqual(
+      expect.arrayContaining(['OpenSSH', 'nginx'])
+    );
+
+    const older = await technologiesRoute(
+      await requestAs(`http://localhost/api/assets/technologies?q=${encodeURIComponent('OpenSSH < 9.0')}`, ['viewer'])
+    );
+    expect((await older.json()).installs).toEqual([]);
+
+    const newer = await technologiesRoute(
+      await requestAs(`http://localhost/api/assets/technologies?q=${encodeURIComponent('OpenSSH >= 9.0')}`, ['viewer'])
+    );
+    const { installs } = await newer.json();
+    expect(installs.length).toBeGreaterThan(0);
+    expect(installs.every((install: { product: string }) => install.product === 'OpenSSH')).toBe(true);
+  });
+});
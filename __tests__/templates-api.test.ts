@@ -0,0 +1,111 @@
+/** @jest-environment node */
+
+import { GET as listTemplates, POST as createTemplate } from '@/app/api/templates/route';
+import {
+  DELETE as deleteTemplate,
+  GET as getTemplate,
+  PUT as updateTemplate
+} from '@/app/api/templates/[templateId]/route';
+import { requestAs, useTempDataDir } from './support/routes';
+
+function params(templateId: string) {
+  return { params: Promise.resolve({ templateId }) };
+}
+
+const fields = {
+  name: 'Weekly OT sweep',
+  summary: 'Recurring plant-floor check',
+  target: '10.0.0.1',
+  authorized: true,
+  portRange: { start: 1, end: 1024 },
+  exceptions: [22, 70000],
+  features: ['service_info_common'],
+  priority: 'high',
+  distribution: 'mirror',
+  duration: 'continuous',
+  scanDelay: { minSeconds: 0.5, maxSeconds: 1 },
+  monitorInterval: 3600,
+  icsSafeMode: true,
+  scannerIdentity: 'pentest-team'
+};
+
+describe('job templates API', () => {
+  useTempDataDir('redmesh-templates-');
+
+  it('stores every launch setting except the target and authorization', async () => {
+    const response = await createTemplate(
+      await requestAs('http://localhost/api/templates', ['operator'], {
+        method: 'POST',
+        body: JSON.stringify({ name: 'OT weekly', fields })
+      })
+    );
+
+    expect(response.status).toBe(201);
+    const { template } = await response.json();
+    expect(template.createdBy).toBe('tester');
+    expect(template.fields).toMatchObject({
+      name: 'Weekly OT sweep',
+      portRange: { start: 1, end: 1024 },
+      exceptions: [22],
+      priority: 'high',
+      distribution: 'mirror',
+      scanDelay: { minSeconds: 0.5, maxSeconds: 1 },
+      scannerIdentity: 'pentest-team'
+    });
+    expect(template.fields).not.toHaveProperty('target');
+    expect(template.fields).not.toHaveProperty('authorized');
+
+    const fetched = await getTemplate(await requestAs(`http://localhost/api/templates/${template.id}`, ['viewer']), params(template.id));
+    expect((await fetched.json()).template.name).toBe('OT weekly');
+  });
+
+  it('supports update, delete and rejects duplicate names', async () => {
+    const create = async (name: string) =>
+      createTemplate(
+        await requestAs('http://localhost/api/templates', ['operator'], {
+          method: 'POST',
+          body: JSON.stringify({ name, fields })
+        })
+      );
+
+    const { template } = await (await create('Baseline')).json();
+    expect((await create('baseline')).status).toBe(409);
+
+    const updated = await updateTemplate(
+      await requestAs(`http://localhost/api/templates/${template.id}`, ['operator'], {
+        method: 'PUT',
+        body: JSON.stringify({ name: 'Baseline v2', fields: { ...fields, portRange: { start: 80, end: 443 } } })
+      }),
+      params(template.id)
+    );
+    expect(updated.status).toBe(200);
+    expect((await updated.json()).template.fields.portRange).toEqual({ start: 80, end: 443 });
+
+    const removed = await deleteTemplate(
+      await requestAs(`http://localhost/api/templates/${template.id}`, ['operator'], { method: 'DELETE' }),
+      params(template.id)
+    );
+    expect(removed.status).toBe(200);
+
+    const listed = await listTemplates(await requestAs('http://localhost/api/templates', ['viewer']));
+    expect((await listed.json()).templates).toEqual([]);
+  });
+
+  it('validates settings and requires launch rights to change templates', async () => {
+    const invalid = await createTemplate(
+      await requestAs('http://localhost/api/templates', ['operator'], {
+        method: 'POST',
+        body: JSON.stringify({ name: 'Broken', fields: { ...fields, portRange: { start: 500, end: 100 } } })
+      })
+    );
+    expect(invalid.status).toBe(400);
+
+    const forbidden = await createTemplate(
+      await requestAs('http://localhost/api/templates', ['viewer'], {
+        method: 'POST',
+        body: JSON.stringify({ name: 'Viewer template', fields })
+      })
+    );
+    expect(forbidden.status).toBe(403);
+  });
+});
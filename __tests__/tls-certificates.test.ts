@@ -0,0 +1,143 @@
+/** @jest-environment node */
+
+import { writeFileSync } from 'fs';
+import path from 'path';
+import { GET as certificatesRoute } from '@/app/api/assets/certificates/route';
+import type { Job, TlsCertificate } from '@/lib/api/types';
+import {
+  collectCertificateFacts,
+  mergeCertificateFacts,
+  parseTlsCertificate,
+  summarizeCertificate
+} from '@/lib/domain/certificates';
+import { requestAs, useTempDataDir } from './support/routes';
+
+function job(id: string, target: string, passes: Array<{ passNr: number; completedAt: string; cid: string }>): Job {
+  return {
+    id,
+    displayName: `Scan ${id}`,
+    target,
+    workers: [],
+    timeline: [],
+    passHistory: passes.map(({ passNr, completedAt, cid }) => ({ passNr, completedAt, reports: { node: cid } }))
+  } as unknown as Job;
+}
+
+describe('TLS certificate parsing', () => {
+  it('reads getpeercert-style names, OpenSSL dates and negotiated cipher tuples', () => {
+    const certificate = parseTlsCertificate({
+      subject: [[['commonName', 'web.lab.local']], [['organizationName', 'Lab']]],
+      issuer: [[['commonName', 'Lab CA']]],
+      subjectAltName: [['DNS', 'web.lab.local'], ['DNS', 'www.lab.local']],
+      notBefore: 'Jan  1 00:00:00 2025 GMT',
+      notAfter: 'Mar  1 00:00:00 2025 GMT',
+      serialNumber: '0A1B',
+      protocol: 'TLSv1.2',
+      cipher: ['ECDHE-RSA-AES128-GCM-SHA256', 'TLSv1.2', 128],
+      key_size: 1024,
+      key_type: 'RSA'
+    });
+
+    expect(certificate).toMatchObject({
+      subject: 'CN=web.lab.local, O=Lab',
+      commonName: 'web.lab.local',
+      issuer: 'CN=Lab CA',
+      sans: ['web.lab.local', 'www.lab.local'],
+      notAfter: '2025-03-01T00:00:00.000Z',
+      protocols: ['TLSv1.2'],
+      ciphers: ['ECDHE-RSA-AES128-GCM-SHA256'],
+      keySize: 1024,
+      selfSigned: false
+    });
+    expect(parseTlsCertificate({ error: 'handshake failed' })).toBeNull();
+    expect(parseTlsCertificate('SSH-2.0-OpenSSH_9.6')).toBeNull();
+  });
+
+  it('merges endpoints across jobs and flags expiry, weak keys and legacy protocols', () => {
+    const jobs = [
+      job('job-a', 'web.lab.local', [{ passNr: 1, completedAt: '2025-01-10T00:00:00Z', cid: 'cid-a' }]),
+      job('job-b', 'api.lab.local', [{ passNr: 1, completedAt: '2025-01-20T00:00:00Z', cid: 'cid-b' }])
+    ];
+    const selfSigned = {
+      cert_subject: 'CN=web.lab.local',
+      cert_issuer: 'CN=web.lab.local',
+      cert_not_after: '2025-02-01T00:00:00Z',
+      cert_key_size: 1024,
+      protocols: ['TLSv1.0', 'TLSv1.2'],
+      ciphers: ['RC4-SHA', 'AES256-GCM-SHA384']
+    };
+    const reports = {
+      'cid-a': { open_ports: [443], service_info: { '443': { _service_info_tls: selfSigned } } },
+      'cid-b': {
+        open_ports: [443, 8443],
+        service_info: {
+          '443': { _service_info_tls: { ...selfSigned, protocols: ['TLSv1.3'] } },
+          '8443': { _service_info_tls: { subject: 'CN=api.lab.local', issuer: 'CN=Lab CA', not_after: '2026-01-01T00:00:00Z' } }
+        }
+      }
+    };
+
+    const certificates = mergeCertificateFacts({}, collectCertificateFacts(jobs, reports));
+    const all = Object.values(certificates);
+    expect(all).toHaveLength(2);
+
+    const web = all.find((entry) => entry.commonName === 'web.lab.local') as TlsCertificate;
+    expect(web.endpoints.map((endpoint) => `${endpoint.host}:${endpoint.port}`)).toEqual(['api.lab.local:443', 'web.lab.local:443']);
+    expect(web).toMatchObject({ firstSeen: '2025-01-10T00:00:00Z', lastSeen: '2025-01-20T00:00:00Z' });
+    expect(web.protocols).toEqual(['TLSv1.0', 'TLSv1.2', 'TLSv1.3']);
+
+    const summary = summarizeCertificate(web, new Date('2025-01-22T00:00:00Z'));
+    expect(summary).toMatchObject({
+      daysToExpiry: 10,
+      selfSigned: true,
+      weakKey: true,
+      weakProtocols: ['TLSv1.0'],
+      weakCiphers: ['RC4-SHA']
+    });
+    expect(mergeCertificateFacts(certificates, collectCertificateFacts(jobs, reports))).toEqual(certificates);
+  });
+});
+
+describe('GET /api/assets/certificates', () => {
+  const dataDir = useTempDataDir('redmesh-certificates-');
+
+  it('sorts by days to expiry and filters by the expiry window', async () => {
+    const day = 24 * 60 * 60 * 1000;
+    const certificate = (id: string, daysLeft: number): TlsCertificate => ({
+      id,
+      subject: `CN=${id}`,
+      commonName: id,
+      sans: [],
+      issuer: 'CN=Lab CA',
+      notAfter: new Date(Date.now() + daysLeft * day + 60 * 60 * 1000).toISOString(),
+      selfSigned: false,
+      protocols: [],
+      ciphers: [],
+      endpoints: [],
+      firstSeen: '2025-01-01T00:00:00Z',
+      lastSeen: '2025-01-01T00:00:00Z'
+    });
+    writeFileSync(
+      path.join(dataDir(), 'tls-certificates.json'),
+      JSON.stringify({
+        certificates: { later: certificate('later', 200), soon: certificate('soon', 5), expired: certificate('expired', -3) }
+      })
+    );
+
+    const list = await certificatesRoute(await requestAs('http://localhost/api/assets/certificates', ['viewer']));
+    expect(list.status).toBe(200);
+    const page = await list.json();
+    expect(page.certificates.map((entry: { id: string }) => entry.id)).toEqual(['expired', 'soon', 'later']);
+    expect(page.certificates[1].daysToExpiry).toBe(5);
+
+    const filtered = await certificatesRoute(
+      await requestAs('http://localhost/api/assets/certificates?expiringWithin=30', ['viewer'])
+    );
+    expect((await filtered.json()).certificates.map((entry: { id: string }) => entry.id)).toEqual(['expired', 'soon']);
+
+    const invalid = await certificatesRoute(
+      await requestAs('http://localhost/api/assets/certificates?expiringWithin=soon', ['viewer'])
+    );
+    expect(invalid.status).toBe(400);
+  });
+});
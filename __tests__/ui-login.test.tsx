@@ -12,6 +12,33 @@ jest.mock('next/navigation', () => ({
   })
 }));
 
+function configResponse(): Response {
+  return {
+    ok: true,
+    status: 200,
+    json: async () => ({
+      hostId: 'en-01',
+      mockMode: true,
+      environment: 'development',
+      appVersion: APP_VERSION,
+      swaggerUrl: null,
+      redmeshApiConfigured: false,
+      chainstoreApiConfigured: false,
+      r1fsApiConfigured: false,
+      featureCatalog: [],
+      chainstorePeers: [],
+      cstoreStatus: { mode: 'mock' },
+      r1fsStatus: { mode: 'mock' },
+      cstoreError: null,
+      r1fsError: null
+    })
+  } as Response;
+}
+
+function requestUrl(input: Parameters<typeof fetch>[0]): string {
+  return typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+}
+
 describe('LoginForm', () => {
   beforeEach(() => {
     replaceMock.mockReset();
@@ -34,26 +61,7 @@ describe('LoginForm', () => {
             : input.url;
 
         if (url.endsWith('/api/config')) {
-          return Promise.resolve({
-            ok: true,
-            status: 200,
-            json: async () => ({
-              hostId: 'en-01',
-              mockMode: true,
-              environment: 'development',
-              appVersion: APP_VERSION,
-              swaggerUrl: null,
-              redmeshApiConfigured: false,
-              chainstoreApiConfigured: false,
-              r1fsApiConfigured: false,
-              featureCatalog: [],
-              chainstorePeers: [],
-              cstoreStatus: { mode: 'mock' },
-              r1fsStatus: { mode: 'mock' },
-              cstoreError: null,
-              r1fsError: null
-            })
-          } as Response);
+          return Promise.resolve(configResponse());
         }
 
         if (url.endsWith('/api/auth/login')) {
@@ -98,4 +106,41 @@ describe('LoginForm', () => {
     );
     await waitFor(() => expect(replaceMock).toHaveBeenCalledWith('/dashboard'));
   });
+
+  it('shows the remaining lockout time after a 429 response', async () => {
+    jest.spyOn(global as { fetch: typeof fetch }, 'fetch').mockImplementation((input: Parameters<typeof fetch>[0]) => {
+      const url = requestUrl(input);
+
+      if (url.endsWith('/api/config')) {
+        return Promise.resolve(configResponse());
+      }
+
+      if (url.endsWith('/api/auth/login')) {
+        return Promise.resolve({
+          ok: false,
+          status: 429,
+          headers: new Headers({ 'Retry-After': '90' }),
+          json: async () => ({ message: 'Too many failed sign-in attempts.', retryAfterSeconds: 90 })
+        } as Response);
+      }
+
+      return Promise.resolve({ ok: false, status: 401, json: async () => null } as Response);
+    });
+
+    const user = userEvent.setup();
+
+    render(
+      <Providers>
+        <LoginForm />
+      </Providers>
+    );
+
+    await user.type(screen.getByLabelText(/Username/i), 'admin');
+    await user.type(screen.getByLabelText(/Password/i), 'wrong');
+    await user.click(screen.getByRole('button', { name: /Sign in/i }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(/Try again in 1:(30|29)/);
+    expect(screen.getByRole('button', { name: /Sign in/i })).toBeDisabled();
+    expect(replaceMock).not.toHaveBeenCalled();
+  });
 });
@@ -9,9 +9,12 @@ import { useAppConfig } from '@/components/layout/AppConfigContext';
 import Card from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
 import Loader from '@/components/ui/Loader';
+import ApiKeysCard from '@/components/advanced/ApiKeysCard';
+import ScopeCard from '@/components/advanced/ScopeCard';
+import CveFeedCard from '@/components/advanced/CveFeedCard';
 
 export default function AdvancedPage(): JSX.Element {
-  const { user, loading } = useAuth();
+  const { user, loading, can } = useAuth();
   const router = useRouter();
   const { config, loading: configLoading, refresh } = useAppConfig();
 
@@ -29,6 +32,18 @@ export default function AdvancedPage(): JSX.Element {
     );
   }
 
+  if (!can('advanced:view')) {
+    return (
+      <AppShell>
+        <Card title="Access restricted" description="Advanced diagnostics are available to administrators only.">
+          <Button asChild variant="secondary" size="sm">
+            <Link href="/dashboard">Back to dashboard</Link>
+          </Button>
+        </Card>
+      </AppShell>
+    );
+  }
+
   if (configLoading && !config) {
     return (
       <AppShell>
@@ -125,6 +140,14 @@ export default function AdvancedPage(): JSX.Element {
                 {config?.r1fsApiConfigured ? 'Configured via EE_R1FS_API_URL' : 'Optional in UI'}
               </div>
             </li>
+            <li>
+              <strong className="text-slate-100">DefectDojo</strong>
+              <div className="text-xs text-slate-400">
+                {config?.defectDojoConfigured
+                  ? 'Push enabled via DEFECTDOJO_URL, DEFECTDOJO_API_KEY and DEFECTDOJO_ENGAGEMENT_ID'
+                  : 'Optional; export only'}
+              </div>
+            </li>
             <li>
               <strong className="text-slate-100">Host</strong>
               <div className="text-xs text-slate-400">{config?.hostId ?? 'Unknown edge node'}</div>
@@ -181,6 +204,9 @@ export default function AdvancedPage(): JSX.Element {
             </li>
           </ol>
         </Card>
+        <CveFeedCard />
+        {can('scope:manage') && <ScopeCard />}
+        {can('apikeys:manage') && <ApiKeysCard />}
       </div>
     </AppShell>
   );
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { revokeApiKey } from '@/lib/api/apiKeys';
+import { requirePermission } from '@/lib/api/session';
+
+interface RouteParams {
+  params: Promise<{ keyId: string }>;
+}
+
+/**
+ * DELETE /api/api-keys/[keyId]
+ * Revoke a key. Revoked keys stay listed so their history remains visible.
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const { keyId } = await params;
+
+  try {
+    await requirePermission(request, 'apikeys:manage');
+    const key = await revokeApiKey(keyId);
+    return NextResponse.json({ key }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected API key revoke error', error);
+    return NextResponse.json({ message: 'Unable to revoke API key.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { API_KEY_SCOPES, createApiKey, isApiKeyScope, listApiKeys } from '@/lib/api/apiKeys';
+import { requirePermission } from '@/lib/api/session';
+
+/**
+ * GET /api/api-keys
+ * List API keys (without their secrets).
+ */
+export async function GET(request: Request) {
+  try {
+    await requirePermission(request, 'apikeys:manage');
+    const keys = await listApiKeys();
+    return NextResponse.json({ keys }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected API key list error', error);
+    return NextResponse.json({ message: 'Unable to load API keys.' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/api-keys
+ * Create a key. The response carries the plain `secret`, which is never returned again.
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await requirePermission(request, 'apikeys:manage');
+
+    const body = (await request.json().catch(() => null)) as { name?: unknown; scope?: unknown } | null;
+    if (!body || typeof body.name !== 'string') {
+      throw new ApiError(400, 'API key name is required.');
+    }
+    if (!isApiKeyScope(body.scope)) {
+      throw new ApiError(400, `API key scope must be one of: ${API_KEY_SCOPES.join(', ')}.`);
+    }
+
+    const created = await createApiKey({
+      name: body.name,
+      scope: body.scope,
+      createdBy: session.user.username
+    });
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected API key create error', error);
+    return NextResponse.json({ message: 'Unable to create API key.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { listTlsCertificates } from '@/lib/api/assets';
+import { requirePermission } from '@/lib/api/session';
+
+/**
+ * GET /api/assets/certificates
+ * List TLS certificates seen on any scanned host, soonest expiry first, with weak key,
+ * self-signed, protocol and cipher flags. `?expiringWithin=N` keeps certificates expiring
+ * within N days (expired ones included); `?refresh=true` re-ingests every job's reports first.
+ */
+export async function GET(request: Request) {
+  const authHeader = request.headers.get('authorization') ?? undefined;
+  const token = authHeader?.startsWith('Bearer ')
+    ? authHeader.slice('Bearer '.length)
+    : authHeader ?? undefined;
+
+  const url = new URL(request.url);
+  const expiringWithinParam = url.searchParams.get('expiringWithin');
+
+  try {
+    await requirePermission(request, 'jobs:read');
+
+    let expiringWithin: number | undefined;
+    if (expiringWithinParam !== null && expiringWithinParam !== '') {
+      expiringWithin = Number(expiringWithinParam);
+      if (!Number.isInteger(expiringWithin) || expiringWithin < 0) {
+        throw new ApiError(400, 'expiringWithin must be a non-negative number of days.');
+      }
+    }
+
+    const page = await listTlsCertificates({
+      expiringWithin,
+      refresh: url.searchParams.get('refresh') === 'true',
+      authToken: token
+    });
+    return NextResponse.json(page, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected certificate inventory error', error);
+    return NextResponse.json({ message: 'Unable to load the certificate inventory.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { getAssetHost, listAssetHosts } from '@/lib/api/assets';
+import { requirePermission } from '@/lib/api/session';
+
+/**
+ * GET /api/assets
+ * List hosts from the cross-job asset inventory, most recently seen first.
+ * `?q=` searches hosts, ports, services, banners and job names; `?refresh=true` re-ingests
+ * every job's reports first. With `?host=` returns that host's ports, services and observations.
+ */
+export async function GET(request: Request) {
+  const authHeader = request.headers.get('authorization') ?? undefined;
+  const token = authHeader?.startsWith('Bearer ')
+    ? authHeader.slice('Bearer '.length)
+    : authHeader ?? undefined;
+
+  const url = new URL(request.url);
+  const host = url.searchParams.get('host');
+
+  try {
+    await requirePermission(request, 'jobs:read');
+
+    if (host) {
+      const asset = await getAssetHost(host, { authToken: token });
+      return NextResponse.json({ host: asset }, { status: 200 });
+    }
+
+    const inventory = await listAssetHosts({
+      query: url.searchParams.get('q') ?? undefined,
+      refresh: url.searchParams.get('refresh') === 'true',
+      authToken: token
+    });
+    return NextResponse.json(inventory, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected asset inventory error', error);
+    return NextResponse.json({ message: 'Unable to load the asset inventory.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { listTechInventory } from '@/lib/api/assets';
+import { requirePermission } from '@/lib/api/session';
+
+/**
+ * GET /api/assets/technologies
+ * List the products and versions fingerprinted on every scanned host, with a per-version host
+ * distribution and version changes between passes. `?q=` is a text search or a version
+ * constraint such as `OpenSSH < 8.0`; `?refresh=true` re-ingests every job's reports first.
+ */
+export async function GET(request: Request) {
+  const authHeader = request.headers.get('authorization') ?? undefined;
+  const token = authHeader?.startsWith('Bearer ')
+    ? authHeader.slice('Bearer '.length)
+    : authHeader ?? undefined;
+
+  const url = new URL(request.url);
+
+  try {
+    await requirePermission(request, 'jobs:read');
+
+    const page = await listTechInventory({
+      query: url.searchParams.get('q') ?? undefined,
+      refresh: url.searchParams.get('refresh') === 'true',
+      authToken: token
+    });
+    return NextResponse.json(page, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected technology inventory error', error);
+    return NextResponse.json({ message: 'Unable to load the technology inventory.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { listAuditEvents } from '@/lib/api/audit';
+import { AuditAction } from '@/lib/api/types';
+import { requirePermission } from '@/lib/api/session';
+
+const AUDIT_ACTIONS: AuditAction[] = ['job.launch', 'job.stop', 'job.stop_monitoring', 'job.purge'];
+
+function parsePositiveInt(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * GET /api/audit
+ * Page through the audit log, newest first.
+ * Query: page, pageSize, action, username, jobId, from, to (ISO timestamps).
+ */
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const action = url.searchParams.get('action') || undefined;
+  const from = url.searchParams.get('from') || undefined;
+  const to = url.searchParams.get('to') || undefined;
+
+  try {
+    await requirePermission(request, 'audit:read');
+
+    if (action && !AUDIT_ACTIONS.includes(action as AuditAction)) {
+      throw new ApiError(400, `Unknown audit action "${action}".`);
+    }
+    for (const value of [from, to]) {
+      if (value && Number.isNaN(new Date(value).getTime())) {
+        throw new ApiError(400, `Invalid date "${value}".`);
+      }
+    }
+
+    const result = await listAuditEvents({
+      page: parsePositiveInt(url.searchParams.get('page')),
+      pageSize: parsePositiveInt(url.searchParams.get('pageSize')),
+      action: action as AuditAction | undefined,
+      username: url.searchParams.get('username')?.trim() || undefined,
+      jobId: url.searchParams.get('jobId')?.trim() || undefined,
+      from,
+      to
+    });
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected audit log error', error);
+    return NextResponse.json({ message: 'Unable to load audit log.' }, { status: 500 });
+  }
+}
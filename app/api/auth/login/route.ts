@@ -1,7 +1,34 @@
 import { NextResponse } from 'next/server';
 import { authenticateUser } from '@/lib/api/auth';
 import { ApiError } from '@/lib/api/errors';
+import { buildSessionCookie, createSessionToken, toSessionInfo } from '@/lib/api/session';
+import {
+  getClientIp,
+  getLockoutRemainingSeconds,
+  registerLoginSuccess,
+  releaseLoginAttempt,
+  reserveLoginAttempt
+} from '@/lib/api/loginThrottle';
+import { createLogger } from '@/lib/services/logger';
 
+const authLogger = createLogger('Auth');
+
+function lockedResponse(retryAfterSeconds: number) {
+  return NextResponse.json(
+    {
+      message: `Too many failed sign-in attempts. Try again in ${retryAfterSeconds} seconds.`,
+      retryAfterSeconds
+    },
+    { status: 429, headers: { 'Retry-After': String(retryAfterSeconds) } }
+  );
+}
+
+/**
+ * POST /api/auth/login
+ * Verify credentials and issue a signed, expiring HttpOnly session cookie.
+ * Repeated failures per IP or username are answered with 429 and `Retry-After`. The attempt is
+ * counted before the password check so concurrent guesses share the same budget.
+ */
 export async function POST(request: Request) {
   const body = await request.json().catch(() => null);
 
@@ -9,10 +36,34 @@ export async function POST(request: Request) {
     return NextResponse.json({ message: 'username and password are required.' }, { status: 400 });
   }
 
+  const throttleKeys = { ip: getClientIp(request), username: body.username };
+  const lockedFor = reserveLoginAttempt(throttleKeys);
+  if (lockedFor > 0) {
+    authLogger.warn('Login rejected while locked out', { ...throttleKeys, retryAfterSeconds: lockedFor });
+    return lockedResponse(lockedFor);
+  }
+
   try {
-    const result = await authenticateUser(body.username, body.password);
-    return NextResponse.json(result, { status: 200 });
+    const { user } = await authenticateUser(body.username, body.password);
+    registerLoginSuccess(throttleKeys);
+    const { token, expiresAt } = await createSessionToken(user);
+
+    authLogger.info('Login succeeded', { ...throttleKeys, roles: user.roles });
+
+    const response = NextResponse.json(toSessionInfo({ user, expiresAt }), { status: 200 });
+    response.cookies.set(buildSessionCookie(token, expiresAt));
+    return response;
   } catch (error) {
+    if (error instanceof ApiError && error.status === 401) {
+      const retryAfterSeconds = getLockoutRemainingSeconds(throttleKeys);
+      authLogger.warn('Login failed', { ...throttleKeys, reason: error.message, lockedForSeconds: retryAfterSeconds });
+      if (retryAfterSeconds > 0) {
+        return lockedResponse(retryAfterSeconds);
+      }
+    } else {
+      releaseLoginAttempt(throttleKeys);
+    }
+
     if (error instanceof ApiError) {
       return NextResponse.json({ message: error.message }, { status: error.status });
     }
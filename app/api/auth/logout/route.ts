@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { buildClearedSessionCookie } from '@/lib/api/session';
+
+/**
+ * POST /api/auth/logout
+ * Clear the session cookie. Always succeeds so an expired session can still sign out.
+ */
+export async function POST() {
+  const response = NextResponse.json({ status: 'signed_out' }, { status: 200 });
+  response.cookies.set(buildClearedSessionCookie());
+  return response;
+}
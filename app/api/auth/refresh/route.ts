@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { resolveSessionUser } from '@/lib/api/auth';
+import { ApiError } from '@/lib/api/errors';
+import {
+  buildClearedSessionCookie,
+  buildSessionCookie,
+  createSessionToken,
+  requireSession,
+  toSessionInfo
+} from '@/lib/api/session';
+
+/**
+ * POST /api/auth/refresh
+ * Re-issue the session cookie with a fresh expiry for the currently signed-in user.
+ * The user is looked up again so the new cookie carries the current roles; disabled or unknown
+ * users get a 401 and a cleared cookie.
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await requireSession(request);
+    const user = await resolveSessionUser(session.user.username);
+    if (!user) {
+      const response = NextResponse.json({ message: 'Your account is no longer active. Sign in again.' }, { status: 401 });
+      response.cookies.set(buildClearedSessionCookie());
+      return response;
+    }
+
+    const { token, expiresAt } = await createSessionToken(user);
+
+    const response = NextResponse.json(toSessionInfo({ user, expiresAt }), { status: 200 });
+    response.cookies.set(buildSessionCookie(token, expiresAt));
+    return response;
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected session refresh error', error);
+    return NextResponse.json({ message: 'Unable to refresh session.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { deleteJobBundle } from '@/lib/api/bundles';
+import { requirePermission } from '@/lib/api/session';
+
+interface RouteParams {
+  params: Promise<{ jobId: string }>;
+}
+
+/**
+ * DELETE /api/bundles/[jobId]
+ * Remove an imported job bundle; a purged job disappears from the job detail page again.
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const { jobId } = await params;
+
+  try {
+    await requirePermission(request, 'jobs:create');
+    await deleteJobBundle(jobId);
+    return NextResponse.json({ status: 'deleted' }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected bundle delete error', error);
+    return NextResponse.json({ message: 'Unable to delete job bundle.' }, { status: 500 });
+  }
+}
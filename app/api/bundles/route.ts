@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { importJobBundle, listJobBundles } from '@/lib/api/bundles';
+import { requirePermission } from '@/lib/api/session';
+
+/**
+ * GET /api/bundles
+ * List imported job bundles, most recently imported first.
+ */
+export async function GET(request: Request) {
+  try {
+    await requirePermission(request, 'jobs:read');
+    const bundles = await listJobBundles();
+    return NextResponse.json({ bundles }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected bundle list error', error);
+    return NextResponse.json({ message: 'Unable to load job bundles.' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/bundles
+ * Import a job bundle downloaded from /api/jobs/[jobId]/bundle. The bundle is rejected when its
+ * format, schema version or checksums do not match; once stored, the job detail page serves it
+ * whenever the mesh no longer knows the job.
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await requirePermission(request, 'jobs:create');
+    const body = await request.json().catch(() => null);
+    const bundle = await importJobBundle(body, session.user.username);
+    return NextResponse.json({ bundle }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected bundle import error', error);
+    return NextResponse.json({ message: 'Unable to import job bundle.' }, { status: 500 });
+  }
+}
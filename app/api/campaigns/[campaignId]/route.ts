@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { getCampaign } from '@/lib/api/campaigns';
+import { requirePermissionOrApiKey } from '@/lib/api/apiKeys';
+
+interface RouteParams {
+  params: Promise<{ campaignId: string }>;
+}
+
+/**
+ * GET /api/campaigns/[campaignId]
+ * Retrieve a campaign with its jobs, aggregate progress and combined findings.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  const { campaignId } = await params;
+
+  try {
+    await requirePermissionOrApiKey(request, 'jobs:read');
+    const detail = await getCampaign(campaignId);
+    return NextResponse.json(detail, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected campaign fetch error', error);
+    return NextResponse.json({ message: 'Unable to load campaign.' }, { status: 500 });
+  }
+}
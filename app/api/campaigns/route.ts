@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { listCampaigns } from '@/lib/api/campaigns';
+import { requirePermissionOrApiKey } from '@/lib/api/apiKeys';
+
+/**
+ * GET /api/campaigns
+ * List multi-target campaigns, newest first, with aggregate progress.
+ */
+export async function GET(request: Request) {
+  try {
+    await requirePermissionOrApiKey(request, 'jobs:read');
+    const campaigns = await listCampaigns();
+    return NextResponse.json({ campaigns }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected campaign list error', error);
+    return NextResponse.json({ message: 'Unable to load campaigns.' }, { status: 500 });
+  }
+}
@@ -4,6 +4,7 @@ import { getDefaultFeatureCatalog, RedMeshFeature } from '@/lib/domain/features'
 import { getRatioEdgeClient } from '@/lib/services/edgeClient';
 import { APP_VERSION } from '@/lib/config/version';
 import { getRedMeshApiService, FeatureCatalogItem } from '@/lib/services/redmeshApi';
+import { isDefectDojoConfigured } from '@/lib/services/defectDojo';
 
 /**
  * Transform FeatureCatalogItem from API to RedMeshFeature for UI.
@@ -77,6 +78,7 @@ export async function GET() {
     redmeshApiConfigured: Boolean(config.redmeshApiUrl),
     chainstoreApiConfigured: Boolean(config.chainstoreApiUrl),
     r1fsApiConfigured: Boolean(config.r1fsApiUrl),
+    defectDojoConfigured: isDefectDojoConfigured(),
     chainstorePeers: config.chainstorePeers,
     featureCatalog,
     cstoreStatus,
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { getCveFeedStatus, importCveFeed } from '@/lib/api/cveFeed';
+import { requirePermission } from '@/lib/api/session';
+
+/**
+ * GET /api/cves/feed
+ * When the local vulnerability feed was imported, from which files, and how many CVEs it holds.
+ */
+export async function GET(request: Request) {
+  try {
+    await requirePermission(request, 'jobs:read');
+    const feed = await getCveFeedStatus();
+    return NextResponse.json({ feed }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected CVE feed status error', error);
+    return NextResponse.json({ message: 'Unable to load the CVE feed status.' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/cves/feed
+ * Re-import the NVD JSON feeds and CPE dictionaries from `REDMESH_CVE_FEED_DIR`.
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await requirePermission(request, 'cves:import');
+    const feed = await importCveFeed(session.user.username);
+    return NextResponse.json({ feed }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected CVE feed import error', error);
+    return NextResponse.json({ message: 'Unable to import the CVE feed.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { matchCveItems } from '@/lib/api/cveFeed';
+import { requirePermission } from '@/lib/api/session';
+import type { CveMatchItem } from '@/lib/api/types';
+
+function isMatchItem(value: unknown): value is CveMatchItem {
+  const item = value as Partial<CveMatchItem> | null;
+  return (
+    Boolean(item) &&
+    Number.isInteger(item?.port) &&
+    typeof item?.product === 'string' &&
+    item.product.trim() !== '' &&
+    typeof item.version === 'string' &&
+    item.version.trim() !== ''
+  );
+}
+
+/**
+ * POST /api/cves/match
+ * Match `{ items: [{ port, product, version }] }` against the imported feed. Returns the matched
+ * CVEs with CVSS scores and the feed import date (null when no feed has been imported).
+ */
+export async function POST(request: Request) {
+  try {
+    await requirePermission(request, 'jobs:read');
+
+    const body = (await request.json().catch(() => null)) as { items?: unknown } | null;
+    if (!body || !Array.isArray(body.items) || !body.items.every(isMatchItem)) {
+      throw new ApiError(400, 'Provide items as an array of { port, product, version }.');
+    }
+
+    const result = await matchCveItems(body.items);
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected CVE match error', error);
+    return NextResponse.json({ message: 'Unable to match CVEs.' }, { status: 500 });
+  }
+}
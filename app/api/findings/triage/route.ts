@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { listFindingTriage, parseTriageRequest, updateFindingTriage } from '@/lib/api/triage';
+import { requirePermission } from '@/lib/api/session';
+
+/**
+ * GET /api/findings/triage?target=
+ * Triage records (status, assignee, comments, CVSS vector) for the findings of one target, or all targets.
+ */
+export async function GET(request: Request) {
+  try {
+    await requirePermission(request, 'jobs:read');
+    const target = new URL(request.url).searchParams.get('target') ?? undefined;
+    const records = await listFindingTriage({ target });
+    return NextResponse.json({ records }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected triage list error', error);
+    return NextResponse.json({ message: 'Unable to load finding triage.' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/findings/triage
+ * Update one finding: `{ target, port, probe, title, cweId?, status?, assignee?, comment?, cvssVector? }`.
+ * The fingerprint is computed from the identity fields, so the first update creates the record.
+ * `cvssVector` is validated and stored normalized; an empty string clears it.
+ */
+export async function PUT(request: Request) {
+  try {
+    const session = await requirePermission(request, 'findings:triage');
+    const body = await request.json().catch(() => null);
+    const { identity, update } = parseTriageRequest(body);
+    const record = await updateFindingTriage(identity, update, session.user);
+    return NextResponse.json({ record }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected triage update error', error);
+    return NextResponse.json({ message: 'Unable to update finding.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { fetchJobOrArchive } from '@/lib/api/bundles';
+import { requirePermissionOrApiKey } from '@/lib/api/apiKeys';
+import { buildJobBundle } from '@/lib/export/bundle';
+
+interface RouteParams {
+  params: Promise<{ jobId: string }>;
+}
+
+/**
+ * GET /api/jobs/[jobId]/bundle
+ * Download the job as one self-contained JSON document: the normalized job, every worker report
+ * keyed by pass and node, LLM analyses and quick summaries with their CIDs, and SHA-256
+ * checksums. Import it again through POST /api/bundles.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  const { jobId } = await params;
+
+  try {
+    const session = await requirePermissionOrApiKey(request, 'jobs:read');
+
+    const result = await fetchJobOrArchive(jobId);
+    if (!result) {
+      return NextResponse.json({ message: `Job ${jobId} not found.` }, { status: 404 });
+    }
+
+    const bundle = buildJobBundle(result, { exportedBy: session.user.username });
+
+    return new NextResponse(JSON.stringify(bundle, null, 2), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="redmesh-${result.job.id.slice(0, 8)}-bundle.json"`
+      }
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected job bundle error', error);
+    return NextResponse.json({ message: 'Unable to export job bundle.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { requirePermission } from '@/lib/api/session';
+import { loadJobFindings } from '@/lib/api/jobFindings';
+import { buildDefectDojoReport } from '@/lib/export/defectDojo';
+import { pushToDefectDojo } from '@/lib/services/defectDojo';
+
+interface RouteParams {
+  params: Promise<{ jobId: string }>;
+}
+
+/**
+ * POST /api/jobs/[jobId]/defectdojo
+ * Send the job's findings to the configured DefectDojo engagement as a Generic Findings Import
+ * scan. Answers 501 when DEFECTDOJO_URL, DEFECTDOJO_API_KEY or DEFECTDOJO_ENGAGEMENT_ID is unset.
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  const { jobId } = await params;
+
+  try {
+    await requirePermission(request, 'findings:triage');
+
+    const result = await loadJobFindings(jobId);
+    if (!result) {
+      return NextResponse.json({ message: `Job ${jobId} not found.` }, { status: 404 });
+    }
+
+    const { job, findings, triage } = result;
+    const report = buildDefectDojoReport(job, findings, { triage });
+    const pushed = await pushToDefectDojo(job, report);
+
+    return NextResponse.json(pushed, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected DefectDojo push error', error);
+    return NextResponse.json({ message: 'Unable to push findings to DefectDojo.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { fetchJobOrArchive } from '@/lib/api/bundles';
+import { requirePermissionOrApiKey } from '@/lib/api/apiKeys';
+import { defaultDiffRange, diffPasses } from '@/lib/domain/passDiff';
+
+interface RouteParams {
+  params: Promise<{ jobId: string }>;
+}
+
+function parsePassNr(value: string | null): number | undefined {
+  if (value === null || value === '') {
+    return undefined;
+  }
+  const passNr = Number(value);
+  if (!Number.isInteger(passNr) || passNr < 1) {
+    throw new ApiError(400, 'Pass numbers must be positive integers.');
+  }
+  return passNr;
+}
+
+/**
+ * GET /api/jobs/[jobId]/diff?from=&to=
+ * Compare two passes of a job: opened and closed ports, banner/version changes, new and resolved
+ * findings, and the risk score delta. Defaults to the latest pass against the one before it.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  const { jobId } = await params;
+  const url = new URL(request.url);
+
+  try {
+    await requirePermissionOrApiKey(request, 'jobs:read');
+    const from = parsePassNr(url.searchParams.get('from'));
+    const to = parsePassNr(url.searchParams.get('to'));
+
+    const result = await fetchJobOrArchive(jobId);
+    if (!result) {
+      return NextResponse.json({ message: `Job ${jobId} not found.` }, { status: 404 });
+    }
+
+    const range = defaultDiffRange(result.job);
+    if (!range && (from === undefined || to === undefined)) {
+      throw new ApiError(400, 'This job has fewer than two passes to compare.');
+    }
+
+    const fromPass = from ?? range!.from;
+    const toPass = to ?? range!.to;
+    const passNrs = new Set(result.job.passHistory?.map((pass) => pass.passNr) ?? []);
+    if (!passNrs.has(fromPass) || !passNrs.has(toPass)) {
+      throw new ApiError(400, `Pass ${passNrs.has(fromPass) ? toPass : fromPass} is not in the history of this job.`);
+    }
+
+    const diff = diffPasses(result.job, result.reports, fromPass, toPass);
+    return NextResponse.json({ diff }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected pass diff error', error);
+    return NextResponse.json({ message: 'Unable to compare passes.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,107 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { requirePermissionOrApiKey } from '@/lib/api/apiKeys';
+import { listSuppressionRules } from '@/lib/api/suppressions';
+import { loadJobFindings, loadSourceFindings } from '@/lib/api/jobFindings';
+import { buildDefectDojoReport } from '@/lib/export/defectDojo';
+import { buildSarifLog } from '@/lib/export/sarif';
+import { FINDING_COLUMNS, PORT_COLUMNS, buildFindingRows, buildPortRows, toCsv, toTable } from '@/lib/export/tabular';
+import { buildXlsx } from '@/lib/export/xlsx';
+
+interface RouteParams {
+  params: Promise<{ jobId: string }>;
+}
+
+const EXPORT_FORMATS = ['sarif', 'csv', 'xlsx', 'defectdojo'];
+
+/**
+ * GET /api/jobs/[jobId]/export?format=sarif|csv|xlsx|defectdojo
+ * Download the job's findings in a machine-readable format. CSV and XLSX list every finding
+ * across all passes and workers; `table=ports` switches the CSV to open ports and banners, and
+ * the XLSX workbook carries both as separate sheets. CVE matches and CVSS vectors saved during
+ * triage are applied the same way in every format. `defectdojo` is DefectDojo's Generic
+ * Findings Import JSON. CVSS vectors saved during triage override the reported scores everywhere.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  const { jobId } = await params;
+  const url = new URL(request.url);
+  const format = url.searchParams.get('format')?.toLowerCase() ?? '';
+  const table = url.searchParams.get('table') ?? 'findings';
+
+  try {
+    await requirePermissionOrApiKey(request, 'jobs:read');
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      throw new ApiError(400, `Unsupported export format. Use one of: ${EXPORT_FORMATS.join(', ')}.`);
+    }
+    if (table !== 'findings' && table !== 'ports') {
+      throw new ApiError(400, 'Table must be findings or ports.');
+    }
+
+    const result = await loadJobFindings(jobId);
+    if (!result) {
+      return NextResponse.json({ message: `Job ${jobId} not found.` }, { status: 404 });
+    }
+
+    const { job, reports, findings, triage } = result;
+    const filename = `redmesh-${job.id.slice(0, 8)}`;
+
+    if (format === 'sarif') {
+      const suppressionRules = await listSuppressionRules();
+      const log = buildSarifLog(job, findings, { suppressionRules });
+
+      return new NextResponse(JSON.stringify(log, null, 2), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/sarif+json',
+          'Content-Disposition': `attachment; filename="${filename}.sarif"`
+        }
+      });
+    }
+
+    if (format === 'defectdojo') {
+      const report = buildDefectDojoReport(job, findings, { triage });
+
+      return new NextResponse(JSON.stringify(report, null, 2), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Disposition': `attachment; filename="${filename}-defectdojo.json"`
+        }
+      });
+    }
+
+    const findingRows = buildFindingRows(job, await loadSourceFindings(job, reports, triage), triage);
+    const portRows = buildPortRows(job, reports);
+
+    if (format === 'csv') {
+      const csv = table === 'ports' ? toCsv(PORT_COLUMNS, portRows) : toCsv(FINDING_COLUMNS, findingRows);
+      return new NextResponse(csv, {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}-${table}.csv"`
+        }
+      });
+    }
+
+    const workbook = buildXlsx([
+      { name: 'Findings', ...toTable(FINDING_COLUMNS, findingRows) },
+      { name: 'Open ports', ...toTable(PORT_COLUMNS, portRows) }
+    ]);
+    return new NextResponse(workbook, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="${filename}.xlsx"`
+      }
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected job export error', error);
+    return NextResponse.json({ message: 'Unable to export job.' }, { status: 500 });
+  }
+}
@@ -1,6 +1,9 @@
 import { NextResponse } from 'next/server';
 import { ApiError } from '@/lib/api/errors';
 import { getRedMeshApiService } from '@/lib/services/redmeshApi';
+import { requirePermission, VerifiedSession } from '@/lib/api/session';
+import { recordAuditEvent } from '@/lib/api/audit';
+import { fetchJobTarget } from '@/lib/api/jobs';
 
 interface RouteParams {
   params: Promise<{ jobId: string }>;
@@ -22,16 +25,45 @@ export async function DELETE(request: Request, { params }: RouteParams) {
     return NextResponse.json({ message: 'Job ID is required.' }, { status: 400 });
   }
 
+  let session: VerifiedSession | undefined;
+  let target: string | undefined;
+
   try {
+    session = await requirePermission(request, 'jobs:purge');
+    // Resolve the target before purging; afterwards the job record is gone.
+    target = await fetchJobTarget(jobId);
+
     const api = getRedMeshApiService();
     const result = await api.purgeJob(jobId);
 
     if (result.status !== 'success') {
-      return NextResponse.json({ message: (result as unknown as { message?: string }).message || 'Failed to purge job.' }, { status: 400 });
+      const message = (result as unknown as { message?: string }).message || 'Failed to purge job.';
+      await recordAuditEvent({ action: 'job.purge', outcome: 'failure', user: session.user, jobId, target, message });
+      return NextResponse.json({ message }, { status: 400 });
     }
 
+    await recordAuditEvent({
+      action: 'job.purge',
+      outcome: 'success',
+      user: session.user,
+      jobId,
+      target,
+      payload: { cids_deleted: result.cids_deleted, cids_total: result.cids_total }
+    });
+
     return NextResponse.json(result, { status: 200 });
   } catch (error) {
+    if (session) {
+      await recordAuditEvent({
+        action: 'job.purge',
+        outcome: 'failure',
+        user: session.user,
+        jobId,
+        target,
+        message: error instanceof Error ? error.message : 'Unable to purge job.'
+      });
+    }
+
     if (error instanceof ApiError) {
       return NextResponse.json({ message: error.message }, { status: error.status });
     }
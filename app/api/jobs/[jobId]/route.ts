@@ -1,7 +1,11 @@
 import { NextResponse } from 'next/server';
 import { ApiError } from '@/lib/api/errors';
 import { getRedMeshApiService } from '@/lib/services/redmeshApi';
-import { normalizeJobStatusResponse, fetchJobWithReports } from '@/lib/api/jobs';
+import { normalizeJobStatusResponse, fetchJobTarget } from '@/lib/api/jobs';
+import { fetchJobOrArchive } from '@/lib/api/bundles';
+import { VerifiedSession } from '@/lib/api/session';
+import { requirePermissionOrApiKey } from '@/lib/api/apiKeys';
+import { recordAuditEvent } from '@/lib/api/audit';
 
 interface RouteParams {
   params: Promise<{ jobId: string }>;
@@ -23,9 +27,11 @@ export async function GET(request: Request, { params }: RouteParams) {
   const includeReports = url.searchParams.get('includeReports') === 'true';
 
   try {
+    await requirePermissionOrApiKey(request, 'jobs:read');
+
     if (includeReports) {
       // Fetch job with report content from R1FS
-      const result = await fetchJobWithReports(jobId);
+      const result = await fetchJobOrArchive(jobId);
 
       if (!result) {
         return NextResponse.json({ message: `Job ${jobId} not found.` }, { status: 404 });
@@ -35,7 +41,8 @@ export async function GET(request: Request, { params }: RouteParams) {
         job: result.job,
         reports: result.reports,
         llmAnalyses: result.llmAnalyses ?? {},
-        quickSummaries: result.quickSummaries ?? {}
+        quickSummaries: result.quickSummaries ?? {},
+        ...(result.archived ? { archived: result.archived } : {})
       }, { status: 200 });
     }
 
@@ -75,13 +82,29 @@ export async function DELETE(request: Request, { params }: RouteParams) {
     return NextResponse.json({ message: 'Job ID is required.' }, { status: 400 });
   }
 
+  let session: Pick<VerifiedSession, 'user'> | undefined;
+  let target: string | undefined;
+  const auditPayload = { stop_type: 'HARD' };
+
   try {
+    session = await requirePermissionOrApiKey(request, 'jobs:stop');
+    target = await fetchJobTarget(jobId);
+
     const api = getRedMeshApiService();
     const result = await api.stopMonitoring({
       job_id: jobId,
       stop_type: 'HARD'
     });
 
+    await recordAuditEvent({
+      action: 'job.stop',
+      outcome: 'success',
+      user: session.user,
+      jobId,
+      target,
+      payload: auditPayload
+    });
+
     return NextResponse.json({
       status: 'success',
       job_id: result.job_id,
@@ -91,6 +114,18 @@ export async function DELETE(request: Request, { params }: RouteParams) {
       message: `Job ${jobId} has been stopped.`
     }, { status: 200 });
   } catch (error) {
+    if (session) {
+      await recordAuditEvent({
+        action: 'job.stop',
+        outcome: 'failure',
+        user: session.user,
+        jobId,
+        target,
+        payload: auditPayload,
+        message: error instanceof Error ? error.message : 'Unable to stop job.'
+      });
+    }
+
     if (error instanceof ApiError) {
       return NextResponse.json({ message: error.message }, { status: error.status });
     }
@@ -1,6 +1,9 @@
 import { NextResponse } from 'next/server';
 import { ApiError } from '@/lib/api/errors';
 import { getRedMeshApiService, StopType } from '@/lib/services/redmeshApi';
+import { requirePermission, VerifiedSession } from '@/lib/api/session';
+import { recordAuditEvent } from '@/lib/api/audit';
+import { fetchJobTarget } from '@/lib/api/jobs';
 
 interface RouteParams {
   params: Promise<{ jobId: string }>;
@@ -33,13 +36,28 @@ export async function POST(request: Request, { params }: RouteParams) {
     // Body is optional, use default SOFT stop
   }
 
+  let session: VerifiedSession | undefined;
+  let target: string | undefined;
+
   try {
+    session = await requirePermission(request, 'jobs:stop');
+    target = await fetchJobTarget(jobId);
+
     const api = getRedMeshApiService();
     const result = await api.stopMonitoring({
       job_id: jobId,
       stop_type: stopType
     });
 
+    await recordAuditEvent({
+      action: 'job.stop_monitoring',
+      outcome: 'success',
+      user: session.user,
+      jobId,
+      target,
+      payload: { stop_type: stopType }
+    });
+
     return NextResponse.json({
       job_id: result.job_id,
       monitoring_status: result.monitoring_status,
@@ -48,6 +66,18 @@ export async function POST(request: Request, { params }: RouteParams) {
       pass_history: result.pass_history
     }, { status: 200 });
   } catch (error) {
+    if (session) {
+      await recordAuditEvent({
+        action: 'job.stop_monitoring',
+        outcome: 'failure',
+        user: session.user,
+        jobId,
+        target,
+        payload: { stop_type: stopType },
+        message: error instanceof Error ? error.message : 'Unable to stop monitoring.'
+      });
+    }
+
     if (error instanceof ApiError) {
       return NextResponse.json({ message: error.message }, { status: error.status });
     }
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { fetchJobOrArchive } from '@/lib/api/bundles';
+import { requirePermissionOrApiKey } from '@/lib/api/apiKeys';
+import { compareJobs } from '@/lib/domain/jobCompare';
+
+/**
+ * GET /api/jobs/compare?a=&b=
+ * Compare a baseline job (a) with a later job (b): aligned ports and services, and findings
+ * flagged as fixed, regressed, new or persisting. Both jobs are returned with their reports so
+ * the remediation verification PDF can be built client-side.
+ */
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const baselineId = url.searchParams.get('a')?.trim();
+  const currentId = url.searchParams.get('b')?.trim();
+
+  try {
+    await requirePermissionOrApiKey(request, 'jobs:read');
+
+    if (!baselineId || !currentId) {
+      throw new ApiError(400, 'Both job ids (a and b) are required.');
+    }
+    if (baselineId === currentId) {
+      throw new ApiError(400, 'Pick two different jobs to compare.');
+    }
+
+    const [baseline, current] = await Promise.all([fetchJobOrArchive(baselineId), fetchJobOrArchive(currentId)]);
+    if (!baseline || !current) {
+      return NextResponse.json({ message: `Job ${!baseline ? baselineId : currentId} not found.` }, { status: 404 });
+    }
+
+    const comparison = compareJobs(baseline, current);
+
+    return NextResponse.json(
+      {
+        comparison,
+        baseline: {
+          job: baseline.job,
+          reports: baseline.reports,
+          llmAnalyses: baseline.llmAnalyses ?? {},
+          quickSummaries: baseline.quickSummaries ?? {}
+        },
+        current: {
+          job: current.job,
+          reports: current.reports,
+          llmAnalyses: current.llmAnalyses ?? {},
+          quickSummaries: current.quickSummaries ?? {}
+        }
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected job comparison error', error);
+    return NextResponse.json({ message: 'Unable to compare jobs.' }, { status: 500 });
+  }
+}
@@ -4,6 +4,12 @@ import { ApiError } from '@/lib/api/errors';
 import { CreateJobInput } from '@/lib/api/types';
 import { DURATION } from '@/lib/api/constants';
 import { jobsLogger } from '@/lib/services/logger';
+import { VerifiedSession } from '@/lib/api/session';
+import { requirePermissionOrApiKey } from '@/lib/api/apiKeys';
+import { recordAuditEvent } from '@/lib/api/audit';
+import { assertTargetInScope } from '@/lib/api/scope';
+import { launchCampaign } from '@/lib/api/campaigns';
+import { parseTargetList } from '@/lib/domain/targets';
 
 export async function GET(request: Request) {
   jobsLogger.debug('GET /api/jobs - Request received');
@@ -17,6 +23,8 @@ export async function GET(request: Request) {
   const includeReports = url.searchParams.get('includeReports') === 'true';
 
   try {
+    await requirePermissionOrApiKey(request, 'jobs:read');
+
     if (includeReports) {
       // Fetch jobs with their report content from R1FS
       const result = await fetchJobsWithReports(token);
@@ -49,6 +57,16 @@ export async function POST(request: Request) {
     ? authHeader.slice('Bearer '.length)
     : authHeader ?? undefined;
 
+  let session: Pick<VerifiedSession, 'user'>;
+  try {
+    session = await requirePermissionOrApiKey(request, 'jobs:create');
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+
   const body = await request.json().catch(() => null);
   jobsLogger.debug('Request body:', body);
 
@@ -56,8 +74,27 @@ export async function POST(request: Request) {
     return NextResponse.json({ message: 'Task name and summary are required.' }, { status: 400 });
   }
 
-  if (typeof body.target !== 'string' || !body.target.trim()) {
+  // `targets` accepts a target list (CIDR blocks, ranges, hosts) that is expanded into a campaign.
+  const targetSpec: string | undefined = Array.isArray(body.targets)
+    ? body.targets.filter((value: unknown) => typeof value === 'string').join('\n')
+    : typeof body.targets === 'string'
+      ? body.targets
+      : undefined;
+  let targets: string[];
+
+  if (targetSpec !== undefined) {
+    const parsed = parseTargetList(targetSpec);
+    if (parsed.errors.length > 0) {
+      return NextResponse.json({ message: parsed.errors.join(' ') }, { status: 400 });
+    }
+    if (parsed.targets.length === 0) {
+      return NextResponse.json({ message: 'Target list did not contain any hosts.' }, { status: 400 });
+    }
+    targets = parsed.targets;
+  } else if (typeof body.target !== 'string' || !body.target.trim()) {
     return NextResponse.json({ message: 'Target must be provided.' }, { status: 400 });
+  } else {
+    targets = [body.target];
   }
 
   const portStart = Number(body?.portRange?.start ?? body?.portStart);
@@ -139,13 +176,14 @@ export async function POST(request: Request) {
   const rateLimitEnabled = body.rateLimitEnabled !== false;
   const scannerIdentity = typeof body.scannerIdentity === 'string' ? body.scannerIdentity.trim() : '';
   const scannerUserAgent = typeof body.scannerUserAgent === 'string' ? body.scannerUserAgent.trim() : '';
-  const createdByName = typeof body.createdByName === 'string' ? body.createdByName.trim() : '';
-  const createdById = typeof body.createdById === 'string' ? body.createdById.trim() : '';
+  // Attribute the launch to the signed-in user rather than trusting identity fields in the body.
+  const createdByName = session.user.displayName || session.user.username;
+  const createdById = session.user.username;
 
   const payload: CreateJobInput = {
     name: body.name,
     summary: body.summary,
-    target: body.target,
+    target: targets[0],
     portRange: {
       start: portStart,
       end: portEnd
@@ -167,18 +205,41 @@ export async function POST(request: Request) {
     scannerIdentity: scannerIdentity || undefined,
     scannerUserAgent: scannerUserAgent || undefined,
     authorized: true,
-    createdByName: createdByName || undefined,
-    createdById: createdById || undefined
+    createdByName,
+    createdById
   };
 
+  if (targets.length > 1) {
+    return launchCampaignJobs(payload, targets, targetSpec ?? targets.join('\n'), session, token);
+  }
+
   jobsLogger.debug('Calling createJob with payload:', payload);
 
   try {
+    // Scope is enforced here, before the payload is ever turned into a launch request.
+    await assertTargetInScope(payload.target);
+
     const job = await createJob(payload, { authToken: token });
     jobsLogger.debug('Job created successfully:', job);
+    await recordAuditEvent({
+      action: 'job.launch',
+      outcome: 'success',
+      user: session.user,
+      jobId: job.id,
+      target: payload.target,
+      payload: { ...payload }
+    });
     return NextResponse.json({ job }, { status: 201 });
   } catch (error) {
     jobsLogger.error('createJob error:', error instanceof Error ? error.message : error);
+    await recordAuditEvent({
+      action: 'job.launch',
+      outcome: 'failure',
+      user: session.user,
+      target: payload.target,
+      payload: { ...payload },
+      message: error instanceof Error ? error.message : 'Unable to create task.'
+    });
     if (error instanceof ApiError) {
       return NextResponse.json({ message: error.message }, { status: error.status });
     }
@@ -187,3 +248,56 @@ export async function POST(request: Request) {
     return NextResponse.json({ message: 'Unable to create task.' }, { status: 500 });
   }
 }
+
+async function launchCampaignJobs(
+  payload: CreateJobInput,
+  targets: string[],
+  targetSpec: string,
+  session: Pick<VerifiedSession, 'user'>,
+  token?: string
+) {
+  jobsLogger.debug(`Launching campaign across ${targets.length} targets`);
+
+  try {
+    // Every host must be in scope before any of them is launched.
+    for (const target of targets) {
+      await assertTargetInScope(target);
+    }
+
+    const { campaign, jobs } = await launchCampaign(payload, targets, {
+      authToken: token,
+      targetSpec,
+      createdBy: session.user.username
+    });
+
+    for (const ref of campaign.jobs) {
+      await recordAuditEvent({
+        action: 'job.launch',
+        outcome: ref.jobId ? 'success' : 'failure',
+        user: session.user,
+        jobId: ref.jobId,
+        target: ref.target,
+        payload: { ...payload, target: ref.target, campaignId: campaign.id },
+        message: ref.error
+      });
+    }
+
+    return NextResponse.json({ campaign, jobs }, { status: 201 });
+  } catch (error) {
+    jobsLogger.error('launchCampaign error:', error instanceof Error ? error.message : error);
+    await recordAuditEvent({
+      action: 'job.launch',
+      outcome: 'failure',
+      user: session.user,
+      target: targetSpec,
+      payload: { ...payload, targets },
+      message: error instanceof Error ? error.message : 'Unable to launch campaign.'
+    });
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected campaign launch error', error);
+    return NextResponse.json({ message: 'Unable to launch campaign.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { deleteReportProfile, getReportProfile, updateReportProfile } from '@/lib/api/reportProfiles';
+import { requirePermission } from '@/lib/api/session';
+
+interface RouteParams {
+  params: Promise<{ profileId: string }>;
+}
+
+/**
+ * GET /api/report-profiles/[profileId]
+ * Retrieve a single report profile.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  const { profileId } = await params;
+
+  try {
+    await requirePermission(request, 'jobs:read');
+    const profile = await getReportProfile(profileId);
+    return NextResponse.json({ profile }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected report profile fetch error', error);
+    return NextResponse.json({ message: 'Unable to load report profile.' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/report-profiles/[profileId]
+ * Rename a report profile or replace its settings: `{ name?, fields? }`.
+ */
+export async function PUT(request: Request, { params }: RouteParams) {
+  const { profileId } = await params;
+
+  try {
+    await requirePermission(request, 'jobs:create');
+
+    const body = (await request.json().catch(() => null)) as { name?: unknown; fields?: unknown } | null;
+    if (!body) {
+      throw new ApiError(400, 'Report profile update is required.');
+    }
+
+    const profile = await updateReportProfile(profileId, {
+      name: typeof body.name === 'string' ? body.name : undefined,
+      fields: body.fields
+    });
+    return NextResponse.json({ profile }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected report profile update error', error);
+    return NextResponse.json({ message: 'Unable to update report profile.' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/report-profiles/[profileId]
+ * Delete a report profile.
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const { profileId } = await params;
+
+  try {
+    await requirePermission(request, 'jobs:create');
+    await deleteReportProfile(profileId);
+    return NextResponse.json({ status: 'deleted' }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected report profile delete error', error);
+    return NextResponse.json({ message: 'Unable to delete report profile.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { createReportProfile, listReportProfiles } from '@/lib/api/reportProfiles';
+import { requirePermission } from '@/lib/api/session';
+
+/**
+ * GET /api/report-profiles
+ * List PDF report profiles, sorted by name.
+ */
+export async function GET(request: Request) {
+  try {
+    await requirePermission(request, 'jobs:read');
+    const profiles = await listReportProfiles();
+    return NextResponse.json({ profiles }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected report profile list error', error);
+    return NextResponse.json({ message: 'Unable to load report profiles.' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/report-profiles
+ * Save a report profile: `{ name, fields }`, where `fields` holds the branding and section selection.
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await requirePermission(request, 'jobs:create');
+
+    const body = (await request.json().catch(() => null)) as { name?: unknown; fields?: unknown } | null;
+    if (!body || typeof body.name !== 'string') {
+      throw new ApiError(400, 'Report profile name is required.');
+    }
+
+    const profile = await createReportProfile({
+      name: body.name,
+      fields: body.fields,
+      createdBy: session.user.username
+    });
+
+    return NextResponse.json({ profile }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected report profile create error', error);
+    return NextResponse.json({ message: 'Unable to save report profile.' }, { status: 500 });
+  }
+}
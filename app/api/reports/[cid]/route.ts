@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { ApiError } from '@/lib/api/errors';
 import { getRedMeshApiService } from '@/lib/services/redmeshApi';
+import { requirePermissionOrApiKey } from '@/lib/api/apiKeys';
 
 interface RouteParams {
   params: Promise<{ cid: string }>;
@@ -18,6 +19,8 @@ export async function GET(request: Request, { params }: RouteParams) {
   }
 
   try {
+    await requirePermissionOrApiKey(request, 'jobs:read');
+
     const api = getRedMeshApiService();
     const response = await api.getReport(cid);
 
@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import {
+  deleteSchedule,
+  getSchedule,
+  listScheduleRuns,
+  parseScheduleInput,
+  toSummary,
+  updateSchedule
+} from '@/lib/api/schedules';
+import { requirePermission } from '@/lib/api/session';
+
+interface RouteParams {
+  params: Promise<{ scheduleId: string }>;
+}
+
+/**
+ * GET /api/schedules/[scheduleId]
+ * Retrieve a schedule with its upcoming runs and run history (newest first).
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  const { scheduleId } = await params;
+
+  try {
+    await requirePermission(request, 'jobs:read');
+    const schedule = await getSchedule(scheduleId);
+    const runs = await listScheduleRuns({ scheduleId });
+    return NextResponse.json({ schedule: toSummary(schedule, runs), runs }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected schedule fetch error', error);
+    return NextResponse.json({ message: 'Unable to load schedule.' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/schedules/[scheduleId]
+ * Update any schedule field, e.g. `{ enabled: false }` to pause it.
+ */
+export async function PUT(request: Request, { params }: RouteParams) {
+  const { scheduleId } = await params;
+
+  try {
+    await requirePermission(request, 'jobs:create');
+
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      throw new ApiError(400, 'Schedule update is required.');
+    }
+
+    const schedule = await updateSchedule(scheduleId, parseScheduleInput(body));
+    return NextResponse.json({ schedule }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected schedule update error', error);
+    return NextResponse.json({ message: 'Unable to update schedule.' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/schedules/[scheduleId]
+ * Delete a schedule. Its run history is kept.
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const { scheduleId } = await params;
+
+  try {
+    await requirePermission(request, 'jobs:create');
+    await deleteSchedule(scheduleId);
+    return NextResponse.json({ status: 'deleted' }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected schedule delete error', error);
+    return NextResponse.json({ message: 'Unable to delete schedule.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { getSchedule, runSchedule } from '@/lib/api/schedules';
+import { requirePermission } from '@/lib/api/session';
+
+interface RouteParams {
+  params: Promise<{ scheduleId: string }>;
+}
+
+/**
+ * POST /api/schedules/[scheduleId]/run
+ * Launch a schedule immediately, outside its cron slots. The run is added to its history.
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  const { scheduleId } = await params;
+
+  try {
+    await requirePermission(request, 'jobs:create');
+    const schedule = await getSchedule(scheduleId);
+    const run = await runSchedule(schedule, { trigger: 'manual' });
+    return NextResponse.json({ run }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected schedule run error', error);
+    return NextResponse.json({ message: 'Unable to run schedule.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { createSchedule, listScheduleSummaries, parseScheduleInput } from '@/lib/api/schedules';
+import { requirePermission } from '@/lib/api/session';
+
+/**
+ * GET /api/schedules
+ * List schedules with their upcoming run times and last run.
+ */
+export async function GET(request: Request) {
+  try {
+    await requirePermission(request, 'jobs:read');
+    const schedules = await listScheduleSummaries();
+    return NextResponse.json({ schedules }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected schedule list error', error);
+    return NextResponse.json({ message: 'Unable to load schedules.' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/schedules
+ * Create a schedule: `{ name, cron, timezone, targets, templateId?, fields?, enabled?, authorized: true }`.
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await requirePermission(request, 'jobs:create');
+
+    const body = await request.json().catch(() => null);
+    if (!body || body.authorized !== true) {
+      throw new ApiError(400, 'Authorization confirmation is required to schedule scans.');
+    }
+
+    const schedule = await createSchedule({ ...parseScheduleInput(body), createdBy: session.user.username });
+    return NextResponse.json({ schedule }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected schedule create error', error);
+    return NextResponse.json({ message: 'Unable to create schedule.' }, { status: 500 });
+  }
+}
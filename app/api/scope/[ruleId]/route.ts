@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { removeScopeRule } from '@/lib/api/scope';
+import { requirePermission } from '@/lib/api/session';
+
+interface RouteParams {
+  params: Promise<{ ruleId: string }>;
+}
+
+/**
+ * DELETE /api/scope/[ruleId]
+ * Remove a scope rule.
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const { ruleId } = await params;
+
+  try {
+    await requirePermission(request, 'scope:manage');
+    await removeScopeRule(ruleId);
+    return NextResponse.json({ status: 'deleted' }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected scope delete error', error);
+    return NextResponse.json({ message: 'Unable to remove scope rule.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { checkTargetScope } from '@/lib/api/scope';
+import { requirePermission } from '@/lib/api/session';
+
+/**
+ * GET /api/scope/check?target=
+ * Evaluate a target against the scope rules (resolving hostnames) without launching anything.
+ */
+export async function GET(request: Request) {
+  const target = new URL(request.url).searchParams.get('target')?.trim();
+
+  if (!target) {
+    return NextResponse.json({ message: 'Target is required.' }, { status: 400 });
+  }
+
+  try {
+    await requirePermission(request, 'jobs:create');
+    const decision = await checkTargetScope(target);
+    return NextResponse.json(decision, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected scope check error', error);
+    return NextResponse.json({ message: 'Unable to check target scope.' }, { status: 500 });
+  }
+}
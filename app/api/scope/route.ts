@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { addScopeRule, listScopeRules } from '@/lib/api/scope';
+import { requirePermission } from '@/lib/api/session';
+import { getAppConfig } from '@/lib/config/env';
+
+/**
+ * GET /api/scope
+ * List the engagement scope rules, and whether open scope (`REDMESH_SCOPE_OPEN`) is on.
+ */
+export async function GET(request: Request) {
+  try {
+    await requirePermission(request, 'jobs:read');
+    const rules = await listScopeRules();
+    return NextResponse.json({ rules, open: getAppConfig().scopeOpen }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected scope list error', error);
+    return NextResponse.json({ message: 'Unable to load scope rules.' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/scope
+ * Add an allow or deny rule: `{ effect: 'allow' | 'deny', value, note? }`.
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await requirePermission(request, 'scope:manage');
+
+    const body = (await request.json().catch(() => null)) as { effect?: unknown; value?: unknown; note?: unknown } | null;
+    if (!body || typeof body.value !== 'string' || !body.value.trim()) {
+      throw new ApiError(400, 'Scope rule value is required.');
+    }
+    if (body.effect !== 'allow' && body.effect !== 'deny') {
+      throw new ApiError(400, 'Scope rule effect must be "allow" or "deny".');
+    }
+
+    const rule = await addScopeRule({
+      effect: body.effect,
+      value: body.value,
+      note: typeof body.note === 'string' ? body.note : undefined,
+      createdBy: session.user.username
+    });
+
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected scope create error', error);
+    return NextResponse.json({ message: 'Unable to add scope rule.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { deleteSuppressionRule } from '@/lib/api/suppressions';
+import { requirePermission } from '@/lib/api/session';
+
+interface RouteParams {
+  params: Promise<{ ruleId: string }>;
+}
+
+/**
+ * DELETE /api/suppressions/[ruleId]
+ * Remove a suppression rule; the findings it hid show up again.
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const { ruleId } = await params;
+
+  try {
+    await requirePermission(request, 'findings:triage');
+    await deleteSuppressionRule(ruleId);
+    return NextResponse.json({ status: 'deleted' }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected suppression delete error', error);
+    return NextResponse.json({ message: 'Unable to delete suppression rule.' }, { status: 500 });
+  }
+}
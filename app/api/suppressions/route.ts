@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { createSuppressionRule, listSuppressionRules } from '@/lib/api/suppressions';
+import { requirePermission } from '@/lib/api/session';
+
+/**
+ * GET /api/suppressions
+ * List suppression rules, newest first, including expired ones.
+ */
+export async function GET(request: Request) {
+  try {
+    await requirePermission(request, 'jobs:read');
+    const rules = await listSuppressionRules();
+    return NextResponse.json({ rules }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected suppression list error', error);
+    return NextResponse.json({ message: 'Unable to load suppression rules.' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/suppressions
+ * Create a rule: `{ target?, port?, probe?, severity?, titlePattern?, justification, expiresAt }`.
+ * `titlePattern` is case-insensitive text found anywhere in the finding title, with `*` for any
+ * run of characters and `?` for one; regular expressions are rejected with a 400.
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await requirePermission(request, 'findings:triage');
+    const body = await request.json().catch(() => null);
+    const rule = await createSuppressionRule(body, session.user.username);
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected suppression create error', error);
+    return NextResponse.json({ message: 'Unable to save suppression rule.' }, { status: 500 });
+  }
+}
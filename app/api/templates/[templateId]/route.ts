@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { deleteJobTemplate, getJobTemplate, updateJobTemplate } from '@/lib/api/templates';
+import { requirePermission } from '@/lib/api/session';
+
+interface RouteParams {
+  params: Promise<{ templateId: string }>;
+}
+
+/**
+ * GET /api/templates/[templateId]
+ * Retrieve a single job template.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  const { templateId } = await params;
+
+  try {
+    await requirePermission(request, 'jobs:read');
+    const template = await getJobTemplate(templateId);
+    return NextResponse.json({ template }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected template fetch error', error);
+    return NextResponse.json({ message: 'Unable to load template.' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/templates/[templateId]
+ * Rename a template or replace its settings: `{ name?, description?, fields? }`.
+ */
+export async function PUT(request: Request, { params }: RouteParams) {
+  const { templateId } = await params;
+
+  try {
+    await requirePermission(request, 'jobs:create');
+
+    const body = (await request.json().catch(() => null)) as { name?: unknown; description?: unknown; fields?: unknown } | null;
+    if (!body) {
+      throw new ApiError(400, 'Template update is required.');
+    }
+
+    const template = await updateJobTemplate(templateId, {
+      name: typeof body.name === 'string' ? body.name : undefined,
+      description: typeof body.description === 'string' ? body.description : undefined,
+      fields: body.fields
+    });
+    return NextResponse.json({ template }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected template update error', error);
+    return NextResponse.json({ message: 'Unable to update template.' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/templates/[templateId]
+ * Delete a job template.
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const { templateId } = await params;
+
+  try {
+    await requirePermission(request, 'jobs:create');
+    await deleteJobTemplate(templateId);
+    return NextResponse.json({ status: 'deleted' }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected template delete error', error);
+    return NextResponse.json({ message: 'Unable to delete template.' }, { status: 500 });
+  }
+}
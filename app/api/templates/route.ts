@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { createJobTemplate, listJobTemplates } from '@/lib/api/templates';
+import { requirePermission } from '@/lib/api/session';
+
+/**
+ * GET /api/templates
+ * List job templates, sorted by name.
+ */
+export async function GET(request: Request) {
+  try {
+    await requirePermission(request, 'jobs:read');
+    const templates = await listJobTemplates();
+    return NextResponse.json({ templates }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected template list error', error);
+    return NextResponse.json({ message: 'Unable to load templates.' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/templates
+ * Save a template: `{ name, description?, fields }`, where `fields` holds the task form settings.
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await requirePermission(request, 'jobs:create');
+
+    const body = (await request.json().catch(() => null)) as { name?: unknown; description?: unknown; fields?: unknown } | null;
+    if (!body || typeof body.name !== 'string') {
+      throw new ApiError(400, 'Template name is required.');
+    }
+
+    const template = await createJobTemplate({
+      name: body.name,
+      description: typeof body.description === 'string' ? body.description : undefined,
+      fields: body.fields,
+      createdBy: session.user.username
+    });
+
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+
+    console.error('Unexpected template create error', error);
+    return NextResponse.json({ message: 'Unable to save template.' }, { status: 500 });
+  }
+}
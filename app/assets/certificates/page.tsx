@@ -0,0 +1,211 @@
+'use client';
+
+import { FormEvent, Suspense, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import AppShell from '@/components/layout/AppShell';
+import { useAuth } from '@/components/auth/AuthContext';
+import Card from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import Badge from '@/components/ui/Badge';
+import Loader from '@/components/ui/Loader';
+import { useCertificates } from '@/lib/hooks/useAssets';
+import type { TlsCertificateSummary } from '@/lib/api/types';
+
+const PRESET_WINDOWS = [7, 30, 90];
+
+function formatDate(value: string | null | undefined): string {
+  return value ? new Date(value).toLocaleDateString() : '—';
+}
+
+function parseWindow(value: string | null): number | null {
+  if (value === null || value === '') {
+    return null;
+  }
+  const days = Number(value);
+  return Number.isInteger(days) && days >= 0 ? days : null;
+}
+
+function ExpiryBadge({ days }: { days: number | null }): JSX.Element {
+  if (days === null) {
+    return <Badge label="No expiry date" />;
+  }
+  if (days < 0) {
+    return <Badge tone="danger" label={`Expired ${-days}d ago`} />;
+  }
+  return <Badge tone={days <= 30 ? 'warning' : 'success'} label={`${days}d left`} />;
+}
+
+function CertificateRow({ certificate }: { certificate: TlsCertificateSummary }): JSX.Element {
+  const key = [certificate.keyType, certificate.keySize ? `${certificate.keySize} bits` : null].filter(Boolean).join(' ');
+
+  return (
+    <tr className="align-top text-sm text-slate-200">
+      <td className="px-3 py-2">
+        <ExpiryBadge days={certificate.daysToExpiry} />
+        <p className="mt-1 text-xs text-slate-400">{formatDate(certificate.notAfter)}</p>
+      </td>
+      <td className="px-3 py-2">
+        <p className="font-mono">{certificate.commonName ?? (certificate.subject || '—')}</p>
+        {certificate.sans.length > 0 && (
+          <p className="break-all text-xs text-slate-400">{certificate.sans.join(', ')}</p>
+        )}
+        <p className="mt-1 break-all text-xs text-slate-500">Issuer: {certificate.issuer || '—'}</p>
+      </td>
+      <td className="px-3 py-2 text-xs">
+        <p>{key || '—'}</p>
+        {certificate.signatureAlgorithm && <p className="text-slate-400">{certificate.signatureAlgorithm}</p>}
+        {certificate.protocols.length > 0 && <p className="mt-1 text-slate-400">{certificate.protocols.join(', ')}</p>}
+      </td>
+      <td className="px-3 py-2">
+        <div className="flex flex-wrap gap-1">
+          {certificate.selfSigned && <Badge tone="warning" label="Self-signed" />}
+          {certificate.weakKey && <Badge tone="danger" label="Weak key" />}
+          {certificate.weakProtocols.length > 0 && (
+            <Badge tone="danger" label={`Weak protocols: ${certificate.weakProtocols.join(', ')}`} />
+          )}
+          {certificate.weakCiphers.length > 0 && (
+            <Badge tone="danger" label={`Weak ciphers: ${certificate.weakCiphers.length}`} />
+          )}
+        </div>
+      </td>
+      <td className="px-3 py-2 text-xs">
+        <ul className="space-y-1">
+          {certificate.endpoints.map((endpoint) => (
+            <li key={`${endpoint.host}:${endpoint.port}`}>
+              <Link href={`/assets?host=${encodeURIComponent(endpoint.host)}`} className="font-mono text-brand-primary hover:underline">
+                {endpoint.host}:{endpoint.port}
+              </Link>
+              <Link href={`/dashboard/jobs/${endpoint.lastObservation.jobId}`} className="ml-2 text-slate-400 hover:underline">
+                {endpoint.lastObservation.jobName}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </td>
+    </tr>
+  );
+}
+
+function CertificatesPageContent(): JSX.Element {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { user, loading } = useAuth();
+  const expiringWithin = parseWindow(searchParams.get('within'));
+  const [draft, setDraft] = useState(expiringWithin !== null ? String(expiringWithin) : '');
+  const { data, loading: certificatesLoading, error, refresh } = useCertificates(expiringWithin);
+
+  const applyWindow = (days: number | null) => {
+    setDraft(days !== null ? String(days) : '');
+    router.replace(days !== null ? `/assets/certificates?within=${days}` : '/assets/certificates');
+  };
+
+  const handleFilter = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    applyWindow(parseWindow(draft.trim()));
+  };
+
+  if (!loading && !user) {
+    router.replace('/');
+    return <main className="flex min-h-screen items-center justify-center">Redirecting...</main>;
+  }
+
+  return (
+    <AppShell>
+      <div className="space-y-6">
+        <div>
+          <p className="text-xs uppercase tracking-[0.3em] text-slate-400">
+            <Link href="/assets" className="hover:underline">
+              Inventory
+            </Link>
+          </p>
+          <h1 className="mt-2 text-3xl font-semibold text-slate-50">TLS certificates</h1>
+          <p className="mt-2 text-sm text-slate-400">
+            Certificates served by any scanned host, soonest expiry first, with weak keys, self-signed chains and legacy
+            protocol or cipher support flagged.
+          </p>
+        </div>
+
+        <Card
+          title="Expiring within"
+          description={`Last ingested ${data?.ingestedAt ? new Date(data.ingestedAt).toLocaleString() : '—'}`}
+          actions={
+            <Button variant="secondary" size="sm" onClick={() => void refresh()} disabled={certificatesLoading}>
+              {certificatesLoading ? 'Refreshing...' : 'Refresh'}
+            </Button>
+          }
+        >
+          <div className="flex flex-wrap items-center gap-2">
+            <Button size="sm" variant={expiringWithin === null ? 'primary' : 'secondary'} onClick={() => applyWindow(null)}>
+              All
+            </Button>
+            {PRESET_WINDOWS.map((days) => (
+              <Button
+                key={days}
+                size="sm"
+                variant={expiringWithin === days ? 'primary' : 'secondary'}
+                onClick={() => applyWindow(days)}
+              >
+                {days} days
+              </Button>
+            ))}
+            <form onSubmit={handleFilter} className="flex gap-2">
+              <Input
+                aria-label="Expiring within days"
+                type="number"
+                min={0}
+                placeholder="Days"
+                value={draft}
+                onChange={(event) => setDraft(event.target.value)}
+              />
+              <Button type="submit" size="sm" variant="secondary">
+                Apply
+              </Button>
+            </form>
+          </div>
+        </Card>
+
+        <Card title={`Certificates${data ? ` (${data.certificates.length})` : ''}`}>
+          {certificatesLoading && !data && <Loader message="Ingesting task reports..." />}
+          {error && <p className="text-sm text-rose-200">Unable to load certificates: {error}</p>}
+          {data && data.certificates.length === 0 && (
+            <p className="text-sm text-slate-400">
+              {expiringWithin !== null
+                ? `No certificates expire within ${expiringWithin} days.`
+                : 'No TLS certificates have been observed yet.'}
+            </p>
+          )}
+          {data && data.certificates.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-white/10 text-left">
+                <thead>
+                  <tr className="text-xs uppercase tracking-[0.16em] text-slate-400">
+                    <th className="px-3 py-2 font-semibold">Expiry</th>
+                    <th className="px-3 py-2 font-semibold">Subject</th>
+                    <th className="px-3 py-2 font-semibold">Key &amp; protocols</th>
+                    <th className="px-3 py-2 font-semibold">Flags</th>
+                    <th className="px-3 py-2 font-semibold">Endpoints</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5">
+                  {data.certificates.map((certificate) => (
+                    <CertificateRow key={certificate.id} certificate={certificate} />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Card>
+      </div>
+    </AppShell>
+  );
+}
+
+export default function CertificatesPage(): JSX.Element {
+  return (
+    <Suspense fallback={<main className="flex min-h-screen items-center justify-center">Loading...</main>}>
+      <CertificatesPageContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,229 @@
+'use client';
+
+import { FormEvent, Suspense, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import AppShell from '@/components/layout/AppShell';
+import { useAuth } from '@/components/auth/AuthContext';
+import Card from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import Badge from '@/components/ui/Badge';
+import Loader from '@/components/ui/Loader';
+import useAssets, { useAssetHost } from '@/lib/hooks/useAssets';
+import type { AssetObservation, AssetPort } from '@/lib/api/types';
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+function observationLabel(observation: AssetObservation): string {
+  return observation.passNr !== null ? `${observation.jobName} · pass ${observation.passNr}` : observation.jobName;
+}
+
+function PortRow({ port }: { port: AssetPort }): JSX.Element {
+  return (
+    <tr className="align-top text-sm text-slate-200">
+      <td className="px-3 py-2 font-mono">
+        {port.port}
+        {port.service && <span className="ml-2 text-xs text-slate-400">{port.service}</span>}
+      </td>
+      <td className="px-3 py-2">
+        {port.services.length === 0 ? (
+          <span className="text-slate-500">—</span>
+        ) : (
+          <ul className="space-y-1">
+            {port.services.map((service) => (
+              <li key={service.probe}>
+                <span className="font-mono text-xs text-slate-400">{service.probe}</span>
+                {service.product && <span className="ml-2">{service.product}</span>}
+                {service.version && <span className="ml-2 text-slate-300">v{service.version}</span>}
+                {service.banner && <p className="break-all font-mono text-xs text-slate-300">{service.banner}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </td>
+      <td className="px-3 py-2 text-xs text-slate-400">{formatDate(port.firstSeen)}</td>
+      <td className="px-3 py-2 text-xs text-slate-400">{formatDate(port.lastSeen)}</td>
+      <td className="px-3 py-2 text-xs">
+        <ul className="space-y-1">
+          {port.observations.map((observation) => (
+            <li key={`${observation.jobId}:${observation.passNr}`}>
+              <Link href={`/dashboard/jobs/${observation.jobId}`} className="text-brand-primary hover:underline">
+                {observationLabel(observation)}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </td>
+    </tr>
+  );
+}
+
+function HostDetail({ hostName, onClose }: { hostName: string; onClose: () => void }): JSX.Element {
+  const { host, loading, error } = useAssetHost(hostName);
+
+  return (
+    <Card
+      title={<span className="font-mono">{hostName}</span>}
+      description={host ? `First seen ${formatDate(host.firstSeen)} · last seen ${formatDate(host.lastSeen)}` : undefined}
+      actions={
+        <Button variant="secondary" size="sm" onClick={onClose}>
+          Close
+        </Button>
+      }
+    >
+      {loading && !host && <Loader message="Loading host..." />}
+      {error && <p className="text-sm text-rose-200">{error}</p>}
+      {host && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-white/10 text-left">
+            <thead>
+              <tr className="text-xs uppercase tracking-[0.16em] text-slate-400">
+                <th className="px-3 py-2 font-semibold">Port</th>
+                <th className="px-3 py-2 font-semibold">Services</th>
+                <th className="px-3 py-2 font-semibold">First seen</th>
+                <th className="px-3 py-2 font-semibold">Last seen</th>
+                <th className="px-3 py-2 font-semibold">Observed by</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {host.ports.map((port) => (
+                <PortRow key={port.port} port={port} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+}
+
+function AssetsPageContent(): JSX.Element {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { user, loading } = useAuth();
+  const [draft, setDraft] = useState(searchParams.get('q') ?? '');
+  const query = searchParams.get('q') ?? '';
+  const selectedHost = searchParams.get('host');
+  const { data, loading: assetsLoading, error, refresh } = useAssets(query);
+
+  const navigate = (next: { q?: string; host?: string | null }) => {
+    const params = new URLSearchParams();
+    const q = next.q ?? query;
+    const host = next.host === undefined ? selectedHost : next.host;
+    if (q) params.set('q', q);
+    if (host) params.set('host', host);
+    router.replace(`/assets${params.toString() ? `?${params.toString()}` : ''}`);
+  };
+
+  const handleSearch = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    navigate({ q: draft.trim() });
+  };
+
+  if (!loading && !user) {
+    router.replace('/');
+    return <main className="flex min-h-screen items-center justify-center">Redirecting...</main>;
+  }
+
+  return (
+    <AppShell>
+      <div className="space-y-6">
+        <div>
+          <p className="text-xs uppercase tracking-[0.3em] text-slate-400">Inventory</p>
+          <h1 className="mt-2 text-3xl font-semibold text-slate-50">Assets</h1>
+          <p className="mt-2 text-sm text-slate-400">
+            Every host scanned by any task, with the ports and services seen on it and the task passes that saw them.
+            Hosts stay listed after their tasks are purged.{' '}
+            <Link href="/assets/certificates" className="text-brand-primary hover:underline">
+              TLS certificates
+            </Link>
+            {' · '}
+            <Link href="/assets/technologies" className="text-brand-primary hover:underline">
+              Technologies
+            </Link>
+          </p>
+        </div>
+
+        <Card
+          title="Search"
+          description={`Last ingested ${formatDate(data?.ingestedAt ?? null)}`}
+          actions={
+            <Button variant="secondary" size="sm" onClick={() => void refresh()} disabled={assetsLoading}>
+              {assetsLoading ? 'Refreshing...' : 'Refresh'}
+            </Button>
+          }
+        >
+          <form onSubmit={handleSearch} className="flex gap-2">
+            <Input
+              aria-label="Search assets"
+              placeholder="Host, port, service, banner or task name"
+              value={draft}
+              onChange={(event) => setDraft(event.target.value)}
+            />
+            <Button type="submit" size="sm">
+              Search
+            </Button>
+          </form>
+        </Card>
+
+        {selectedHost && <HostDetail hostName={selectedHost} onClose={() => navigate({ host: null })} />}
+
+        <Card title={`Hosts${data ? ` (${data.hosts.length})` : ''}`}>
+          {assetsLoading && !data && <Loader message="Ingesting task reports..." />}
+          {error && <p className="text-sm text-rose-200">Unable to load assets: {error}</p>}
+          {data && data.hosts.length === 0 && (
+            <p className="text-sm text-slate-400">{query ? 'No hosts match this search.' : 'No hosts have been scanned yet.'}</p>
+          )}
+          {data && data.hosts.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-white/10 text-left">
+                <thead>
+                  <tr className="text-xs uppercase tracking-[0.16em] text-slate-400">
+                    <th className="px-3 py-2 font-semibold">Host</th>
+                    <th className="px-3 py-2 font-semibold">Open ports</th>
+                    <th className="px-3 py-2 font-semibold">Services</th>
+                    <th className="px-3 py-2 font-semibold">Tasks</th>
+                    <th className="px-3 py-2 font-semibold">Last seen</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5">
+                  {data.hosts.map((host) => (
+                    <tr
+                      key={host.host}
+                      className={`cursor-pointer text-sm text-slate-200 hover:bg-white/5 ${host.host === selectedHost ? 'bg-white/5' : ''}`}
+                      onClick={() => navigate({ host: host.host })}
+                    >
+                      <td className="px-3 py-2 font-mono">{host.host}</td>
+                      <td className="px-3 py-2 font-mono text-xs">{host.ports.join(', ') || '—'}</td>
+                      <td className="px-3 py-2">
+                        <div className="flex flex-wrap gap-1">
+                          {host.services.slice(0, 6).map((service) => (
+                            <Badge key={service} label={service} />
+                          ))}
+                          {host.services.length > 6 && <Badge label={`+${host.services.length - 6}`} />}
+                        </div>
+                      </td>
+                      <td className="px-3 py-2 text-xs text-slate-400">{host.jobIds.length}</td>
+                      <td className="px-3 py-2 text-xs text-slate-400">{formatDate(host.lastSeen)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Card>
+      </div>
+    </AppShell>
+  );
+}
+
+export default function AssetsPage(): JSX.Element {
+  return (
+    <Suspense fallback={<main className="flex min-h-screen items-center justify-center">Loading...</main>}>
+      <AssetsPageContent />
+    </Suspense>
+  );
+}
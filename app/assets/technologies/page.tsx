@@ -0,0 +1,208 @@
+'use client';
+
+import { FormEvent, Suspense, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import AppShell from '@/components/layout/AppShell';
+import { useAuth } from '@/components/auth/AuthContext';
+import Card from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import Loader from '@/components/ui/Loader';
+import { useTechInventory } from '@/lib/hooks/useAssets';
+import type { TechProductDistribution } from '@/lib/api/types';
+
+const EXAMPLE_QUERIES = ['OpenSSH < 8.0', 'nginx >= 1.25', 'PHP'];
+
+/** Products charted; the rest are still listed in the installs table. */
+const MAX_CHARTED_PRODUCTS = 8;
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+function VersionChart({ product }: { product: TechProductDistribution }): JSX.Element {
+  const max = Math.max(...product.versions.map((entry) => entry.hosts));
+
+  return (
+    <div className="space-y-1">
+      <p className="text-sm font-semibold text-slate-100">
+        {product.product} <span className="text-xs font-normal text-slate-400">· {product.hosts} hosts</span>
+      </p>
+      {product.versions.map((entry) => (
+        <div key={entry.version ?? 'unknown'} className="flex items-center gap-2 text-xs">
+          <span className="w-28 shrink-0 truncate font-mono text-slate-300">{entry.version ?? 'unknown'}</span>
+          <div className="h-2 flex-1 rounded-full bg-white/5">
+            <div className="h-2 rounded-full bg-brand-primary" style={{ width: `${(entry.hosts / max) * 100}%` }} />
+          </div>
+          <span className="w-8 text-right text-slate-400">{entry.hosts}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function TechnologiesPageContent(): JSX.Element {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { user, loading } = useAuth();
+  const query = searchParams.get('q') ?? '';
+  const [draft, setDraft] = useState(query);
+  const { data, loading: techLoading, error, refresh } = useTechInventory(query);
+
+  const search = (next: string) => {
+    setDraft(next);
+    router.replace(next ? `/assets/technologies?q=${encodeURIComponent(next)}` : '/assets/technologies');
+  };
+
+  const handleSearch = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    search(draft.trim());
+  };
+
+  if (!loading && !user) {
+    router.replace('/');
+    return <main className="flex min-h-screen items-center justify-center">Redirecting...</main>;
+  }
+
+  return (
+    <AppShell>
+      <div className="space-y-6">
+        <div>
+          <p className="text-xs uppercase tracking-[0.3em] text-slate-400">
+            <Link href="/assets" className="hover:underline">
+              Inventory
+            </Link>
+          </p>
+          <h1 className="mt-2 text-3xl font-semibold text-slate-50">Technologies</h1>
+          <p className="mt-2 text-sm text-slate-400">
+            Server software and versions fingerprinted from service banners and web probes, per host, with version changes
+            between task passes.
+          </p>
+        </div>
+
+        <Card
+          title="Search"
+          description={`Last ingested ${formatDate(data?.ingestedAt ?? null)}`}
+          actions={
+            <Button variant="secondary" size="sm" onClick={() => void refresh()} disabled={techLoading}>
+              {techLoading ? 'Refreshing...' : 'Refresh'}
+            </Button>
+          }
+        >
+          <form onSubmit={handleSearch} className="flex gap-2">
+            <Input
+              aria-label="Search technologies"
+              placeholder="Product, version or host — or a constraint like OpenSSH < 8.0"
+              value={draft}
+              onChange={(event) => setDraft(event.target.value)}
+            />
+            <Button type="submit" size="sm">
+              Search
+            </Button>
+          </form>
+          <div className="mt-3 flex flex-wrap gap-2 text-xs text-slate-400">
+            Try:
+            {EXAMPLE_QUERIES.map((example) => (
+              <button key={example} type="button" className="font-mono text-brand-primary hover:underline" onClick={() => search(example)}>
+                {example}
+              </button>
+            ))}
+          </div>
+        </Card>
+
+        {techLoading && !data && <Loader message="Ingesting task reports..." />}
+        {error && <p className="text-sm text-rose-200">Unable to load technologies: {error}</p>}
+
+        {data && (
+          <>
+            <Card title="Version distribution" description="Hosts per version, newest version first.">
+              {data.distribution.length === 0 ? (
+                <p className="text-sm text-slate-400">{query ? 'No technologies match this search.' : 'No technologies have been fingerprinted yet.'}</p>
+              ) : (
+                <div className="grid gap-6 md:grid-cols-2">
+                  {data.distribution.slice(0, MAX_CHARTED_PRODUCTS).map((product) => (
+                    <VersionChart key={product.product} product={product} />
+                  ))}
+                </div>
+              )}
+            </Card>
+
+            <Card title={`Hosts (${data.installs.length})`}>
+              {data.installs.length > 0 && (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-white/10 text-left">
+                    <thead>
+                      <tr className="text-xs uppercase tracking-[0.16em] text-slate-400">
+                        <th className="px-3 py-2 font-semibold">Product</th>
+                        <th className="px-3 py-2 font-semibold">Version</th>
+                        <th className="px-3 py-2 font-semibold">Host</th>
+                        <th className="px-3 py-2 font-semibold">Probe</th>
+                        <th className="px-3 py-2 font-semibold">Last seen</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-white/5">
+                      {data.installs.map((install) => (
+                        <tr key={`${install.host}:${install.port}:${install.product}`} className="text-sm text-slate-200">
+                          <td className="px-3 py-2">{install.product}</td>
+                          <td className="px-3 py-2 font-mono">{install.version ?? '—'}</td>
+                          <td className="px-3 py-2 font-mono">
+                            <Link href={`/assets?host=${encodeURIComponent(install.host)}`} className="text-brand-primary hover:underline">
+                              {install.host}:{install.port}
+                            </Link>
+                          </td>
+                          <td className="px-3 py-2 font-mono text-xs text-slate-400">{install.probe}</td>
+                          <td className="px-3 py-2 text-xs text-slate-400">
+                            <Link href={`/dashboard/jobs/${install.lastObservation.jobId}`} className="hover:underline">
+                              {formatDate(install.lastSeen)}
+                            </Link>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </Card>
+
+            <Card title="Version changes" description="Versions that differed from the previous pass that saw the same port.">
+              {data.changes.length === 0 ? (
+                <p className="text-sm text-slate-400">No version changes recorded.</p>
+              ) : (
+                <ul className="space-y-2 text-sm text-slate-200">
+                  {data.changes.map((change) => (
+                    <li
+                      key={`${change.host}:${change.port}:${change.product}:${change.observation.jobId}:${change.observation.passNr}`}
+                      className="flex flex-wrap items-baseline gap-2"
+                    >
+                      <span className="text-xs text-slate-400">{formatDate(change.observation.observedAt)}</span>
+                      <span className="font-mono">
+                        {change.host}:{change.port}
+                      </span>
+                      <span>
+                        {change.product} <span className="font-mono text-slate-400">{change.from ?? 'unknown'}</span> →{' '}
+                        <span className="font-mono">{change.to}</span>
+                      </span>
+                      <Link href={`/dashboard/jobs/${change.observation.jobId}`} className="text-xs text-brand-primary hover:underline">
+                        {change.observation.jobName}
+                        {change.observation.passNr !== null ? ` · pass ${change.observation.passNr}` : ''}
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Card>
+          </>
+        )}
+      </div>
+    </AppShell>
+  );
+}
+
+export default function TechnologiesPage(): JSX.Element {
+  return (
+    <Suspense fallback={<main className="flex min-h-screen items-center justify-center">Loading...</main>}>
+      <TechnologiesPageContent />
+    </Suspense>
+  );
+}
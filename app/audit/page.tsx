@@ -0,0 +1,228 @@
+'use client';
+
+import Link from 'next/link';
+import { FormEvent, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import AppShell from '@/components/layout/AppShell';
+import { useAuth } from '@/components/auth/AuthContext';
+import Card from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import Badge from '@/components/ui/Badge';
+import useAuditLog, { AuditFilters } from '@/lib/hooks/useAuditLog';
+import { AuditAction, AuditEntry } from '@/lib/api/types';
+
+const PAGE_SIZE = 50;
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'job.launch': 'Launch',
+  'job.stop': 'Stop',
+  'job.stop_monitoring': 'Stop monitoring',
+  'job.purge': 'Purge'
+};
+
+const EMPTY_FILTERS: AuditFilters = { action: '', username: '', jobId: '', from: '', to: '' };
+
+function formatPayload(entry: AuditEntry): string {
+  if (!entry.payload || Object.keys(entry.payload).length === 0) {
+    return '—';
+  }
+  return JSON.stringify(entry.payload);
+}
+
+export default function AuditPage(): JSX.Element {
+  const { user, loading, can } = useAuth();
+  const router = useRouter();
+  const [draft, setDraft] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const { data, loading: auditLoading, error, refresh } = useAuditLog(filters, page, PAGE_SIZE);
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.replace('/');
+    }
+  }, [loading, user, router]);
+
+  if (!user) {
+    return (
+      <main className="flex min-h-screen items-center justify-center text-slate-200">
+        Redirecting...
+      </main>
+    );
+  }
+
+  if (!can('audit:read')) {
+    return (
+      <AppShell>
+        <Card title="Access restricted" description="The audit log is available to administrators only.">
+          <Button asChild variant="secondary" size="sm">
+            <Link href="/dashboard">Back to dashboard</Link>
+          </Button>
+        </Card>
+      </AppShell>
+    );
+  }
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setPage(1);
+    setFilters({ ...draft });
+  };
+
+  const handleReset = () => {
+    setDraft(EMPTY_FILTERS);
+    setFilters(EMPTY_FILTERS);
+    setPage(1);
+  };
+
+  const totalPages = data ? Math.max(Math.ceil(data.total / data.pageSize), 1) : 1;
+
+  return (
+    <AppShell>
+      <div className="space-y-6">
+        <Card
+          title="Audit log"
+          description="Who launched, stopped or purged which task, and when."
+          actions={
+            <Button variant="secondary" size="sm" onClick={() => refresh()}>
+              Refresh
+            </Button>
+          }
+        >
+          <form onSubmit={handleSubmit} className="grid gap-3 md:grid-cols-5">
+            <select
+              aria-label="Action"
+              value={draft.action}
+              onChange={(event) => setDraft((prev) => ({ ...prev, action: event.target.value as AuditAction | '' }))}
+              className="w-full rounded-lg border border-white/15 bg-slate-900/60 px-4 py-3 text-sm text-slate-100 focus:border-brand-primary focus:outline-none"
+            >
+              <option value="">All actions</option>
+              {(Object.keys(ACTION_LABELS) as AuditAction[]).map((action) => (
+                <option key={action} value={action}>
+                  {ACTION_LABELS[action]}
+                </option>
+              ))}
+            </select>
+            <Input
+              aria-label="Username"
+              placeholder="Username"
+              value={draft.username}
+              onChange={(event) => setDraft((prev) => ({ ...prev, username: event.target.value }))}
+            />
+            <Input
+              aria-label="Job ID"
+              placeholder="Job ID"
+              value={draft.jobId}
+              onChange={(event) => setDraft((prev) => ({ ...prev, jobId: event.target.value }))}
+            />
+            <Input
+              aria-label="From"
+              type="datetime-local"
+              value={draft.from}
+              onChange={(event) => setDraft((prev) => ({ ...prev, from: event.target.value }))}
+            />
+            <Input
+              aria-label="To"
+              type="datetime-local"
+              value={draft.to}
+              onChange={(event) => setDraft((prev) => ({ ...prev, to: event.target.value }))}
+            />
+            <div className="flex gap-2 md:col-span-5">
+              <Button type="submit" size="sm">
+                Apply filters
+              </Button>
+              <Button type="button" variant="secondary" size="sm" onClick={handleReset}>
+                Reset
+              </Button>
+            </div>
+          </form>
+        </Card>
+
+        <Card>
+          {auditLoading && !data && <p className="text-sm text-slate-300">Loading audit log...</p>}
+          {error && <p className="text-sm text-rose-200">Unable to load audit log: {error}</p>}
+          {data && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-white/10 text-left">
+                <thead>
+                  <tr className="text-xs uppercase tracking-[0.16em] text-slate-400">
+                    <th className="px-3 py-2 font-semibold">Time</th>
+                    <th className="px-3 py-2 font-semibold">User</th>
+                    <th className="px-3 py-2 font-semibold">Action</th>
+                    <th className="px-3 py-2 font-semibold">Job</th>
+                    <th className="px-3 py-2 font-semibold">Target</th>
+                    <th className="px-3 py-2 font-semibold">Details</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/10">
+                  {data.entries.length === 0 && (
+                    <tr>
+                      <td colSpan={6} className="px-3 py-3 text-sm text-slate-300">
+                        No audit entries match these filters.
+                      </td>
+                    </tr>
+                  )}
+                  {data.entries.map((entry) => (
+                    <tr key={entry.id} className="align-top text-sm text-slate-200">
+                      <td className="whitespace-nowrap px-3 py-3 text-slate-300">
+                        {new Date(entry.timestamp).toLocaleString()}
+                      </td>
+                      <td className="px-3 py-3 font-semibold text-slate-100">{entry.actor.username}</td>
+                      <td className="px-3 py-3">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span>{ACTION_LABELS[entry.action] ?? entry.action}</span>
+                          <Badge
+                            label={entry.outcome}
+                            tone={entry.outcome === 'success' ? 'success' : 'danger'}
+                          />
+                        </div>
+                      </td>
+                      <td className="px-3 py-3 font-mono text-xs text-slate-300">
+                        {entry.jobId ? (
+                          <Link href={`/dashboard/jobs/${entry.jobId}`} className="hover:text-slate-100">
+                            {entry.jobId}
+                          </Link>
+                        ) : (
+                          '—'
+                        )}
+                      </td>
+                      <td className="px-3 py-3 text-slate-300">{entry.target ?? '—'}</td>
+                      <td className="max-w-xs break-all px-3 py-3 font-mono text-xs text-slate-400">
+                        {entry.message && <p className="mb-1 font-sans text-rose-200">{entry.message}</p>}
+                        {formatPayload(entry)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="mt-4 flex items-center justify-between text-sm text-slate-300">
+                <span>
+                  Page {data.page} of {totalPages} · {data.total} entries
+                </span>
+                <div className="flex gap-2">
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    disabled={page <= 1 || auditLoading}
+                    onClick={() => setPage((current) => Math.max(current - 1, 1))}
+                  >
+                    Previous
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    disabled={page >= totalPages || auditLoading}
+                    onClick={() => setPage((current) => current + 1)}
+                  >
+                    Next
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
+        </Card>
+      </div>
+    </AppShell>
+  );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import { useMemo } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import AppShell from '@/components/layout/AppShell';
+import { useAuth } from '@/components/auth/AuthContext';
+import { useCampaign } from '@/lib/hooks/useCampaigns';
+import Card from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Badge from '@/components/ui/Badge';
+import Loader from '@/components/ui/Loader';
+import JobList from '@/components/dashboard/JobList';
+import { CampaignProgressBar } from '@/components/dashboard/CampaignList';
+import { SEVERITY_RANK } from '@/app/dashboard/jobs/[jobId]/components/ProbeResultBlock';
+
+const SEVERITY_TONE = {
+  CRITICAL: 'danger',
+  HIGH: 'danger',
+  MEDIUM: 'warning',
+  LOW: 'neutral',
+  INFO: 'neutral'
+} as const;
+
+export default function CampaignDetailsPage(): JSX.Element {
+  const params = useParams<{ campaignId: string }>();
+  const router = useRouter();
+  const { user, loading } = useAuth();
+  const { detail, loading: campaignLoading, error, notFound, refresh } = useCampaign(params.campaignId);
+
+  const findings = useMemo(
+    () => [...(detail?.findings ?? [])].sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]),
+    [detail?.findings]
+  );
+  const failedLaunches = detail?.campaign.jobs.filter((ref) => ref.error) ?? [];
+
+  if (!loading && !user) {
+    router.replace('/');
+    return <main className="flex min-h-screen items-center justify-center">Redirecting...</main>;
+  }
+
+  if ((campaignLoading && !detail) || loading) {
+    return (
+      <AppShell>
+        <div className="flex flex-col items-center justify-center min-h-[60vh]">
+          <Loader size="lg" message="Fetching campaign telemetry..." />
+        </div>
+      </AppShell>
+    );
+  }
+
+  if (error) {
+    return (
+      <AppShell>
+        <Card title="Unable to load campaign" description={error}>
+          <Button variant="secondary" onClick={() => refresh()}>
+            Retry
+          </Button>
+        </Card>
+      </AppShell>
+    );
+  }
+
+  if (notFound || !detail) {
+    return (
+      <AppShell>
+        <Card title="Campaign not found" description="Return to the dashboard to view the latest campaigns.">
+          <Button asChild>
+            <Link href="/dashboard">Back to dashboard</Link>
+          </Button>
+        </Card>
+      </AppShell>
+    );
+  }
+
+  const { campaign, jobs } = detail;
+
+  return (
+    <AppShell>
+      <div className="space-y-6">
+        <Card
+          title={campaign.name}
+          description={campaign.summary || `${campaign.progress.total} targets launched by ${campaign.createdBy}.`}
+          actions={
+            <div className="flex gap-2">
+              <Button variant="secondary" size="sm" onClick={() => refresh()} disabled={campaignLoading}>
+                {campaignLoading ? 'Refreshing...' : 'Refresh'}
+              </Button>
+              <Button asChild variant="secondary" size="sm">
+                <Link href="/dashboard">Back to dashboard</Link>
+              </Button>
+            </div>
+          }
+        >
+          <CampaignProgressBar progress={campaign.progress} />
+          <div className="mt-4 rounded-xl border border-white/10 bg-slate-900/60 p-4">
+            <p className="text-xs uppercase tracking-[0.16em] text-slate-400">Target list</p>
+            <pre className="mt-2 max-h-40 overflow-auto whitespace-pre-wrap font-mono text-xs text-slate-200">
+              {campaign.targetSpec}
+            </pre>
+          </div>
+          {failedLaunches.length > 0 && (
+            <div className="mt-4 rounded-lg border border-rose-500/30 bg-rose-500/15 px-4 py-3 text-sm text-rose-100">
+              <p className="font-medium">{failedLaunches.length} targets failed to launch:</p>
+              <ul className="mt-1 space-y-1 text-xs">
+                {failedLaunches.map((ref) => (
+                  <li key={ref.target}>
+                    <span className="font-mono">{ref.target}</span>: {ref.error}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </Card>
+
+        <Card
+          title="Combined findings"
+          description="Structured findings from every task in the campaign, most severe first."
+        >
+          {detail.suppressedFindings > 0 && (
+            <p className="mb-3 text-xs text-slate-400">
+              {detail.suppressedFindings} finding{detail.suppressedFindings !== 1 ? 's' : ''} hidden by suppression rules.
+            </p>
+          )}
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-white/10 text-left">
+              <thead>
+                <tr className="text-xs uppercase tracking-[0.16em] text-slate-400">
+                  <th className="px-3 py-2 font-semibold">Severity</th>
+                  <th className="px-3 py-2 font-semibold">Target</th>
+                  <th className="px-3 py-2 font-semibold">Port</th>
+                  <th className="px-3 py-2 font-semibold">Probe</th>
+                  <th className="px-3 py-2 font-semibold">Finding</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/10">
+                {findings.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-3 py-3 text-sm text-slate-300">
+                      No findings reported yet.
+                    </td>
+                  </tr>
+                )}
+                {findings.map((finding, index) => (
+                  <tr key={`${finding.jobId}-${finding.port}-${finding.probe}-${index}`} className="text-sm text-slate-200">
+                    <td className="px-3 py-3">
+                      <Badge label={finding.severity} tone={SEVERITY_TONE[finding.severity]} />
+                    </td>
+                    <td className="px-3 py-3">
+                      <Link href={`/dashboard/tasks/${finding.jobId}`} className="font-mono text-xs text-brand-primary hover:underline">
+                        {finding.target}
+                      </Link>
+                    </td>
+                    <td className="px-3 py-3 font-mono text-xs">{finding.port}</td>
+                    <td className="px-3 py-3 font-mono text-xs text-slate-300">{finding.probe}</td>
+                    <td className="px-3 py-3">
+                      {finding.title}
+                      {finding.description && <div className="text-xs text-slate-400">{finding.description}</div>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+
+        <Card title="Tasks" description="One task per expanded target.">
+          <JobList
+            title=""
+            description=""
+            jobs={jobs}
+            emptyState="No tasks from this campaign are visible on the network."
+            onJobStopped={() => refresh()}
+            bare
+          />
+        </Card>
+      </div>
+    </AppShell>
+  );
+}
@@ -0,0 +1,267 @@
+'use client';
+
+import { Suspense, useMemo } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import AppShell from '@/components/layout/AppShell';
+import { useAuth } from '@/components/auth/AuthContext';
+import useJobs from '@/lib/hooks/useJobs';
+import useJobComparison from '@/lib/hooks/useJobComparison';
+import Card from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Badge from '@/components/ui/Badge';
+import Loader from '@/components/ui/Loader';
+import type { WorkerReport } from '@/lib/api/types';
+import type { FindingComparison, FindingComparisonState, PortComparison } from '@/lib/domain/jobCompare';
+import { useAggregatedPorts, useWorkerActivity } from '@/app/dashboard/jobs/[jobId]/hooks';
+import { generateJobReport } from '@/lib/pdf/generateJobReport';
+
+const SELECT_CLASS =
+  'w-full rounded-lg border border-white/15 bg-slate-900/60 px-4 py-3 text-sm text-slate-100 focus:border-brand-primary focus:outline-none';
+
+const EMPTY_REPORTS: Record<string, WorkerReport> = {};
+
+const STATE_LABELS: Record<FindingComparisonState, { label: string; tone: 'neutral' | 'success' | 'warning' | 'danger' }> = {
+  fixed: { label: 'Fixed', tone: 'success' },
+  regressed: { label: 'Regressed', tone: 'danger' },
+  new: { label: 'New', tone: 'warning' },
+  persisting: { label: 'Persisting', tone: 'neutral' },
+};
+
+const PORT_STATE_LABELS: Record<PortComparison['state'], { label: string; tone: 'neutral' | 'success' | 'danger' }> = {
+  unchanged: { label: 'Open in both', tone: 'neutral' },
+  opened: { label: 'Newly open', tone: 'danger' },
+  closed: { label: 'Closed', tone: 'success' },
+};
+
+function severityLabel(finding: FindingComparison): string {
+  if (finding.state === 'regressed') {
+    return `${finding.baseline?.severity} → ${finding.current?.severity}`;
+  }
+  return (finding.current ?? finding.baseline)?.severity ?? '';
+}
+
+function ComparePageContent(): JSX.Element {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { user, loading } = useAuth();
+  const { jobs } = useJobs();
+
+  const baselineId = searchParams.get('a');
+  const currentId = searchParams.get('b');
+  const { comparison, baseline, current, loading: comparing, error, refresh } = useJobComparison(baselineId, currentId);
+
+  const aggregatedPorts = useAggregatedPorts(current?.reports ?? EMPTY_REPORTS, current?.job ?? null);
+  const workerActivity = useWorkerActivity(current?.reports ?? EMPTY_REPORTS);
+
+  const baselineTarget = jobs.find((job) => job.id === baselineId)?.target.trim().toLowerCase();
+  // Jobs against the baseline target come first, since that is the usual re-scan
+  const candidates = useMemo(
+    () =>
+      [...jobs].sort(
+        (a, b) =>
+          Number(b.target.trim().toLowerCase() === baselineTarget) - Number(a.target.trim().toLowerCase() === baselineTarget)
+      ),
+    [jobs, baselineTarget]
+  );
+
+  const select = (a: string | null, b: string | null) => {
+    const query = new URLSearchParams();
+    if (a) query.set('a', a);
+    if (b) query.set('b', b);
+    router.replace(`/dashboard/compare?${query.toString()}`);
+  };
+
+  const handleDownload = () => {
+    if (!comparison || !baseline || !current) return;
+    generateJobReport({
+      job: current.job,
+      reports: current.reports,
+      aggregatedPorts,
+      workerActivity,
+      llmAnalyses: current.llmAnalyses,
+      quickSummaries: current.quickSummaries,
+      remediation: { baseline: baseline.job, comparison },
+    });
+  };
+
+  if (!loading && !user) {
+    router.replace('/');
+    return <main className="flex min-h-screen items-center justify-center">Redirecting...</main>;
+  }
+
+  return (
+    <AppShell>
+      <div className="space-y-6">
+        <div>
+          <p className="text-xs uppercase tracking-[0.3em] text-slate-400">Remediation</p>
+          <h1 className="mt-2 text-3xl font-semibold text-slate-50">Compare tasks</h1>
+          <p className="mt-2 text-sm text-slate-400">
+            Line up a baseline scan with the re-scan launched after remediation to see what was fixed, what regressed
+            and what is new.
+          </p>
+        </div>
+
+        <Card title="Tasks" description="Pick the baseline and the later task. Both should target the same host or range.">
+          <div className="grid gap-4 md:grid-cols-[1fr_auto_1fr] md:items-end">
+            <label className="space-y-1 text-sm text-slate-300">
+              <span>Baseline</span>
+              <select aria-label="Baseline task" value={baselineId ?? ''} onChange={(e) => select(e.target.value || null, currentId)} className={SELECT_CLASS}>
+                <option value="">Select a task</option>
+                {jobs.map((job) => (
+                  <option key={job.id} value={job.id}>
+                    {job.displayName} · {job.target} · {job.id.slice(0, 8)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <Button variant="secondary" size="sm" disabled={!baselineId && !currentId} onClick={() => select(currentId, baselineId)}>
+              Swap
+            </Button>
+            <label className="space-y-1 text-sm text-slate-300">
+              <span>Re-scan</span>
+              <select aria-label="Re-scan task" value={currentId ?? ''} onChange={(e) => select(baselineId, e.target.value || null)} className={SELECT_CLASS}>
+                <option value="">Select a task</option>
+                {candidates
+                  .filter((job) => job.id !== baselineId)
+                  .map((job) => (
+                    <option key={job.id} value={job.id}>
+                      {job.displayName} · {job.target} · {job.id.slice(0, 8)}
+                    </option>
+                  ))}
+              </select>
+            </label>
+          </div>
+        </Card>
+
+        {comparing && !comparison && (
+          <div className="flex flex-col items-center justify-center min-h-[30vh]">
+            <Loader size="lg" message="Comparing tasks..." />
+          </div>
+        )}
+
+        {error && (
+          <Card title="Unable to compare tasks" description={error}>
+            <Button variant="secondary" onClick={() => refresh()}>
+              Retry
+            </Button>
+          </Card>
+        )}
+
+        {comparison && baseline && current && (
+          <>
+            <Card
+              title="Remediation summary"
+              description={`${baseline.job.displayName} → ${current.job.displayName}`}
+              actions={
+                <Button variant="primary" size="sm" onClick={handleDownload}>
+                  Download PDF
+                </Button>
+              }
+            >
+              <div className="space-y-3">
+                {!comparison.sameTarget && (
+                  <p className="text-sm text-amber-300">
+                    These tasks target different hosts ({baseline.job.target} and {current.job.target}), so findings may not line up.
+                  </p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  <Badge tone="success" label={`${comparison.summary.fixed} fixed`} />
+                  <Badge tone="danger" label={`${comparison.summary.regressed} regressed`} />
+                  <Badge tone="warning" label={`${comparison.summary.new} new`} />
+                  <Badge tone="neutral" label={`${comparison.summary.persisting} persisting`} />
+                  <Badge tone="success" label={`${comparison.summary.closedPorts} ports closed`} />
+                  <Badge tone="danger" label={`${comparison.summary.openedPorts} ports opened`} />
+                </div>
+                <p className="text-sm text-slate-400">
+                  <Link href={`/dashboard/jobs/${baseline.job.id}`} className="text-brand-primary hover:underline">
+                    Open baseline
+                  </Link>
+                  {' · '}
+                  <Link href={`/dashboard/jobs/${current.job.id}`} className="text-brand-primary hover:underline">
+                    Open re-scan
+                  </Link>
+                </p>
+              </div>
+            </Card>
+
+            <Card title="Findings" description="Findings are matched by fingerprint: target, port, probe, title and CWE.">
+              {comparison.findings.length === 0 ? (
+                <p className="text-sm text-slate-400">Neither task reported structured findings.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-left">
+                    <thead>
+                      <tr className="text-xs uppercase tracking-[0.16em] text-slate-400">
+                        <th className="px-3 py-2 font-semibold">State</th>
+                        <th className="px-3 py-2 font-semibold">Severity</th>
+                        <th className="px-3 py-2 font-semibold">Finding</th>
+                        <th className="px-3 py-2 font-semibold">Port</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-white/5">
+                      {comparison.findings.map((finding) => (
+                        <tr key={finding.fingerprint} className="text-sm text-slate-300">
+                          <td className="px-3 py-2">
+                            <Badge tone={STATE_LABELS[finding.state].tone} label={STATE_LABELS[finding.state].label} />
+                          </td>
+                          <td className="px-3 py-2 text-xs font-medium">{severityLabel(finding)}</td>
+                          <td className="px-3 py-2 text-slate-100">{finding.title}</td>
+                          <td className="px-3 py-2 text-xs text-slate-400">
+                            {finding.port} · {finding.probe}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </Card>
+
+            <Card title="Ports and services" description="Open ports from both tasks, aligned by port number.">
+              {comparison.ports.length === 0 ? (
+                <p className="text-sm text-slate-400">Neither task found open ports.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-left">
+                    <thead>
+                      <tr className="text-xs uppercase tracking-[0.16em] text-slate-400">
+                        <th className="px-3 py-2 font-semibold">Port</th>
+                        <th className="px-3 py-2 font-semibold">State</th>
+                        <th className="px-3 py-2 font-semibold">Baseline</th>
+                        <th className="px-3 py-2 font-semibold">Re-scan</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-white/5">
+                      {comparison.ports.map((port) => (
+                        <tr key={port.port} className="align-top text-sm text-slate-300">
+                          <td className="px-3 py-2 font-medium text-slate-100">{port.port}</td>
+                          <td className="px-3 py-2">
+                            <Badge
+                              tone={port.changes.length > 0 && port.state === 'unchanged' ? 'warning' : PORT_STATE_LABELS[port.state].tone}
+                              label={port.changes.length > 0 && port.state === 'unchanged' ? 'Service changed' : PORT_STATE_LABELS[port.state].label}
+                            />
+                          </td>
+                          <td className="px-3 py-2 text-xs text-slate-400">{port.baselineServices.join(', ') || '—'}</td>
+                          <td className="px-3 py-2 text-xs text-slate-200">{port.currentServices.join(', ') || '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </Card>
+          </>
+        )}
+      </div>
+    </AppShell>
+  );
+}
+
+export default function ComparePage(): JSX.Element {
+  return (
+    <Suspense fallback={<main className="flex min-h-screen items-center justify-center">Loading...</main>}>
+      <ComparePageContent />
+    </Suspense>
+  );
+}
@@ -10,9 +10,20 @@ interface AggregateFindingsProps {
   job: Job;
   aggregatedPorts: AggregatedPortsData;
   quickSummary?: LlmAnalysis;
+  /** Findings hidden by suppression rules (counted even while they are shown). */
+  suppressedCount?: number;
+  showSuppressed?: boolean;
+  onToggleSuppressed?: () => void;
 }
 
-export function AggregateFindings({ job, aggregatedPorts, quickSummary }: AggregateFindingsProps) {
+export function AggregateFindings({
+  job,
+  aggregatedPorts,
+  quickSummary,
+  suppressedCount = 0,
+  showSuppressed = false,
+  onToggleSuppressed,
+}: AggregateFindingsProps) {
   const hasNoFindings = !job.aggregate &&
     aggregatedPorts.ports.length === 0 &&
     aggregatedPorts.services.size === 0;
@@ -57,6 +68,20 @@ export function AggregateFindings({ job, aggregatedPorts, quickSummary }: Aggreg
             </div>
           </div>
 
+          {suppressedCount > 0 && (
+            <div className="flex items-center gap-2 text-xs text-slate-400">
+              <span>
+                {suppressedCount} finding{suppressedCount !== 1 ? 's' : ''} matched suppression rules
+                {showSuppressed ? ' and are shown.' : ' and are hidden and left out of the risk score.'}
+              </span>
+              {onToggleSuppressed && (
+                <button onClick={onToggleSuppressed} className="text-brand-primary hover:underline cursor-pointer">
+                  {showSuppressed ? 'Hide suppressed' : 'Show suppressed'}
+                </button>
+              )}
+            </div>
+          )}
+
           {/* AI Quick Summary */}
           {quickSummary?.content && (
             <div className="p-3 rounded-lg bg-brand-primary/5 border border-brand-primary/20">
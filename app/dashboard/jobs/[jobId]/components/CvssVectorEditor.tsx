@@ -0,0 +1,142 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Button from '@/components/ui/Button';
+import { CVSS_BASE_METRICS, CvssVectorError, buildCvssVector, scoreCvssVector } from '@/lib/domain/cvss';
+import type { CvssScore } from '@/lib/domain/cvss';
+
+type EditorVersion = keyof typeof CVSS_BASE_METRICS;
+
+const SELECT_CLASS =
+  'rounded border border-white/15 bg-slate-900/60 px-1.5 py-0.5 text-[11px] text-slate-100 focus:border-brand-primary focus:outline-none';
+
+/** Metrics of a possibly incomplete vector, to prefill the metric pickers while typing. */
+function draftMetrics(vector: string): Record<string, string> {
+  return Object.fromEntries(
+    vector
+      .trim()
+      .split('/')
+      .slice(1)
+      .map((part) => part.split(':'))
+      .filter((pair) => pair.length === 2)
+  );
+}
+
+/** v3.0 vectors are edited as v3.1; the base metrics are the same. */
+function draftVersion(vector: string): EditorVersion {
+  return /^CVSS:4\.0/i.test(vector.trim()) ? '4.0' : '3.1';
+}
+
+function evaluate(vector: string): { scored: CvssScore | null; error: string | null } {
+  if (!vector.trim()) return { scored: null, error: null };
+  try {
+    return { scored: scoreCvssVector(vector), error: null };
+  } catch (err) {
+    if (err instanceof CvssVectorError) return { scored: null, error: err.message };
+    throw err;
+  }
+}
+
+interface CvssVectorEditorProps {
+  /** Unique per finding; ties the version label to its picker. */
+  id: string;
+  /** Vector saved on the triage record. */
+  savedVector?: string;
+  /** Vector the probe reported, offered as the starting point. */
+  reportedVector?: string;
+  saving: boolean;
+  /** Called with the normalized vector, or an empty string to clear the saved one. */
+  onSave: (vector: string) => void;
+}
+
+export function CvssVectorEditor({ id, savedVector, reportedVector, saving, onSave }: CvssVectorEditorProps) {
+  const [draft, setDraft] = useState(savedVector ?? reportedVector ?? '');
+
+  // Another analyst may have changed the vector since the page loaded
+  useEffect(() => {
+    setDraft(savedVector ?? reportedVector ?? '');
+  }, [savedVector, reportedVector]);
+
+  const version = draftVersion(draft);
+  const metrics = draftMetrics(draft);
+  const { scored, error } = evaluate(draft);
+
+  const setVersion = (next: EditorVersion) => {
+    if (next !== version) setDraft(`CVSS:${next}`);
+  };
+  const setMetric = (key: string, value: string) => setDraft(buildCvssVector(version, { ...metrics, [key]: value }));
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center gap-2 flex-wrap">
+        <label className="text-slate-400" htmlFor={id}>
+          CVSS
+        </label>
+        <select
+          id={id}
+          value={version}
+          disabled={saving}
+          onChange={(e) => setVersion(e.target.value as EditorVersion)}
+          className={SELECT_CLASS}
+        >
+          <option value="3.1">v3.1</option>
+          <option value="4.0">v4.0</option>
+        </select>
+        {scored && (
+          <span className="font-mono text-slate-200">
+            {scored.score.toFixed(1)} · {scored.severity}
+          </span>
+        )}
+        {error && draft.includes('/') && <span className="text-amber-300">{error}</span>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-1 sm:grid-cols-4">
+        {CVSS_BASE_METRICS[version].map((metric) => (
+          <label key={metric.key} className="flex flex-col gap-0.5 text-slate-500">
+            <span className="truncate" title={metric.name}>
+              {metric.name}
+            </span>
+            <select
+              value={metrics[metric.key] ?? ''}
+              disabled={saving}
+              onChange={(e) => setMetric(metric.key, e.target.value)}
+              className={SELECT_CLASS}
+            >
+              <option value="" disabled>
+                —
+              </option>
+              {metric.options.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          aria-label="CVSS vector"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H"
+          className="flex-1 rounded border border-white/15 bg-slate-900/60 px-2 py-1 font-mono text-[11px] text-slate-100 focus:border-brand-primary focus:outline-none"
+        />
+        <Button
+          size="sm"
+          variant="secondary"
+          disabled={saving || !scored || scored.vector === savedVector}
+          onClick={() => scored && onSave(scored.vector)}
+        >
+          Save vector
+        </Button>
+        {savedVector && (
+          <Button size="sm" variant="secondary" disabled={saving} onClick={() => onSave('')}>
+            Clear
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,10 +4,11 @@ import React, { useState, useMemo, useRef, useCallback } from 'react';
 import Card from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
 import Input from '@/components/ui/Input';
-import { ProbeResultBlock, SEVERITY_RANK } from './ProbeResultBlock';
+import { ProbeResultBlock } from './ProbeResultBlock';
 import { normalizeProbeResult } from '@/lib/utils/probeResult';
 import type { ParsedFinding } from '@/lib/utils/probeResult';
-import type { AggregatedPortsData } from '../types';
+import { findingScore } from '@/lib/domain/cvss';
+import type { AggregatedPortsData, FindingTriageContext } from '../types';
 import Tooltip from '@/components/ui/Tooltip';
 import {
   WELL_KNOWN_PORTS,
@@ -18,20 +19,15 @@ import {
   SORT_MODE_DESCRIPTIONS,
 } from '@/lib/domain/knowledge';
 
-/** Sort probe entries so highest-severity probes come first. */
-function sortByTopSeverity(entries: [string, unknown][]): [string, unknown][] {
-  return [...entries].sort((a, b) => {
-    const sevA = topSeverityFromResult(a[1]);
-    const sevB = topSeverityFromResult(b[1]);
-    return sevA - sevB;
-  });
+/** Sort probe entries so probes with the highest-scoring finding come first. */
+function sortByTopScore(entries: [string, unknown][]): [string, unknown][] {
+  return [...entries].sort((a, b) => topScoreFromResult(b[1]) - topScoreFromResult(a[1]));
 }
 
-/** Return the highest (lowest-rank) severity across all findings in a probe result. */
-function topSeverityFromResult(result: unknown): number {
+/** Highest CVSS score across a probe's findings; unscored findings count as their severity band's floor. */
+function topScoreFromResult(result: unknown): number {
   const { findings } = normalizeProbeResult(result);
-  if (findings.length === 0) return SEVERITY_RANK.INFO;
-  return Math.min(...findings.map((f) => SEVERITY_RANK[f.severity] ?? SEVERITY_RANK.INFO));
+  return findings.length === 0 ? -1 : Math.max(...findings.map(findingScore));
 }
 
 const SEVERITY_LEVELS: ParsedFinding['severity'][] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW', 'INFO'];
@@ -90,6 +86,8 @@ const OWASP_BUTTON_STYLES = {
 
 interface PortAnalysisResult {
   severityMap: Map<number, string>;
+  /** Highest finding score per port, see `findingScore`. */
+  topScore: Map<number, number>;
   serviceLabel: Map<number, string>;
   detectedProtocol: Map<number, string>;
   findingCount: Map<number, number>;
@@ -100,9 +98,20 @@ interface PortAnalysisResult {
 
 interface DiscoveredPortsProps {
   aggregatedPorts: AggregatedPortsData;
+  /** Enables per-finding triage in the port details. */
+  triage?: FindingTriageContext;
+  suppressedCount?: number;
+  showSuppressed?: boolean;
+  onToggleSuppressed?: () => void;
 }
 
-export function DiscoveredPorts({ aggregatedPorts }: DiscoveredPortsProps) {
+export function DiscoveredPorts({
+  aggregatedPorts,
+  triage,
+  suppressedCount = 0,
+  showSuppressed = false,
+  onToggleSuppressed,
+}: DiscoveredPortsProps) {
   const [sectionExpanded, setSectionExpanded] = useState(false);
   const [selectedPort, setSelectedPort] = useState<number | null>(null);
   const [portsExpanded, setPortsExpanded] = useState(false);
@@ -118,6 +127,7 @@ export function DiscoveredPorts({ aggregatedPorts }: DiscoveredPortsProps) {
   // Combined port analysis — single pass over all ports × all probes
   const portAnalysis = useMemo<PortAnalysisResult>(() => {
     const severityMap = new Map<number, string>();
+    const topScore = new Map<number, number>();
     const serviceLabel = new Map<number, string>();
     const detectedProtocol = new Map<number, string>();
     const findingCount = new Map<number, number>();
@@ -126,7 +136,9 @@ export function DiscoveredPorts({ aggregatedPorts }: DiscoveredPortsProps) {
     const owaspIdsPerPort = new Map<number, Set<string>>();
 
     for (const port of aggregatedPorts.ports) {
-      let bestSev = SEVERITY_RANK.INFO;
+      // The port takes the severity of its highest-scoring finding
+      let bestSev: ParsedFinding['severity'] = 'INFO';
+      let bestScore = -1;
       let totalFindings = 0;
       let detected: string | null = null;
       const portOwaspIds = new Set<string>();
@@ -138,16 +150,16 @@ export function DiscoveredPorts({ aggregatedPorts }: DiscoveredPortsProps) {
           const { findings } = normalizeProbeResult(result);
           totalFindings += findings.length;
           for (const f of findings) {
-            const rank = SEVERITY_RANK[f.severity] ?? SEVERITY_RANK.INFO;
-            if (rank < bestSev) bestSev = rank;
+            const score = findingScore(f);
+            if (score > bestScore) {
+              bestScore = score;
+              bestSev = f.severity;
+            }
             if (f.owasp_id) {
               portOwaspIds.add(f.owasp_id);
               owaspCounts.set(f.owasp_id, (owaspCounts.get(f.owasp_id) ?? 0) + 1);
             }
           }
-          if (findings.length === 0) {
-            bestSev = Math.min(bestSev, topSeverityFromResult(result));
-          }
           // Detect protocol from probe name (skip GENERIC and TLS)
           const proto = PROBE_TO_PROTOCOL[probeName];
           if (proto && proto !== 'GENERIC' && proto !== 'TLS' && !detected) {
@@ -163,22 +175,21 @@ export function DiscoveredPorts({ aggregatedPorts }: DiscoveredPortsProps) {
           const { findings } = normalizeProbeResult(result);
           totalFindings += findings.length;
           for (const f of findings) {
-            const rank = SEVERITY_RANK[f.severity] ?? SEVERITY_RANK.INFO;
-            if (rank < bestSev) bestSev = rank;
+            const score = findingScore(f);
+            if (score > bestScore) {
+              bestScore = score;
+              bestSev = f.severity;
+            }
             if (f.owasp_id) {
               portOwaspIds.add(f.owasp_id);
               owaspCounts.set(f.owasp_id, (owaspCounts.get(f.owasp_id) ?? 0) + 1);
             }
           }
-          if (findings.length === 0) {
-            bestSev = Math.min(bestSev, topSeverityFromResult(result));
-          }
         }
       }
 
-      // Severity label
-      const sevLabel = Object.entries(SEVERITY_RANK).find(([, v]) => v === bestSev)?.[0] ?? 'INFO';
-      severityMap.set(port, sevLabel);
+      severityMap.set(port, bestSev);
+      topScore.set(port, bestScore);
 
       // Service label: WELL_KNOWN_PORTS first, then infer from probe
       const wellKnownLabel = WELL_KNOWN_PORTS[port];
@@ -210,7 +221,7 @@ export function DiscoveredPorts({ aggregatedPorts }: DiscoveredPortsProps) {
       }
     }
 
-    return { severityMap, serviceLabel, detectedProtocol, findingCount, nonStandard, owaspCounts, owaspIdsPerPort };
+    return { severityMap, topScore, serviceLabel, detectedProtocol, findingCount, nonStandard, owaspCounts, owaspIdsPerPort };
   }, [aggregatedPorts]);
 
   // Severity counts for filter badges
@@ -275,9 +286,9 @@ export function DiscoveredPorts({ aggregatedPorts }: DiscoveredPortsProps) {
   const sortedPorts = useMemo(() => {
     if (sortMode === 'numeric') return filteredPorts;
     return [...filteredPorts].sort((a, b) => {
-      const sevA = SEVERITY_RANK[(portAnalysis.severityMap.get(a) ?? 'INFO') as ParsedFinding['severity']];
-      const sevB = SEVERITY_RANK[(portAnalysis.severityMap.get(b) ?? 'INFO') as ParsedFinding['severity']];
-      if (sevA !== sevB) return sevA - sevB;
+      const scoreA = portAnalysis.topScore.get(a) ?? -1;
+      const scoreB = portAnalysis.topScore.get(b) ?? -1;
+      if (scoreA !== scoreB) return scoreB - scoreA;
       return a - b;
     });
   }, [filteredPorts, sortMode, portAnalysis]);
@@ -505,6 +516,24 @@ export function DiscoveredPorts({ aggregatedPorts }: DiscoveredPortsProps) {
             )}
           </div>
 
+          {/* Suppressed findings toggle */}
+          {suppressedCount > 0 && onToggleSuppressed && (
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-slate-500 uppercase tracking-wider">Suppressed</span>
+              <button
+                onClick={onToggleSuppressed}
+                className={`inline-flex items-center gap-1.5 rounded-md border px-2.5 py-1 text-xs font-medium transition-all cursor-pointer ${
+                  showSuppressed
+                    ? 'bg-brand-primary/20 text-brand-primary border-brand-primary/50'
+                    : 'bg-slate-800/50 text-slate-400 border-slate-600 hover:border-brand-primary/40 hover:text-slate-300'
+                }`}
+              >
+                {showSuppressed ? 'Shown' : 'Hidden'}
+                <span className={`text-[10px] ${showSuppressed ? 'opacity-80' : 'opacity-50'}`}>({suppressedCount})</span>
+              </button>
+            </div>
+          )}
+
           {/* Summary Stats Bar */}
           {isFiltered && (
             <div className="flex items-center gap-3 text-sm">
@@ -676,7 +705,7 @@ export function DiscoveredPorts({ aggregatedPorts }: DiscoveredPortsProps) {
                       Service Detection Results
                     </p>
                     <div className="space-y-2">
-                      {sortByTopSeverity(Object.entries(aggregatedPorts.services.get(selectedPort) as Record<string, unknown>)).map(([probeName, result]) => {
+                      {sortByTopScore(Object.entries(aggregatedPorts.services.get(selectedPort) as Record<string, unknown>)).map(([probeName, result]) => {
                         const resultKey = `service-${selectedPort}-${probeName}`;
                         return (
                           <ProbeResultBlock
@@ -696,6 +725,8 @@ export function DiscoveredPorts({ aggregatedPorts }: DiscoveredPortsProps) {
                             }}
                             accentColor="amber"
                             namePrefix="_service_info_"
+                            port={selectedPort}
+                            triage={triage}
                           />
                         );
                       })}
@@ -710,7 +741,7 @@ export function DiscoveredPorts({ aggregatedPorts }: DiscoveredPortsProps) {
                       Web Security Tests
                     </p>
                     <div className="space-y-2">
-                      {sortByTopSeverity(Object.entries(aggregatedPorts.webTests.get(selectedPort) as Record<string, unknown>)).map(([testName, result]) => {
+                      {sortByTopScore(Object.entries(aggregatedPorts.webTests.get(selectedPort) as Record<string, unknown>)).map(([testName, result]) => {
                         const resultKey = `web-${selectedPort}-${testName}`;
                         return (
                           <ProbeResultBlock
@@ -730,6 +761,8 @@ export function DiscoveredPorts({ aggregatedPorts }: DiscoveredPortsProps) {
                             }}
                             accentColor="rose"
                             namePrefix="_web_test_"
+                            port={selectedPort}
+                            triage={triage}
                           />
                         );
                       })}
@@ -0,0 +1,196 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Button from '@/components/ui/Button';
+import TextArea from '@/components/ui/TextArea';
+import { findingFingerprint } from '@/lib/domain/findings';
+import type { ParsedFinding } from '@/lib/utils/probeResult';
+import type { FindingIdentity, FindingStatus } from '@/lib/api/types';
+import type { FindingTriageChanges } from '@/lib/hooks/useFindingTriage';
+import type { FindingTriageContext } from '../types';
+import { CvssVectorEditor } from './CvssVectorEditor';
+
+export const FINDING_STATUS_LABELS: Record<FindingStatus, string> = {
+  open: 'Open',
+  confirmed: 'Confirmed',
+  false_positive: 'False positive',
+  accepted_risk: 'Accepted risk',
+  fixed: 'Fixed',
+};
+
+const STATUS_STYLES: Record<FindingStatus, string> = {
+  open: 'border-slate-500/50 text-slate-300',
+  confirmed: 'border-red-500/50 text-red-300',
+  false_positive: 'border-slate-600 text-slate-500 line-through',
+  accepted_risk: 'border-amber-500/50 text-amber-300',
+  fixed: 'border-emerald-500/50 text-emerald-300',
+};
+
+interface FindingTriageControlsProps {
+  finding: ParsedFinding;
+  port: number;
+  probe: string;
+  triage: FindingTriageContext;
+}
+
+export function FindingTriageControls({ finding, port, probe, triage }: FindingTriageControlsProps) {
+  const identity: FindingIdentity = {
+    target: triage.target,
+    port,
+    probe,
+    title: finding.title,
+    cweId: finding.cwe_id,
+  };
+  const record = triage.records.get(findingFingerprint(identity));
+  const status = record?.status ?? 'open';
+
+  const [expanded, setExpanded] = useState(false);
+  const [assignee, setAssignee] = useState(record?.assignee ?? '');
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Records load after the page renders, and other users may reassign the finding
+  useEffect(() => {
+    setAssignee(record?.assignee ?? '');
+  }, [record?.assignee]);
+
+  const save = async (changes: FindingTriageChanges) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await triage.onUpdate(identity, changes);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to update finding.');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddComment = async () => {
+    if (!comment.trim()) return;
+    if (await save({ comment })) {
+      setComment('');
+    }
+  };
+
+  const commentCount = record?.comments.length ?? 0;
+
+  return (
+    <div className="mt-1.5 text-[11px]">
+      <div className="flex items-center gap-2 flex-wrap">
+        {triage.canEdit ? (
+          <select
+            aria-label="Triage status"
+            value={status}
+            disabled={saving}
+            onChange={(e) => void save({ status: e.target.value as FindingStatus })}
+            className={`rounded border bg-slate-900/60 px-1.5 py-0.5 text-[11px] focus:border-brand-primary focus:outline-none ${STATUS_STYLES[status]}`}
+          >
+            {(Object.keys(FINDING_STATUS_LABELS) as FindingStatus[]).map((value) => (
+              <option key={value} value={value}>
+                {FINDING_STATUS_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <span className={`rounded border px-1.5 py-0.5 ${STATUS_STYLES[status]}`}>{FINDING_STATUS_LABELS[status]}</span>
+        )}
+        {record?.regression && (
+          <span
+            className="rounded border border-rose-500/40 bg-rose-500/15 px-1.5 py-0.5 text-rose-200"
+            title="Marked fixed, but a later pass still reports this finding."
+          >
+            Regression
+          </span>
+        )}
+        {record?.assignee && <span className="text-slate-400">@{record.assignee}</span>}
+        {record?.cvssVector && <span className="text-slate-500">analyst CVSS</span>}
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="text-slate-500 hover:text-slate-300 cursor-pointer"
+        >
+          {expanded ? 'Hide triage' : commentCount > 0 ? `${commentCount} comment${commentCount !== 1 ? 's' : ''}` : 'Triage'}
+        </button>
+        {record && (
+          <span className="text-slate-600">
+            updated by {record.updatedBy} {new Date(record.updatedAt).toLocaleDateString()}
+          </span>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="mt-2 space-y-2 rounded bg-slate-900/60 p-2">
+          {triage.canEdit && (
+            <div className="flex items-center gap-2">
+              <label className="text-slate-400" htmlFor={`assignee-${port}-${probe}-${finding.title}`}>
+                Assignee
+              </label>
+              <input
+                id={`assignee-${port}-${probe}-${finding.title}`}
+                value={assignee}
+                onChange={(e) => setAssignee(e.target.value)}
+                placeholder="username"
+                className="flex-1 rounded border border-white/15 bg-slate-900/60 px-2 py-1 text-[11px] text-slate-100 focus:border-brand-primary focus:outline-none"
+              />
+              <Button
+                size="sm"
+                variant="secondary"
+                disabled={saving || assignee.trim() === (record?.assignee ?? '')}
+                onClick={() => void save({ assignee })}
+              >
+                Assign
+              </Button>
+            </div>
+          )}
+
+          {triage.canEdit ? (
+            <CvssVectorEditor
+              id={`cvss-${port}-${probe}-${finding.title}`}
+              savedVector={record?.cvssVector}
+              reportedVector={finding.cvss_vector}
+              saving={saving}
+              onSave={(cvssVector) => void save({ cvssVector })}
+            />
+          ) : (
+            record?.cvssVector && (
+              <p className="text-slate-400">
+                CVSS vector set by analyst: <span className="font-mono text-slate-300">{record.cvssVector}</span>
+              </p>
+            )
+          )}
+
+          {record?.comments.map((entry) => (
+            <div key={entry.id} className="border-l-2 border-white/10 pl-2">
+              <p className="text-slate-500">
+                {entry.author} · {new Date(entry.createdAt).toLocaleString()}
+              </p>
+              <p className="whitespace-pre-wrap text-slate-300">{entry.body}</p>
+            </div>
+          ))}
+          {commentCount === 0 && !triage.canEdit && <p className="text-slate-500">No comments yet.</p>}
+
+          {triage.canEdit && (
+            <div className="space-y-1">
+              <TextArea
+                aria-label="Comment"
+                rows={2}
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder="Add a comment..."
+                className="!px-2 !py-1 !text-[11px]"
+              />
+              <Button size="sm" disabled={saving || !comment.trim()} onClick={() => void handleAddComment()}>
+                Add comment
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && <p className="mt-1 text-rose-300">{error}</p>}
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import Badge from '@/components/ui/Badge';
 import Button from '@/components/ui/Button';
 import type { Job } from '@/lib/api/types';
 import { RUN_MODE, DURATION, JOB_STATUS } from '@/lib/api/constants';
+import { useAuth } from '@/components/auth/AuthContext';
 
 const DEFAULT_PORT_START = 1;
 const DEFAULT_PORT_END = 65535;
@@ -20,6 +21,8 @@ interface JobHeaderProps {
   onStopMonitoring: () => void;
   onPurgeJob?: () => void;
   onRefresh: () => void;
+  /** Served from an imported bundle: the mesh no longer runs this job, so stop and purge are hidden. */
+  archived?: boolean;
 }
 
 export function JobHeader({
@@ -32,7 +35,13 @@ export function JobHeader({
   onStopMonitoring,
   onPurgeJob,
   onRefresh,
+  archived = false,
 }: JobHeaderProps) {
+  const { can } = useAuth();
+  const canStop = !archived && can('jobs:stop');
+  const canPurge = !archived && can('jobs:purge');
+  const canRerun = can('jobs:create');
+
   return (
     <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
       <div>
@@ -42,6 +51,7 @@ export function JobHeader({
           <Badge tone="neutral" label={`Target: ${job.target}`} />
           <Badge tone="neutral" label={`Priority: ${job.priority}`} />
           <Badge tone="neutral" label={`Status: ${job.status}`} />
+          {archived && <Badge tone="warning" label="Archived bundle" />}
           <Badge
             tone={job.runMode === RUN_MODE.CONTINUOUS ? 'warning' : 'neutral'}
             label={job.runMode === RUN_MODE.CONTINUOUS ? 'Continuous Monitoring' : 'Single Pass'}
@@ -51,7 +61,7 @@ export function JobHeader({
         </div>
       </div>
       <div className="flex flex-wrap gap-3">
-        {job.status === JOB_STATUS.RUNNING && (
+        {canStop && job.status === JOB_STATUS.RUNNING && (
           <Button
             variant="danger"
             size="sm"
@@ -61,7 +71,7 @@ export function JobHeader({
             {stopping ? 'Stopping...' : 'Stop Job'}
           </Button>
         )}
-        {job.status === JOB_STATUS.STOPPING && (
+        {canStop && job.status === JOB_STATUS.STOPPING && (
           <Button
             variant="danger"
             size="sm"
@@ -71,7 +81,7 @@ export function JobHeader({
             Stopping...
           </Button>
         )}
-        {job.duration === DURATION.CONTINUOUS && job.status === JOB_STATUS.RUNNING && (
+        {canStop && job.duration === DURATION.CONTINUOUS && job.status === JOB_STATUS.RUNNING && (
           <Button
             variant="secondary"
             size="sm"
@@ -81,7 +91,7 @@ export function JobHeader({
             {stoppingMonitoring ? 'Stopping...' : 'Stop Monitoring'}
           </Button>
         )}
-        {job.duration === DURATION.CONTINUOUS && job.status === JOB_STATUS.STOPPING && (
+        {canStop && job.duration === DURATION.CONTINUOUS && job.status === JOB_STATUS.STOPPING && (
           <Button
             variant="secondary"
             size="sm"
@@ -91,7 +101,7 @@ export function JobHeader({
             Stopping...
           </Button>
         )}
-        {IS_DEV && job.status !== JOB_STATUS.RUNNING && job.status !== JOB_STATUS.STOPPING && (
+        {IS_DEV && canPurge && job.status !== JOB_STATUS.RUNNING && job.status !== JOB_STATUS.STOPPING && (
           <Button
             variant="danger"
             size="sm"
@@ -101,6 +111,14 @@ export function JobHeader({
             {purging ? 'Deleting...' : 'Delete Job'}
           </Button>
         )}
+        {canRerun && (
+          <Button asChild variant="secondary" size="sm">
+            <Link href={`/dashboard/jobs/${job.id}/rerun`}>Re-run</Link>
+          </Button>
+        )}
+        <Button asChild variant="secondary" size="sm">
+          <Link href={`/dashboard/compare?a=${job.id}`}>Compare</Link>
+        </Button>
         <Button variant="secondary" size="sm" onClick={onRefresh}>
           Refresh task
         </Button>
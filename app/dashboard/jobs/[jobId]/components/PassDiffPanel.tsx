@@ -0,0 +1,218 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Card from '@/components/ui/Card';
+import Badge from '@/components/ui/Badge';
+import type { Job } from '@/lib/api/types';
+import type { FlatFinding } from '@/lib/domain/findings';
+import type { RiskComponentDelta } from '@/lib/domain/passDiff';
+import { defaultDiffRange } from '@/lib/domain/passDiff';
+import usePassDiff from '@/lib/hooks/usePassDiff';
+import { SEVERITY_RANK } from './ProbeResultBlock';
+
+const SELECT_CLASS =
+  'rounded-lg border border-white/15 bg-slate-900/60 px-3 py-1.5 text-sm text-slate-100 focus:border-brand-primary focus:outline-none';
+
+const SEVERITY_TONE: Record<FlatFinding['severity'], 'neutral' | 'success' | 'warning' | 'danger'> = {
+  CRITICAL: 'danger',
+  HIGH: 'danger',
+  MEDIUM: 'warning',
+  LOW: 'neutral',
+  INFO: 'neutral',
+};
+
+function formatDelta(value: number | null): string {
+  if (value === null) return '—';
+  return value > 0 ? `+${value}` : String(value);
+}
+
+function deltaClass(value: number | null): string {
+  if (value === null || value === 0) return 'text-slate-400';
+  // Higher risk numbers are worse
+  return value > 0 ? 'text-red-400' : 'text-emerald-400';
+}
+
+function FindingList({ findings, empty }: { findings: FlatFinding[]; empty: string }) {
+  if (findings.length === 0) {
+    return <p className="text-sm text-slate-500">{empty}</p>;
+  }
+  const sorted = [...findings].sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] || a.port - b.port);
+  return (
+    <ul className="space-y-1.5">
+      {sorted.map((finding, index) => (
+        <li key={`${finding.port}-${finding.probe}-${finding.title}-${index}`} className="flex items-center gap-2 text-sm">
+          <Badge label={finding.severity} tone={SEVERITY_TONE[finding.severity]} />
+          <span className="text-slate-200">{finding.title}</span>
+          <span className="text-xs text-slate-500">
+            port {finding.port} · {finding.probe}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function RiskRows({ rows }: { rows: RiskComponentDelta[] }) {
+  return (
+    <>
+      {rows.map((row) => (
+        <tr key={row.key} className="text-sm text-slate-300">
+          <td className="px-3 py-1.5">{row.label}</td>
+          <td className="px-3 py-1.5 text-right">{row.from ?? '—'}</td>
+          <td className="px-3 py-1.5 text-right">{row.to ?? '—'}</td>
+          <td className={`px-3 py-1.5 text-right font-medium ${deltaClass(row.delta)}`}>{formatDelta(row.delta)}</td>
+        </tr>
+      ))}
+    </>
+  );
+}
+
+interface PassDiffPanelProps {
+  job: Job;
+}
+
+export function PassDiffPanel({ job }: PassDiffPanelProps) {
+  const passNrs = useMemo(
+    () => (job.passHistory ?? []).map((pass) => pass.passNr).sort((a, b) => a - b),
+    [job.passHistory]
+  );
+  const range = defaultDiffRange(job);
+  const [from, setFrom] = useState<number | null>(null);
+  const [to, setTo] = useState<number | null>(null);
+
+  // Follow the latest passes until the user picks a range
+  const fromPass = from ?? range?.from ?? null;
+  const toPass = to ?? range?.to ?? null;
+  const { diff, loading, error } = usePassDiff(job.id, fromPass, toPass);
+
+  if (!range) {
+    return null;
+  }
+
+  const isLatest = from === null && to === null;
+  const unchanged =
+    diff &&
+    diff.openedPorts.length === 0 &&
+    diff.closedPorts.length === 0 &&
+    diff.serviceChanges.length === 0 &&
+    diff.newFindings.length === 0 &&
+    diff.resolvedFindings.length === 0;
+
+  return (
+    <Card
+      title={isLatest ? 'Changes since previous pass' : `Changes from pass ${fromPass} to pass ${toPass}`}
+      description="Ports, service versions, findings and risk score compared between two monitoring passes."
+      actions={
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+          <select aria-label="From pass" value={fromPass ?? ''} onChange={(e) => setFrom(Number(e.target.value))} className={SELECT_CLASS}>
+            {passNrs.map((passNr) => (
+              <option key={passNr} value={passNr}>
+                Pass {passNr}
+              </option>
+            ))}
+          </select>
+          <span>→</span>
+          <select aria-label="To pass" value={toPass ?? ''} onChange={(e) => setTo(Number(e.target.value))} className={SELECT_CLASS}>
+            {passNrs.map((passNr) => (
+              <option key={passNr} value={passNr}>
+                Pass {passNr}
+              </option>
+            ))}
+          </select>
+        </div>
+      }
+    >
+      {loading && !diff && <p className="text-sm text-slate-400">Comparing passes...</p>}
+      {error && <p className="text-sm text-rose-200">{error}</p>}
+      {diff && (
+        <div className="space-y-5">
+          {unchanged && <p className="text-sm text-slate-300">No port, service or finding changes between these passes.</p>}
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <p className="text-xs uppercase tracking-widest text-slate-500">Ports</p>
+              <div className="flex flex-wrap gap-1.5">
+                {diff.openedPorts.map((port) => (
+                  <span key={`opened-${port}`} className="rounded-full border border-red-500/50 bg-red-500/10 px-2.5 py-0.5 text-xs text-red-300">
+                    +{port}
+                  </span>
+                ))}
+                {diff.closedPorts.map((port) => (
+                  <span key={`closed-${port}`} className="rounded-full border border-emerald-500/50 bg-emerald-500/10 px-2.5 py-0.5 text-xs text-emerald-300">
+                    −{port}
+                  </span>
+                ))}
+                {diff.openedPorts.length === 0 && diff.closedPorts.length === 0 && (
+                  <span className="text-sm text-slate-500">No ports opened or closed.</span>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-xs uppercase tracking-widest text-slate-500">Risk score</p>
+              <p className="text-sm text-slate-300">
+                {diff.risk.from ?? '—'} → {diff.risk.to ?? '—'}{' '}
+                <span className={`font-semibold ${deltaClass(diff.risk.delta)}`}>({formatDelta(diff.risk.delta)})</span>
+              </p>
+              {(diff.risk.components.length > 0 || diff.risk.findingCounts.length > 0) && (
+                <table className="min-w-full text-left">
+                  <thead>
+                    <tr className="text-[10px] uppercase tracking-[0.16em] text-slate-500">
+                      <th className="px-3 py-1 font-semibold">Component</th>
+                      <th className="px-3 py-1 text-right font-semibold">Pass {diff.from.passNr}</th>
+                      <th className="px-3 py-1 text-right font-semibold">Pass {diff.to.passNr}</th>
+                      <th className="px-3 py-1 text-right font-semibold">Δ</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/5">
+                    <RiskRows rows={diff.risk.components} />
+                    <RiskRows rows={diff.risk.findingCounts.map((row) => ({ ...row, label: `${row.label} findings` }))} />
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+
+          {diff.serviceChanges.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-xs uppercase tracking-widest text-slate-500">Service changes</p>
+              <table className="min-w-full text-left">
+                <thead>
+                  <tr className="text-[10px] uppercase tracking-[0.16em] text-slate-500">
+                    <th className="px-3 py-1 font-semibold">Port</th>
+                    <th className="px-3 py-1 font-semibold">Probe</th>
+                    <th className="px-3 py-1 font-semibold">Field</th>
+                    <th className="px-3 py-1 font-semibold">Before</th>
+                    <th className="px-3 py-1 font-semibold">After</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5">
+                  {diff.serviceChanges.map((change) => (
+                    <tr key={`${change.port}-${change.probe}-${change.field}`} className="text-sm text-slate-300">
+                      <td className="px-3 py-1.5">{change.port}</td>
+                      <td className="px-3 py-1.5 font-mono text-xs">{change.probe.replace(/^_service_info_/, '')}</td>
+                      <td className="px-3 py-1.5">{change.field}</td>
+                      <td className="max-w-xs break-all px-3 py-1.5 text-slate-500">{change.before ?? '—'}</td>
+                      <td className="max-w-xs break-all px-3 py-1.5 text-slate-100">{change.after ?? '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <p className="text-xs uppercase tracking-widest text-slate-500">New findings ({diff.newFindings.length})</p>
+              <FindingList findings={diff.newFindings} empty="No new findings." />
+            </div>
+            <div className="space-y-2">
+              <p className="text-xs uppercase tracking-widest text-slate-500">Resolved findings ({diff.resolvedFindings.length})</p>
+              <FindingList findings={diff.resolvedFindings} empty="No resolved findings." />
+            </div>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -1,9 +1,13 @@
 'use client';
 
+import type { ReactNode } from 'react';
 import { normalizeProbeResult, severityLineClass } from '@/lib/utils/probeResult';
 import type { ParsedFinding } from '@/lib/utils/probeResult';
 import Tooltip from '@/components/ui/Tooltip';
 import { OWASP_CATEGORIES, CONFIDENCE_DESCRIPTIONS } from '@/lib/domain/knowledge';
+import { compareFindingScores } from '@/lib/domain/cvss';
+import { FindingTriageControls } from './FindingTriageControls';
+import type { FindingTriageContext } from '../types';
 
 interface ProbeResultBlockProps {
   probeName: string;
@@ -15,6 +19,9 @@ interface ProbeResultBlockProps {
   namePrefix?: string;
   /** Use text-xs sizing (DetailedWorkerReports) vs text-sm (DiscoveredPorts) */
   compact?: boolean;
+  /** Port the probe ran against; with `triage`, enables the per-finding triage controls. */
+  port?: number;
+  triage?: FindingTriageContext;
 }
 
 export const SEVERITY_RANK: Record<ParsedFinding['severity'], number> = {
@@ -41,7 +48,15 @@ const SEVERITY_TITLE: Record<ParsedFinding['severity'], string> = {
   INFO: 'text-slate-400',
 };
 
-function FindingCard({ finding, accentColor }: { finding: ParsedFinding; accentColor: 'amber' | 'rose' }) {
+function FindingCard({
+  finding,
+  accentColor,
+  triageControls,
+}: {
+  finding: ParsedFinding;
+  accentColor: 'amber' | 'rose';
+  triageControls?: ReactNode;
+}) {
   const borderColor = accentColor === 'amber' ? 'border-amber-500/20' : 'border-rose-500/20';
 
   return (
@@ -79,8 +94,25 @@ function FindingCard({ finding, accentColor }: { finding: ParsedFinding; accentC
         </p>
       )}
 
-      {(finding.cwe_id || finding.owasp_id) && (
+      {(finding.cwe_id || finding.owasp_id || finding.cve_id || finding.cvss_score !== undefined) && (
         <div className="mt-1.5 flex gap-2 flex-wrap">
+          {finding.cve_id && (
+            <a
+              href={`https://nvd.nist.gov/vuln/detail/${encodeURIComponent(finding.cve_id)}`}
+              target="_blank"
+              rel="noreferrer"
+              className="text-[10px] font-mono text-slate-300 bg-slate-800 rounded px-1.5 py-0.5 hover:text-white"
+            >
+              {finding.cve_id}
+            </a>
+          )}
+          {finding.cvss_score !== undefined && (
+            <Tooltip content={finding.cvss_vector ?? 'CVSS base score reported by the probe.'} position="top">
+              <span className="text-[10px] font-mono text-slate-300 bg-slate-800 rounded px-1.5 py-0.5 cursor-help">
+                CVSS {finding.cvss_score.toFixed(1)}
+              </span>
+            </Tooltip>
+          )}
           {finding.cwe_id && (
             <Tooltip content="Common Weakness Enumeration — standard catalog of software weakness types." position="top">
               <span className="text-[10px] font-mono text-slate-500 bg-slate-800 rounded px-1.5 py-0.5 cursor-help">
@@ -97,6 +129,8 @@ function FindingCard({ finding, accentColor }: { finding: ParsedFinding; accentC
           )}
         </div>
       )}
+
+      {triageControls}
     </div>
   );
 }
@@ -110,16 +144,18 @@ export function ProbeResultBlock({
   accentColor,
   namePrefix = '',
   compact = false,
+  port,
+  triage,
 }: ProbeResultBlockProps) {
   const normalized = normalizeProbeResult(result);
   if (normalized.lines.length === 0 && normalized.findings.length === 0) return null;
 
   const maxCollapsedLines = 4;
 
-  // Split findings into cards (CRITICAL/HIGH/MEDIUM) vs inline (LOW/INFO), sorted by severity
+  // Split findings into cards (CRITICAL/HIGH/MEDIUM) vs inline (LOW/INFO), highest score first
   const cardFindings = normalized.findings
     .filter((f) => f.severity === 'CRITICAL' || f.severity === 'HIGH' || f.severity === 'MEDIUM')
-    .sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]);
+    .sort(compareFindingScores);
   const inlineFindings = normalized.findings.filter(
     (f) => f.severity === 'LOW' || f.severity === 'INFO'
   );
@@ -167,6 +203,11 @@ export function ProbeResultBlock({
 
   const sizeClass = compact ? 'text-xs' : 'text-sm';
 
+  const triageFor = (finding: ParsedFinding) =>
+    triage && port !== undefined ? (
+      <FindingTriageControls finding={finding} port={port} probe={probeName} triage={triage} />
+    ) : undefined;
+
   return (
     <div className={`rounded px-3 py-2 ${sizeClass} ${containerClass}`}>
       <span className={`font-medium ${nameClass}`}>
@@ -177,7 +218,12 @@ export function ProbeResultBlock({
       {cardFindings.length > 0 && (
         <div className="mt-2 space-y-2">
           {cardFindings.map((finding, i) => (
-            <FindingCard key={`${resultKey}-finding-${i}`} finding={finding} accentColor={accentColor} />
+            <FindingCard
+              key={`${resultKey}-finding-${i}`}
+              finding={finding}
+              accentColor={accentColor}
+              triageControls={triageFor(finding)}
+            />
           ))}
         </div>
       )}
@@ -199,6 +245,8 @@ export function ProbeResultBlock({
                 }
               >
                 {line}
+                {/* The first lines are the LOW/INFO findings, in order */}
+                {i < inlineFindings.length && triageFor(inlineFindings[i])}
               </div>
             );
           })}
@@ -0,0 +1,249 @@
+'use client';
+
+import { ChangeEvent, FormEvent, useState } from 'react';
+import Card from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import TextArea from '@/components/ui/TextArea';
+import { DEFAULT_REPORT_PROFILE_FIELDS } from '@/lib/api/constants';
+import type { ReportProfile, ReportProfileFields, ReportSections } from '@/lib/api/types';
+
+const SELECT_CLASS =
+  'w-full rounded-lg border border-white/15 bg-slate-900/60 px-4 py-3 text-sm text-slate-100 focus:border-brand-primary focus:outline-none';
+
+const CHECKBOX_CLASS = 'h-4 w-4 rounded border-white/20 bg-slate-900 text-brand-primary focus:ring-brand-primary';
+
+const SECTION_LABELS: Record<keyof ReportSections, string> = {
+  timeline: 'Timeline',
+  llmAnalysis: 'LLM analysis',
+  workerActivity: 'Worker activity',
+  rawEvidence: 'Raw evidence',
+};
+
+/** Same limit as the server; larger logos are rejected there anyway. */
+const MAX_LOGO_BYTES = 256 * 1024;
+
+interface ReportProfileDialogProps {
+  profiles: ReportProfile[];
+  canEdit: boolean;
+  onClose: () => void;
+  onExport: (profile?: ReportProfileFields) => void;
+  onCreate: (name: string, fields: ReportProfileFields) => Promise<ReportProfile>;
+  onUpdate: (id: string, name: string, fields: ReportProfileFields) => Promise<ReportProfile>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+function describeSections(sections: ReportSections): string {
+  const included = (Object.keys(SECTION_LABELS) as Array<keyof ReportSections>).filter((key) => sections[key]);
+  return included.length > 0 ? included.map((key) => SECTION_LABELS[key]).join(', ') : 'Core sections only';
+}
+
+export function ReportProfileDialog({ profiles, canEdit, onClose, onExport, onCreate, onUpdate, onDelete }: ReportProfileDialogProps) {
+  const [selectedId, setSelectedId] = useState('');
+  const [editing, setEditing] = useState<'new' | 'edit' | null>(null);
+  const [name, setName] = useState('');
+  const [fields, setFields] = useState<ReportProfileFields>(DEFAULT_REPORT_PROFILE_FIELDS);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = profiles.find((profile) => profile.id === selectedId);
+
+  const setField = <K extends keyof ReportProfileFields>(key: K, value: ReportProfileFields[K]) =>
+    setFields((current) => ({ ...current, [key]: value }));
+
+  const startEditing = (mode: 'new' | 'edit') => {
+    setEditing(mode);
+    setError(null);
+    setName(mode === 'edit' && selected ? selected.name : '');
+    setFields(mode === 'edit' && selected ? selected.fields : DEFAULT_REPORT_PROFILE_FIELDS);
+  };
+
+  const handleLogo = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (file.size > MAX_LOGO_BYTES) {
+      setError('Logo must be smaller than 256 KB.');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => setField('logoDataUrl', typeof reader.result === 'string' ? reader.result : undefined);
+    reader.onerror = () => setError('Unable to read the logo file.');
+    reader.readAsDataURL(file);
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const profile = editing === 'edit' && selected ? await onUpdate(selected.id, name, fields) : await onCreate(name, fields);
+      setSelectedId(profile.id);
+      setEditing(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to save report profile.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !window.confirm(`Delete the report profile "${selected.name}"?`)) return;
+    try {
+      await onDelete(selected.id);
+      setSelectedId('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to delete report profile.');
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center overflow-y-auto bg-slate-950/80 p-4 backdrop-blur-sm"
+      role="dialog"
+      aria-modal="true"
+      aria-label="Export PDF report"
+    >
+      <Card
+        title="Export PDF report"
+        description="Pick the branding and sections for this export. Profiles are shared with everyone on this Navigator."
+        className="w-full max-w-2xl"
+      >
+        {editing ? (
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="grid gap-3 md:grid-cols-2">
+              <Input aria-label="Profile name" placeholder="Profile name, e.g. Acme Security" value={name} onChange={(e) => setName(e.target.value)} />
+              <Input
+                aria-label="Company name"
+                placeholder="Company name"
+                value={fields.companyName ?? ''}
+                onChange={(e) => setField('companyName', e.target.value || undefined)}
+              />
+              <Input
+                aria-label="Cover title"
+                placeholder="Cover title (RedMesh Scan Report)"
+                value={fields.coverTitle ?? ''}
+                onChange={(e) => setField('coverTitle', e.target.value || undefined)}
+              />
+              <Input
+                aria-label="Classification"
+                placeholder="Classification, e.g. CONFIDENTIAL"
+                value={fields.classification ?? ''}
+                onChange={(e) => setField('classification', e.target.value || undefined)}
+              />
+            </div>
+            <TextArea
+              aria-label="Cover text"
+              placeholder="Cover page text, e.g. engagement reference and distribution notice"
+              rows={3}
+              value={fields.coverText ?? ''}
+              onChange={(e) => setField('coverText', e.target.value || undefined)}
+            />
+            <div className="flex flex-wrap items-center gap-4 text-sm text-slate-200">
+              <label className="flex items-center gap-2">
+                <input type="color" value={fields.primaryColor} onChange={(e) => setField('primaryColor', e.target.value)} />
+                Primary color
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="color" value={fields.secondaryColor} onChange={(e) => setField('secondaryColor', e.target.value)} />
+                Secondary color
+              </label>
+              <label className="flex items-center gap-2">
+                <span>Logo</span>
+                <input type="file" accept="image/png,image/jpeg" onChange={handleLogo} className="text-xs text-slate-400" />
+              </label>
+              {fields.logoDataUrl && (
+                <span className="flex items-center gap-2">
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img src={fields.logoDataUrl} alt="Logo preview" className="h-8 max-w-[6rem] rounded bg-white object-contain p-1" />
+                  <Button type="button" variant="secondary" size="sm" onClick={() => setField('logoDataUrl', undefined)}>
+                    Remove logo
+                  </Button>
+                </span>
+              )}
+            </div>
+            <fieldset className="flex flex-wrap gap-4 text-sm text-slate-200">
+              <legend className="mb-2 text-xs uppercase tracking-wide text-slate-400">Sections</legend>
+              {(Object.keys(SECTION_LABELS) as Array<keyof ReportSections>).map((key) => (
+                <label key={key} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={fields.sections[key]}
+                    onChange={(e) => setField('sections', { ...fields.sections, [key]: e.target.checked })}
+                    className={CHECKBOX_CLASS}
+                  />
+                  {SECTION_LABELS[key]}
+                </label>
+              ))}
+            </fieldset>
+            {error && <p className="text-sm text-rose-200">{error}</p>}
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="secondary" size="sm" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" size="sm" disabled={saving || !name.trim()}>
+                {saving ? 'Saving...' : 'Save profile'}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-4">
+            <select aria-label="Report profile" value={selectedId} onChange={(e) => setSelectedId(e.target.value)} className={SELECT_CLASS}>
+              <option value="">RedMesh default</option>
+              {profiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}
+                </option>
+              ))}
+            </select>
+
+            <dl className="grid gap-2 text-sm md:grid-cols-2">
+              <div>
+                <dt className="text-xs uppercase tracking-wide text-slate-400">Branding</dt>
+                <dd className="flex items-center gap-2 text-slate-200">
+                  <span className="inline-block h-3 w-3 rounded-full" style={{ backgroundColor: (selected?.fields ?? DEFAULT_REPORT_PROFILE_FIELDS).primaryColor }} />
+                  {selected?.fields.companyName ?? 'RedMesh'}
+                  {selected?.fields.classification && <span className="text-xs text-amber-300">{selected.fields.classification}</span>}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-xs uppercase tracking-wide text-slate-400">Optional sections</dt>
+                <dd className="text-slate-200">{describeSections((selected?.fields ?? DEFAULT_REPORT_PROFILE_FIELDS).sections)}</dd>
+              </div>
+            </dl>
+
+            {error && <p className="text-sm text-rose-200">{error}</p>}
+
+            <div className="flex flex-wrap justify-between gap-2">
+              <div className="flex gap-2">
+                {canEdit && (
+                  <Button variant="secondary" size="sm" onClick={() => startEditing('new')}>
+                    New profile
+                  </Button>
+                )}
+                {canEdit && selected && (
+                  <>
+                    <Button variant="secondary" size="sm" onClick={() => startEditing('edit')}>
+                      Edit
+                    </Button>
+                    <Button variant="danger" size="sm" onClick={() => void handleDelete()}>
+                      Delete
+                    </Button>
+                  </>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Button variant="secondary" size="sm" onClick={onClose}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={() => onExport(selected?.fields)}>
+                  Export PDF
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+'use client';
+
+import { FormEvent, useMemo, useState } from 'react';
+import Card from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import Badge from '@/components/ui/Badge';
+import type { SuppressionRule } from '@/lib/api/types';
+import type { SuppressedFinding } from '@/lib/domain/suppressions';
+import { MAX_TITLE_PATTERN_LENGTH, TITLE_PATTERN_SYNTAX, isRuleActive } from '@/lib/domain/suppressions';
+import type { SuppressionRuleDraft } from '@/lib/hooks/useSuppressionRules';
+
+const SELECT_CLASS =
+  'w-full rounded-lg border border-white/15 bg-slate-900/60 px-4 py-3 text-sm text-slate-100 focus:border-brand-primary focus:outline-none';
+
+interface SuppressionRulesProps {
+  target: string;
+  rules: SuppressionRule[];
+  suppressed: SuppressedFinding[];
+  canEdit: boolean;
+  onCreate: (draft: SuppressionRuleDraft) => Promise<unknown>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+function defaultExpiry(): string {
+  const date = new Date();
+  date.setDate(date.getDate() + 90);
+  return date.toISOString().slice(0, 10);
+}
+
+function describeRule(rule: SuppressionRule): string {
+  const parts: string[] = [];
+  parts.push(rule.target ? rule.target : 'any target');
+  if (rule.port !== undefined) parts.push(`port ${rule.port}`);
+  if (rule.probe) parts.push(rule.probe);
+  if (rule.severity) parts.push(rule.severity);
+  if (rule.titlePattern) parts.push(`title ~ "${rule.titlePattern}"`);
+  return parts.join(' · ');
+}
+
+export function SuppressionRules({ target, rules, suppressed, canEdit, onCreate, onDelete }: SuppressionRulesProps) {
+  const [showForm, setShowForm] = useState(false);
+  const [forTarget, setForTarget] = useState(true);
+  const [port, setPort] = useState('');
+  const [probe, setProbe] = useState('');
+  const [severity, setSeverity] = useState('');
+  const [titlePattern, setTitlePattern] = useState('');
+  const [expiresAt, setExpiresAt] = useState(defaultExpiry);
+  const [justification, setJustification] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Rules that can apply to this task's target
+  const relevantRules = useMemo(
+    () => rules.filter((rule) => !rule.target || rule.target === target.trim().toLowerCase()),
+    [rules, target]
+  );
+
+  const hiddenByRule = useMemo(() => {
+    const counts = new Map<string, number>();
+    suppressed.forEach((finding) => counts.set(finding.ruleId, (counts.get(finding.ruleId) ?? 0) + 1));
+    return counts;
+  }, [suppressed]);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      await onCreate({
+        target: forTarget ? target : undefined,
+        port: port ? Number(port) : undefined,
+        probe: probe.trim() || undefined,
+        severity: (severity || undefined) as SuppressionRule['severity'],
+        titlePattern: titlePattern.trim() || undefined,
+        justification,
+        // End of the chosen day, local time
+        expiresAt: new Date(`${expiresAt}T23:59:59`).toISOString(),
+      });
+      setPort('');
+      setProbe('');
+      setSeverity('');
+      setTitlePattern('');
+      setJustification('');
+      setShowForm(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to save suppression rule.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: SuppressionRule) => {
+    if (!window.confirm(`Delete the suppression rule for ${describeRule(rule)}?`)) return;
+    try {
+      await onDelete(rule.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to delete suppression rule.');
+    }
+  };
+
+  return (
+    <Card
+      title="Suppression rules"
+      description="Known false positives and accepted findings hidden from this page, the PDF report and risk summaries until the rule expires."
+      actions={
+        canEdit && (
+          <Button variant="secondary" size="sm" onClick={() => setShowForm(!showForm)}>
+            {showForm ? 'Cancel' : 'Add rule'}
+          </Button>
+        )
+      }
+    >
+      <div className="space-y-4">
+        {showForm && (
+          <form onSubmit={handleSubmit} className="space-y-3 rounded-lg border border-white/10 p-4">
+            <label className="flex items-center gap-2 text-sm text-slate-200">
+              <input
+                type="checkbox"
+                checked={forTarget}
+                onChange={(e) => setForTarget(e.target.checked)}
+                className="h-4 w-4 rounded border-white/20 bg-slate-900 text-brand-primary focus:ring-brand-primary"
+              />
+              Only for {target} (uncheck to match every target)
+            </label>
+            <div className="grid gap-3 md:grid-cols-4">
+              <Input aria-label="Port" placeholder="Port (any)" inputMode="numeric" value={port} onChange={(e) => setPort(e.target.value)} />
+              <Input aria-label="Probe" placeholder="Probe, e.g. _service_info_ftp" value={probe} onChange={(e) => setProbe(e.target.value)} />
+              <select aria-label="Severity" value={severity} onChange={(e) => setSeverity(e.target.value)} className={SELECT_CLASS}>
+                <option value="">Any severity</option>
+                {['CRITICAL', 'HIGH', 'MEDIUM', 'LOW', 'INFO'].map((value) => (
+                  <option key={value} value={value}>
+                    {value}
+                  </option>
+                ))}
+              </select>
+              <Input aria-label="Title pattern" placeholder="Title pattern, e.g. anonymous*login" maxLength={MAX_TITLE_PATTERN_LENGTH} value={titlePattern} onChange={(e) => setTitlePattern(e.target.value)} />
+            </div>
+            <p className="text-xs text-slate-400">{TITLE_PATTERN_SYNTAX}</p>
+            <div className="grid gap-3 md:grid-cols-[1fr_3fr]">
+              <Input aria-label="Expires" type="date" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} />
+              <Input
+                aria-label="Justification"
+                placeholder="Justification, e.g. public FTP mirror is intentional"
+                value={justification}
+                onChange={(e) => setJustification(e.target.value)}
+              />
+            </div>
+            <Button type="submit" size="sm" disabled={saving || !justification.trim() || !expiresAt}>
+              {saving ? 'Saving...' : 'Save rule'}
+            </Button>
+          </form>
+        )}
+
+        {error && <p className="text-sm text-rose-200">{error}</p>}
+
+        {relevantRules.length === 0 ? (
+          <p className="text-sm text-slate-400">No suppression rules apply to this target.</p>
+        ) : (
+          <ul className="divide-y divide-white/10">
+            {relevantRules.map((rule) => {
+              const active = isRuleActive(rule);
+              const hidden = hiddenByRule.get(rule.id) ?? 0;
+              return (
+                <li key={rule.id} className="flex flex-wrap items-start justify-between gap-3 py-3 text-sm">
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-mono text-xs text-slate-100">{describeRule(rule)}</span>
+                      <Badge label={active ? `${hidden} hidden` : 'Expired'} tone={active ? 'warning' : 'neutral'} />
+                    </div>
+                    <p className="text-slate-300">{rule.justification}</p>
+                    <p className="text-xs text-slate-500">
+                      {rule.createdBy} · expires {new Date(rule.expiresAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  {canEdit && (
+                    <Button variant="danger" size="sm" onClick={() => void handleDelete(rule)}>
+                      Delete
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </Card>
+  );
+}
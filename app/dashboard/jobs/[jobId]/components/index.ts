@@ -9,3 +9,6 @@ export { DetailedWorkerReports } from './DetailedWorkerReports';
 export { WorkerReportsHistory } from './WorkerReportsHistory';
 export { LlmAnalysis } from './LlmAnalysis';
 export { RiskScoreBadge } from './RiskScoreBadge';
+export { SuppressionRules } from './SuppressionRules';
+export { PassDiffPanel } from './PassDiffPanel';
+export { ReportProfileDialog } from './ReportProfileDialog';
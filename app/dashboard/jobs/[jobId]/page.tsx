@@ -1,12 +1,23 @@
 'use client';
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import Link from 'next/link';
 import { useParams, useRouter } from 'next/navigation';
 import AppShell from '@/components/layout/AppShell';
 import { useAuth } from '@/components/auth/AuthContext';
+import { useAppConfig } from '@/components/layout/AppConfigContext';
 import useJob from '@/lib/hooks/useJob';
+import useFindingTriage from '@/lib/hooks/useFindingTriage';
+import useSuppressionRules from '@/lib/hooks/useSuppressionRules';
+import useReportProfiles from '@/lib/hooks/useReportProfiles';
+import { useCveMatches } from '@/lib/hooks/useCveFeed';
+import { applySuppressions, riskScoreWithoutSuppressed, suppressReportFindings } from '@/lib/domain/suppressions';
+import { applyCvssVectors, applyReportCvssVectors } from '@/lib/domain/cvssVectors';
+import { attachCveFindings } from '@/lib/domain/cves';
+import { extractFindings, reopenRegressions } from '@/lib/domain/findings';
 import { useJobActions } from '@/lib/hooks/useJobActions';
+import { JOB_STATUS } from '@/lib/api/constants';
+import type { ReportProfileFields } from '@/lib/api/types';
 import Card from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
 import Loader from '@/components/ui/Loader';
@@ -26,25 +37,74 @@ import {
   DetailedWorkerReports,
   WorkerReportsHistory,
   LlmAnalysis,
+  SuppressionRules,
+  PassDiffPanel,
+  ReportProfileDialog,
 } from './components';
 
 // PDF generation
 import { generateJobReport } from '@/lib/pdf/generateJobReport';
+import { generateJobHtmlReport } from '@/lib/html/generateJobHtmlReport';
+
+/** Machine-readable downloads; the routes also serve archived tasks from their imported bundle. */
+const DATA_EXPORTS = [
+  { label: 'SARIF', path: 'export?format=sarif', title: 'SARIF 2.1.0 for code-scanning dashboards; suppressed findings are marked as accepted' },
+  { label: 'CSV', path: 'export?format=csv', title: 'One row per finding per pass and worker, with its CVSS score and triage status' },
+  { label: 'Ports CSV', path: 'export?format=csv&table=ports', title: 'Open ports and service banners per pass and worker' },
+  { label: 'XLSX', path: 'export?format=xlsx', title: 'Findings and open ports as two sheets' },
+  { label: 'DefectDojo', path: 'export?format=defectdojo', title: 'DefectDojo Generic Findings Import JSON' },
+  { label: 'Bundle', path: 'bundle', title: 'The whole task as JSON with checksums, importable after the task is purged' },
+];
 
 export default function JobDetailsPage(): JSX.Element {
   const params = useParams<{ jobId: string }>();
   const router = useRouter();
-  const { user, loading } = useAuth();
-  const { job, reports, llmAnalyses, quickSummaries, refresh, loading: jobLoading, error: jobError, notFound } = useJob(params.jobId);
-  const { stopJob, stopMonitoring, purgeJob, loading: actionLoading } = useJobActions();
+  const { user, loading, can } = useAuth();
+  const { job, reports, llmAnalyses, quickSummaries, archived, refresh, loading: jobLoading, error: jobError, notFound } = useJob(params.jobId);
+  const { config } = useAppConfig();
+  const { stopJob, stopMonitoring, purgeJob, pushToDefectDojo, loading: actionLoading } = useJobActions();
+  const { records: triageRecords, updateFinding } = useFindingTriage(job?.target);
+  const { rules: suppressionRules, createRule, deleteRule } = useSuppressionRules();
+  const { profiles: reportProfiles, createProfile, updateProfile, deleteProfile } = useReportProfiles();
 
   const [stopping, setStopping] = useState(false);
   const [stoppingMonitoring, setStoppingMonitoring] = useState(false);
   const [purging, setPurging] = useState(false);
+  const [pushing, setPushing] = useState(false);
+  const [showSuppressed, setShowSuppressed] = useState(false);
+  const [exportDialogOpen, setExportDialogOpen] = useState(false);
 
   // Derived data
-  const aggregatedPorts = useAggregatedPorts(reports, job);
+  const scannedPorts = useAggregatedPorts(reports, job);
+  const { matches: cveMatches } = useCveMatches(scannedPorts);
+  const detectedPorts = useMemo(() => attachCveFindings(scannedPorts, cveMatches), [scannedPorts, cveMatches]);
+  const triageList = useMemo(
+    () => (job ? reopenRegressions(Array.from(triageRecords.values()), job, extractFindings(detectedPorts)) : []),
+    [triageRecords, job, detectedPorts]
+  );
+  const triageByFingerprint = useMemo(
+    () => new Map(triageList.map((record) => [record.fingerprint, record])),
+    [triageList]
+  );
+  const aggregatedPorts = useMemo(
+    () => applyCvssVectors(detectedPorts, job?.target ?? '', triageList),
+    [detectedPorts, job?.target, triageList]
+  );
   const workerActivity = useWorkerActivity(reports);
+  const suppression = useMemo(
+    () => applySuppressions(aggregatedPorts, job?.target ?? '', suppressionRules),
+    [aggregatedPorts, job?.target, suppressionRules]
+  );
+  const visiblePorts = showSuppressed ? aggregatedPorts : suppression.aggregated;
+  // Suppressed findings also leave the risk score shown on the page and in the reports
+  const summaryJob = useMemo(
+    () =>
+      job && !showSuppressed && suppression.suppressed.length > 0
+        ? { ...job, riskScore: riskScoreWithoutSuppressed(job, extractFindings(aggregatedPorts), suppression.suppressed) }
+        : job,
+    [job, showSuppressed, aggregatedPorts, suppression.suppressed]
+  );
+  const toggleSuppressed = () => setShowSuppressed((current) => !current);
 
   // Event handlers
   const handleStopJob = async () => {
@@ -110,16 +170,46 @@ export default function JobDetailsPage(): JSX.Element {
     }
   };
 
-  const handleDownload = () => {
+  const handlePushToDefectDojo = async () => {
     if (!job) return;
-    generateJobReport({
-      job,
-      reports,
-      aggregatedPorts,
+
+    setPushing(true);
+    try {
+      const result = await pushToDefectDojo(params.jobId);
+      window.alert(
+        `Sent ${result.findingCount} findings to DefectDojo${result.testId !== null ? ` (test #${result.testId})` : ''}.`
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to push findings to DefectDojo.';
+      window.alert(`Error: ${message}`);
+    } finally {
+      setPushing(false);
+    }
+  };
+
+  const reportParams = () => {
+    if (!job || !summaryJob) return null;
+    const scoredReports = applyReportCvssVectors(reports, job.target, triageList);
+    return {
+      job: summaryJob,
+      reports: showSuppressed ? scoredReports : suppressReportFindings(scoredReports, job.target, suppressionRules),
+      aggregatedPorts: visiblePorts,
       workerActivity,
       llmAnalyses,
       quickSummaries,
-    });
+      suppressedCount: showSuppressed ? 0 : suppression.suppressed.length,
+    };
+  };
+
+  const handleDownload = (profile?: ReportProfileFields) => {
+    const params = reportParams();
+    if (params) generateJobReport({ ...params, profile });
+    setExportDialogOpen(false);
+  };
+
+  const handleDownloadHtml = () => {
+    const params = reportParams();
+    if (params) generateJobHtmlReport(params);
   };
 
   // Auth redirect
@@ -189,10 +279,26 @@ export default function JobDetailsPage(): JSX.Element {
           onStopMonitoring={handleStopMonitoring}
           onPurgeJob={handlePurgeJob}
           onRefresh={refresh}
+          archived={Boolean(archived)}
         />
 
+        {archived && (
+          <div className="rounded-lg border border-amber-500/30 bg-amber-500/10 px-4 py-3 text-sm text-amber-100">
+            This task is no longer available on the mesh. You are viewing an archived bundle exported by{' '}
+            {archived.exportedBy} on {new Date(archived.exportedAt).toLocaleString()} and imported by {archived.importedBy} on{' '}
+            {new Date(archived.importedAt).toLocaleString()}.
+          </div>
+        )}
+
         <section className="relative z-10 grid gap-6 lg:grid-cols-3">
-          <AggregateFindings job={job} aggregatedPorts={aggregatedPorts} quickSummary={quickSummaries[1]} />
+          <AggregateFindings
+            job={summaryJob ?? job}
+            aggregatedPorts={visiblePorts}
+            quickSummary={quickSummaries[1]}
+            suppressedCount={suppression.suppressed.length}
+            showSuppressed={showSuppressed}
+            onToggleSuppressed={toggleSuppressed}
+          />
           <JobMeta job={job} workerActivity={workerActivity} />
         </section>
 
@@ -205,20 +311,80 @@ export default function JobDetailsPage(): JSX.Element {
           title="Download report"
           description="Export this task for offline review."
           actions={
-            <Button variant="primary" size="sm" onClick={handleDownload}>
-              Download
-            </Button>
+            <div className="flex flex-wrap justify-end gap-2">
+              <Button variant="secondary" size="sm" onClick={handleDownloadHtml} title="Single offline page with collapsible evidence and severity filters">
+                HTML
+              </Button>
+              <Button variant="primary" size="sm" onClick={() => setExportDialogOpen(true)} title="PDF built from a report profile">
+                Download
+              </Button>
+            </div>
           }
         >
           <p className="text-sm text-slate-300">
             Download a summary of this task including timeline, worker activity, and aggregate findings.
           </p>
+          <div className="mt-4 flex flex-wrap items-center gap-2">
+            <span className="text-xs uppercase tracking-wide text-slate-400">Data exports</span>
+            {DATA_EXPORTS.map((entry) => (
+              <Button key={entry.label} asChild variant="secondary" size="sm">
+                <a href={`/api/jobs/${job.id}/${entry.path}`} title={entry.title} download>
+                  {entry.label}
+                </a>
+              </Button>
+            ))}
+            {config?.defectDojoConfigured && can('findings:triage') && (
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={handlePushToDefectDojo}
+                disabled={pushing || actionLoading || job.status === JOB_STATUS.RUNNING}
+                title={job.status === JOB_STATUS.RUNNING ? 'Available once the task has finished' : 'Send the findings to the configured engagement'}
+              >
+                {pushing ? 'Sending...' : 'Send to DefectDojo'}
+              </Button>
+            )}
+          </div>
         </Card>
 
+        {exportDialogOpen && (
+          <ReportProfileDialog
+            profiles={reportProfiles}
+            canEdit={can('jobs:create')}
+            onClose={() => setExportDialogOpen(false)}
+            onExport={handleDownload}
+            onCreate={createProfile}
+            onUpdate={updateProfile}
+            onDelete={deleteProfile}
+          />
+        )}
+
         <section>
-          <DiscoveredPorts aggregatedPorts={aggregatedPorts} />
+          <DiscoveredPorts
+            aggregatedPorts={visiblePorts}
+            suppressedCount={suppression.suppressed.length}
+            showSuppressed={showSuppressed}
+            onToggleSuppressed={toggleSuppressed}
+            triage={{
+              target: job.target,
+              records: triageByFingerprint,
+              canEdit: can('findings:triage'),
+              onUpdate: updateFinding,
+            }}
+          />
         </section>
 
+        <SuppressionRules
+          target={job.target}
+          rules={suppressionRules}
+          suppressed={suppression.suppressed}
+          canEdit={can('findings:triage')}
+          onCreate={createRule}
+          onDelete={deleteRule}
+        />
+
+        {job.runMode === 'continuous' && <PassDiffPanel job={job} />}
+
         {job.runMode === 'singlepass' && llmAnalyses[1] && (
           <section>
             <LlmAnalysis analysis={llmAnalyses[1]} />
@@ -0,0 +1,137 @@
+'use client';
+
+import { useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import AppShell from '@/components/layout/AppShell';
+import { useAuth } from '@/components/auth/AuthContext';
+import { useAppConfig } from '@/components/layout/AppConfigContext';
+import JobForm from '@/components/dashboard/JobForm';
+import useJob from '@/lib/hooks/useJob';
+import Card from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Loader from '@/components/ui/Loader';
+import { buildRerunPlan } from '@/lib/domain/rerun';
+
+export default function RerunJobPage(): JSX.Element {
+  const params = useParams<{ jobId: string }>();
+  const router = useRouter();
+  const { user, loading, can } = useAuth();
+  const { config, loading: configLoading, peers, peersLoading } = useAppConfig();
+  const { job, loading: jobLoading, error, notFound } = useJob(params.jobId);
+
+  const ready = Boolean(job) && !configLoading && !peersLoading;
+  const plan = useMemo(
+    () =>
+      job && ready
+        ? buildRerunPlan(job, { featureCatalog: config?.featureCatalog ?? [], peers })
+        : null,
+    [job, ready, config?.featureCatalog, peers]
+  );
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.replace('/');
+    }
+  }, [loading, user, router]);
+
+  if (!user) {
+    return (
+      <main className="flex min-h-screen items-center justify-center text-slate-200">
+        Redirecting...
+      </main>
+    );
+  }
+
+  if (!can('jobs:create')) {
+    return (
+      <AppShell>
+        <Card title="Access restricted" description="Your role can view tasks but not launch them.">
+          <Button asChild variant="secondary" size="sm">
+            <Link href={`/dashboard/tasks/${params.jobId}`}>Back to task</Link>
+          </Button>
+        </Card>
+      </AppShell>
+    );
+  }
+
+  if (error || notFound) {
+    return (
+      <AppShell>
+        <Card title="Unable to re-run task" description={error ?? 'The original task could not be found.'}>
+          <Button asChild variant="secondary" size="sm">
+            <Link href="/dashboard">Back to dashboard</Link>
+          </Button>
+        </Card>
+      </AppShell>
+    );
+  }
+
+  if (jobLoading || !plan || !job) {
+    return (
+      <AppShell>
+        <div className="flex flex-col items-center justify-center min-h-[60vh]">
+          <Loader size="lg" message="Loading the original task settings..." />
+        </div>
+      </AppShell>
+    );
+  }
+
+  return (
+    <AppShell>
+      <div className="space-y-6">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <p className="text-xs uppercase tracking-[0.3em] text-slate-400">Re-run task</p>
+            <h1 className="mt-2 text-3xl font-semibold text-slate-50">{job.displayName}</h1>
+            <p className="mt-2 max-w-2xl text-sm text-slate-300">
+              The form is pre-filled with the original configuration. Review it, confirm authorization and launch.
+            </p>
+          </div>
+          <div className="flex sm:justify-end">
+            <Button asChild variant="secondary" size="sm">
+              <Link href={`/dashboard/tasks/${job.id}`}>Back to task</Link>
+            </Button>
+          </div>
+        </div>
+        <div className="grid gap-6 lg:grid-cols-[1.3fr_1fr]">
+          <JobForm
+            initialValues={{ target: plan.target, fields: plan.fields }}
+            onCreated={(created) => {
+              router.replace(`/dashboard/tasks/${created.id}`);
+            }}
+          />
+          <Card
+            title="Differences from the original"
+            description="Settings that cannot be carried over as they were."
+            className="h-fit"
+          >
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-white/10 text-left">
+                <thead>
+                  <tr className="text-xs uppercase tracking-[0.16em] text-slate-400">
+                    <th className="px-3 py-2 font-semibold">Field</th>
+                    <th className="px-3 py-2 font-semibold">Original</th>
+                    <th className="px-3 py-2 font-semibold">Re-run</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/10">
+                  {plan.differences.map((difference) => (
+                    <tr key={difference.field} className="text-sm text-slate-200">
+                      <td className="px-3 py-3 align-top">
+                        {difference.field}
+                        <div className="text-xs text-slate-400">{difference.reason}</div>
+                      </td>
+                      <td className="px-3 py-3 align-top font-mono text-xs text-rose-200">{difference.original}</td>
+                      <td className="px-3 py-3 align-top font-mono text-xs text-emerald-200">{difference.rerun}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        </div>
+      </div>
+    </AppShell>
+  );
+}
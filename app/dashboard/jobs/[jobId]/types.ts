@@ -1,12 +1,8 @@
-import type { Job, WorkerReport } from '@/lib/api/types';
+import type { FindingIdentity, FindingTriage, Job, WorkerReport } from '@/lib/api/types';
+import type { AggregatedPortsData } from '@/lib/domain/findings';
+import type { FindingTriageChanges } from '@/lib/hooks/useFindingTriage';
 
-export interface AggregatedPortsData {
-  ports: number[];
-  services: Map<number, Record<string, unknown>>;
-  webTests: Map<number, Record<string, unknown>>;
-  totalServices: number;
-  totalFindings: number;
-}
+export type { AggregatedPortsData };
 
 export interface WorkerActivityItem {
   nodeAddress: string;
@@ -23,3 +19,11 @@ export interface JobDetailContext {
   aggregatedPorts: AggregatedPortsData;
   workerActivity: WorkerActivityItem[];
 }
+
+/** Triage records and the update action, passed down to the findings of one target. */
+export interface FindingTriageContext {
+  target: string;
+  records: Map<string, FindingTriage>;
+  canEdit: boolean;
+  onUpdate: (identity: FindingIdentity, changes: FindingTriageChanges) => Promise<FindingTriage>;
+}
@@ -10,7 +10,7 @@ import Card from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
 
 export default function NewJobPage(): JSX.Element {
-  const { user, loading } = useAuth();
+  const { user, loading, can } = useAuth();
   const router = useRouter();
 
   useEffect(() => {
@@ -27,6 +27,18 @@ export default function NewJobPage(): JSX.Element {
     );
   }
 
+  if (!can('jobs:create')) {
+    return (
+      <AppShell>
+        <Card title="Access restricted" description="Your role can view tasks but not launch them.">
+          <Button asChild variant="secondary" size="sm">
+            <Link href="/dashboard">Back to dashboard</Link>
+          </Button>
+        </Card>
+      </AppShell>
+    );
+  }
+
   return (
     <AppShell>
       <div className="space-y-6">
@@ -50,6 +62,9 @@ export default function NewJobPage(): JSX.Element {
             onCreated={(job) => {
               router.replace(`/dashboard/tasks/${job.id}`);
             }}
+            onCampaignCreated={(campaign) => {
+              router.replace(`/dashboard/campaigns/${campaign.id}`);
+            }}
           />
           <Card
             title="Tips"
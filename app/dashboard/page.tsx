@@ -10,13 +10,17 @@ import useJobs from '@/lib/hooks/useJobs';
 import Card from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
 import JobList from '@/components/dashboard/JobList';
+import CampaignList from '@/components/dashboard/CampaignList';
+import ArchivedBundles from '@/components/dashboard/ArchivedBundles';
+import useCampaigns from '@/lib/hooks/useCampaigns';
 import Loader, { JobListSkeleton, DashboardStatsSkeleton } from '@/components/ui/Loader';
 
 export default function DashboardPage(): JSX.Element {
-  const { user, loading } = useAuth();
+  const { user, loading, can } = useAuth();
   const router = useRouter();
   const { config } = useAppConfig();
   const { jobs, ongoingJobs, completedJobs, stoppedJobs, loading: loadingJobs, error, refresh } = useJobs();
+  const { campaigns, error: campaignsError, refresh: refreshCampaigns } = useCampaigns();
   const [filter, setFilter] = useState<'ongoing' | 'completed' | 'stopped'>('completed');
 
   // Jobs that have at least one completed pass (have findings data)
@@ -74,7 +78,15 @@ export default function DashboardPage(): JSX.Element {
           description="Monitor live and historical tasks running on this Ratio1 Edge Node."
           actions={
             <div className="flex items-center gap-2">
-              <Button variant="secondary" size="sm" onClick={() => refresh()} disabled={loadingJobs}>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => {
+                  void refresh();
+                  void refreshCampaigns();
+                }}
+                disabled={loadingJobs}
+              >
                 {loadingJobs ? 'Refreshing...' : 'Refresh'}
               </Button>
             </div>
@@ -130,6 +142,18 @@ export default function DashboardPage(): JSX.Element {
               </div>
             )}
         </Card>
+        {(campaigns.length > 0 || campaignsError) && (
+          <Card
+            title="Campaigns"
+            description="Multi-target launches, one task per host, tracked as a unit."
+          >
+            {campaignsError ? (
+              <p className="text-sm text-rose-200">{campaignsError}</p>
+            ) : (
+              <CampaignList campaigns={campaigns} />
+            )}
+          </Card>
+        )}
         <Card
           title="Tasks"
           description="Filter tasks by status and inspect their details."
@@ -154,7 +178,7 @@ export default function DashboardPage(): JSX.Element {
             jobs={filteredJobs}
             emptyState={emptyState}
             emptyAction={
-              filter === 'ongoing' ? (
+              filter === 'ongoing' && can('jobs:create') ? (
                 <Button asChild size="sm">
                   <Link href="/dashboard/jobs/new">Create task now</Link>
                 </Button>
@@ -163,6 +187,7 @@ export default function DashboardPage(): JSX.Element {
             bare
           />
         </Card>
+        <ArchivedBundles canImport={can('jobs:create')} />
       </div>
     </AppShell>
   );
@@ -0,0 +1,263 @@
+'use client';
+
+import Link from 'next/link';
+import { Fragment, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import AppShell from '@/components/layout/AppShell';
+import { useAuth } from '@/components/auth/AuthContext';
+import Card from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Badge from '@/components/ui/Badge';
+import ScheduleFormCard from '@/components/schedules/ScheduleFormCard';
+import useSchedules from '@/lib/hooks/useSchedules';
+import { ScheduleRun, ScheduleRunOutcome, ScheduleSummary } from '@/lib/api/types';
+
+const OUTCOME_TONES: Record<ScheduleRunOutcome, 'success' | 'warning' | 'danger'> = {
+  success: 'success',
+  partial: 'warning',
+  failure: 'danger'
+};
+
+function formatInZone(value: string, timeZone: string): string {
+  return new Date(value).toLocaleString(undefined, { timeZone, dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function RunLinks({ run }: { run: ScheduleRun }): JSX.Element {
+  if (run.campaignId) {
+    return (
+      <Link href={`/dashboard/campaigns/${run.campaignId}`} className="text-brand-primary hover:underline">
+        Campaign ({run.jobIds.length} tasks)
+      </Link>
+    );
+  }
+  if (run.jobIds.length > 0) {
+    return (
+      <Link href={`/dashboard/jobs/${run.jobIds[0]}`} className="font-mono text-xs text-brand-primary hover:underline">
+        {run.jobIds[0]}
+      </Link>
+    );
+  }
+  return <span>—</span>;
+}
+
+export default function SchedulesPage(): JSX.Element {
+  const { user, loading, can } = useAuth();
+  const router = useRouter();
+  const { schedules, loading: schedulesLoading, error, refresh, createSchedule, setEnabled, deleteSchedule, runNow, loadRuns } =
+    useSchedules();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [history, setHistory] = useState<ScheduleRun[]>([]);
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.replace('/');
+    }
+  }, [loading, user, router]);
+
+  if (!user) {
+    return (
+      <main className="flex min-h-screen items-center justify-center text-slate-200">
+        Redirecting...
+      </main>
+    );
+  }
+
+  const canManage = can('jobs:create');
+
+  const withBusy = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    setActionError(null);
+    try {
+      await action();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Schedule action failed.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const toggleHistory = (schedule: ScheduleSummary) => {
+    if (expandedId === schedule.id) {
+      setExpandedId(null);
+      return;
+    }
+    void withBusy(schedule.id, async () => {
+      setHistory(await loadRuns(schedule.id));
+      setExpandedId(schedule.id);
+    });
+  };
+
+  const handleRunNow = (schedule: ScheduleSummary) =>
+    withBusy(schedule.id, async () => {
+      const run = await runNow(schedule.id);
+      if (expandedId === schedule.id) {
+        setHistory((current) => [run, ...current]);
+      }
+    });
+
+  const handleDelete = (schedule: ScheduleSummary) => {
+    if (!window.confirm(`Delete schedule "${schedule.name}"? Tasks it already launched are kept.`)) {
+      return;
+    }
+    void withBusy(schedule.id, () => deleteSchedule(schedule.id));
+  };
+
+  return (
+    <AppShell>
+      <div className="space-y-6">
+        {canManage && <ScheduleFormCard onCreate={createSchedule} />}
+
+        <Card
+          title="Schedules"
+          description="Recurring launches and their upcoming runs, shown in each schedule's timezone."
+          actions={
+            <Button variant="secondary" size="sm" onClick={() => refresh()}>
+              Refresh
+            </Button>
+          }
+        >
+          {schedulesLoading && schedules.length === 0 && <p className="text-sm text-slate-300">Loading schedules...</p>}
+          {error && <p className="text-sm text-rose-200">Unable to load schedules: {error}</p>}
+          {actionError && <p className="mb-3 text-sm text-rose-200">{actionError}</p>}
+          {!schedulesLoading && !error && schedules.length === 0 && (
+            <p className="text-sm text-slate-300">No schedules yet.</p>
+          )}
+          {schedules.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-white/10 text-left">
+                <thead>
+                  <tr className="text-xs uppercase tracking-[0.16em] text-slate-400">
+                    <th className="px-3 py-2 font-semibold">Name</th>
+                    <th className="px-3 py-2 font-semibold">Schedule</th>
+                    <th className="px-3 py-2 font-semibold">Targets</th>
+                    <th className="px-3 py-2 font-semibold">Upcoming runs</th>
+                    <th className="px-3 py-2 font-semibold">Last run</th>
+                    <th className="px-3 py-2 font-semibold">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/10">
+                  {schedules.map((schedule) => (
+                    <Fragment key={schedule.id}>
+                      <tr className="align-top text-sm text-slate-200">
+                        <td className="px-3 py-3">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="font-semibold text-slate-100">{schedule.name}</span>
+                            {!schedule.enabled && <Badge label="Paused" tone="neutral" />}
+                          </div>
+                          <p className="text-xs text-slate-400">by {schedule.createdBy}</p>
+                        </td>
+                        <td className="px-3 py-3">
+                          <p className="font-mono text-xs text-slate-100">{schedule.cron}</p>
+                          <p className="text-xs text-slate-400">{schedule.timezone}</p>
+                        </td>
+                        <td className="max-w-xs whitespace-pre-wrap break-all px-3 py-3 text-xs text-slate-300">
+                          {schedule.targets}
+                        </td>
+                        <td className="whitespace-nowrap px-3 py-3 text-xs text-slate-300">
+                          {schedule.enabled && schedule.upcomingRuns.length > 0
+                            ? schedule.upcomingRuns.map((run) => <p key={run}>{formatInZone(run, schedule.timezone)}</p>)
+                            : '—'}
+                        </td>
+                        <td className="px-3 py-3 text-xs text-slate-300">
+                          {schedule.lastRun ? (
+                            <div className="space-y-1">
+                              <Badge label={schedule.lastRun.outcome} tone={OUTCOME_TONES[schedule.lastRun.outcome]} />
+                              <p>{formatInZone(schedule.lastRun.startedAt, schedule.timezone)}</p>
+                            </div>
+                          ) : (
+                            'Never'
+                          )}
+                        </td>
+                        <td className="px-3 py-3">
+                          <div className="flex flex-wrap gap-2">
+                            {canManage && (
+                              <>
+                                <Button
+                                  size="sm"
+                                  disabled={busyId === schedule.id}
+                                  onClick={() => void handleRunNow(schedule)}
+                                >
+                                  Run now
+                                </Button>
+                                <Button
+                                  variant="secondary"
+                                  size="sm"
+                                  disabled={busyId === schedule.id}
+                                  onClick={() => void withBusy(schedule.id, () => setEnabled(schedule.id, !schedule.enabled))}
+                                >
+                                  {schedule.enabled ? 'Pause' : 'Resume'}
+                                </Button>
+                              </>
+                            )}
+                            <Button
+                              variant="secondary"
+                              size="sm"
+                              disabled={busyId === schedule.id}
+                              onClick={() => toggleHistory(schedule)}
+                            >
+                              {expandedId === schedule.id ? 'Hide history' : 'History'}
+                            </Button>
+                            {canManage && (
+                              <Button
+                                variant="danger"
+                                size="sm"
+                                disabled={busyId === schedule.id}
+                                onClick={() => handleDelete(schedule)}
+                              >
+                                Delete
+                              </Button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                      {expandedId === schedule.id && (
+                        <tr>
+                          <td colSpan={6} className="bg-slate-900/40 px-3 py-3">
+                            {history.length === 0 ? (
+                              <p className="text-sm text-slate-300">This schedule has not run yet.</p>
+                            ) : (
+                              <table className="min-w-full text-left text-xs text-slate-300">
+                                <thead>
+                                  <tr className="uppercase tracking-[0.16em] text-slate-400">
+                                    <th className="px-3 py-2 font-semibold">Started</th>
+                                    <th className="px-3 py-2 font-semibold">Trigger</th>
+                                    <th className="px-3 py-2 font-semibold">Outcome</th>
+                                    <th className="px-3 py-2 font-semibold">Launched</th>
+                                    <th className="px-3 py-2 font-semibold">Details</th>
+                                  </tr>
+                                </thead>
+                                <tbody className="divide-y divide-white/5">
+                                  {history.map((run) => (
+                                    <tr key={run.id}>
+                                      <td className="whitespace-nowrap px-3 py-2">
+                                        {formatInZone(run.startedAt, schedule.timezone)}
+                                      </td>
+                                      <td className="px-3 py-2">{run.trigger === 'cron' ? 'Scheduled' : 'Manual'}</td>
+                                      <td className="px-3 py-2">
+                                        <Badge label={run.outcome} tone={OUTCOME_TONES[run.outcome]} />
+                                      </td>
+                                      <td className="px-3 py-2">
+                                        <RunLinks run={run} />
+                                      </td>
+                                      <td className="px-3 py-2 text-rose-200">{run.message ?? ''}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Card>
+      </div>
+    </AppShell>
+  );
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import Card from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import Badge from '@/components/ui/Badge';
+import CopyableText from '@/components/ui/CopyableText';
+import useApiKeys from '@/lib/hooks/useApiKeys';
+import { ApiKeyScope, CreatedApiKey } from '@/lib/api/types';
+
+const SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  read: 'Read-only',
+  launch: 'Launch'
+};
+
+function formatTimestamp(value?: string): string {
+  return value ? new Date(value).toLocaleString() : 'Never';
+}
+
+export default function ApiKeysCard(): JSX.Element {
+  const { keys, loading, error, createKey, revokeKey } = useApiKeys();
+  const [name, setName] = useState('');
+  const [scope, setScope] = useState<ApiKeyScope>('read');
+  const [submitting, setSubmitting] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [created, setCreated] = useState<CreatedApiKey | null>(null);
+
+  const handleCreate = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!name.trim()) {
+      setActionError('Give the key a name so it can be recognised later.');
+      return;
+    }
+
+    setSubmitting(true);
+    setActionError(null);
+    try {
+      setCreated(await createKey(name.trim(), scope));
+      setName('');
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Unable to create API key.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    setActionError(null);
+    try {
+      await revokeKey(id);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Unable to revoke API key.');
+    }
+  };
+
+  return (
+    <Card
+      title="API keys"
+      description="Keys for CI pipelines. Send them as Authorization: Bearer rmk_... to /api/jobs, /api/jobs/[jobId] and /api/reports/[cid]."
+    >
+      <form onSubmit={handleCreate} className="flex flex-col gap-3 md:flex-row">
+        <Input
+          aria-label="Key name"
+          placeholder="Key name, e.g. nightly-ci"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+        />
+        <select
+          aria-label="Scope"
+          value={scope}
+          onChange={(event) => setScope(event.target.value as ApiKeyScope)}
+          className="rounded-lg border border-white/15 bg-slate-900/60 px-4 py-3 text-sm text-slate-100 focus:border-brand-primary focus:outline-none"
+        >
+          {(Object.keys(SCOPE_LABELS) as ApiKeyScope[]).map((value) => (
+            <option key={value} value={value}>
+              {SCOPE_LABELS[value]}
+            </option>
+          ))}
+        </select>
+        <Button type="submit" disabled={submitting}>
+          {submitting ? 'Creating...' : 'Create key'}
+        </Button>
+      </form>
+
+      {created && (
+        <div className="mt-4 rounded-lg border border-emerald-500/30 bg-emerald-500/10 px-4 py-3 text-sm text-emerald-100">
+          <p className="mb-2">
+            Copy the key for <strong>{created.key.name}</strong> now. It will not be shown again.
+          </p>
+          <CopyableText text={created.secret} maxWidth="100%" className="font-mono text-xs" />
+        </div>
+      )}
+
+      {actionError && <p className="mt-3 text-sm text-rose-200">{actionError}</p>}
+      {error && <p className="mt-3 text-sm text-rose-200">Unable to load API keys: {error}</p>}
+
+      <div className="mt-4 overflow-x-auto">
+        <table className="min-w-full divide-y divide-white/10 text-left">
+          <thead>
+            <tr className="text-xs uppercase tracking-[0.16em] text-slate-400">
+              <th className="px-3 py-2 font-semibold">Name</th>
+              <th className="px-3 py-2 font-semibold">Key</th>
+              <th className="px-3 py-2 font-semibold">Scope</th>
+              <th className="px-3 py-2 font-semibold">Created</th>
+              <th className="px-3 py-2 font-semibold">Last used</th>
+              <th className="px-3 py-2 font-semibold text-right">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/10">
+            {!loading && keys.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-3 py-3 text-sm text-slate-300">
+                  No API keys yet.
+                </td>
+              </tr>
+            )}
+            {keys.map((key) => (
+              <tr key={key.id} className="text-sm text-slate-200">
+                <td className="px-3 py-3 font-semibold text-slate-100">{key.name}</td>
+                <td className="px-3 py-3 font-mono text-xs text-slate-300">{key.prefix}…</td>
+                <td className="px-3 py-3 text-slate-300">{SCOPE_LABELS[key.scope]}</td>
+                <td className="px-3 py-3 text-slate-300">
+                  {formatTimestamp(key.createdAt)}
+                  <div className="text-xs text-slate-400">by {key.createdBy}</div>
+                </td>
+                <td className="px-3 py-3 text-slate-300">{formatTimestamp(key.lastUsedAt)}</td>
+                <td className="px-3 py-3 text-right">
+                  {key.revokedAt ? (
+                    <Badge label="Revoked" tone="danger" />
+                  ) : (
+                    <Button variant="danger" size="sm" onClick={() => handleRevoke(key.id)}>
+                      Revoke
+                    </Button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+}
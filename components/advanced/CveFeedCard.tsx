@@ -0,0 +1,80 @@
+'use client';
+
+import { useState } from 'react';
+import Card from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import { useAuth } from '@/components/auth/AuthContext';
+import useCveFeed from '@/lib/hooks/useCveFeed';
+
+export default function CveFeedCard(): JSX.Element {
+  const { can } = useAuth();
+  const { feed, loading, error, importFeed } = useCveFeed();
+  const [importing, setImporting] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const handleImport = async () => {
+    setImporting(true);
+    setActionError(null);
+    try {
+      await importFeed();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Unable to import the CVE feed.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Card
+      title="Vulnerability feed"
+      description="Detected service versions are matched offline against NVD JSON feeds imported from disk."
+      actions={
+        can('cves:import') ? (
+          <Button variant="secondary" size="sm" onClick={() => void handleImport()} disabled={importing}>
+            {importing ? 'Importing...' : 'Import feed'}
+          </Button>
+        ) : undefined
+      }
+    >
+      {!loading && feed && !feed.importedAt && (
+        <p className="mb-4 rounded-lg border border-amber-500/30 bg-amber-500/15 px-4 py-3 text-sm text-amber-100">
+          No feed has been imported, so no CVEs are matched. Place NVD CVE JSON files (optionally gzipped) and CPE
+          dictionaries in the feed directory, then import.
+        </p>
+      )}
+
+      <dl className="space-y-3 text-sm text-slate-200 break-words">
+        <div>
+          <dt className="font-semibold text-slate-100">Last imported</dt>
+          <dd className="text-xs text-slate-400">
+            {feed?.importedAt
+              ? `${new Date(feed.importedAt).toLocaleString()}${feed.importedBy ? ` by ${feed.importedBy}` : ''}`
+              : 'Never'}
+          </dd>
+        </div>
+        <div>
+          <dt className="font-semibold text-slate-100">Feed directory</dt>
+          <dd className="font-mono text-xs text-slate-400">{feed?.feedDir ?? '—'}</dd>
+        </div>
+        {feed?.importedAt && (
+          <>
+            <div>
+              <dt className="font-semibold text-slate-100">Contents</dt>
+              <dd className="text-xs text-slate-400">
+                {feed.cveCount.toLocaleString()} CVEs with affected application versions
+                {feed.aliasCount > 0 ? ` · ${feed.aliasCount.toLocaleString()} CPE dictionary names` : ''}
+              </dd>
+            </div>
+            <div>
+              <dt className="font-semibold text-slate-100">Source files</dt>
+              <dd className="font-mono text-xs text-slate-400">{feed.sourceFiles.join(', ')}</dd>
+            </div>
+          </>
+        )}
+      </dl>
+
+      {actionError && <p className="mt-3 text-sm text-rose-200">{actionError}</p>}
+      {error && <p className="mt-3 text-sm text-rose-200">Unable to load the feed status: {error}</p>}
+    </Card>
+  );
+}
@@ -0,0 +1,146 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import Card from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import Badge from '@/components/ui/Badge';
+import useScopeRules from '@/lib/hooks/useScopeRules';
+import { ScopeRuleEffect, classifyScopeValue } from '@/lib/domain/scope';
+
+const KIND_LABELS = {
+  cidr: 'CIDR / IP',
+  hostname: 'Hostname',
+  wildcard: 'Wildcard'
+} as const;
+
+export default function ScopeCard(): JSX.Element {
+  const { rules, open, loading, error, addRule, removeRule } = useScopeRules();
+  const [effect, setEffect] = useState<ScopeRuleEffect>('allow');
+  const [value, setValue] = useState('');
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const valueKind = value.trim() ? classifyScopeValue(value) : null;
+  const allowCount = rules.filter((rule) => rule.effect === 'allow').length;
+
+  const handleAdd = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!valueKind) {
+      setActionError('Enter an IP address, CIDR block, hostname or wildcard domain (e.g. *.corp.example).');
+      return;
+    }
+
+    setSubmitting(true);
+    setActionError(null);
+    try {
+      await addRule(effect, value.trim(), note.trim() || undefined);
+      setValue('');
+      setNote('');
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Unable to add scope rule.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    setActionError(null);
+    try {
+      await removeRule(id);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Unable to remove scope rule.');
+    }
+  };
+
+  return (
+    <Card
+      title="Engagement scope"
+      description="Targets must match an allow rule and no deny rule before a task can launch. Hostnames are resolved and every address is checked."
+    >
+      {!loading && allowCount === 0 && (
+        <p className="mb-4 rounded-lg border border-amber-500/30 bg-amber-500/15 px-4 py-3 text-sm text-amber-100">
+          {open
+            ? 'Open scope is on (REDMESH_SCOPE_OPEN) and no allow rules are configured, so any target not explicitly denied can be scanned.'
+            : 'No allow rules are configured, so every launch is rejected. Add an allow rule covering the engagement targets.'}
+        </p>
+      )}
+
+      <form onSubmit={handleAdd} className="flex flex-col gap-3 md:flex-row">
+        <select
+          aria-label="Rule effect"
+          value={effect}
+          onChange={(event) => setEffect(event.target.value as ScopeRuleEffect)}
+          className="rounded-lg border border-white/15 bg-slate-900/60 px-4 py-3 text-sm text-slate-100 focus:border-brand-primary focus:outline-none"
+        >
+          <option value="allow">Allow</option>
+          <option value="deny">Deny</option>
+        </select>
+        <Input
+          aria-label="Rule value"
+          placeholder="10.0.0.0/16, api.corp.example or *.corp.example"
+          value={value}
+          invalid={Boolean(value.trim()) && !valueKind}
+          onChange={(event) => setValue(event.target.value)}
+        />
+        <Input
+          aria-label="Rule note"
+          placeholder="Note (optional)"
+          value={note}
+          onChange={(event) => setNote(event.target.value)}
+        />
+        <Button type="submit" disabled={submitting || !valueKind}>
+          {submitting ? 'Adding...' : 'Add rule'}
+        </Button>
+      </form>
+
+      {actionError && <p className="mt-3 text-sm text-rose-200">{actionError}</p>}
+      {error && <p className="mt-3 text-sm text-rose-200">Unable to load scope rules: {error}</p>}
+
+      <div className="mt-4 overflow-x-auto">
+        <table className="min-w-full divide-y divide-white/10 text-left">
+          <thead>
+            <tr className="text-xs uppercase tracking-[0.16em] text-slate-400">
+              <th className="px-3 py-2 font-semibold">Effect</th>
+              <th className="px-3 py-2 font-semibold">Value</th>
+              <th className="px-3 py-2 font-semibold">Type</th>
+              <th className="px-3 py-2 font-semibold">Note</th>
+              <th className="px-3 py-2 font-semibold text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/10">
+            {!loading && rules.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-3 py-3 text-sm text-slate-300">
+                  No scope rules yet.
+                </td>
+              </tr>
+            )}
+            {rules.map((rule) => {
+              const kind = classifyScopeValue(rule.value);
+              return (
+                <tr key={rule.id} className="text-sm text-slate-200">
+                  <td className="px-3 py-3">
+                    <Badge label={rule.effect} tone={rule.effect === 'allow' ? 'success' : 'danger'} />
+                  </td>
+                  <td className="px-3 py-3 font-mono text-xs text-slate-100">{rule.value}</td>
+                  <td className="px-3 py-3 text-slate-300">{kind ? KIND_LABELS[kind] : 'Invalid'}</td>
+                  <td className="px-3 py-3 text-slate-300">
+                    {rule.note ?? '—'}
+                    <div className="text-xs text-slate-400">by {rule.createdBy}</div>
+                  </td>
+                  <td className="px-3 py-3 text-right">
+                    <Button variant="secondary" size="sm" onClick={() => handleRemove(rule.id)}>
+                      Remove
+                    </Button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+}
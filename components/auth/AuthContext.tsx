@@ -9,21 +9,39 @@ import {
   useMemo,
   useState
 } from 'react';
-import type { AuthSuccess, UserAccount } from '@/lib/api/types';
+import type { SessionInfo, UserAccount } from '@/lib/api/types';
+import { Permission, hasPermission } from '@/lib/domain/roles';
 
 interface AuthContextValue {
   user: UserAccount | null;
-  token: string | null;
   loading: boolean;
   error: string | null;
   signIn: (username: string, password: string) => Promise<void>;
   signOut: () => void;
+  can: (permission: Permission) => boolean;
 }
 
 const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+/** Thrown by `signIn` when the server has temporarily locked sign-in (HTTP 429). */
+export class SignInLockedError extends Error {
+  public readonly retryAfterSeconds: number;
+
+  constructor(message: string, retryAfterSeconds: number) {
+    super(message);
+    this.name = 'SignInLockedError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
 const SESSION_STORAGE_KEY = 'redmesh-navigator-session';
+/** Refresh the session cookie once this fraction of its lifetime has elapsed. */
+const SESSION_REFRESH_RATIO = 0.5;
+const MIN_REFRESH_DELAY_MS = 30_000;
 
-type StoredSession = { user: UserAccount; token: string };
+// The session token itself lives in an HttpOnly cookie; only the profile is kept client-side
+// so the shell can render immediately while the cookie is re-validated.
+type StoredSession = { user: UserAccount };
 
 function readSession(): StoredSession | null {
   if (typeof window === 'undefined') {
@@ -54,20 +72,66 @@ function persistSession(session: StoredSession | null): void {
   }
 }
 
+async function requestSessionRefresh(): Promise<SessionInfo | null> {
+  try {
+    const response = await fetch('/api/auth/refresh', { method: 'POST' });
+    if (!response.ok) {
+      return null;
+    }
+    return ((await response.json().catch(() => null)) as SessionInfo | null) ?? null;
+  } catch (_error) {
+    return null;
+  }
+}
+
 export function AuthProvider({ children }: PropsWithChildren<{}>): JSX.Element {
   const [user, setUser] = useState<UserAccount | null>(null);
-  const [token, setToken] = useState<string | null>(null);
+  const [expiresAt, setExpiresAt] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  const applySession = useCallback((session: SessionInfo | null) => {
+    setUser(session?.user ?? null);
+    setExpiresAt(session?.expiresAt ?? null);
+    persistSession(session ? { user: session.user } : null);
+  }, []);
+
   useEffect(() => {
-    const session = readSession();
-    if (session) {
-      setUser(session.user);
-      setToken(session.token);
+    let cancelled = false;
+    const stored = readSession();
+    if (!stored) {
+      setLoading(false);
+      return;
     }
-    setLoading(false);
-  }, []);
+
+    // Show the cached profile right away, then confirm the cookie is still valid.
+    setUser(stored.user);
+    void requestSessionRefresh().then((session) => {
+      if (cancelled) {
+        return;
+      }
+      applySession(session);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [applySession]);
+
+  useEffect(() => {
+    if (!user || !expiresAt) {
+      return;
+    }
+
+    const remaining = new Date(expiresAt).getTime() - Date.now();
+    const delay = Math.max(MIN_REFRESH_DELAY_MS, remaining * SESSION_REFRESH_RATIO);
+    const timer = window.setTimeout(() => {
+      void requestSessionRefresh().then(applySession);
+    }, delay);
+
+    return () => window.clearTimeout(timer);
+  }, [user, expiresAt, applySession]);
 
   const signIn = useCallback(async (username: string, password: string) => {
     setLoading(true);
@@ -83,14 +147,21 @@ export function AuthProvider({ children }: PropsWithChildren<{}>): JSX.Element {
       });
 
       const payload = await response.json().catch(() => null);
+      if (response.status === 429) {
+        const retryAfterSeconds =
+          Number((payload as { retryAfterSeconds?: number })?.retryAfterSeconds) ||
+          Number(response.headers.get('Retry-After')) ||
+          0;
+        throw new SignInLockedError(
+          (payload as { message?: string })?.message ?? 'Too many failed sign-in attempts.',
+          retryAfterSeconds
+        );
+      }
       if (!response.ok || !payload) {
         throw new Error((payload as { message?: string })?.message ?? 'Unable to sign in.');
       }
 
-      const authPayload = payload as AuthSuccess;
-      setUser(authPayload.user);
-      setToken(authPayload.token);
-      persistSession({ user: authPayload.user, token: authPayload.token });
+      applySession(payload as SessionInfo);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Unable to sign in.';
       setError(message);
@@ -98,25 +169,26 @@ export function AuthProvider({ children }: PropsWithChildren<{}>): JSX.Element {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [applySession]);
 
   const signOut = useCallback(() => {
-    setUser(null);
-    setToken(null);
+    applySession(null);
     setError(null);
-    persistSession(null);
-  }, []);
+    void fetch('/api/auth/logout', { method: 'POST' }).catch(() => undefined);
+  }, [applySession]);
+
+  const can = useCallback((permission: Permission) => hasPermission(user, permission), [user]);
 
   const value = useMemo<AuthContextValue>(
     () => ({
       user,
-      token,
       loading,
       error,
       signIn,
-      signOut
+      signOut,
+      can
     }),
-    [user, token, loading, error, signIn, signOut]
+    [user, loading, error, signIn, signOut, can]
   );
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -1,17 +1,42 @@
 'use client';
 
-import { FormEvent, useState } from 'react';
+import { FormEvent, useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { useAuth } from '@/components/auth/AuthContext';
+import { SignInLockedError, useAuth } from '@/components/auth/AuthContext';
 import Button from '@/components/ui/Button';
 import Input from '@/components/ui/Input';
 
+function formatCountdown(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}:${String(seconds).padStart(2, '0')}` : `${seconds}s`;
+}
+
 export default function LoginForm(): JSX.Element {
-  const { signIn, error, loading } = useAuth();
+  const { signIn, loading } = useAuth();
   const router = useRouter();
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [localError, setLocalError] = useState<string | null>(null);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!lockedUntil) {
+      return;
+    }
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [lockedUntil]);
+
+  const lockoutSeconds = lockedUntil ? Math.max(Math.ceil((lockedUntil - now) / 1000), 0) : 0;
+
+  useEffect(() => {
+    if (lockedUntil && lockoutSeconds === 0) {
+      setLockedUntil(null);
+      setLocalError(null);
+    }
+  }, [lockedUntil, lockoutSeconds]);
 
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
@@ -21,6 +46,11 @@ export default function LoginForm(): JSX.Element {
       await signIn(username.trim(), password.trim());
       router.replace('/dashboard');
     } catch (err) {
+      if (err instanceof SignInLockedError && err.retryAfterSeconds > 0) {
+        const startedAt = Date.now();
+        setNow(startedAt);
+        setLockedUntil(startedAt + err.retryAfterSeconds * 1000);
+      }
       const message = err instanceof Error ? err.message : 'Authentication failed.';
       setLocalError(message);
     }
@@ -53,12 +83,21 @@ export default function LoginForm(): JSX.Element {
           onChange={(event) => setPassword(event.target.value)}
         />
       </div>
-      {(localError || error) && (
-        <div className="rounded-lg border border-[#e23d4b]/40 bg-[#e23d4b]/20 px-4 py-3 text-sm text-slate-100">
-          {localError || error}
+      {lockoutSeconds > 0 ? (
+        <div
+          role="alert"
+          className="rounded-lg border border-amber-500/40 bg-amber-500/15 px-4 py-3 text-sm text-amber-100"
+        >
+          Too many failed sign-in attempts. Try again in {formatCountdown(lockoutSeconds)}.
         </div>
+      ) : (
+        localError && (
+          <div className="rounded-lg border border-[#e23d4b]/40 bg-[#e23d4b]/20 px-4 py-3 text-sm text-slate-100">
+            {localError}
+          </div>
+        )
       )}
-      <Button type="submit" disabled={loading || !username || !password}>
+      <Button type="submit" disabled={loading || !username || !password || lockoutSeconds > 0}>
         {loading ? 'Signing in...' : 'Sign in'}
       </Button>
     </form>
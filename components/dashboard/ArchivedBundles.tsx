@@ -0,0 +1,116 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { format, parseISO } from 'date-fns';
+import Card from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import useJobBundles from '@/lib/hooks/useJobBundles';
+
+interface ArchivedBundlesProps {
+  canImport: boolean;
+}
+
+function formatTimestamp(timestamp: string): string {
+  try {
+    return format(parseISO(timestamp), 'd MMM yyyy HH:mm');
+  } catch (_error) {
+    return timestamp;
+  }
+}
+
+/**
+ * Imported job bundles. Each one opens on the regular job page, which serves the archived copy
+ * once the mesh no longer has the job.
+ */
+export default function ArchivedBundles({ canImport }: ArchivedBundlesProps): JSX.Element | null {
+  const router = useRouter();
+  const { bundles, error, importBundle, deleteBundle } = useJobBundles();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  if (!canImport && bundles.length === 0) {
+    return null;
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setImporting(true);
+    setImportError(null);
+    try {
+      const bundle = await importBundle(file);
+      router.push(`/dashboard/jobs/${bundle.jobId}`);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Unable to import job bundle.');
+    } finally {
+      setImporting(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  const handleDelete = async (jobId: string) => {
+    if (!window.confirm('Remove this archived bundle?')) return;
+    try {
+      await deleteBundle(jobId);
+    } catch (err) {
+      window.alert(`Error: ${err instanceof Error ? err.message : 'Unable to delete job bundle.'}`);
+    }
+  };
+
+  return (
+    <Card
+      title="Archived tasks"
+      description="Job bundles imported for offline review. They stay viewable after the task is purged from the mesh."
+      actions={
+        canImport ? (
+          <>
+            <input
+              ref={inputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(event) => void handleFile(event.target.files?.[0])}
+            />
+            <Button variant="secondary" size="sm" onClick={() => inputRef.current?.click()} disabled={importing}>
+              {importing ? 'Importing...' : 'Import bundle'}
+            </Button>
+          </>
+        ) : undefined
+      }
+    >
+      {(importError || error) && <p className="mb-3 text-sm text-rose-200">{importError ?? error}</p>}
+      {bundles.length === 0 ? (
+        <p className="text-sm text-slate-300">No bundles imported yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {bundles.map((bundle) => (
+            <li
+              key={bundle.jobId}
+              className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-white/10 bg-slate-900/60 px-4 py-3"
+            >
+              <div>
+                <Link
+                  href={`/dashboard/jobs/${bundle.jobId}`}
+                  className="text-sm font-semibold text-slate-50 hover:text-brand-primary"
+                >
+                  {bundle.displayName}
+                </Link>
+                <p className="text-xs text-slate-400">
+                  {bundle.target} · exported {formatTimestamp(bundle.exportedAt)} by {bundle.exportedBy} · imported{' '}
+                  {formatTimestamp(bundle.importedAt)}
+                </p>
+              </div>
+              {canImport && (
+                <Button variant="secondary" size="sm" onClick={() => void handleDelete(bundle.jobId)}>
+                  Remove
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+}
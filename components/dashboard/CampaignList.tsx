@@ -0,0 +1,69 @@
+'use client';
+
+import Link from 'next/link';
+import { format, parseISO } from 'date-fns';
+import type { CampaignProgress, CampaignSummary } from '@/lib/api/types';
+
+interface CampaignListProps {
+  campaigns: CampaignSummary[];
+  emptyState?: string;
+}
+
+function formatCreatedAt(timestamp: string): string {
+  try {
+    return format(parseISO(timestamp), 'd MMM yyyy HH:mm');
+  } catch (_error) {
+    return timestamp;
+  }
+}
+
+export function CampaignProgressBar({ progress }: { progress: CampaignProgress }): JSX.Element {
+  return (
+    <div className="w-full">
+      <div className="flex items-center justify-between text-[11px] uppercase tracking-[0.12em] text-slate-400">
+        <span>
+          {progress.completed} completed · {progress.running} running · {progress.stopped} stopped
+          {progress.failed > 0 && ` · ${progress.failed} failed`}
+        </span>
+        <span className="text-slate-200">{progress.percent}%</span>
+      </div>
+      <div className="mt-1 h-2 w-full overflow-hidden rounded-full bg-white/10">
+        <div
+          className="h-full rounded-full bg-gradient-to-r from-emerald-400 via-emerald-500 to-emerald-600 transition-[width] duration-300"
+          style={{ width: `${progress.percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default function CampaignList({ campaigns, emptyState = 'No campaigns yet.' }: CampaignListProps): JSX.Element {
+  if (campaigns.length === 0) {
+    return <p className="text-sm text-slate-300">{emptyState}</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {campaigns.map((campaign) => (
+        <li key={campaign.id} className="rounded-xl border border-white/10 bg-slate-900/60 p-4">
+          <div className="flex flex-wrap items-start justify-between gap-2">
+            <div>
+              <Link
+                href={`/dashboard/campaigns/${campaign.id}`}
+                className="text-sm font-semibold text-slate-50 hover:text-brand-primary"
+              >
+                {campaign.name}
+              </Link>
+              <p className="text-xs text-slate-400">
+                {campaign.progress.total} targets · by {campaign.createdBy} · {formatCreatedAt(campaign.createdAt)}
+              </p>
+            </div>
+          </div>
+          <div className="mt-3">
+            <CampaignProgressBar progress={campaign.progress} />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
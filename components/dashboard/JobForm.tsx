@@ -1,6 +1,6 @@
 'use client';
 
-import { FormEvent, useEffect, useRef, useState } from 'react';
+import { ChangeEvent, FormEvent, useEffect, useMemo, useRef, useState } from 'react';
 import dynamic from 'next/dynamic';
 import Button from '@/components/ui/Button';
 import Input from '@/components/ui/Input';
@@ -10,8 +10,11 @@ import { useAuth } from '@/components/auth/AuthContext';
 import { useAppConfig } from '@/components/layout/AppConfigContext';
 import Tooltip from '@/components/ui/Tooltip';
 import { TASK_FORM_DESCRIPTIONS } from '@/lib/domain/knowledge';
-import type { Job, JobDistribution, JobDuration } from '@/lib/api/types';
+import type { Campaign, Job, JobDistribution, JobDuration, JobPriority, JobTemplateFields } from '@/lib/api/types';
 import { DURATION } from '@/lib/api/constants';
+import useScopeCheck from '@/lib/hooks/useScopeCheck';
+import useJobTemplates from '@/lib/hooks/useJobTemplates';
+import { MAX_CAMPAIGN_TARGETS, parseTargetList } from '@/lib/domain/targets';
 
 /** Small circled-i icon used as a tooltip trigger next to form labels. */
 function InfoTip({ text, position = 'right' }: { text: string; position?: 'top' | 'bottom' | 'left' | 'right' }) {
@@ -39,6 +42,10 @@ const NodeMapSelector = dynamic(
 
 interface JobFormProps {
   onCreated?: (job: Job) => Promise<void> | void;
+  /** Called instead of `onCreated` when a target list launched a campaign. */
+  onCampaignCreated?: (campaign: Campaign) => Promise<void> | void;
+  /** Pre-fill the form, e.g. when re-running an existing job. Applied once on mount. */
+  initialValues?: { target: string; fields: JobTemplateFields };
 }
 
 const priorities = [
@@ -48,8 +55,8 @@ const priorities = [
   { value: 'critical', label: 'Critical' }
 ];
 
-export default function JobForm({ onCreated }: JobFormProps): JSX.Element {
-  const { token, user } = useAuth();
+export default function JobForm({ onCreated, onCampaignCreated, initialValues }: JobFormProps): JSX.Element {
+  const { user } = useAuth();
   const { config, loading: configLoading, peers, peersLoading } = useAppConfig();
   const featureCatalog = config?.featureCatalog ?? [];
   const peersCount = peers.length;
@@ -62,6 +69,8 @@ export default function JobForm({ onCreated }: JobFormProps): JSX.Element {
   const [name, setName] = useState('');
   const [summary, setSummary] = useState('');
   const [target, setTarget] = useState('');
+  const [multiTarget, setMultiTarget] = useState(false);
+  const [targetList, setTargetList] = useState('');
   const [portStart, setPortStart] = useState(1);
   const [portEnd, setPortEnd] = useState(1024);
   const [exceptions, setExceptions] = useState('');
@@ -98,6 +107,18 @@ export default function JobForm({ onCreated }: JobFormProps): JSX.Element {
   const [attempted, setAttempted] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const { decision: scopeDecision, checking: scopeChecking } = useScopeCheck(multiTarget ? '' : target);
+  const outOfScope = !multiTarget && scopeDecision?.allowed === false;
+  const { templates, createTemplate, updateTemplate, deleteTemplate } = useJobTemplates();
+  const [templateId, setTemplateId] = useState('');
+  const [templateName, setTemplateName] = useState('');
+  const [savingTemplate, setSavingTemplate] = useState(false);
+  const [templateMessage, setTemplateMessage] = useState<{ tone: 'success' | 'error'; text: string } | null>(null);
+  const selectedTemplate = templates.find((template) => template.id === templateId);
+  const targetListPreview = useMemo(() => parseTargetList(targetList), [targetList]);
+  const hasTarget = multiTarget
+    ? targetListPreview.targets.length > 0 && targetListPreview.errors.length === 0
+    : Boolean(target.trim());
 
   const parsedTempoMin = tempoMin ? Number(tempoMin) : undefined;
   const parsedTempoMax = tempoMax ? Number(tempoMax) : undefined;
@@ -130,6 +151,133 @@ export default function JobForm({ onCreated }: JobFormProps): JSX.Element {
     });
   }, [maxWorkers]);
 
+  /** Everything the form would launch with, minus the target and the launch confirmation. */
+  const buildTemplateFields = (): JobTemplateFields => ({
+    name,
+    summary,
+    portRange: {
+      start: Number(portStart) || 1,
+      end: Number(portEnd) || 65535
+    },
+    exceptions: exceptions
+      .split(',')
+      .map((entry) => Number(entry.trim()))
+      .filter((value) => !Number.isNaN(value)),
+    features: selectedFeatures,
+    workerCount,
+    priority: priority as JobPriority,
+    distribution,
+    duration,
+    // Scan delay payload (dune sand walking - delay between individual scans)
+    scanDelay:
+      tempoEnabled && parsedTempoMin !== undefined && parsedTempoMax !== undefined
+        ? { minSeconds: parsedTempoMin, maxSeconds: parsedTempoMax }
+        : undefined,
+    monitorInterval: duration === DURATION.CONTINUOUS && monitorInterval ? Number(monitorInterval) : undefined,
+    selectedPeers: selectedPeers.length > 0 ? selectedPeers : undefined,
+    redactCredentials,
+    icsSafeMode,
+    rateLimitEnabled,
+    scannerIdentity: scannerIdentity.trim() || undefined,
+    scannerUserAgent: scannerUserAgent.trim() || undefined
+  });
+
+  const applyTemplate = (fields: JobTemplateFields) => {
+    setName(fields.name);
+    setSummary(fields.summary);
+    setPortStart(fields.portRange.start);
+    setPortEnd(fields.portRange.end);
+    setExceptions((fields.exceptions ?? []).join(', '));
+    if (fields.features) {
+      setSelectedFeatures(fields.features);
+      featuresTouchedRef.current = true;
+    }
+    setWorkerCount(Math.min(Math.max(fields.workerCount ?? 2, 1), maxWorkers));
+    setPriority(fields.priority ?? 'medium');
+    setDistribution(fields.distribution ?? 'slice');
+    setDuration(fields.duration ?? DURATION.CONTINUOUS);
+    setTempoEnabled(Boolean(fields.scanDelay));
+    if (fields.scanDelay) {
+      setTempoMin(String(fields.scanDelay.minSeconds));
+      setTempoMax(String(fields.scanDelay.maxSeconds));
+    }
+    setMonitorInterval(fields.monitorInterval ? String(fields.monitorInterval) : '60');
+    // Peers come and go; keep only the ones this node still knows about.
+    const knownPeers = new Set(peers.map((peer) => peer.address));
+    const templatePeers = (fields.selectedPeers ?? []).filter((address) => knownPeers.has(address));
+    if (templatePeers.length > 0) {
+      setSelectedPeers(templatePeers);
+      peersTouchedRef.current = true;
+    }
+    setRedactCredentials(fields.redactCredentials !== false);
+    setIcsSafeMode(fields.icsSafeMode !== false);
+    setRateLimitEnabled(fields.rateLimitEnabled !== false);
+    setScannerIdentity(fields.scannerIdentity ?? '');
+    setScannerUserAgent(fields.scannerUserAgent ?? '');
+    setExpandedIdentity(Boolean(fields.scannerIdentity || fields.scannerUserAgent));
+  };
+
+  const initialAppliedRef = useRef(false);
+  useEffect(() => {
+    if (!initialValues || initialAppliedRef.current) {
+      return;
+    }
+    initialAppliedRef.current = true;
+    applyTemplate(initialValues.fields);
+    setTarget(initialValues.target);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [initialValues]);
+
+  const handleTemplateSelect = (id: string) => {
+    setTemplateId(id);
+    setTemplateMessage(null);
+    const template = templates.find((entry) => entry.id === id);
+    if (template) {
+      applyTemplate(template.fields);
+    }
+  };
+
+  const handleSaveTemplate = async (mode: 'create' | 'update') => {
+    setSavingTemplate(true);
+    setTemplateMessage(null);
+    try {
+      const saved =
+        mode === 'update' && selectedTemplate
+          ? await updateTemplate(selectedTemplate.id, buildTemplateFields())
+          : await createTemplate(templateName.trim(), buildTemplateFields());
+      setTemplateId(saved.id);
+      setTemplateName('');
+      setTemplateMessage({ tone: 'success', text: `Template "${saved.name}" saved.` });
+    } catch (err) {
+      setTemplateMessage({ tone: 'error', text: err instanceof Error ? err.message : 'Unable to save template.' });
+    } finally {
+      setSavingTemplate(false);
+    }
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!selectedTemplate || !window.confirm(`Delete template "${selectedTemplate.name}"?`)) {
+      return;
+    }
+    setTemplateMessage(null);
+    try {
+      await deleteTemplate(selectedTemplate.id);
+      setTemplateId('');
+    } catch (err) {
+      setTemplateMessage({ tone: 'error', text: err instanceof Error ? err.message : 'Unable to delete template.' });
+    }
+  };
+
+  const handleTargetFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+    const text = await file.text();
+    setTargetList((current) => (current.trim() ? `${current.trimEnd()}\n${text}` : text));
+  };
+
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     console.log('[JobForm] Submit started');
@@ -137,7 +285,7 @@ export default function JobForm({ onCreated }: JobFormProps): JSX.Element {
     setErrorMessage(null);
     setSuccessMessage(null);
 
-    if (!name.trim() || !target.trim() || !authorized) {
+    if (!name.trim() || !hasTarget || !authorized || outOfScope) {
       return;
     }
 
@@ -150,38 +298,9 @@ export default function JobForm({ onCreated }: JobFormProps): JSX.Element {
       return;
     }
 
-    // Scan delay payload (dune sand walking - delay between individual scans)
-    const scanDelayPayload =
-      tempoEnabled && parsedTempoMin !== undefined && parsedTempoMax !== undefined
-        ? { minSeconds: parsedTempoMin, maxSeconds: parsedTempoMax }
-        : undefined;
-
     const requestBody = {
-      name,
-      summary,
-      target,
-      portRange: {
-        start: Number(portStart) || 1,
-        end: Number(portEnd) || 65535
-      },
-      exceptions: exceptions
-        .split(',')
-        .map((entry) => Number(entry.trim()))
-        .filter((value) => !Number.isNaN(value)),
-      features: selectedFeatures,
-      workerCount,
-      priority,
-
-      distribution,
-      duration,
-      scanDelay: scanDelayPayload,
-      monitorInterval: duration === DURATION.CONTINUOUS && monitorInterval ? Number(monitorInterval) : undefined,
-      selectedPeers: selectedPeers.length > 0 ? selectedPeers : undefined,
-      redactCredentials,
-      icsSafeMode,
-      rateLimitEnabled,
-      scannerIdentity: scannerIdentity.trim() || undefined,
-      scannerUserAgent: scannerUserAgent.trim() || undefined,
+      ...buildTemplateFields(),
+      ...(multiTarget ? { targets: targetList } : { target }),
       authorized,
       createdByName: user?.displayName ?? user?.username,
       createdById: user?.username
@@ -193,8 +312,7 @@ export default function JobForm({ onCreated }: JobFormProps): JSX.Element {
       const response = await fetch('/api/jobs', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          ...(token ? { Authorization: `Bearer ${token}` } : {})
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify(requestBody)
       });
@@ -205,16 +323,25 @@ export default function JobForm({ onCreated }: JobFormProps): JSX.Element {
         throw new Error(payload?.message ?? 'Unable to create task.');
       }
 
-      const createdJob = (payload as { job?: Job }).job;
-      if (!createdJob) {
+      const { job: createdJob, campaign: createdCampaign } = payload as { job?: Job; campaign?: Campaign };
+      if (!createdJob && !createdCampaign) {
         throw new Error('Task response missing payload.');
       }
 
-      setSuccessMessage(`Task "${createdJob.displayName ?? createdJob.id}" created.`);
+      if (createdCampaign) {
+        const failed = createdCampaign.jobs.filter((ref) => !ref.jobId).length;
+        setSuccessMessage(
+          `Campaign "${createdCampaign.name}" launched ${createdCampaign.jobs.length - failed} tasks` +
+            (failed ? ` (${failed} failed to launch).` : '.')
+        );
+      } else if (createdJob) {
+        setSuccessMessage(`Task "${createdJob.displayName ?? createdJob.id}" created.`);
+      }
       setAttempted(false);
       setName('');
       setSummary('');
       setTarget('');
+      setTargetList('');
       setPortStart(1);
       setPortEnd(1024);
       setExceptions('');
@@ -237,8 +364,11 @@ export default function JobForm({ onCreated }: JobFormProps): JSX.Element {
       setScannerUserAgent('');
       setAuthorized(false);
       setExpandedIdentity(false);
+      setTemplateId('');
 
-      if (onCreated) {
+      if (createdCampaign) {
+        await onCampaignCreated?.(createdCampaign);
+      } else if (createdJob && onCreated) {
         await onCreated(createdJob);
       }
     } catch (err) {
@@ -256,6 +386,38 @@ export default function JobForm({ onCreated }: JobFormProps): JSX.Element {
       className="h-full"
     >
       <form className="space-y-5" onSubmit={handleSubmit}>
+        {templates.length > 0 && (
+          <div className="space-y-2">
+            <label htmlFor="job-template" className="flex items-center text-sm font-medium text-slate-200">
+              Load template
+            </label>
+            <div className="flex gap-2">
+              <select
+                id="job-template"
+                value={templateId}
+                onChange={(event) => handleTemplateSelect(event.target.value)}
+                className="w-full rounded-lg border border-white/15 bg-slate-900/60 px-4 py-3 text-sm text-slate-100 focus:border-brand-primary focus:outline-none"
+              >
+                <option value="">Start from scratch</option>
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}
+                  </option>
+                ))}
+              </select>
+              {selectedTemplate && (
+                <Button type="button" variant="secondary" size="sm" onClick={handleDeleteTemplate}>
+                  Delete
+                </Button>
+              )}
+            </div>
+            {selectedTemplate && (
+              <p className="text-xs text-slate-400">
+                Settings from &quot;{selectedTemplate.name}&quot; applied. Set the target and confirm authorization to launch.
+              </p>
+            )}
+          </div>
+        )}
         <div className="space-y-2">
           <label htmlFor="job-name" className="flex items-center text-sm font-medium text-slate-200">
             Task name
@@ -287,20 +449,78 @@ export default function JobForm({ onCreated }: JobFormProps): JSX.Element {
           />
         </div>
         <div className="space-y-2">
-          <label htmlFor="job-target" className="flex items-center text-sm font-medium text-slate-200">
-            Target host or network
-            <InfoTip text={TASK_FORM_DESCRIPTIONS.target} />
-          </label>
-          <Input
-            id="job-target"
-            placeholder="10.0.5.12 or api.internal.local"
-            value={target}
-            onChange={(event) => setTarget(event.target.value)}
-            invalid={attempted && !target.trim()}
-            required
-          />
-          {attempted && !target.trim() && (
-            <p className="text-xs text-[#e23d4b]">Target is required.</p>
+          <div className="flex items-center justify-between gap-3">
+            <label
+              htmlFor={multiTarget ? 'job-target-list' : 'job-target'}
+              className="flex items-center text-sm font-medium text-slate-200"
+            >
+              {multiTarget ? 'Target list' : 'Target host or network'}
+              <InfoTip text={multiTarget ? TASK_FORM_DESCRIPTIONS.targetList : TASK_FORM_DESCRIPTIONS.target} />
+            </label>
+            <label className="flex items-center gap-2 text-xs text-slate-300">
+              <input
+                type="checkbox"
+                checked={multiTarget}
+                onChange={(event) => setMultiTarget(event.target.checked)}
+                className="h-4 w-4 rounded border-white/20 bg-slate-900 text-brand-primary focus:ring-brand-primary"
+              />
+              Multiple targets
+            </label>
+          </div>
+          {multiTarget ? (
+            <>
+              <TextArea
+                id="job-target-list"
+                placeholder={'10.0.5.0/28\n10.0.6.1-20\napi.internal.local'}
+                value={targetList}
+                onChange={(event) => setTargetList(event.target.value)}
+                invalid={(attempted && !hasTarget) || targetListPreview.errors.length > 0}
+                rows={5}
+              />
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-xs text-slate-400">
+                  {targetListPreview.targets.length} host{targetListPreview.targets.length === 1 ? '' : 's'} (max{' '}
+                  {MAX_CAMPAIGN_TARGETS}); each one is launched as its own task in a campaign.
+                </p>
+                <label className="cursor-pointer text-xs font-medium text-brand-primary hover:underline">
+                  Load from file
+                  <input type="file" accept=".txt,.csv,text/plain" className="hidden" onChange={handleTargetFile} />
+                </label>
+              </div>
+              {targetListPreview.errors.map((message) => (
+                <p key={message} className="text-xs text-[#e23d4b]">
+                  {message}
+                </p>
+              ))}
+              {attempted && targetListPreview.targets.length === 0 && (
+                <p className="text-xs text-[#e23d4b]">Add at least one host, range or CIDR block.</p>
+              )}
+            </>
+          ) : (
+            <>
+              <Input
+                id="job-target"
+                placeholder="10.0.5.12 or api.internal.local"
+                value={target}
+                onChange={(event) => setTarget(event.target.value)}
+                invalid={(attempted && !target.trim()) || outOfScope}
+                required
+              />
+              {attempted && !target.trim() && (
+                <p className="text-xs text-[#e23d4b]">Target is required.</p>
+              )}
+              {target.trim() && scopeChecking && (
+                <p className="text-xs text-slate-400">Checking engagement scope...</p>
+              )}
+              {!scopeChecking && scopeDecision && (
+                <p className={scopeDecision.allowed ? 'text-xs text-emerald-300' : 'text-xs text-[#e23d4b]'}>
+                  {scopeDecision.allowed ? 'In scope' : 'Out of scope'}: {scopeDecision.reason}
+                  {scopeDecision.resolvedAddresses?.length
+                    ? ` (resolves to ${scopeDecision.resolvedAddresses.join(', ')})`
+                    : ''}
+                </p>
+              )}
+            </>
           )}
         </div>
         <div className="space-y-2">
@@ -958,17 +1178,55 @@ export default function JobForm({ onCreated }: JobFormProps): JSX.Element {
           )}
         </div>
 
+        <div className="space-y-2 rounded-xl border border-white/10 bg-slate-900/40 p-4">
+          <label htmlFor="job-template-name" className="flex items-center text-sm font-medium text-slate-200">
+            Save current form as template
+          </label>
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <Input
+              id="job-template-name"
+              placeholder="Weekly OT perimeter sweep"
+              value={templateName}
+              onChange={(event) => setTemplateName(event.target.value)}
+            />
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => handleSaveTemplate('create')}
+              disabled={savingTemplate || !templateName.trim()}
+            >
+              {savingTemplate ? 'Saving...' : 'Save as template'}
+            </Button>
+            {selectedTemplate && (
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={() => handleSaveTemplate('update')}
+                disabled={savingTemplate}
+              >
+                Update &quot;{selectedTemplate.name}&quot;
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-slate-400">Templates keep every setting except the target.</p>
+          {templateMessage && (
+            <p className={templateMessage.tone === 'success' ? 'text-xs text-emerald-300' : 'text-xs text-[#e23d4b]'}>
+              {templateMessage.text}
+            </p>
+          )}
+        </div>
+
         {errorMessage && (
           <div className="rounded-lg border border-rose-500/30 bg-rose-500/15 px-4 py-3 text-sm text-rose-100">
             {errorMessage}
           </div>
         )}
-        {attempted && (!name.trim() || !target.trim() || !authorized) && (
+        {attempted && (!name.trim() || !hasTarget || !authorized) && (
           <p className="text-xs text-[#e23d4b]">
             Please fix the highlighted fields above:{' '}
             {[
               !name.trim() && 'task name',
-              !target.trim() && 'target',
+              !hasTarget && 'target',
               !authorized && 'authorization',
             ].filter(Boolean).join(', ')}.
           </p>
@@ -3,7 +3,7 @@
 import { ReactNode, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Job } from '@/lib/api/types';
-import { getEvent } from '@/lib/api/jobs';
+import { computeJobCompletion, getEvent } from '@/lib/api/jobs';
 import { RUN_MODE } from '@/lib/api/constants';
 import Card from '@/components/ui/Card';
 import Badge from '@/components/ui/Badge';
@@ -11,6 +11,7 @@ import Button from '@/components/ui/Button';
 import { InlineLoader } from '@/components/ui/Loader';
 import { format, formatDistanceToNow, parseISO } from 'date-fns';
 import { useJobActions } from '@/lib/hooks/useJobActions';
+import { useAuth } from '@/components/auth/AuthContext';
 // Note: Link import removed - using programmatic navigation for loading state
 
 interface JobListProps {
@@ -54,18 +55,6 @@ function formatTimestamp(timestamp?: string): string {
 }
 
 
-function computeCompletion(job: Job): number {
-  if (job.status === 'completed' || job.status === 'stopped') {
-    return 100;
-  }
-  // 'running' and 'stopping' - calculate from worker progress
-  if (job.workers.length) {
-    const avg = job.workers.reduce((acc, worker) => acc + (worker.progress ?? 0), 0) / job.workers.length;
-    return Math.min(100, Math.max(0, Math.round(avg)));
-  }
-  return 0;
-}
-
 export default function JobList({
   title,
   description,
@@ -76,6 +65,8 @@ export default function JobList({
   onJobStopped
 }: JobListProps): JSX.Element {
   const router = useRouter();
+  const { can } = useAuth();
+  const canStop = can('jobs:stop');
   const { stopJob, loading: actionLoading } = useJobActions();
   const [stoppingJobId, setStoppingJobId] = useState<string | null>(null);
   const [navigatingToJobId, setNavigatingToJobId] = useState<string | null>(null);
@@ -183,17 +174,17 @@ export default function JobList({
                 <div className="w-full max-w-xl">
                   <div className="flex items-center justify-between text-[11px] uppercase tracking-[0.12em] text-slate-400">
                     <span>Completion</span>
-                    <span className="text-slate-200">{computeCompletion(job)}%</span>
+                    <span className="text-slate-200">{computeJobCompletion(job)}%</span>
                   </div>
                   <div className="mt-1 h-2 w-full overflow-hidden rounded-full bg-white/10">
                     <div
                       className="h-full rounded-full bg-gradient-to-r from-emerald-400 via-emerald-500 to-emerald-600 transition-[width] duration-300"
-                      style={{ width: `${computeCompletion(job)}%` }}
+                      style={{ width: `${computeJobCompletion(job)}%` }}
                     />
                   </div>
                 </div>
                 <div className="flex gap-2 lg:self-end">
-                  {job.status === 'running' && (
+                  {canStop && job.status === 'running' && (
                     <Button
                       variant="danger"
                       size="sm"
@@ -203,7 +194,7 @@ export default function JobList({
                       {stoppingJobId === job.id ? 'Stopping...' : 'Stop'}
                     </Button>
                   )}
-                  {job.status === 'stopping' && (
+                  {canStop && job.status === 'stopping' && (
                     <Button
                       variant="danger"
                       size="sm"
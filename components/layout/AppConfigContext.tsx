@@ -32,6 +32,7 @@ export interface ClientRuntimeConfig {
   redmeshApiConfigured: boolean;
   chainstoreApiConfigured: boolean;
   r1fsApiConfigured: boolean;
+  defectDojoConfigured: boolean;
   featureCatalog: RedMeshFeature[];
   chainstorePeers: string[];
   cstoreStatus: unknown;
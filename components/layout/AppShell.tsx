@@ -12,11 +12,15 @@ import clsx from 'clsx';
 import ServedByIndicator from '@/components/layout/ServedByIndicator';
 import AppVersionBadge from '@/components/layout/AppVersionBadge';
 import { APP_VERSION } from '@/lib/config/version';
+import type { Permission } from '@/lib/domain/roles';
 
-const navItems = [
+const navItems: Array<{ href: string; label: string; permission?: Permission }> = [
   { href: '/dashboard', label: 'Tasks' },
   { href: '/mesh', label: 'Mesh' },
-  { href: '/advanced', label: 'Advanced' },
+  { href: '/assets', label: 'Assets' },
+  { href: '/schedules', label: 'Schedules' },
+  { href: '/audit', label: 'Audit', permission: 'audit:read' },
+  { href: '/advanced', label: 'Advanced', permission: 'advanced:view' },
   { href: '/docs', label: 'Docs' },
 ];
 
@@ -35,12 +39,14 @@ function StatusDot({ active }: { active: boolean }): JSX.Element {
 }
 
 export default function AppShell({ children }: PropsWithChildren<{}>): JSX.Element {
-  const { user, signOut } = useAuth();
+  const { user, signOut, can } = useAuth();
   const { config } = useAppConfig();
   const pathname = usePathname();
   const [mobileOpen, setMobileOpen] = useState(false);
   const appVersion = config?.appVersion ?? APP_VERSION;
 
+  const visibleNavItems = navItems.filter((item) => !item.permission || can(item.permission));
+  const canCreate = can('jobs:create');
   const displayName = user?.displayName ?? user?.username ?? 'Signed out';
   const roleLabel = user ? user.roles.join(', ') || 'No roles' : 'Signed out';
 
@@ -71,7 +77,7 @@ export default function AppShell({ children }: PropsWithChildren<{}>): JSX.Eleme
             </div>
           </div>
           <nav className="hidden items-center gap-2 sm:flex">
-            {navItems.map((item) => (
+            {visibleNavItems.map((item) => (
               <Link
                 key={item.href}
                 href={item.href}
@@ -96,13 +102,13 @@ export default function AppShell({ children }: PropsWithChildren<{}>): JSX.Eleme
                 <p className="text-xs text-slate-400">{roleLabel}</p>
               </div>
               {user && <ProfileMenu onSignOut={signOut} />}
-              {user && (
+              {user && canCreate && (
                 <Button asChild size="sm">
                   <Link href="/dashboard/jobs/new">Create task</Link>
                 </Button>
               )}
             </div>
-            {user && (
+            {user && canCreate && (
               <Button asChild size="sm" className="sm:hidden">
                 <Link href="/dashboard/jobs/new">Create task</Link>
               </Button>
@@ -140,7 +146,7 @@ export default function AppShell({ children }: PropsWithChildren<{}>): JSX.Eleme
           </div>
           {mobileOpen && (
             <div className="absolute left-0 right-0 top-full z-30 mt-2 flex flex-col gap-2 rounded-2xl border border-white/10 bg-slate-950/95 p-4 shadow-lg shadow-black/50 sm:hidden">
-              {navItems.map((item) => (
+              {visibleNavItems.map((item) => (
                 <Link
                   key={item.href}
                   href={item.href}
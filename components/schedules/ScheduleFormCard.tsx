@@ -0,0 +1,198 @@
+'use client';
+
+import { FormEvent, useMemo, useState } from 'react';
+import Card from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import TextArea from '@/components/ui/TextArea';
+import useJobTemplates from '@/lib/hooks/useJobTemplates';
+import type { ScheduleDraft } from '@/lib/hooks/useSchedules';
+import { isValidTimeZone, nextCronRuns, validateCron } from '@/lib/domain/cron';
+import { parseTargetList } from '@/lib/domain/targets';
+
+interface ScheduleFormCardProps {
+  onCreate: (draft: ScheduleDraft) => Promise<void>;
+}
+
+const CRON_PRESETS = [
+  { label: 'Every Monday 02:00', value: '0 2 * * MON' },
+  { label: 'Every day 03:30', value: '30 3 * * *' },
+  { label: 'First of the month 01:00', value: '0 1 1 * *' }
+];
+
+function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export default function ScheduleFormCard({ onCreate }: ScheduleFormCardProps): JSX.Element {
+  const { templates } = useJobTemplates();
+  const [name, setName] = useState('');
+  const [cron, setCron] = useState('0 2 * * MON');
+  const [timezone, setTimezone] = useState(browserTimeZone);
+  const [targets, setTargets] = useState('');
+  const [templateId, setTemplateId] = useState('');
+  const [authorized, setAuthorized] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const cronError = cron.trim() ? validateCron(cron) : 'Cron expression is required.';
+  const timezoneValid = isValidTimeZone(timezone);
+  const targetPreview = useMemo(() => parseTargetList(targets), [targets]);
+  const preview = useMemo(
+    () => (!cronError && timezoneValid ? nextCronRuns(cron, timezone, new Date(), 3) : []),
+    [cron, timezone, cronError, timezoneValid]
+  );
+  const canSubmit =
+    Boolean(name.trim()) &&
+    !cronError &&
+    timezoneValid &&
+    targetPreview.targets.length > 0 &&
+    targetPreview.errors.length === 0 &&
+    authorized;
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!canSubmit) {
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onCreate({
+        name: name.trim(),
+        cron: cron.trim(),
+        timezone,
+        targets,
+        templateId: templateId || undefined,
+        enabled: true,
+        authorized
+      });
+      setName('');
+      setTargets('');
+      setAuthorized(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to create schedule.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card
+      title="New schedule"
+      description="Launch single-pass tasks on a cron schedule. Each run creates new tasks, or a campaign for several targets."
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid gap-3 md:grid-cols-2">
+          <div className="space-y-2">
+            <label htmlFor="schedule-name" className="text-sm font-medium text-slate-200">
+              Name
+            </label>
+            <Input id="schedule-name" placeholder="Weekly DMZ sweep" value={name} onChange={(event) => setName(event.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="schedule-template" className="text-sm font-medium text-slate-200">
+              Task settings
+            </label>
+            <select
+              id="schedule-template"
+              value={templateId}
+              onChange={(event) => setTemplateId(event.target.value)}
+              className="w-full rounded-lg border border-white/15 bg-slate-900/60 px-4 py-3 text-sm text-slate-100 focus:border-brand-primary focus:outline-none"
+            >
+              <option value="">Default settings (ports 1-1024, all features)</option>
+              {templates.map((template) => (
+                <option key={template.id} value={template.id}>
+                  Template: {template.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="schedule-cron" className="text-sm font-medium text-slate-200">
+              Cron expression
+            </label>
+            <Input
+              id="schedule-cron"
+              className="font-mono"
+              placeholder="0 2 * * MON"
+              value={cron}
+              invalid={Boolean(cron.trim()) && Boolean(cronError)}
+              onChange={(event) => setCron(event.target.value)}
+            />
+            <div className="flex flex-wrap gap-2">
+              {CRON_PRESETS.map((preset) => (
+                <button
+                  key={preset.value}
+                  type="button"
+                  onClick={() => setCron(preset.value)}
+                  className="rounded-full border border-white/15 px-3 py-1 text-xs text-slate-300 hover:border-brand-primary hover:text-slate-100"
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+            {cron.trim() && cronError && <p className="text-xs text-[#e23d4b]">{cronError}</p>}
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="schedule-timezone" className="text-sm font-medium text-slate-200">
+              Timezone
+            </label>
+            <Input
+              id="schedule-timezone"
+              placeholder="Europe/Bucharest"
+              value={timezone}
+              invalid={!timezoneValid}
+              onChange={(event) => setTimezone(event.target.value)}
+            />
+            {!timezoneValid && <p className="text-xs text-[#e23d4b]">Use an IANA timezone such as Europe/Bucharest.</p>}
+            {preview.length > 0 && (
+              <p className="text-xs text-slate-400">
+                Next runs:{' '}
+                {preview
+                  .map((date) => date.toLocaleString(undefined, { timeZone: timezone, dateStyle: 'medium', timeStyle: 'short' }))
+                  .join(' · ')}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="schedule-targets" className="text-sm font-medium text-slate-200">
+            Targets
+          </label>
+          <TextArea
+            id="schedule-targets"
+            rows={3}
+            placeholder={'10.0.5.0/28\napi.internal.local'}
+            value={targets}
+            invalid={targetPreview.errors.length > 0}
+            onChange={(event) => setTargets(event.target.value)}
+          />
+          <p className="text-xs text-slate-400">{targetPreview.targets.length} hosts per run.</p>
+          {targetPreview.errors.map((message) => (
+            <p key={message} className="text-xs text-[#e23d4b]">
+              {message}
+            </p>
+          ))}
+        </div>
+
+        <label className="flex items-start gap-3 text-sm text-slate-200">
+          <input
+            type="checkbox"
+            checked={authorized}
+            onChange={(event) => setAuthorized(event.target.checked)}
+            className="mt-0.5 h-4 w-4 rounded border-white/20 bg-slate-900 text-brand-primary focus:ring-brand-primary"
+          />
+          I confirm I am authorized to scan these targets on every scheduled run.
+        </label>
+
+        {error && <p className="text-sm text-rose-200">{error}</p>}
+        <Button type="submit" disabled={submitting || !canSubmit}>
+          {submitting ? 'Creating...' : 'Create schedule'}
+        </Button>
+      </form>
+    </Card>
+  );
+}
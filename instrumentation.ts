@@ -0,0 +1,9 @@
+/**
+ * Next.js server startup hook: runs the schedule loop inside the Node.js server process.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startScheduler } = await import('./lib/services/scheduler');
+    startScheduler();
+  }
+}
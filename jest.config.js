@@ -8,6 +8,8 @@ const customJestConfig = {
   preset: undefined,
   testEnvironment: 'jest-environment-jsdom',
   setupFilesAfterEnv: ['<rootDir>/jest.setup.ts'],
+  // Shared helpers for the suites, not suites themselves
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/__tests__/support/'],
   moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/$1',
     '^.+\\.(css|scss|sass)$': 'identity-obj-proxy'
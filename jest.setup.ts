@@ -4,3 +4,6 @@ if (typeof globalThis.fetch !== 'function') {
   globalThis.fetch = ((..._args: unknown[]) =>
     Promise.reject(new Error('fetch is not implemented. Mock it in your test.'))) as typeof fetch;
 }
+
+// Sessions are refused without a signing secret; route tests sign their own cookies.
+process.env.REDMESH_SESSION_SECRET = 'jest-session-secret-0123456789abcdef';
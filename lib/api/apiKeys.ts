@@ -0,0 +1,166 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { ApiError } from './errors';
+import { ApiKeyScope, ApiKeySummary, CreatedApiKey, UserAccount } from './types';
+import { VerifiedSession, requirePermission } from './session';
+import { readJsonFile, updateJsonFile } from '../storage/jsonStore';
+import { Permission } from '../domain/roles';
+
+/**
+ * API keys for headless automation (CI pipelines launching scans and pulling results).
+ *
+ * Keys look like `rmk_<base64url>` and are sent as `Authorization: Bearer rmk_...`. Only a SHA-256
+ * digest is stored; the plain key is shown once when it is created.
+ */
+
+export const API_KEY_PREFIX = 'rmk_';
+const API_KEYS_FILE = 'api-keys.json';
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['read', 'launch'];
+
+const SCOPE_PERMISSIONS: Record<ApiKeyScope, Permission[]> = {
+  read: ['jobs:read'],
+  launch: ['jobs:read', 'jobs:create']
+};
+
+interface ApiKeyRecord extends ApiKeySummary {
+  hash: string;
+}
+
+interface ApiKeyStore {
+  keys: ApiKeyRecord[];
+}
+
+const EMPTY_STORE: ApiKeyStore = { keys: [] };
+
+function hashApiKey(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function toSummary({ hash: _hash, ...summary }: ApiKeyRecord): ApiKeySummary {
+  return summary;
+}
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && (API_KEY_SCOPES as string[]).includes(value);
+}
+
+export async function listApiKeys(): Promise<ApiKeySummary[]> {
+  const store = await readJsonFile<ApiKeyStore>(API_KEYS_FILE, EMPTY_STORE);
+  return store.keys
+    .map(toSummary)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function createApiKey(input: { name: string; scope: ApiKeyScope; createdBy: string }): Promise<CreatedApiKey> {
+  const name = input.name.trim();
+  if (!name) {
+    throw new ApiError(400, 'API key name is required.');
+  }
+
+  const secret = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const record: ApiKeyRecord = {
+    id: randomUUID(),
+    name,
+    scope: input.scope,
+    prefix: secret.slice(0, API_KEY_PREFIX.length + 6),
+    createdAt: new Date().toISOString(),
+    createdBy: input.createdBy,
+    hash: hashApiKey(secret)
+  };
+
+  await updateJsonFile<ApiKeyStore>(API_KEYS_FILE, EMPTY_STORE, (store) => ({
+    value: { keys: [...store.keys, record] }
+  }));
+
+  return { key: toSummary(record), secret };
+}
+
+export async function revokeApiKey(id: string): Promise<ApiKeySummary> {
+  const revoked = await updateJsonFile<ApiKeyStore, ApiKeyRecord>(API_KEYS_FILE, EMPTY_STORE, (store) => {
+    const existing = store.keys.find((key) => key.id === id);
+    if (!existing) {
+      throw new ApiError(404, 'API key not found.');
+    }
+    const updated = { ...existing, revokedAt: existing.revokedAt ?? new Date().toISOString() };
+    return {
+      value: { keys: store.keys.map((key) => (key.id === id ? updated : key)) },
+      result: updated
+    };
+  });
+
+  return toSummary(revoked as ApiKeyRecord);
+}
+
+/**
+ * Look up an active key by its plain value and stamp its last-used time.
+ * Returns null for unknown or revoked keys.
+ */
+export async function authenticateApiKey(secret: string, now: Date = new Date()): Promise<ApiKeySummary | null> {
+  if (!secret.startsWith(API_KEY_PREFIX)) {
+    return null;
+  }
+
+  const hash = hashApiKey(secret);
+  const store = await readJsonFile<ApiKeyStore>(API_KEYS_FILE, EMPTY_STORE);
+  const record = store.keys.find((key) => key.hash === hash);
+  if (!record || record.revokedAt) {
+    return null;
+  }
+
+  const lastUsed = record.lastUsedAt ? new Date(record.lastUsedAt).getTime() : 0;
+  if (now.getTime() - lastUsed >= LAST_USED_RESOLUTION_MS) {
+    // Coarse resolution keeps a busy pipeline from rewriting the store on every request.
+    record.lastUsedAt = now.toISOString();
+    await updateJsonFile<ApiKeyStore>(API_KEYS_FILE, EMPTY_STORE, (current) => ({
+      value: {
+        keys: current.keys.map((key) => (key.id === record.id ? { ...key, lastUsedAt: record.lastUsedAt } : key))
+      }
+    }));
+  }
+
+  return toSummary(record);
+}
+
+export function readBearerApiKey(request: Request): string | undefined {
+  const header = request.headers.get('authorization');
+  if (!header?.startsWith('Bearer ')) {
+    return undefined;
+  }
+  const value = header.slice('Bearer '.length).trim();
+  return value.startsWith(API_KEY_PREFIX) ? value : undefined;
+}
+
+function toApiKeyUser(key: ApiKeySummary): UserAccount {
+  return {
+    id: `apikey:${key.id}`,
+    username: `apikey:${key.name}`,
+    displayName: `${key.name} (API key)`,
+    roles: [],
+    permissions: SCOPE_PERMISSIONS[key.scope]
+  };
+}
+
+/**
+ * Like `requirePermission`, but also accepts `Authorization: Bearer rmk_...`.
+ * Use only on routes that are meant to be automated; the key's scope decides what it may do.
+ */
+export async function requirePermissionOrApiKey(
+  request: Request,
+  permission: Permission
+): Promise<Pick<VerifiedSession, 'user'>> {
+  const secret = readBearerApiKey(request);
+  if (!secret) {
+    return requirePermission(request, permission);
+  }
+
+  const key = await authenticateApiKey(secret);
+  if (!key) {
+    throw new ApiError(401, 'Invalid or revoked API key.');
+  }
+  if (!SCOPE_PERMISSIONS[key.scope].includes(permission)) {
+    throw new ApiError(403, `API key scope "${key.scope}" does not allow this action.`);
+  }
+
+  return { user: toApiKeyUser(key) };
+}
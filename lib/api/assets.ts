@@ -0,0 +1,166 @@
+import { ApiError } from './errors';
+import { fetchJobsWithReports } from './jobs';
+import {
+  AssetHost,
+  AssetInventoryPage,
+  TechInstall,
+  TechInventoryPage,
+  TechVersionChange,
+  TlsCertificate,
+  TlsCertificatePage,
+} from './types';
+import { collectAssetFacts, matchesAssetQuery, mergeAssetFacts, normalizeAssetHost, summarizeAssetHost } from '../domain/assets';
+import {
+  collectCertificateFacts,
+  compareByExpiry,
+  mergeCertificateFacts,
+  summarizeCertificate,
+} from '../domain/certificates';
+import { collectTechFacts, matchesTechQuery, mergeTechFacts, parseTechQuery, techDistribution } from '../domain/techStack';
+import { readJsonFile, updateJsonFile } from '../storage/jsonStore';
+import { createLogger } from '../services/logger';
+
+/**
+ * Persistent asset inventory built from every job's reports. Ingesting merges into what is
+ * already stored, so hosts keep their history after the jobs that found them are purged.
+ */
+
+const INVENTORY_FILE = 'asset-inventory.json';
+const CERTIFICATES_FILE = 'tls-certificates.json';
+const TECH_FILE = 'tech-inventory.json';
+
+/** Reads older than this trigger a fresh ingest of the mesh's jobs. */
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+interface InventoryStore {
+  ingestedAt: string | null;
+  hosts: Record<string, AssetHost>;
+}
+
+interface CertificateStore {
+  certificates: Record<string, TlsCertificate>;
+}
+
+interface TechStore {
+  hosts: Record<string, { installs: TechInstall[]; changes: TechVersionChange[] }>;
+}
+
+const EMPTY_STORE: InventoryStore = { ingestedAt: null, hosts: {} };
+const EMPTY_CERTIFICATES: CertificateStore = { certificates: {} };
+const EMPTY_TECH: TechStore = { hosts: {} };
+
+const assetsLogger = createLogger('Assets');
+
+/**
+ * Fetch every job with its pass reports and merge the observed hosts, ports, services,
+ * TLS certificates and technology versions into the stored inventory.
+ */
+export async function ingestAssetInventory(authToken?: string): Promise<InventoryStore> {
+  const { jobs, reports } = await fetchJobsWithReports(authToken);
+  const facts = collectAssetFacts(jobs, reports);
+  const certificateFacts = collectCertificateFacts(jobs, reports);
+  const techFacts = collectTechFacts(jobs, reports);
+  assetsLogger.debug(
+    `Ingesting ${facts.length} port observations, ${certificateFacts.length} certificates and ${techFacts.length} technologies from ${jobs.length} jobs`
+  );
+
+  await updateJsonFile<CertificateStore, void>(CERTIFICATES_FILE, EMPTY_CERTIFICATES, (current) => ({
+    value: { certificates: mergeCertificateFacts(current.certificates, certificateFacts) },
+    result: undefined,
+  }));
+  await updateJsonFile<TechStore, void>(TECH_FILE, EMPTY_TECH, (current) => ({
+    value: { hosts: mergeTechFacts(current.hosts, techFacts) },
+    result: undefined,
+  }));
+
+  const store = await updateJsonFile<InventoryStore, InventoryStore>(INVENTORY_FILE, EMPTY_STORE, (current) => {
+    const next = { ingestedAt: new Date().toISOString(), hosts: mergeAssetFacts(current.hosts, facts) };
+    return { value: next, result: next };
+  });
+  return store as InventoryStore;
+}
+
+async function loadInventory(options: { refresh?: boolean; authToken?: string }): Promise<InventoryStore> {
+  const store = await readJsonFile<InventoryStore>(INVENTORY_FILE, EMPTY_STORE);
+  const stale = !store.ingestedAt || Date.now() - new Date(store.ingestedAt).getTime() > REFRESH_INTERVAL_MS;
+  if (!options.refresh && !stale) {
+    return store;
+  }
+
+  try {
+    return await ingestAssetInventory(options.authToken);
+  } catch (error) {
+    // Serve what we have when the mesh is unreachable; only a forced refresh reports the failure
+    if (options.refresh || !store.ingestedAt) {
+      throw error;
+    }
+    assetsLogger.warn('Ingest failed, serving the stored inventory', error instanceof Error ? error.message : error);
+    return store;
+  }
+}
+
+export async function listAssetHosts(
+  options: { query?: string; refresh?: boolean; authToken?: string } = {}
+): Promise<AssetInventoryPage> {
+  const store = await loadInventory(options);
+  const hosts = Object.values(store.hosts)
+    .filter((host) => matchesAssetQuery(host, options.query ?? ''))
+    .sort((a, b) => b.lastSeen.localeCompare(a.lastSeen) || a.host.localeCompare(b.host))
+    .map(summarizeAssetHost);
+  return { ingestedAt: store.ingestedAt, hosts };
+}
+
+export async function getAssetHost(host: string, options: { authToken?: string } = {}): Promise<AssetHost> {
+  const store = await loadInventory(options);
+  const entry = store.hosts[normalizeAssetHost(host)];
+  if (!entry) {
+    throw new ApiError(404, 'Host not found in the asset inventory.');
+  }
+  return entry;
+}
+
+/**
+ * Every certificate seen on any host, soonest expiry first. `expiringWithin` keeps only
+ * certificates expiring within that many days, including already expired ones.
+ */
+export async function listTlsCertificates(
+  options: { expiringWithin?: number; refresh?: boolean; authToken?: string } = {}
+): Promise<TlsCertificatePage> {
+  const store = await loadInventory(options);
+  const { certificates } = await readJsonFile<CertificateStore>(CERTIFICATES_FILE, EMPTY_CERTIFICATES);
+  const now = new Date();
+  const { expiringWithin } = options;
+  const summaries = Object.values(certificates)
+    .map((certificate) => summarizeCertificate(certificate, now))
+    .filter(
+      (certificate) =>
+        expiringWithin === undefined || (certificate.daysToExpiry !== null && certificate.daysToExpiry <= expiringWithin)
+    )
+    .sort(compareByExpiry);
+  return { ingestedAt: store.ingestedAt, certificates: summaries };
+}
+
+/**
+ * Products and versions running on every scanned host. `query` is either text matched against
+ * host, product and version, or a version constraint such as `OpenSSH < 8.0`; the distribution
+ * and version changes cover the matching installs.
+ */
+export async function listTechInventory(
+  options: { query?: string; refresh?: boolean; authToken?: string } = {}
+): Promise<TechInventoryPage> {
+  const store = await loadInventory(options);
+  const { hosts } = await readJsonFile<TechStore>(TECH_FILE, EMPTY_TECH);
+  const query = parseTechQuery(options.query ?? '');
+
+  const installs = Object.values(hosts)
+    .flatMap((entry) => entry.installs)
+    .filter((install) => matchesTechQuery(install, query))
+    .sort((a, b) => a.product.localeCompare(b.product) || a.host.localeCompare(b.host) || a.port - b.port);
+  const matched = new Set(installs.map((install) => `${install.host}|${install.port}|${install.product}`));
+  const changes = Object.values(hosts)
+    .flatMap((entry) => entry.changes)
+    .filter((change) => matched.has(`${change.host}|${change.port}|${change.product}`))
+    .sort((a, b) => b.observation.observedAt.localeCompare(a.observation.observedAt));
+
+  return { ingestedAt: store.ingestedAt, query: query.text, installs, distribution: techDistribution(installs), changes };
+}
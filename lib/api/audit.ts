@@ -0,0 +1,108 @@
+import { randomUUID } from 'crypto';
+import { AuditAction, AuditActor, AuditEntry, AuditOutcome, AuditPage, UserAccount } from './types';
+import { appendJsonLine, readJsonLines } from '../storage/jsonStore';
+import { createLogger } from '../services/logger';
+
+const AUDIT_LOG_FILE = 'audit.log.jsonl';
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+const auditLogger = createLogger('Audit');
+
+export interface RecordAuditEventInput {
+  action: AuditAction;
+  outcome: AuditOutcome;
+  user: UserAccount;
+  jobId?: string;
+  target?: string;
+  payload?: Record<string, unknown>;
+  message?: string;
+}
+
+export interface AuditQuery {
+  page?: number;
+  pageSize?: number;
+  action?: AuditAction;
+  username?: string;
+  jobId?: string;
+  from?: string;
+  to?: string;
+}
+
+function toActor(user: UserAccount): AuditActor {
+  return {
+    id: user.id,
+    username: user.username,
+    displayName: user.displayName
+  };
+}
+
+/**
+ * Append an entry to the audit log.
+ * Failures are logged rather than thrown so a full disk never blocks stopping a scan.
+ */
+export async function recordAuditEvent(input: RecordAuditEventInput): Promise<AuditEntry> {
+  const entry: AuditEntry = {
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    action: input.action,
+    outcome: input.outcome,
+    actor: toActor(input.user),
+    jobId: input.jobId,
+    target: input.target,
+    payload: input.payload,
+    message: input.message
+  };
+
+  try {
+    await appendJsonLine(AUDIT_LOG_FILE, entry);
+  } catch (error) {
+    auditLogger.error('Failed to write audit entry', {
+      entry,
+      error: error instanceof Error ? error.message : error
+    });
+  }
+
+  return entry;
+}
+
+function matchesQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  if (query.action && entry.action !== query.action) {
+    return false;
+  }
+  if (query.username && entry.actor.username.toLowerCase() !== query.username.toLowerCase()) {
+    return false;
+  }
+  if (query.jobId && entry.jobId !== query.jobId) {
+    return false;
+  }
+
+  const timestamp = new Date(entry.timestamp).getTime();
+  if (query.from && timestamp < new Date(query.from).getTime()) {
+    return false;
+  }
+  if (query.to && timestamp > new Date(query.to).getTime()) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Read one page of audit entries, newest first.
+ */
+export async function listAuditEvents(query: AuditQuery = {}): Promise<AuditPage> {
+  const pageSize = Math.min(Math.max(Math.floor(query.pageSize ?? DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+  const page = Math.max(Math.floor(query.page ?? 1), 1);
+
+  const entries = (await readJsonLines<AuditEntry>(AUDIT_LOG_FILE))
+    .filter((entry) => matchesQuery(entry, query))
+    .reverse();
+
+  return {
+    entries: entries.slice((page - 1) * pageSize, page * pageSize),
+    total: entries.length,
+    page,
+    pageSize
+  };
+}
@@ -1,6 +1,7 @@
-import { authenticateMockUser } from './mockData';
+import { authenticateMockUser, findMockUser } from './mockData';
 import { ApiError, ensure } from './errors';
-import { AuthSuccess } from './types';
+import { AuthSuccess, UserAccount } from './types';
+import { authenticateLocalUser, findLocalUser } from './users';
 import { getAppConfig } from '../config/env';
 
 interface RemoteAuthPayload {
@@ -14,25 +15,32 @@ interface RemoteAuthPayload {
   sessionToken?: string;
 }
 
+function envAdminAccount(username: string): UserAccount {
+  return {
+    id: username,
+    username,
+    displayName: 'RedMesh Admin',
+    roles: ['admin']
+  };
+}
+
 export async function authenticateUser(
   username: string,
   password: string
 ): Promise<AuthSuccess> {
   const config = getAppConfig();
 
+  // Users listed in the local user directory take precedence over every other path.
+  const localUser = await authenticateLocalUser(username, password);
+  if (localUser) {
+    return { user: localUser, token: 'local-directory-session' };
+  }
+
   if (config.mockMode || config.forceMockAuth) {
     const envAdminUser = config.adminUsername || 'admin';
     const envAdminPassword = config.adminPassword || 'admin123';
     if (username === envAdminUser && password === envAdminPassword) {
-      return {
-        user: {
-          id: envAdminUser,
-          username: envAdminUser,
-          displayName: 'RedMesh Admin',
-          roles: ['admin']
-        },
-        token: 'mock-admin-session'
-      };
+      return { user: envAdminAccount(envAdminUser), token: 'mock-admin-session' };
     }
     return authenticateMockUser(username, password);
   }
@@ -43,15 +51,7 @@ export async function authenticateUser(
       throw new ApiError(401, 'Password does not match.');
     }
 
-    return {
-      user: {
-        id: 'admin',
-        username: 'admin',
-        displayName: 'RedMesh Admin',
-        roles: ['admin']
-      },
-      token: 'local-admin-session'
-    };
+    return { user: envAdminAccount('admin'), token: 'local-admin-session' };
   }
 
   if (!config.chainstoreApiUrl) {
@@ -95,3 +95,29 @@ export async function authenticateUser(
     token
   };
 }
+
+/**
+ * Look a signed-in user up again by username, following the same precedence as `authenticateUser`,
+ * so disabled accounts and role changes take effect when the session is refreshed.
+ * Returns null for disabled or unknown users. ChainStore accounts cannot be looked up without a
+ * password, so they sign in again once their session expires.
+ */
+export async function resolveSessionUser(username: string): Promise<UserAccount | null> {
+  const config = getAppConfig();
+
+  const localUser = await findLocalUser(username);
+  if (localUser !== undefined) {
+    return localUser;
+  }
+
+  if (config.mockMode || config.forceMockAuth) {
+    const envAdminUser = config.adminUsername || 'admin';
+    return username === envAdminUser ? envAdminAccount(envAdminUser) : findMockUser(username);
+  }
+
+  if (config.redmeshPassword?.trim() && username === 'admin') {
+    return envAdminAccount('admin');
+  }
+
+  return null;
+}
@@ -0,0 +1,141 @@
+import { rm } from 'fs/promises';
+import { ApiError } from './errors';
+import { ArchivedBundleInfo } from './types';
+import { readJsonFile, resolveDataPath, updateJsonFile } from '../storage/jsonStore';
+import { JobBundle, verifyJobBundle } from '../export/bundle';
+import { JobWithReports, fetchJobWithReports } from './jobs';
+
+/**
+ * Imported job bundles, kept under REDMESH_DATA_DIR so a job can still be opened on the job
+ * detail page after it was purged from the mesh. Live jobs always take precedence.
+ */
+
+const BUNDLE_DIR = 'job-bundles';
+const INDEX_FILE = 'job-bundles.json';
+
+/** Job ids become file names; anything outside this set is refused. */
+const SAFE_JOB_ID = /^[A-Za-z0-9_-][A-Za-z0-9_.-]{0,127}$/;
+
+interface StoredBundle {
+  importedAt: string;
+  importedBy: string;
+  bundle: JobBundle;
+}
+
+interface BundleIndex {
+  bundles: ArchivedBundleInfo[];
+}
+
+const EMPTY_INDEX: BundleIndex = { bundles: [] };
+
+function bundleFile(jobId: string): string {
+  if (!SAFE_JOB_ID.test(jobId)) {
+    throw new ApiError(400, 'Bundle job id contains unsupported characters.');
+  }
+  return `${BUNDLE_DIR}/${jobId}.json`;
+}
+
+/**
+ * Verify and store a bundle, replacing an earlier import of the same job.
+ */
+export async function importJobBundle(body: unknown, importedBy: string): Promise<ArchivedBundleInfo> {
+  const problems = verifyJobBundle(body);
+  if (problems.length > 0) {
+    throw new ApiError(400, `Invalid job bundle: ${problems.join(' ')}`);
+  }
+
+  const bundle = body as JobBundle;
+  const file = bundleFile(bundle.job.id);
+  const info: ArchivedBundleInfo = {
+    jobId: bundle.job.id,
+    displayName: bundle.job.displayName,
+    target: bundle.job.target,
+    exportedAt: bundle.exportedAt,
+    exportedBy: bundle.exportedBy,
+    importedAt: new Date().toISOString(),
+    importedBy
+  };
+
+  await updateJsonFile<StoredBundle | null>(file, null, () => ({
+    value: { importedAt: info.importedAt, importedBy, bundle }
+  }));
+  await updateJsonFile<BundleIndex>(INDEX_FILE, EMPTY_INDEX, (index) => ({
+    value: { bundles: [...index.bundles.filter((entry) => entry.jobId !== info.jobId), info] }
+  }));
+
+  return info;
+}
+
+/** Imported bundles, most recently imported first. */
+export async function listJobBundles(): Promise<ArchivedBundleInfo[]> {
+  const index = await readJsonFile<BundleIndex>(INDEX_FILE, EMPTY_INDEX);
+  return [...index.bundles].sort((a, b) => b.importedAt.localeCompare(a.importedAt));
+}
+
+export async function deleteJobBundle(jobId: string): Promise<void> {
+  const file = bundleFile(jobId);
+  await updateJsonFile<BundleIndex>(INDEX_FILE, EMPTY_INDEX, (index) => {
+    if (!index.bundles.some((entry) => entry.jobId === jobId)) {
+      throw new ApiError(404, 'Job bundle not found.');
+    }
+    return { value: { bundles: index.bundles.filter((entry) => entry.jobId !== jobId) } };
+  });
+  await rm(resolveDataPath(file), { force: true });
+}
+
+export interface ArchivedJobWithReports extends JobWithReports {
+  /** Set when the job was served from an imported bundle because the mesh no longer has it */
+  archived?: ArchivedBundleInfo;
+}
+
+/**
+ * The archived copy of a job in the shape fetchJobWithReports returns, or null when no bundle
+ * was imported for it.
+ */
+export async function loadArchivedJob(jobId: string): Promise<ArchivedJobWithReports | null> {
+  if (!SAFE_JOB_ID.test(jobId)) {
+    return null;
+  }
+
+  const stored = await readJsonFile<StoredBundle | null>(bundleFile(jobId), null);
+  if (!stored?.bundle) {
+    return null;
+  }
+
+  const { bundle } = stored;
+  const reports: Record<string, Record<string, unknown>> = {};
+  Object.values(bundle.reports).forEach((byNode) => {
+    Object.values(byNode).forEach(({ cid, report }) => {
+      reports[cid] = report;
+    });
+  });
+
+  const byPass = (analyses: JobBundle['llmAnalyses']) =>
+    Object.fromEntries(Object.entries(analyses).map(([pass, entry]) => [Number(pass), entry.analysis]));
+
+  return {
+    job: bundle.job,
+    reports,
+    llmAnalyses: byPass(bundle.llmAnalyses),
+    quickSummaries: byPass(bundle.quickSummaries),
+    archived: {
+      jobId: bundle.job.id,
+      displayName: bundle.job.displayName,
+      target: bundle.job.target,
+      exportedAt: bundle.exportedAt,
+      exportedBy: bundle.exportedBy,
+      importedAt: stored.importedAt,
+      importedBy: stored.importedBy
+    }
+  };
+}
+
+/**
+ * Fetch a job with its reports from the mesh, falling back to an imported bundle when the mesh
+ * does not know the job (e.g. after a purge). Lives here rather than in ./jobs because client
+ * components import that module and this one reads the data directory.
+ */
+export async function fetchJobOrArchive(jobId: string): Promise<ArchivedJobWithReports | null> {
+  const live = await fetchJobWithReports(jobId);
+  return live ?? (await loadArchivedJob(jobId));
+}
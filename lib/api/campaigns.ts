@@ -0,0 +1,176 @@
+import { randomUUID } from 'crypto';
+import { ApiError } from './errors';
+import { computeJobCompletion, createJob, fetchJobWithReports, fetchJobs } from './jobs';
+import {
+  Campaign,
+  CampaignDetail,
+  CampaignFinding,
+  CampaignJobRef,
+  CampaignProgress,
+  CampaignSummary,
+  CreateJobInput,
+  Job
+} from './types';
+import { readJsonFile, updateJsonFile } from '../storage/jsonStore';
+import { aggregatePorts, extractFindings } from '../domain/findings';
+import { filterSuppressedFindings } from '../domain/suppressions';
+import { listSuppressionRules } from './suppressions';
+import { createLogger } from '../services/logger';
+
+const CAMPAIGNS_FILE = 'campaigns.json';
+const campaignLogger = createLogger('Campaigns');
+
+interface CampaignStore {
+  campaigns: Campaign[];
+}
+
+const EMPTY_STORE: CampaignStore = { campaigns: [] };
+
+export interface LaunchCampaignResult {
+  campaign: Campaign;
+  jobs: Job[];
+}
+
+/**
+ * Launch one job per host, sequentially, and record them under a new campaign id.
+ * A failed launch is kept on the campaign with its error rather than aborting the rest.
+ */
+export async function launchCampaign(
+  base: CreateJobInput,
+  targets: string[],
+  options: { authToken?: string; targetSpec: string; createdBy: string }
+): Promise<LaunchCampaignResult> {
+  if (targets.length === 0) {
+    throw new ApiError(400, 'Target list did not contain any hosts.');
+  }
+
+  const refs: CampaignJobRef[] = [];
+  const jobs: Job[] = [];
+
+  for (const target of targets) {
+    try {
+      const job = await createJob(
+        { ...base, target, name: `${base.name} (${target})` },
+        { authToken: options.authToken }
+      );
+      refs.push({ target, jobId: job.id });
+      jobs.push(job);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unable to create task.';
+      campaignLogger.warn(`Launch failed for ${target}`, message);
+      refs.push({ target, error: message });
+    }
+  }
+
+  const campaign: Campaign = {
+    id: randomUUID(),
+    name: base.name,
+    summary: base.summary,
+    targetSpec: options.targetSpec,
+    createdAt: new Date().toISOString(),
+    createdBy: options.createdBy,
+    jobs: refs
+  };
+
+  await updateJsonFile<CampaignStore>(CAMPAIGNS_FILE, EMPTY_STORE, (store) => ({
+    value: { campaigns: [campaign, ...store.campaigns] }
+  }));
+
+  return { campaign, jobs };
+}
+
+export function computeCampaignProgress(campaign: Campaign, jobs: Job[]): CampaignProgress {
+  const byId = new Map(jobs.map((job) => [job.id, job]));
+  const progress: CampaignProgress = {
+    total: campaign.jobs.length,
+    running: 0,
+    completed: 0,
+    stopped: 0,
+    failed: 0,
+    percent: 0
+  };
+
+  let completionSum = 0;
+  let tracked = 0;
+  campaign.jobs.forEach((ref) => {
+    const job = ref.jobId ? byId.get(ref.jobId) : undefined;
+    if (!job) {
+      // Launch failures and jobs purged from the network
+      if (ref.error) {
+        progress.failed += 1;
+      }
+      return;
+    }
+    tracked += 1;
+    completionSum += computeJobCompletion(job);
+    if (job.status === 'completed') {
+      progress.completed += 1;
+    } else if (job.status === 'stopped') {
+      progress.stopped += 1;
+    } else {
+      progress.running += 1;
+    }
+  });
+
+  progress.percent = tracked ? Math.round(completionSum / tracked) : 0;
+  return progress;
+}
+
+async function readCampaigns(): Promise<Campaign[]> {
+  const store = await readJsonFile<CampaignStore>(CAMPAIGNS_FILE, EMPTY_STORE);
+  return store.campaigns;
+}
+
+/**
+ * List campaigns, newest first, with progress computed from the current job list.
+ */
+export async function listCampaigns(authToken?: string): Promise<CampaignSummary[]> {
+  const campaigns = await readCampaigns();
+  if (campaigns.length === 0) {
+    return [];
+  }
+  const jobs = await fetchJobs(authToken);
+  return campaigns.map((campaign) => ({ ...campaign, progress: computeCampaignProgress(campaign, jobs) }));
+}
+
+/**
+ * Load a campaign with its jobs and the findings of every job combined, minus suppressed ones.
+ */
+export async function getCampaign(campaignId: string, authToken?: string): Promise<CampaignDetail> {
+  const campaign = (await readCampaigns()).find((entry) => entry.id === campaignId);
+  if (!campaign) {
+    throw new ApiError(404, 'Campaign not found.');
+  }
+
+  const allJobs = await fetchJobs(authToken);
+  const jobIds = new Set(campaign.jobs.map((ref) => ref.jobId).filter(Boolean));
+  const jobs = allJobs.filter((job) => jobIds.has(job.id));
+
+  const rules = await listSuppressionRules();
+  const findings: CampaignFinding[] = [];
+  let suppressedFindings = 0;
+  for (const job of jobs) {
+    try {
+      const detail = await fetchJobWithReports(job.id);
+      if (!detail) {
+        continue;
+      }
+      const aggregated = aggregatePorts(detail.reports, { workers: detail.workerResults ?? detail.job.workers });
+      const all = extractFindings(aggregated);
+      const visible = filterSuppressedFindings(all, job.target, rules);
+      suppressedFindings += all.length - visible.length;
+      visible.forEach((finding) => {
+        findings.push({ ...finding, jobId: job.id, target: job.target });
+      });
+    } catch (error) {
+      campaignLogger.warn(`Unable to load findings for job ${job.id}`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return {
+    campaign: { ...campaign, progress: computeCampaignProgress(campaign, allJobs) },
+    jobs,
+    findings,
+    suppressedFindings
+  };
+}
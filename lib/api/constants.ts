@@ -1,4 +1,4 @@
-import type { JobRunMode, JobDuration, JobStatus } from './types';
+import type { JobRunMode, JobDuration, JobStatus, ReportProfileFields } from './types';
 
 export const RUN_MODE = {
   SINGLEPASS: 'singlepass' as JobRunMode,
@@ -16,3 +16,15 @@ export const JOB_STATUS = {
   STOPPED: 'stopped' as JobStatus,
   COMPLETED: 'completed' as JobStatus,
 };
+
+/** Stock RedMesh look, used when no report profile is picked and for fields a profile leaves out. */
+export const DEFAULT_REPORT_PROFILE_FIELDS: ReportProfileFields = {
+  primaryColor: '#d62828',
+  secondaryColor: '#475569',
+  sections: {
+    timeline: true,
+    llmAnalysis: true,
+    workerActivity: true,
+    rawEvidence: true,
+  },
+};
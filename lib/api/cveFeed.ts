@@ -0,0 +1,150 @@
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { gunzipSync } from 'zlib';
+import { ApiError } from './errors';
+import { CveFeedStatus, CveMatch, CveMatchItem } from './types';
+import { getAppConfig } from '../config/env';
+import type { AggregatedPortsData } from '../domain/findings';
+import {
+  CveIndex,
+  CveRecord,
+  attachCveFindings,
+  buildCveLookup,
+  cveMatchItems,
+  isCpeDictionary,
+  isNvdFeed,
+  matchCves,
+  parseCpeDictionary,
+  parseNvdFeed,
+} from '../domain/cves';
+import { readJsonFile, updateJsonFile } from '../storage/jsonStore';
+import { createLogger } from '../services/logger';
+
+/**
+ * Locally imported vulnerability feed. NVD JSON feeds and CPE dictionaries dropped into the feed
+ * directory are reduced to a CPE range index on import; matching never touches the network.
+ */
+
+const INDEX_FILE = 'cve-index.json';
+const STATUS_FILE = 'cve-feed.json';
+
+/** Matching requests larger than this are rejected. */
+const MAX_MATCH_ITEMS = 500;
+
+type StoredStatus = Omit<CveFeedStatus, 'feedDir'>;
+
+const EMPTY_STATUS: StoredStatus = { importedAt: null, sourceFiles: [], cveCount: 0, aliasCount: 0 };
+const EMPTY_INDEX: CveIndex = { cves: [], aliases: {} };
+
+const cveLogger = createLogger('CveFeed');
+
+let cachedIndex: { importedAt: string; lookup: Map<string, CveRecord[]>; aliases: Record<string, string[]> } | null = null;
+
+function isMissingFile(error: unknown): boolean {
+  return (error as { code?: string })?.code === 'ENOENT';
+}
+
+async function readFeedFile(filePath: string): Promise<unknown> {
+  const raw = await readFile(filePath);
+  const text = filePath.endsWith('.gz') ? gunzipSync(raw).toString('utf8') : raw.toString('utf8');
+  return JSON.parse(text);
+}
+
+export async function getCveFeedStatus(): Promise<CveFeedStatus> {
+  const status = await readJsonFile<StoredStatus>(STATUS_FILE, EMPTY_STATUS);
+  return { ...status, feedDir: getAppConfig().cveFeedDir };
+}
+
+/**
+ * Rebuild the CVE index from every `.json` / `.json.gz` file in the feed directory. Files that are
+ * neither an NVD CVE feed (1.1 or API 2.0) nor a CPE dictionary are skipped.
+ */
+export async function importCveFeed(importedBy?: string): Promise<CveFeedStatus> {
+  const feedDir = getAppConfig().cveFeedDir;
+  let entries: string[];
+  try {
+    entries = await readdir(feedDir);
+  } catch (error) {
+    if (isMissingFile(error)) {
+      throw new ApiError(404, `CVE feed directory ${feedDir} does not exist.`);
+    }
+    throw error;
+  }
+
+  const cves = new Map<string, CveRecord>();
+  const aliases: Record<string, string[]> = {};
+  const sourceFiles: string[] = [];
+
+  for (const fileName of entries.filter((entry) => /\.json(\.gz)?$/i.test(entry)).sort()) {
+    let document: unknown;
+    try {
+      document = await readFeedFile(path.join(feedDir, fileName));
+    } catch (error) {
+      throw new ApiError(400, `Unable to read ${fileName}: ${error instanceof Error ? error.message : 'invalid JSON'}`);
+    }
+
+    if (isNvdFeed(document)) {
+      // Later files win, so a "modified" feed overrides the yearly ones it sorts after
+      parseNvdFeed(document).forEach((record) => cves.set(record.id, record));
+      sourceFiles.push(fileName);
+    } else if (isCpeDictionary(document)) {
+      Object.entries(parseCpeDictionary(document)).forEach(([name, targets]) => {
+        aliases[name] = Array.from(new Set([...(aliases[name] ?? []), ...targets]));
+      });
+      sourceFiles.push(fileName);
+    } else {
+      cveLogger.warn(`Skipping ${fileName}: not an NVD CVE feed or CPE dictionary`);
+    }
+  }
+
+  if (sourceFiles.length === 0) {
+    throw new ApiError(400, `No NVD JSON feed files were found in ${feedDir}.`);
+  }
+
+  const index: CveIndex = { cves: Array.from(cves.values()), aliases };
+  await updateJsonFile<CveIndex>(INDEX_FILE, EMPTY_INDEX, () => ({ value: index }));
+
+  const status: StoredStatus = {
+    importedAt: new Date().toISOString(),
+    ...(importedBy ? { importedBy } : {}),
+    sourceFiles,
+    cveCount: index.cves.length,
+    aliasCount: Object.keys(aliases).length,
+  };
+  await updateJsonFile<StoredStatus>(STATUS_FILE, EMPTY_STATUS, () => ({ value: status }));
+  cachedIndex = null;
+  cveLogger.info(`Imported ${status.cveCount} CVEs from ${sourceFiles.length} files`);
+
+  return { ...status, feedDir };
+}
+
+async function loadLookup(importedAt: string) {
+  if (cachedIndex?.importedAt !== importedAt) {
+    const index = await readJsonFile<CveIndex>(INDEX_FILE, EMPTY_INDEX);
+    cachedIndex = { importedAt, lookup: buildCveLookup(index.cves), aliases: index.aliases };
+  }
+  return cachedIndex;
+}
+
+/** Match detected product versions against the imported feed; empty until a feed is imported. */
+export async function matchCveItems(items: CveMatchItem[]): Promise<{ importedAt: string | null; matches: CveMatch[] }> {
+  if (items.length > MAX_MATCH_ITEMS) {
+    throw new ApiError(400, `At most ${MAX_MATCH_ITEMS} products can be matched per request.`);
+  }
+  const status = await readJsonFile<StoredStatus>(STATUS_FILE, EMPTY_STATUS);
+  if (!status.importedAt) {
+    return { importedAt: null, matches: [] };
+  }
+  const { lookup, aliases } = await loadLookup(status.importedAt);
+  return { importedAt: status.importedAt, matches: matchCves(lookup, aliases, items) };
+}
+
+/** `aggregated` with its matched CVEs attached as `_cve_match` findings, for server-side exports. */
+export async function attachMatchedCves(aggregated: AggregatedPortsData): Promise<AggregatedPortsData> {
+  const items = cveMatchItems(aggregated).slice(0, MAX_MATCH_ITEMS);
+  if (items.length === 0) {
+    return aggregated;
+  }
+  const { matches } = await matchCveItems(items);
+  return attachCveFindings(aggregated, matches);
+}
@@ -0,0 +1,49 @@
+import type { FindingTriage, Job, WorkerReport } from './types';
+import { ArchivedJobWithReports, fetchJobOrArchive } from './bundles';
+import { attachMatchedCves } from './cveFeed';
+import { listFindingTriage } from './triage';
+import { FlatFinding, aggregatePorts, extractFindings, reopenRegressions } from '../domain/findings';
+import { applyCvssVectors } from '../domain/cvssVectors';
+import { SourceFindings, reportSources } from '../export/tabular';
+
+export interface JobFindings extends ArchivedJobWithReports {
+  /** Triage records for the target, with regressions reopened */
+  triage: FindingTriage[];
+  /** Aggregated findings with CVE matches attached and analyst CVSS vectors applied */
+  findings: FlatFinding[];
+}
+
+/**
+ * Load a job (live or archived) with the findings every export and push works from, so the
+ * formats cannot drift apart. Returns null when the job is unknown.
+ */
+export async function loadJobFindings(jobId: string): Promise<JobFindings | null> {
+  const result = await fetchJobOrArchive(jobId);
+  if (!result) {
+    return null;
+  }
+
+  const { job, reports } = result;
+  const detected = await attachMatchedCves(aggregatePorts(reports, job));
+  const triage = reopenRegressions(await listFindingTriage({ target: job.target }), job, extractFindings(detected));
+  const findings = extractFindings(applyCvssVectors(detected, job.target, triage));
+
+  return { ...result, triage, findings };
+}
+
+/**
+ * The findings of every worker report, per pass and node, for the spreadsheet exports. Each
+ * report gets the same CVE matching and analyst CVSS vectors as the aggregated list.
+ */
+export async function loadSourceFindings(
+  job: Job,
+  reports: Record<string, WorkerReport | Record<string, unknown>>,
+  triage: FindingTriage[]
+): Promise<SourceFindings[]> {
+  const sources: SourceFindings[] = [];
+  for (const { pass, worker, report } of reportSources(job, reports)) {
+    const detected = await attachMatchedCves(aggregatePorts({ [worker]: report }, null));
+    sources.push({ pass, worker, findings: extractFindings(applyCvssVectors(detected, job.target, triage)) });
+  }
+  return sources;
+}
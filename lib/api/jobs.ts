@@ -570,6 +570,21 @@ function createJobInputToLaunchRequest(input: CreateJobInput): LaunchTestRequest
   };
 }
 
+/**
+ * Completion percentage for a job: finished jobs are 100, running jobs average their workers.
+ */
+export function computeJobCompletion(job: Job): number {
+  if (job.status === 'completed' || job.status === 'stopped') {
+    return 100;
+  }
+  // 'running' and 'stopping' - calculate from worker progress
+  if (job.workers.length) {
+    const avg = job.workers.reduce((acc, worker) => acc + (worker.progress ?? 0), 0) / job.workers.length;
+    return Math.min(100, Math.max(0, Math.round(avg)));
+  }
+  return 0;
+}
+
 export async function fetchJobs(authToken?: string): Promise<Job[]> {
   const config = getAppConfig();
 
@@ -715,12 +730,7 @@ function extractQuickSummaryCidsFromJob(job: Job): Record<number, string> {
   return cids;
 }
 
-/**
- * Fetch a single job with its report content from R1FS.
- * Uses get_job_data as the primary endpoint for job specs and pass_history.
- * Falls back to get_job_status for real-time worker data (service_info, web_tests_info).
- */
-export async function fetchJobWithReports(jobId: string): Promise<{
+export interface JobWithReports {
   job: Job;
   reports: Record<string, Record<string, unknown>>;
   /** Worker-level detailed scan results from get_job_status (for completed jobs) */
@@ -729,7 +739,14 @@ export async function fetchJobWithReports(jobId: string): Promise<{
   llmAnalyses?: Record<number, Record<string, unknown>>;
   /** Quick AI summaries for each pass (passNr -> analysis) */
   quickSummaries?: Record<number, Record<string, unknown>>;
-} | null> {
+}
+
+/**
+ * Fetch a single job with its report content from R1FS.
+ * Uses get_job_data as the primary endpoint for job specs and pass_history.
+ * Falls back to get_job_status for real-time worker data (service_info, web_tests_info).
+ */
+export async function fetchJobWithReports(jobId: string): Promise<JobWithReports | null> {
   const config = getAppConfig();
 
   if (config.mockMode || config.forceMockTasks) {
@@ -844,3 +861,27 @@ export async function fetchJobWithReports(jobId: string): Promise<{
     throw new ApiError(500, error instanceof Error ? error.message : 'Unable to retrieve job from RedMesh.');
   }
 }
+
+/**
+ * Best-effort lookup of a job's target, used to annotate audit entries for actions that only
+ * receive a job id. Returns undefined when the job cannot be resolved.
+ */
+export async function fetchJobTarget(jobId: string): Promise<string | undefined> {
+  const config = getAppConfig();
+
+  if (config.mockMode || config.forceMockTasks) {
+    return getMockJobs().find((job) => job.id === jobId)?.target;
+  }
+
+  if (!config.redmeshApiUrl) {
+    return undefined;
+  }
+
+  try {
+    const response = await getRedMeshApiService().getJobData(jobId);
+    return response.found ? response.job?.target : undefined;
+  } catch (error) {
+    console.warn(`[fetchJobTarget] Unable to resolve target for ${jobId}:`, error);
+    return undefined;
+  }
+}
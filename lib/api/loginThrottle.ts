@@ -0,0 +1,161 @@
+/**
+ * In-memory brute-force protection for `/api/auth/login`.
+ *
+ * Failures are tracked separately per client IP and per username. The first few failures are free;
+ * after that each further failure locks the key for an exponentially growing period, capped at
+ * `MAX_LOCKOUT_MS`. A key whose last failure is older than `FAILURE_WINDOW_MS` starts over.
+ *
+ * An attempt is counted as soon as it is let through, before the password is checked, so
+ * concurrent guesses cannot slip past a lockout; a successful sign-in clears the keys again.
+ */
+
+import { getAppConfig } from '../config/env';
+
+export const FREE_ATTEMPTS = 5;
+export const BASE_LOCKOUT_MS = 30_000;
+export const MAX_LOCKOUT_MS = 15 * 60_000;
+const FAILURE_WINDOW_MS = 30 * 60_000;
+/** Tracked keys above which stale and then the oldest entries are evicted */
+export const MAX_TRACKED_KEYS = 10_000;
+
+interface AttemptState {
+  failures: number;
+  lastFailureAt: number;
+  lockedUntil: number;
+}
+
+const attempts = new Map<string, AttemptState>();
+
+export interface LoginThrottleKeys {
+  /** Unknown when the Navigator is not configured to sit behind a trusted proxy */
+  ip?: string;
+  username: string;
+}
+
+function toKeys({ ip, username }: LoginThrottleKeys): string[] {
+  const keys = [`user:${username.trim().toLowerCase()}`];
+  return ip ? [`ip:${ip}`, ...keys] : keys;
+}
+
+function readState(key: string, now: number): AttemptState | undefined {
+  const state = attempts.get(key);
+  if (state && state.lockedUntil <= now && now - state.lastFailureAt > FAILURE_WINDOW_MS) {
+    attempts.delete(key);
+    return undefined;
+  }
+  return state;
+}
+
+/** Drop expired entries, then the least recently updated ones, until the map is under the cap. */
+function evictStale(now: number): void {
+  if (attempts.size <= MAX_TRACKED_KEYS) {
+    return;
+  }
+  Array.from(attempts.keys()).forEach((key) => readState(key, now));
+  const excess = attempts.size - MAX_TRACKED_KEYS;
+  Array.from(attempts.keys())
+    .slice(0, Math.max(excess, 0))
+    .forEach((key) => attempts.delete(key));
+}
+
+export function lockoutDurationMs(failures: number): number {
+  if (failures < FREE_ATTEMPTS) {
+    return 0;
+  }
+  return Math.min(BASE_LOCKOUT_MS * 2 ** (failures - FREE_ATTEMPTS), MAX_LOCKOUT_MS);
+}
+
+/**
+ * Client IP for throttling. Forwarded headers are only honoured when `REDMESH_TRUSTED_PROXY_HOPS`
+ * says how many reverse proxies sit in front of the Navigator; the address is then the one the
+ * outermost trusted proxy saw, so entries a client prepends to `X-Forwarded-For` are ignored.
+ * Returns undefined otherwise, and attempts are only throttled per username.
+ */
+export function getClientIp(request: Request): string | undefined {
+  const hops = getAppConfig().trustedProxyHops;
+  if (hops === 0) {
+    return undefined;
+  }
+
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (forwarded.length > 0) {
+    return forwarded[Math.max(forwarded.length - hops, 0)];
+  }
+  return request.headers.get('x-real-ip')?.trim() || undefined;
+}
+
+/**
+ * Seconds until the IP or username may try again, or 0 when neither is locked.
+ */
+export function getLockoutRemainingSeconds(keys: LoginThrottleKeys, now: number = Date.now()): number {
+  const remaining = toKeys(keys).reduce((longest, key) => {
+    const state = readState(key, now);
+    return state ? Math.max(longest, state.lockedUntil - now) : longest;
+  }, 0);
+  return Math.ceil(Math.max(remaining, 0) / 1000);
+}
+
+function countFailure(key: string, now: number): void {
+  const state = readState(key, now) ?? { failures: 0, lastFailureAt: now, lockedUntil: 0 };
+  state.failures += 1;
+  state.lastFailureAt = now;
+  const lockout = lockoutDurationMs(state.failures);
+  if (lockout > 0) {
+    state.lockedUntil = now + lockout;
+  }
+  // Re-insert so the map stays ordered by last update for eviction.
+  attempts.delete(key);
+  attempts.set(key, state);
+}
+
+/**
+ * Count a failed attempt against both keys and return the resulting lockout in seconds (0 if none).
+ */
+export function registerLoginFailure(keys: LoginThrottleKeys, now: number = Date.now()): number {
+  toKeys(keys).forEach((key) => countFailure(key, now));
+  evictStale(now);
+  return getLockoutRemainingSeconds(keys, now);
+}
+
+/**
+ * Check the lockout and, when the keys may try, count the attempt as a failure straight away.
+ * Returns the seconds to wait (nothing is counted) or 0 when the attempt may proceed.
+ */
+export function reserveLoginAttempt(keys: LoginThrottleKeys, now: number = Date.now()): number {
+  const lockedFor = getLockoutRemainingSeconds(keys, now);
+  if (lockedFor > 0) {
+    return lockedFor;
+  }
+  registerLoginFailure(keys, now);
+  return 0;
+}
+
+/**
+ * Give back a reserved attempt that ended without a verdict on the password (e.g. the auth backend
+ * failed), so outages do not lock users out.
+ */
+export function releaseLoginAttempt(keys: LoginThrottleKeys): void {
+  toKeys(keys).forEach((key) => {
+    const state = attempts.get(key);
+    if (!state) {
+      return;
+    }
+    state.failures = Math.max(state.failures - 1, 0);
+    if (lockoutDurationMs(state.failures) === 0) {
+      state.lockedUntil = 0;
+    }
+  });
+}
+
+export function registerLoginSuccess(keys: LoginThrottleKeys): void {
+  for (const key of toKeys(keys)) {
+    attempts.delete(key);
+  }
+}
+
+export function resetLoginThrottle(): void {
+  attempts.clear();
+}
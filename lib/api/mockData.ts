@@ -7,7 +7,8 @@ import {
   JobEventType,
   JobStatus,
   JobTimelineEntry,
-  JobWorkerStatus
+  JobWorkerStatus,
+  UserAccount
 } from './types';
 import { DURATION, RUN_MODE, JOB_STATUS } from './constants';
 import { ApiError } from './errors';
@@ -23,13 +24,21 @@ interface MockUserRecord {
 }
 
 const MOCK_USERS: MockUserRecord[] = [
+  {
+    id: '2b0e4c4e-51d3-4c44-9a5e-0c7a54f0e6d2',
+    username: 'viewer',
+    displayName: 'Mesh Viewer',
+    password: 'viewer123',
+    roles: ['viewer'],
+    permissions: ['jobs:read']
+  },
   {
     id: '8f6f5d01-0417-4e70-8f32-12b0c33a3d61',
     username: 'operator',
     displayName: 'Mesh Operator',
     password: 'operator123',
     roles: ['operator'],
-    permissions: ['jobs:read', 'jobs:create']
+    permissions: ['jobs:read', 'jobs:create', 'jobs:stop', 'findings:triage']
   },
   {
     id: '44c7ef4d-7049-42ad-8b13-9bf0b060b3f1',
@@ -37,7 +46,7 @@ const MOCK_USERS: MockUserRecord[] = [
     displayName: 'System Admin',
     password: 'admin123',
     roles: ['admin'],
-    permissions: ['jobs:read', 'jobs:create', 'jobs:cancel']
+    permissions: ['jobs:read', 'jobs:create', 'jobs:stop', 'jobs:purge', 'advanced:view', 'audit:read', 'apikeys:manage', 'scope:manage', 'findings:triage', 'cves:import']
   }
 ];
 
@@ -402,6 +411,16 @@ export function resetMockJobs(): void {
   mutableJobs = [...INITIAL_JOBS];
 }
 
+function toMockAccount(user: MockUserRecord): UserAccount {
+  return {
+    id: user.id,
+    username: user.username,
+    displayName: user.displayName,
+    roles: user.roles,
+    permissions: user.permissions
+  };
+}
+
 export async function authenticateMockUser(
   username: string,
   password: string
@@ -412,17 +431,16 @@ export async function authenticateMockUser(
   }
 
   return {
-    user: {
-      id: user.id,
-      username: user.username,
-      displayName: user.displayName,
-      roles: user.roles,
-      permissions: user.permissions
-    },
+    user: toMockAccount(user),
     token: 'mock-session-token'
   };
 }
 
+export function findMockUser(username: string): UserAccount | null {
+  const user = MOCK_USERS.find((candidate) => candidate.username === username);
+  return user ? toMockAccount(user) : null;
+}
+
 export function getAvailableFeatures(): string[] {
   return getDefaultFeatureIds();
 }
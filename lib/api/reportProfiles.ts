@@ -0,0 +1,180 @@
+import { randomUUID } from 'crypto';
+import { ApiError } from './errors';
+import { DEFAULT_REPORT_PROFILE_FIELDS } from './constants';
+import { ReportProfile, ReportProfileFields, ReportSections } from './types';
+import { readJsonFile, updateJsonFile } from '../storage/jsonStore';
+
+/**
+ * Named PDF branding for client deliverables: logo, company name, colors, cover text,
+ * classification marking and which optional sections the report includes.
+ */
+
+const PROFILES_FILE = 'report-profiles.json';
+
+interface ProfileStore {
+  profiles: ReportProfile[];
+}
+
+const EMPTY_STORE: ProfileStore = { profiles: [] };
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+const LOGO_DATA_URL = /^data:image\/(png|jpeg);base64,[A-Za-z0-9+/]+={0,2}$/;
+/** Roughly 256 KB of image once decoded; the profile store is read on every export. */
+const MAX_LOGO_LENGTH = 350_000;
+const MAX_TEXT_LENGTH = 2_000;
+
+const SECTION_KEYS = Object.keys(DEFAULT_REPORT_PROFILE_FIELDS.sections) as Array<keyof ReportSections>;
+
+function optionalText(value: unknown, label: string, maxLength = 200): string | undefined {
+  if (typeof value !== 'string' || !value.trim()) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (trimmed.length > maxLength) {
+    throw new ApiError(400, `${label} must be at most ${maxLength} characters.`);
+  }
+  return trimmed;
+}
+
+function color(value: unknown, label: string, fallback: string): string {
+  if (value === undefined || value === null || value === '') {
+    return fallback;
+  }
+  if (typeof value !== 'string' || !HEX_COLOR.test(value)) {
+    throw new ApiError(400, `${label} must be a hex color such as #d62828.`);
+  }
+  return value.toLowerCase();
+}
+
+function logo(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string' || !LOGO_DATA_URL.test(value)) {
+    throw new ApiError(400, 'Logo must be a PNG or JPEG image.');
+  }
+  if (value.length > MAX_LOGO_LENGTH) {
+    throw new ApiError(400, 'Logo must be smaller than 256 KB.');
+  }
+  return value;
+}
+
+function sections(value: unknown): ReportSections {
+  const raw = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+  return SECTION_KEYS.reduce((result, key) => {
+    result[key] = typeof raw[key] === 'boolean' ? (raw[key] as boolean) : DEFAULT_REPORT_PROFILE_FIELDS.sections[key];
+    return result;
+  }, {} as ReportSections);
+}
+
+/**
+ * Validate untrusted profile fields and drop anything that is not a branding setting.
+ */
+export function sanitizeReportProfileFields(raw: unknown): ReportProfileFields {
+  if (!raw || typeof raw !== 'object') {
+    throw new ApiError(400, 'Report profile fields are required.');
+  }
+  const body = raw as Record<string, unknown>;
+
+  return {
+    companyName: optionalText(body.companyName, 'Company name'),
+    logoDataUrl: logo(body.logoDataUrl),
+    primaryColor: color(body.primaryColor, 'Primary color', DEFAULT_REPORT_PROFILE_FIELDS.primaryColor),
+    secondaryColor: color(body.secondaryColor, 'Secondary color', DEFAULT_REPORT_PROFILE_FIELDS.secondaryColor),
+    coverTitle: optionalText(body.coverTitle, 'Cover title'),
+    coverText: optionalText(body.coverText, 'Cover text', MAX_TEXT_LENGTH),
+    classification: optionalText(body.classification, 'Classification', 60),
+    sections: sections(body.sections)
+  };
+}
+
+function assertUniqueName(store: ProfileStore, name: string, exceptId?: string): void {
+  const duplicate = store.profiles.some(
+    (profile) => profile.id !== exceptId && profile.name.toLowerCase() === name.toLowerCase()
+  );
+  if (duplicate) {
+    throw new ApiError(409, `A report profile named "${name}" already exists.`);
+  }
+}
+
+export async function listReportProfiles(): Promise<ReportProfile[]> {
+  const store = await readJsonFile<ProfileStore>(PROFILES_FILE, EMPTY_STORE);
+  return [...store.profiles].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getReportProfile(id: string): Promise<ReportProfile> {
+  const store = await readJsonFile<ProfileStore>(PROFILES_FILE, EMPTY_STORE);
+  const profile = store.profiles.find((entry) => entry.id === id);
+  if (!profile) {
+    throw new ApiError(404, 'Report profile not found.');
+  }
+  return profile;
+}
+
+export async function createReportProfile(input: {
+  name: string;
+  fields: unknown;
+  createdBy: string;
+}): Promise<ReportProfile> {
+  const name = input.name.trim();
+  if (!name) {
+    throw new ApiError(400, 'Report profile name is required.');
+  }
+
+  const now = new Date().toISOString();
+  const profile: ReportProfile = {
+    id: randomUUID(),
+    name,
+    fields: sanitizeReportProfileFields(input.fields),
+    createdAt: now,
+    createdBy: input.createdBy,
+    updatedAt: now
+  };
+
+  await updateJsonFile<ProfileStore>(PROFILES_FILE, EMPTY_STORE, (store) => {
+    assertUniqueName(store, name);
+    return { value: { profiles: [...store.profiles, profile] } };
+  });
+
+  return profile;
+}
+
+export async function updateReportProfile(id: string, input: { name?: string; fields?: unknown }): Promise<ReportProfile> {
+  const name = input.name?.trim();
+  if (input.name !== undefined && !name) {
+    throw new ApiError(400, 'Report profile name is required.');
+  }
+  const fields = input.fields !== undefined ? sanitizeReportProfileFields(input.fields) : undefined;
+
+  const updated = await updateJsonFile<ProfileStore, ReportProfile>(PROFILES_FILE, EMPTY_STORE, (store) => {
+    const existing = store.profiles.find((profile) => profile.id === id);
+    if (!existing) {
+      throw new ApiError(404, 'Report profile not found.');
+    }
+    if (name) {
+      assertUniqueName(store, name, id);
+    }
+
+    const next: ReportProfile = {
+      ...existing,
+      name: name ?? existing.name,
+      fields: fields ?? existing.fields,
+      updatedAt: new Date().toISOString()
+    };
+    return {
+      value: { profiles: store.profiles.map((profile) => (profile.id === id ? next : profile)) },
+      result: next
+    };
+  });
+
+  return updated as ReportProfile;
+}
+
+export async function deleteReportProfile(id: string): Promise<void> {
+  await updateJsonFile<ProfileStore>(PROFILES_FILE, EMPTY_STORE, (store) => {
+    if (!store.profiles.some((profile) => profile.id === id)) {
+      throw new ApiError(404, 'Report profile not found.');
+    }
+    return { value: { profiles: store.profiles.filter((profile) => profile.id !== id) } };
+  });
+}
@@ -0,0 +1,401 @@
+import { randomUUID } from 'crypto';
+import { ApiError } from './errors';
+import { DURATION } from './constants';
+import { createJob } from './jobs';
+import { launchCampaign } from './campaigns';
+import { assertTargetInScope } from './scope';
+import { recordAuditEvent } from './audit';
+import { getJobTemplate, sanitizeTemplateFields } from './templates';
+import {
+  CreateJobInput,
+  JobTemplateFields,
+  Schedule,
+  ScheduleRun,
+  ScheduleRunOutcome,
+  ScheduleSummary,
+  UserAccount
+} from './types';
+import { appendJsonLine, readJsonFile, readJsonLines, updateJsonFile } from '../storage/jsonStore';
+import { isValidTimeZone, nextCronRuns, validateCron } from '../domain/cron';
+import { parseTargetList } from '../domain/targets';
+import { createLogger } from '../services/logger';
+
+/**
+ * Cron-style recurring launches. Each run fires separate single-pass jobs (a campaign when the
+ * target list expands to several hosts) and is appended to the run history.
+ */
+
+const SCHEDULES_FILE = 'schedules.json';
+const SCHEDULE_RUNS_FILE = 'schedule-runs.jsonl';
+const UPCOMING_RUNS = 5;
+
+const scheduleLogger = createLogger('Scheduler');
+
+interface ScheduleStore {
+  schedules: Schedule[];
+}
+
+const EMPTY_STORE: ScheduleStore = { schedules: [] };
+
+const DEFAULT_FIELDS: JobTemplateFields = {
+  name: '',
+  summary: '',
+  portRange: { start: 1, end: 1024 }
+};
+
+export interface ScheduleInput {
+  name?: string;
+  cron?: string;
+  timezone?: string;
+  targets?: string;
+  templateId?: string | null;
+  fields?: unknown;
+  enabled?: boolean;
+}
+
+/**
+ * Pick the schedule fields out of an untrusted request body; values of the wrong type are ignored.
+ */
+export function parseScheduleInput(body: unknown): ScheduleInput {
+  const raw = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const text = (value: unknown) => (typeof value === 'string' ? value : undefined);
+  return {
+    name: text(raw.name),
+    cron: text(raw.cron),
+    timezone: text(raw.timezone),
+    targets: Array.isArray(raw.targets)
+      ? raw.targets.filter((value): value is string => typeof value === 'string').join('\n')
+      : text(raw.targets),
+    templateId: raw.templateId === null ? null : text(raw.templateId),
+    fields: raw.fields,
+    enabled: typeof raw.enabled === 'boolean' ? raw.enabled : undefined
+  };
+}
+
+function computeNextRun(cron: string, timezone: string, from: Date): string | undefined {
+  return nextCronRuns(cron, timezone, from, 1)[0]?.toISOString();
+}
+
+async function validateScheduleInput(input: ScheduleInput): Promise<void> {
+  if (input.name !== undefined && !input.name.trim()) {
+    throw new ApiError(400, 'Schedule name is required.');
+  }
+  if (input.cron !== undefined) {
+    const cronError = validateCron(input.cron);
+    if (cronError) {
+      throw new ApiError(400, cronError);
+    }
+  }
+  if (input.timezone !== undefined && !isValidTimeZone(input.timezone)) {
+    throw new ApiError(400, `Unknown timezone "${input.timezone}".`);
+  }
+  if (input.targets !== undefined) {
+    const parsed = parseTargetList(input.targets);
+    if (parsed.errors.length > 0) {
+      throw new ApiError(400, parsed.errors.join(' '));
+    }
+    if (parsed.targets.length === 0) {
+      throw new ApiError(400, 'Schedule needs at least one target.');
+    }
+  }
+  if (input.templateId) {
+    await getJobTemplate(input.templateId).catch(() => {
+      throw new ApiError(400, 'Selected template does not exist.');
+    });
+  }
+}
+
+export async function listSchedules(): Promise<Schedule[]> {
+  const store = await readJsonFile<ScheduleStore>(SCHEDULES_FILE, EMPTY_STORE);
+  return [...store.schedules].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getSchedule(id: string): Promise<Schedule> {
+  const schedule = (await listSchedules()).find((entry) => entry.id === id);
+  if (!schedule) {
+    throw new ApiError(404, 'Schedule not found.');
+  }
+  return schedule;
+}
+
+export async function listScheduleRuns(options: { scheduleId?: string; limit?: number } = {}): Promise<ScheduleRun[]> {
+  const runs = await readJsonLines<ScheduleRun>(SCHEDULE_RUNS_FILE);
+  return runs
+    .filter((run) => !options.scheduleId || run.scheduleId === options.scheduleId)
+    .reverse()
+    .slice(0, options.limit ?? 50);
+}
+
+/**
+ * Schedules with their next few run times and most recent run.
+ */
+export async function listScheduleSummaries(now: Date = new Date()): Promise<ScheduleSummary[]> {
+  const [schedules, runs] = await Promise.all([listSchedules(), readJsonLines<ScheduleRun>(SCHEDULE_RUNS_FILE)]);
+  return schedules.map((schedule) => toSummary(schedule, runs, now));
+}
+
+export function toSummary(schedule: Schedule, runs: ScheduleRun[], now: Date = new Date()): ScheduleSummary {
+  const lastRun = [...runs].reverse().find((run) => run.scheduleId === schedule.id);
+  return {
+    ...schedule,
+    upcomingRuns: schedule.enabled
+      ? nextCronRuns(schedule.cron, schedule.timezone, now, UPCOMING_RUNS).map((date) => date.toISOString())
+      : [],
+    lastRun
+  };
+}
+
+export async function createSchedule(input: ScheduleInput & { createdBy: string }): Promise<Schedule> {
+  if (!input.name || !input.cron || !input.timezone || !input.targets) {
+    throw new ApiError(400, 'Schedule name, cron expression, timezone and targets are required.');
+  }
+  await validateScheduleInput(input);
+
+  const now = new Date();
+  const enabled = input.enabled !== false;
+  const schedule: Schedule = {
+    id: randomUUID(),
+    name: input.name.trim(),
+    cron: input.cron.trim(),
+    timezone: input.timezone,
+    targets: input.targets.trim(),
+    templateId: input.templateId || undefined,
+    fields: input.fields !== undefined ? sanitizeTemplateFields(input.fields) : undefined,
+    enabled,
+    createdAt: now.toISOString(),
+    createdBy: input.createdBy,
+    updatedAt: now.toISOString(),
+    nextRunAt: enabled ? computeNextRun(input.cron, input.timezone, now) : undefined
+  };
+
+  await updateJsonFile<ScheduleStore>(SCHEDULES_FILE, EMPTY_STORE, (store) => ({
+    value: { schedules: [...store.schedules, schedule] }
+  }));
+
+  return schedule;
+}
+
+export async function updateSchedule(id: string, input: ScheduleInput): Promise<Schedule> {
+  await validateScheduleInput(input);
+  const fields = input.fields !== undefined ? sanitizeTemplateFields(input.fields) : undefined;
+
+  const updated = await updateJsonFile<ScheduleStore, Schedule>(SCHEDULES_FILE, EMPTY_STORE, (store) => {
+    const existing = store.schedules.find((schedule) => schedule.id === id);
+    if (!existing) {
+      throw new ApiError(404, 'Schedule not found.');
+    }
+
+    const now = new Date();
+    const next: Schedule = {
+      ...existing,
+      name: input.name?.trim() ?? existing.name,
+      cron: input.cron?.trim() ?? existing.cron,
+      timezone: input.timezone ?? existing.timezone,
+      targets: input.targets?.trim() ?? existing.targets,
+      templateId: input.templateId === undefined ? existing.templateId : input.templateId || undefined,
+      fields: fields ?? existing.fields,
+      enabled: input.enabled ?? existing.enabled,
+      updatedAt: now.toISOString()
+    };
+    next.nextRunAt = next.enabled ? computeNextRun(next.cron, next.timezone, now) : undefined;
+
+    return {
+      value: { schedules: store.schedules.map((schedule) => (schedule.id === id ? next : schedule)) },
+      result: next
+    };
+  });
+
+  return updated as Schedule;
+}
+
+export async function deleteSchedule(id: string): Promise<void> {
+  await updateJsonFile<ScheduleStore>(SCHEDULES_FILE, EMPTY_STORE, (store) => {
+    if (!store.schedules.some((schedule) => schedule.id === id)) {
+      throw new ApiError(404, 'Schedule not found.');
+    }
+    return { value: { schedules: store.schedules.filter((schedule) => schedule.id !== id) } };
+  });
+}
+
+/** Audit actor for launches made on behalf of the schedule's creator. */
+function scheduleActor(schedule: Schedule): UserAccount {
+  return {
+    id: `schedule:${schedule.id}`,
+    username: schedule.createdBy,
+    displayName: `${schedule.name} (schedule)`,
+    roles: []
+  };
+}
+
+async function resolveFields(schedule: Schedule): Promise<JobTemplateFields> {
+  if (schedule.templateId) {
+    const template = await getJobTemplate(schedule.templateId).catch(() => {
+      throw new ApiError(400, 'The template used by this schedule no longer exists.');
+    });
+    return template.fields;
+  }
+  return schedule.fields ?? DEFAULT_FIELDS;
+}
+
+/**
+ * Launch one run of a schedule and append it to the run history. Never throws; failures are
+ * recorded on the run, and a failure to write the audit log or run history is only logged.
+ */
+export async function runSchedule(
+  schedule: Schedule,
+  options: { trigger: ScheduleRun['trigger']; scheduledFor?: Date }
+): Promise<ScheduleRun> {
+  const startedAt = new Date();
+  const run: ScheduleRun = {
+    id: randomUUID(),
+    scheduleId: schedule.id,
+    scheduleName: schedule.name,
+    scheduledFor: (options.scheduledFor ?? startedAt).toISOString(),
+    startedAt: startedAt.toISOString(),
+    trigger: options.trigger,
+    outcome: 'failure',
+    jobIds: []
+  };
+  const actor = scheduleActor(schedule);
+
+  try {
+    const { targets, errors } = parseTargetList(schedule.targets);
+    if (errors.length > 0 || targets.length === 0) {
+      throw new ApiError(400, errors.join(' ') || 'Schedule has no targets.');
+    }
+
+    const fields = await resolveFields(schedule);
+    const base: CreateJobInput = {
+      ...fields,
+      name: fields.name || schedule.name,
+      summary: fields.summary || `Scheduled run of "${schedule.name}"`,
+      target: targets[0],
+      // Every run is its own single-pass job; recurrence comes from the schedule.
+      duration: DURATION.SINGLEPASS,
+      monitorInterval: undefined,
+      authorized: true,
+      createdByName: actor.displayName,
+      createdById: schedule.createdBy
+    };
+
+    for (const target of targets) {
+      await assertTargetInScope(target);
+    }
+
+    if (targets.length === 1) {
+      const job = await createJob(base, {});
+      run.jobIds = [job.id];
+      await recordAuditEvent({
+        action: 'job.launch',
+        outcome: 'success',
+        user: actor,
+        jobId: job.id,
+        target: base.target,
+        payload: { ...base, scheduleId: schedule.id }
+      });
+    } else {
+      const { campaign } = await launchCampaign(base, targets, {
+        targetSpec: schedule.targets,
+        createdBy: schedule.createdBy
+      });
+      run.campaignId = campaign.id;
+      run.jobIds = campaign.jobs.flatMap((ref) => (ref.jobId ? [ref.jobId] : []));
+      const failed = campaign.jobs.filter((ref) => ref.error);
+      if (failed.length > 0) {
+        run.message = `${failed.length} of ${campaign.jobs.length} targets failed to launch.`;
+      }
+      for (const ref of campaign.jobs) {
+        await recordAuditEvent({
+          action: 'job.launch',
+          outcome: ref.jobId ? 'success' : 'failure',
+          user: actor,
+          jobId: ref.jobId,
+          target: ref.target,
+          payload: { ...base, target: ref.target, scheduleId: schedule.id, campaignId: campaign.id },
+          message: ref.error
+        });
+      }
+    }
+
+    const outcome: ScheduleRunOutcome =
+      run.jobIds.length === targets.length ? 'success' : run.jobIds.length > 0 ? 'partial' : 'failure';
+    run.outcome = outcome;
+  } catch (error) {
+    run.outcome = 'failure';
+    run.message = error instanceof Error ? error.message : 'Scheduled launch failed.';
+    scheduleLogger.warn(`Schedule "${schedule.name}" failed`, run.message);
+    await recordAuditEvent({
+      action: 'job.launch',
+      outcome: 'failure',
+      user: actor,
+      target: schedule.targets,
+      payload: { scheduleId: schedule.id },
+      message: run.message
+    }).catch((auditError) => {
+      scheduleLogger.error('Unable to audit failed schedule run', auditError instanceof Error ? auditError.message : auditError);
+    });
+  }
+
+  try {
+    await appendJsonLine(SCHEDULE_RUNS_FILE, run);
+  } catch (error) {
+    scheduleLogger.error(`Unable to record run of schedule "${schedule.name}"`, error instanceof Error ? error.message : error);
+  }
+  return run;
+}
+
+/** A schedule without a next slot gets one on the next tick, unless its expression never matches. */
+function isDue(schedule: Schedule, now: Date): boolean {
+  if (!schedule.enabled) {
+    return false;
+  }
+  if (!schedule.nextRunAt) {
+    return validateCron(schedule.cron) === null;
+  }
+  return new Date(schedule.nextRunAt).getTime() <= now.getTime();
+}
+
+/**
+ * Fire every enabled schedule whose next run time has passed. A run that was missed while the
+ * server was down fires once, then the schedule moves on to its next slot after `now`.
+ */
+export async function runDueSchedules(now: Date = new Date()): Promise<ScheduleRun[]> {
+  const pending = (await listSchedules()).some((schedule) => isDue(schedule, now));
+  if (!pending) {
+    return [];
+  }
+
+  // Claim due schedules atomically so overlapping ticks cannot fire the same slot twice.
+  const due = await updateJsonFile<ScheduleStore, Array<{ schedule: Schedule; slot: Date }>>(
+    SCHEDULES_FILE,
+    EMPTY_STORE,
+    (store) => {
+      const claimed: Array<{ schedule: Schedule; slot: Date }> = [];
+      const schedules = store.schedules.map((schedule) => {
+        if (!schedule.enabled) {
+          return schedule;
+        }
+        if (!schedule.nextRunAt) {
+          return { ...schedule, nextRunAt: computeNextRun(schedule.cron, schedule.timezone, now) };
+        }
+        if (new Date(schedule.nextRunAt).getTime() > now.getTime()) {
+          return schedule;
+        }
+        claimed.push({ schedule, slot: new Date(schedule.nextRunAt) });
+        return {
+          ...schedule,
+          lastRunAt: now.toISOString(),
+          nextRunAt: computeNextRun(schedule.cron, schedule.timezone, now)
+        };
+      });
+      return { value: { schedules }, result: claimed };
+    }
+  );
+
+  const runs: ScheduleRun[] = [];
+  for (const { schedule, slot } of due ?? []) {
+    scheduleLogger.info(`Running schedule "${schedule.name}" for ${slot.toISOString()}`);
+    runs.push(await runSchedule(schedule, { trigger: 'cron', scheduledFor: slot }));
+  }
+  return runs;
+}
@@ -0,0 +1,107 @@
+import { lookup } from 'dns/promises';
+import { randomUUID } from 'crypto';
+import { ApiError } from './errors';
+import { getAppConfig } from '../config/env';
+import { readJsonFile, updateJsonFile } from '../storage/jsonStore';
+import {
+  ScopeDecision,
+  ScopeRule,
+  ScopeRuleEffect,
+  classifyScopeValue,
+  evaluateScope,
+  parseCidr
+} from '../domain/scope';
+import { createLogger } from '../services/logger';
+
+const SCOPE_FILE = 'scope.json';
+const scopeLogger = createLogger('Scope');
+
+interface ScopeStore {
+  rules: ScopeRule[];
+}
+
+const EMPTY_STORE: ScopeStore = { rules: [] };
+
+export async function listScopeRules(): Promise<ScopeRule[]> {
+  const store = await readJsonFile<ScopeStore>(SCOPE_FILE, EMPTY_STORE);
+  return store.rules;
+}
+
+export async function addScopeRule(input: {
+  effect: ScopeRuleEffect;
+  value: string;
+  note?: string;
+  createdBy: string;
+}): Promise<ScopeRule> {
+  const value = input.value.trim();
+  if (input.effect !== 'allow' && input.effect !== 'deny') {
+    throw new ApiError(400, 'Scope rule effect must be "allow" or "deny".');
+  }
+  if (!classifyScopeValue(value)) {
+    throw new ApiError(400, `"${value}" is not a valid IP address, CIDR block, hostname or wildcard domain.`);
+  }
+
+  const rule: ScopeRule = {
+    id: randomUUID(),
+    effect: input.effect,
+    value,
+    note: input.note?.trim() || undefined,
+    createdAt: new Date().toISOString(),
+    createdBy: input.createdBy
+  };
+
+  await updateJsonFile<ScopeStore>(SCOPE_FILE, EMPTY_STORE, (store) => {
+    const duplicate = store.rules.some(
+      (existing) => existing.effect === rule.effect && existing.value.toLowerCase() === value.toLowerCase()
+    );
+    if (duplicate) {
+      throw new ApiError(409, `A ${rule.effect} rule for ${value} already exists.`);
+    }
+    return { value: { rules: [...store.rules, rule] } };
+  });
+
+  return rule;
+}
+
+export async function removeScopeRule(id: string): Promise<void> {
+  await updateJsonFile<ScopeStore>(SCOPE_FILE, EMPTY_STORE, (store) => {
+    if (!store.rules.some((rule) => rule.id === id)) {
+      throw new ApiError(404, 'Scope rule not found.');
+    }
+    return { value: { rules: store.rules.filter((rule) => rule.id !== id) } };
+  });
+}
+
+async function resolveAddresses(hostname: string): Promise<string[]> {
+  try {
+    const results = await lookup(hostname, { all: true, verbatim: true });
+    return Array.from(new Set(results.map((result) => result.address)));
+  } catch (error) {
+    scopeLogger.warn(`Unable to resolve ${hostname}`, error instanceof Error ? error.message : error);
+    return [];
+  }
+}
+
+/**
+ * Evaluate a target against the configured rules, resolving hostnames so their addresses are
+ * checked too.
+ */
+export async function checkTargetScope(target: string): Promise<ScopeDecision> {
+  const rules = await listScopeRules();
+  const trimmed = target.trim();
+  const needsResolution = rules.length > 0 && trimmed && !parseCidr(trimmed);
+  const addresses = needsResolution ? await resolveAddresses(trimmed) : [];
+  return evaluateScope(trimmed, rules, addresses, { open: getAppConfig().scopeOpen });
+}
+
+/**
+ * Throw a 403 ApiError when the target is outside the engagement scope.
+ */
+export async function assertTargetInScope(target: string): Promise<ScopeDecision> {
+  const decision = await checkTargetScope(target);
+  if (!decision.allowed) {
+    scopeLogger.warn(`Rejected out-of-scope target ${target}`, decision);
+    throw new ApiError(403, `Target is out of scope: ${decision.reason}`);
+  }
+  return decision;
+}
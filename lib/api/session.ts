@@ -0,0 +1,206 @@
+import { ApiError } from './errors';
+import { SessionInfo, UserAccount } from './types';
+import { getAppConfig } from '../config/env';
+import { MIN_SESSION_SECRET_LENGTH, SESSION_COOKIE_NAME } from '../config/constants';
+import { Permission, hasPermission } from '../domain/roles';
+
+/**
+ * Signed session tokens.
+ *
+ * A token is `base64url(payload).base64url(hmac_sha256(payload))`. Only Web Crypto is used so the
+ * same code runs in the Edge middleware and in Node route handlers.
+ */
+
+interface SessionPayload {
+  user: UserAccount;
+  iat: number; // seconds since epoch
+  exp: number; // seconds since epoch
+}
+
+export interface VerifiedSession {
+  user: UserAccount;
+  issuedAt: Date;
+  expiresAt: Date;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const padded = value.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - (value.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function importSigningKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+export async function createSessionToken(
+  user: UserAccount,
+  now: Date = new Date()
+): Promise<{ token: string; expiresAt: Date }> {
+  const config = getAppConfig();
+  if (!config.sessionSecret) {
+    throw new ApiError(
+      503,
+      `Sign-in is disabled: set REDMESH_SESSION_SECRET to a random value of at least ${MIN_SESSION_SECRET_LENGTH} characters.`
+    );
+  }
+  const iat = Math.floor(now.getTime() / 1000);
+  const payload: SessionPayload = {
+    user: {
+      id: user.id,
+      username: user.username,
+      displayName: user.displayName,
+      roles: user.roles,
+      permissions: user.permissions
+    },
+    iat,
+    exp: iat + config.sessionTtlSeconds
+  };
+
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const key = await importSigningKey(config.sessionSecret);
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(body)));
+
+  return {
+    token: `${body}.${toBase64Url(signature)}`,
+    expiresAt: new Date(payload.exp * 1000)
+  };
+}
+
+/**
+ * Verify a session token's signature and expiry.
+ * Returns null for anything malformed, tampered with or expired, and for every token while no
+ * session secret is configured.
+ */
+export async function verifySessionToken(
+  token: string | undefined | null,
+  now: Date = new Date()
+): Promise<VerifiedSession | null> {
+  if (!token) {
+    return null;
+  }
+
+  const { sessionSecret } = getAppConfig();
+  const [body, signature, extra] = token.split('.');
+  if (!sessionSecret || !body || !signature || extra !== undefined) {
+    return null;
+  }
+
+  try {
+    const key = await importSigningKey(sessionSecret);
+    const valid = await crypto.subtle.verify('HMAC', key, fromBase64Url(signature), encoder.encode(body));
+    if (!valid) {
+      return null;
+    }
+
+    const payload = JSON.parse(decoder.decode(fromBase64Url(body))) as SessionPayload;
+    if (!payload?.user?.username || typeof payload.exp !== 'number') {
+      return null;
+    }
+
+    if (payload.exp * 1000 <= now.getTime()) {
+      return null;
+    }
+
+    return {
+      user: payload.user,
+      issuedAt: new Date(payload.iat * 1000),
+      expiresAt: new Date(payload.exp * 1000)
+    };
+  } catch (_error) {
+    return null;
+  }
+}
+
+export function readCookie(request: Request, name: string): string | undefined {
+  const header = request.headers.get('cookie');
+  if (!header) {
+    return undefined;
+  }
+
+  for (const part of header.split(';')) {
+    const [rawName, ...rest] = part.split('=');
+    if (rawName?.trim() === name) {
+      return decodeURIComponent(rest.join('=').trim());
+    }
+  }
+
+  return undefined;
+}
+
+export function readSessionToken(request: Request): string | undefined {
+  return readCookie(request, SESSION_COOKIE_NAME);
+}
+
+export async function getSessionUser(request: Request): Promise<VerifiedSession | null> {
+  return verifySessionToken(readSessionToken(request));
+}
+
+/**
+ * Resolve the session for a route handler, throwing a 401 ApiError when it is missing or invalid.
+ */
+export async function requireSession(request: Request): Promise<VerifiedSession> {
+  const session = await getSessionUser(request);
+  if (!session) {
+    throw new ApiError(401, 'Authentication required.');
+  }
+  return session;
+}
+
+/**
+ * Resolve the session and check the user's role grants a permission (401 when signed out, 403 when denied).
+ */
+export async function requirePermission(request: Request, permission: Permission): Promise<VerifiedSession> {
+  const session = await requireSession(request);
+  if (!hasPermission(session.user, permission)) {
+    throw new ApiError(403, 'You do not have permission to perform this action.');
+  }
+  return session;
+}
+
+export function buildSessionCookie(token: string, expiresAt: Date) {
+  return {
+    name: SESSION_COOKIE_NAME,
+    value: token,
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: getAppConfig().environment === 'production',
+    path: '/',
+    expires: expiresAt
+  };
+}
+
+export function buildClearedSessionCookie() {
+  return {
+    ...buildSessionCookie('', new Date(0)),
+    maxAge: 0
+  };
+}
+
+export function toSessionInfo(session: Pick<VerifiedSession, 'user' | 'expiresAt'>): SessionInfo {
+  return {
+    user: session.user,
+    expiresAt: session.expiresAt.toISOString()
+  };
+}
@@ -0,0 +1,116 @@
+import { randomUUID } from 'crypto';
+import { ApiError } from './errors';
+import { SuppressionRule } from './types';
+import { readJsonFile, updateJsonFile } from '../storage/jsonStore';
+import { MAX_TITLE_PATTERN_LENGTH, TITLE_PATTERN_SYNTAX, looksLikeRegex } from '../domain/suppressions';
+
+/**
+ * Suppression rules hide known false positives and accepted findings from the job page, the PDF
+ * report and campaign summaries until they expire. Matching lives in `lib/domain/suppressions`.
+ */
+
+const SUPPRESSIONS_FILE = 'suppression-rules.json';
+
+const SEVERITIES: Array<SuppressionRule['severity']> = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW', 'INFO'];
+
+interface SuppressionStore {
+  rules: SuppressionRule[];
+}
+
+const EMPTY_STORE: SuppressionStore = { rules: [] };
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Validate a rule from an untrusted request body.
+ */
+export function parseSuppressionRule(
+  body: unknown,
+  now: Date = new Date()
+): Omit<SuppressionRule, 'id' | 'createdAt' | 'createdBy'> {
+  const raw = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  let port: number | undefined;
+  if (raw.port !== undefined && raw.port !== null && raw.port !== '') {
+    port = Number(raw.port);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      throw new ApiError(400, 'Port must be between 0 and 65535.');
+    }
+  }
+
+  const severity = optionalString(raw.severity)?.toUpperCase() as SuppressionRule['severity'];
+  if (severity && !SEVERITIES.includes(severity)) {
+    throw new ApiError(400, 'Severity must be one of CRITICAL, HIGH, MEDIUM, LOW or INFO.');
+  }
+
+  const titlePattern = optionalString(raw.titlePattern);
+  if (titlePattern && titlePattern.length > MAX_TITLE_PATTERN_LENGTH) {
+    throw new ApiError(400, `Title patterns are limited to ${MAX_TITLE_PATTERN_LENGTH} characters.`);
+  }
+  if (titlePattern && looksLikeRegex(titlePattern)) {
+    throw new ApiError(400, `${TITLE_PATTERN_SYNTAX} Regular expressions are not supported, e.g. write "Anonymous FTP*" instead of "^Anonymous FTP.*".`);
+  }
+
+  const target = optionalString(raw.target)?.toLowerCase();
+  const probe = optionalString(raw.probe);
+  if (!target && port === undefined && !probe && !severity && !titlePattern) {
+    throw new ApiError(400, 'A rule needs at least one matcher: target, port, probe, severity or title pattern.');
+  }
+
+  const justification = optionalString(raw.justification);
+  if (!justification) {
+    throw new ApiError(400, 'A justification is required.');
+  }
+
+  const expiresAt = typeof raw.expiresAt === 'string' ? new Date(raw.expiresAt) : null;
+  if (!expiresAt || Number.isNaN(expiresAt.getTime())) {
+    throw new ApiError(400, 'An expiry date is required.');
+  }
+  if (expiresAt.getTime() <= now.getTime()) {
+    throw new ApiError(400, 'The expiry date must be in the future.');
+  }
+
+  return {
+    target,
+    port,
+    probe,
+    severity: severity || undefined,
+    titlePattern,
+    justification,
+    expiresAt: expiresAt.toISOString()
+  };
+}
+
+/**
+ * All rules, newest first. Expired rules are kept so the history of accepted findings stays visible.
+ */
+export async function listSuppressionRules(): Promise<SuppressionRule[]> {
+  const store = await readJsonFile<SuppressionStore>(SUPPRESSIONS_FILE, EMPTY_STORE);
+  return [...store.rules].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function createSuppressionRule(body: unknown, createdBy: string): Promise<SuppressionRule> {
+  const rule: SuppressionRule = {
+    id: randomUUID(),
+    ...parseSuppressionRule(body),
+    createdAt: new Date().toISOString(),
+    createdBy
+  };
+
+  await updateJsonFile<SuppressionStore>(SUPPRESSIONS_FILE, EMPTY_STORE, (store) => ({
+    value: { rules: [...store.rules, rule] }
+  }));
+
+  return rule;
+}
+
+export async function deleteSuppressionRule(id: string): Promise<void> {
+  await updateJsonFile<SuppressionStore>(SUPPRESSIONS_FILE, EMPTY_STORE, (store) => {
+    if (!store.rules.some((rule) => rule.id === id)) {
+      throw new ApiError(404, 'Suppression rule not found.');
+    }
+    return { value: { rules: store.rules.filter((rule) => rule.id !== id) } };
+  });
+}
@@ -0,0 +1,197 @@
+import { randomUUID } from 'crypto';
+import { ApiError } from './errors';
+import { JobDistribution, JobDuration, JobPriority, JobTemplate, JobTemplateFields } from './types';
+import { readJsonFile, updateJsonFile } from '../storage/jsonStore';
+
+/**
+ * Named, reusable launch settings for recurring engagements. Everything except the target is
+ * captured so a template can be applied to the task form and then pointed at a new host.
+ */
+
+const TEMPLATES_FILE = 'job-templates.json';
+
+interface TemplateStore {
+  templates: JobTemplate[];
+}
+
+const EMPTY_STORE: TemplateStore = { templates: [] };
+
+const PRIORITIES: JobPriority[] = ['low', 'medium', 'high', 'critical'];
+const DISTRIBUTIONS: JobDistribution[] = ['slice', 'mirror'];
+const DURATIONS: JobDuration[] = ['singlepass', 'continuous'];
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function optionalBoolean(value: unknown): boolean | undefined {
+  return typeof value === 'boolean' ? value : undefined;
+}
+
+function positiveNumber(value: unknown): number | undefined {
+  const parsed = Number(value);
+  return value !== undefined && value !== null && Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+function isPort(value: number): boolean {
+  return Number.isInteger(value) && value >= 1 && value <= 65535;
+}
+
+function oneOf<T extends string>(value: unknown, allowed: T[]): T | undefined {
+  return typeof value === 'string' && (allowed as string[]).includes(value) ? (value as T) : undefined;
+}
+
+function stringList(value: unknown): string[] | undefined {
+  return Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string' && Boolean(entry.trim())) : undefined;
+}
+
+function delay(value: unknown): JobTemplateFields['scanDelay'] {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+  const raw = value as Record<string, unknown>;
+  const minSeconds = positiveNumber(raw.minSeconds);
+  const maxSeconds = positiveNumber(raw.maxSeconds);
+  if (minSeconds === undefined || maxSeconds === undefined || maxSeconds < minSeconds) {
+    throw new ApiError(400, 'Template scan delay is invalid. Provide min and max seconds (min > 0, max >= min).');
+  }
+  return { minSeconds, maxSeconds };
+}
+
+/**
+ * Validate untrusted template fields and drop anything that is not a launch setting.
+ */
+export function sanitizeTemplateFields(raw: unknown): JobTemplateFields {
+  if (!raw || typeof raw !== 'object') {
+    throw new ApiError(400, 'Template fields are required.');
+  }
+  const body = raw as Record<string, unknown>;
+  const range = (body.portRange ?? {}) as Record<string, unknown>;
+  const start = Number(range.start);
+  const end = Number(range.end);
+
+  if (!isPort(start) || !isPort(end) || end < start) {
+    throw new ApiError(400, 'Template port range is invalid.');
+  }
+
+  return {
+    name: typeof body.name === 'string' ? body.name : '',
+    summary: typeof body.summary === 'string' ? body.summary : '',
+    portRange: { start, end },
+    exceptions: Array.isArray(body.exceptions)
+      ? body.exceptions.map((value) => Number(value)).filter(isPort)
+      : undefined,
+    features: stringList(body.features),
+    workerCount: positiveNumber(body.workerCount),
+    payloadUri: optionalString(body.payloadUri),
+    priority: oneOf(body.priority, PRIORITIES),
+    notes: optionalString(body.notes),
+    distribution: oneOf(body.distribution, DISTRIBUTIONS),
+    duration: oneOf(body.duration, DURATIONS),
+    scanDelay: delay(body.scanDelay),
+    monitorInterval: positiveNumber(body.monitorInterval),
+    selectedPeers: stringList(body.selectedPeers),
+    redactCredentials: optionalBoolean(body.redactCredentials),
+    icsSafeMode: optionalBoolean(body.icsSafeMode),
+    rateLimitEnabled: optionalBoolean(body.rateLimitEnabled),
+    scannerIdentity: optionalString(body.scannerIdentity),
+    scannerUserAgent: optionalString(body.scannerUserAgent)
+  };
+}
+
+function assertUniqueName(store: TemplateStore, name: string, exceptId?: string): void {
+  const duplicate = store.templates.some(
+    (template) => template.id !== exceptId && template.name.toLowerCase() === name.toLowerCase()
+  );
+  if (duplicate) {
+    throw new ApiError(409, `A template named "${name}" already exists.`);
+  }
+}
+
+export async function listJobTemplates(): Promise<JobTemplate[]> {
+  const store = await readJsonFile<TemplateStore>(TEMPLATES_FILE, EMPTY_STORE);
+  return [...store.templates].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getJobTemplate(id: string): Promise<JobTemplate> {
+  const store = await readJsonFile<TemplateStore>(TEMPLATES_FILE, EMPTY_STORE);
+  const template = store.templates.find((entry) => entry.id === id);
+  if (!template) {
+    throw new ApiError(404, 'Template not found.');
+  }
+  return template;
+}
+
+export async function createJobTemplate(input: {
+  name: string;
+  description?: string;
+  fields: unknown;
+  createdBy: string;
+}): Promise<JobTemplate> {
+  const name = input.name.trim();
+  if (!name) {
+    throw new ApiError(400, 'Template name is required.');
+  }
+
+  const now = new Date().toISOString();
+  const template: JobTemplate = {
+    id: randomUUID(),
+    name,
+    description: input.description?.trim() || undefined,
+    fields: sanitizeTemplateFields(input.fields),
+    createdAt: now,
+    createdBy: input.createdBy,
+    updatedAt: now
+  };
+
+  await updateJsonFile<TemplateStore>(TEMPLATES_FILE, EMPTY_STORE, (store) => {
+    assertUniqueName(store, name);
+    return { value: { templates: [...store.templates, template] } };
+  });
+
+  return template;
+}
+
+export async function updateJobTemplate(
+  id: string,
+  input: { name?: string; description?: string; fields?: unknown }
+): Promise<JobTemplate> {
+  const name = input.name?.trim();
+  if (input.name !== undefined && !name) {
+    throw new ApiError(400, 'Template name is required.');
+  }
+  const fields = input.fields !== undefined ? sanitizeTemplateFields(input.fields) : undefined;
+
+  const updated = await updateJsonFile<TemplateStore, JobTemplate>(TEMPLATES_FILE, EMPTY_STORE, (store) => {
+    const existing = store.templates.find((template) => template.id === id);
+    if (!existing) {
+      throw new ApiError(404, 'Template not found.');
+    }
+    if (name) {
+      assertUniqueName(store, name, id);
+    }
+
+    const next: JobTemplate = {
+      ...existing,
+      name: name ?? existing.name,
+      description: input.description !== undefined ? input.description.trim() || undefined : existing.description,
+      fields: fields ?? existing.fields,
+      updatedAt: new Date().toISOString()
+    };
+    return {
+      value: { templates: store.templates.map((template) => (template.id === id ? next : template)) },
+      result: next
+    };
+  });
+
+  return updated as JobTemplate;
+}
+
+export async function deleteJobTemplate(id: string): Promise<void> {
+  await updateJsonFile<TemplateStore>(TEMPLATES_FILE, EMPTY_STORE, (store) => {
+    if (!store.templates.some((template) => template.id === id)) {
+      throw new ApiError(404, 'Template not found.');
+    }
+    return { value: { templates: store.templates.filter((template) => template.id !== id) } };
+  });
+}
@@ -0,0 +1,154 @@
+import { randomUUID } from 'crypto';
+import { ApiError } from './errors';
+import { FindingIdentity, FindingStatus, FindingTriage, UserAccount } from './types';
+import { readJsonFile, updateJsonFile } from '../storage/jsonStore';
+import { findingFingerprint } from '../domain/findings';
+import { CvssVectorError, scoreCvssVector } from '../domain/cvss';
+
+/**
+ * Triage state for findings, keyed by fingerprint. A finding without a record is open; the record
+ * is created on the first status change, assignment, comment or CVSS vector and then follows the
+ * finding through later passes and re-runs of the same target.
+ */
+
+const TRIAGE_FILE = 'finding-triage.json';
+
+export const FINDING_STATUSES: FindingStatus[] = ['open', 'confirmed', 'false_positive', 'accepted_risk', 'fixed'];
+
+const MAX_COMMENT_LENGTH = 4000;
+
+interface TriageStore {
+  records: FindingTriage[];
+}
+
+const EMPTY_STORE: TriageStore = { records: [] };
+
+export interface TriageUpdate {
+  status?: FindingStatus;
+  /** Empty string clears the assignee. */
+  assignee?: string;
+  comment?: string;
+  /** Normalized CVSS vector; empty string clears it. */
+  cvssVector?: string;
+}
+
+/**
+ * Validate the finding identity and the requested changes from an untrusted request body.
+ */
+export function parseTriageRequest(body: unknown): { identity: FindingIdentity; update: TriageUpdate } {
+  const raw = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const port = Number(raw.port);
+
+  if (typeof raw.target !== 'string' || !raw.target.trim()) {
+    throw new ApiError(400, 'Finding target is required.');
+  }
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new ApiError(400, 'Finding port is invalid.');
+  }
+  if (typeof raw.probe !== 'string' || !raw.probe || typeof raw.title !== 'string') {
+    throw new ApiError(400, 'Finding probe and title are required.');
+  }
+
+  const update: TriageUpdate = {};
+  if (raw.status !== undefined) {
+    if (!FINDING_STATUSES.includes(raw.status as FindingStatus)) {
+      throw new ApiError(400, `Status must be one of: ${FINDING_STATUSES.join(', ')}.`);
+    }
+    update.status = raw.status as FindingStatus;
+  }
+  if (raw.assignee !== undefined) {
+    if (typeof raw.assignee !== 'string') {
+      throw new ApiError(400, 'Assignee must be a string.');
+    }
+    update.assignee = raw.assignee.trim();
+  }
+  if (raw.comment !== undefined) {
+    if (typeof raw.comment !== 'string' || !raw.comment.trim()) {
+      throw new ApiError(400, 'Comment cannot be empty.');
+    }
+    if (raw.comment.length > MAX_COMMENT_LENGTH) {
+      throw new ApiError(400, `Comments are limited to ${MAX_COMMENT_LENGTH} characters.`);
+    }
+    update.comment = raw.comment.trim();
+  }
+  if (raw.cvssVector !== undefined) {
+    if (typeof raw.cvssVector !== 'string') {
+      throw new ApiError(400, 'CVSS vector must be a string.');
+    }
+    try {
+      update.cvssVector = raw.cvssVector.trim() ? scoreCvssVector(raw.cvssVector).vector : '';
+    } catch (error) {
+      if (error instanceof CvssVectorError) {
+        throw new ApiError(400, `Invalid CVSS vector: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+  if (
+    update.status === undefined &&
+    update.assignee === undefined &&
+    update.comment === undefined &&
+    update.cvssVector === undefined
+  ) {
+    throw new ApiError(400, 'Provide a status, assignee, comment or CVSS vector.');
+  }
+
+  return {
+    identity: {
+      target: raw.target.trim(),
+      port,
+      probe: raw.probe,
+      title: raw.title,
+      cweId: typeof raw.cweId === 'string' && raw.cweId ? raw.cweId : undefined
+    },
+    update
+  };
+}
+
+/**
+ * Triage records, optionally limited to one target (case-insensitive).
+ */
+export async function listFindingTriage(options: { target?: string } = {}): Promise<FindingTriage[]> {
+  const store = await readJsonFile<TriageStore>(TRIAGE_FILE, EMPTY_STORE);
+  const target = options.target?.trim().toLowerCase();
+  return target ? store.records.filter((record) => record.target.toLowerCase() === target) : store.records;
+}
+
+export async function updateFindingTriage(
+  identity: FindingIdentity,
+  update: TriageUpdate,
+  user: UserAccount
+): Promise<FindingTriage> {
+  const fingerprint = findingFingerprint(identity);
+
+  const updated = await updateJsonFile<TriageStore, FindingTriage>(TRIAGE_FILE, EMPTY_STORE, (store) => {
+    const now = new Date().toISOString();
+    const existing = store.records.find((record) => record.fingerprint === fingerprint);
+    const record: FindingTriage = existing
+      ? { ...existing, comments: [...existing.comments] }
+      : { ...identity, fingerprint, status: 'open', comments: [], createdAt: now, updatedAt: now, updatedBy: user.username };
+
+    if (update.status) {
+      record.status = update.status;
+      record.fixedAt = update.status === 'fixed' ? now : undefined;
+    }
+    if (update.assignee !== undefined) {
+      record.assignee = update.assignee || undefined;
+    }
+    if (update.cvssVector !== undefined) {
+      record.cvssVector = update.cvssVector || undefined;
+    }
+    if (update.comment) {
+      record.comments.push({ id: randomUUID(), author: user.username, body: update.comment, createdAt: now });
+    }
+    record.updatedAt = now;
+    record.updatedBy = user.username;
+
+    const records = existing
+      ? store.records.map((entry) => (entry.fingerprint === fingerprint ? record : entry))
+      : [...store.records, record];
+    return { value: { records }, result: record };
+  });
+
+  return updated as FindingTriage;
+}
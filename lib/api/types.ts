@@ -1,3 +1,5 @@
+import type { FlatFinding } from '../domain/findings';
+
 export type JobStatus = 'running' | 'stopping' | 'stopped' | 'completed';
 
 export type JobPriority = 'low' | 'medium' | 'high' | 'critical';
@@ -201,3 +203,437 @@ export interface AuthSuccess {
   user: UserAccount;
   token: string;
 }
+
+export interface SessionInfo {
+  user: UserAccount;
+  expiresAt: string;
+}
+
+export type AuditAction = 'job.launch' | 'job.stop' | 'job.stop_monitoring' | 'job.purge';
+
+export type AuditOutcome = 'success' | 'failure';
+
+export interface AuditActor {
+  id: string;
+  username: string;
+  displayName: string;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  action: AuditAction;
+  outcome: AuditOutcome;
+  actor: AuditActor;
+  jobId?: string;
+  target?: string;
+  payload?: Record<string, unknown>;
+  message?: string;
+}
+
+export interface AuditPage {
+  entries: AuditEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export type ApiKeyScope = 'read' | 'launch';
+
+/** API key as exposed to the UI; the secret itself is only returned once, on creation. */
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  scope: ApiKeyScope;
+  prefix: string;
+  createdAt: string;
+  createdBy: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+export interface CreatedApiKey {
+  key: ApiKeySummary;
+  secret: string;
+}
+
+/** A task launched as part of a campaign; `error` is set when its launch failed. */
+export interface CampaignJobRef {
+  target: string;
+  jobId?: string;
+  error?: string;
+}
+
+/** A multi-target launch: one RedMesh job per expanded host, shown together in the dashboard. */
+export interface Campaign {
+  id: string;
+  name: string;
+  summary: string;
+  /** Target list as entered, before expansion. */
+  targetSpec: string;
+  createdAt: string;
+  createdBy: string;
+  jobs: CampaignJobRef[];
+}
+
+export interface CampaignProgress {
+  total: number;
+  running: number;
+  completed: number;
+  stopped: number;
+  failed: number;
+  /** Average completion across launched jobs, 0-100. */
+  percent: number;
+}
+
+export interface CampaignSummary extends Campaign {
+  progress: CampaignProgress;
+}
+
+/** A finding from one of the campaign's jobs, tagged with the job it came from. */
+export interface CampaignFinding extends FlatFinding {
+  jobId: string;
+  target: string;
+}
+
+export interface CampaignDetail {
+  campaign: CampaignSummary;
+  jobs: Job[];
+  /** Findings left after suppression rules are applied. */
+  findings: CampaignFinding[];
+  suppressedFindings: number;
+}
+
+/**
+ * Launch settings captured by a job template: every `CreateJobInput` field except the target,
+ * the per-launch authorization confirmation and the launching user.
+ */
+export type JobTemplateFields = Omit<CreateJobInput, 'target' | 'authorized' | 'createdByName' | 'createdById'>;
+
+export interface JobTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  fields: JobTemplateFields;
+  createdAt: string;
+  createdBy: string;
+  updatedAt: string;
+}
+
+/** A recurring launch: fires single-pass jobs for `targets` whenever the cron expression matches. */
+export interface Schedule {
+  id: string;
+  name: string;
+  /** Five-field cron expression evaluated in `timezone`. */
+  cron: string;
+  /** IANA timezone, e.g. `Europe/Bucharest`. */
+  timezone: string;
+  /** Target list as accepted by campaigns: hosts, CIDR blocks or ranges. */
+  targets: string;
+  /** Template to resolve at launch time; when missing, `fields` (or the defaults) apply. */
+  templateId?: string;
+  fields?: JobTemplateFields;
+  enabled: boolean;
+  createdAt: string;
+  createdBy: string;
+  updatedAt: string;
+  lastRunAt?: string;
+  nextRunAt?: string;
+}
+
+export type ScheduleRunOutcome = 'success' | 'partial' | 'failure';
+
+export interface ScheduleRun {
+  id: string;
+  scheduleId: string;
+  scheduleName: string;
+  /** The cron slot this run was for, or the request time for manual runs. */
+  scheduledFor: string;
+  startedAt: string;
+  trigger: 'cron' | 'manual';
+  outcome: ScheduleRunOutcome;
+  jobIds: string[];
+  campaignId?: string;
+  message?: string;
+}
+
+export interface ScheduleSummary extends Schedule {
+  upcomingRuns: string[];
+  lastRun?: ScheduleRun;
+}
+
+export type FindingStatus = 'open' | 'confirmed' | 'false_positive' | 'accepted_risk' | 'fixed';
+
+/** Fields that identify a finding across passes and re-runs of the same target. */
+export interface FindingIdentity {
+  target: string;
+  port: number;
+  probe: string;
+  title: string;
+  cweId?: string;
+}
+
+export interface FindingComment {
+  id: string;
+  author: string;
+  body: string;
+  createdAt: string;
+}
+
+export interface FindingTriage extends FindingIdentity {
+  fingerprint: string;
+  status: FindingStatus;
+  assignee?: string;
+  /** Analyst-assigned CVSS v3.x / v4.0 vector; overrides the score and severity the probe reported. */
+  cvssVector?: string;
+  /** When the status was last set to "fixed". */
+  fixedAt?: string;
+  /**
+   * Not stored: set by `reopenRegressions` when a pass that completed after `fixedAt` still reports
+   * the finding, which is then shown as open again.
+   */
+  regression?: boolean;
+  comments: FindingComment[];
+  createdAt: string;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+/**
+ * Hides matching findings until `expiresAt`. Every matcher that is set must match; a rule
+ * needs at least one.
+ */
+export interface SuppressionRule {
+  id: string;
+  /** Host the rule applies to (case-insensitive); any target when missing. */
+  target?: string;
+  port?: number;
+  /** Probe or web test method, e.g. `_service_info_ftp`. */
+  probe?: string;
+  severity?: FlatFinding['severity'];
+  /** Title pattern: case-insensitive text matched anywhere in the finding title, with `*` and `?` wildcards (not a regex). */
+  titlePattern?: string;
+  justification: string;
+  expiresAt: string;
+  createdAt: string;
+  createdBy: string;
+}
+
+/**
+ * Provenance of a job served from an imported JSON bundle instead of the mesh.
+ */
+export interface ArchivedBundleInfo {
+  jobId: string;
+  displayName: string;
+  target: string;
+  exportedAt: string;
+  exportedBy: string;
+  importedAt: string;
+  importedBy: string;
+}
+
+/** Optional PDF sections a report profile can leave out. */
+export interface ReportSections {
+  timeline: boolean;
+  llmAnalysis: boolean;
+  workerActivity: boolean;
+  /** Raw probe and web test output under each worker. */
+  rawEvidence: boolean;
+}
+
+/** Branding and section selection applied to PDF exports. Colors are `#rrggbb`. */
+export interface ReportProfileFields {
+  companyName?: string;
+  /** PNG or JPEG as a base64 data URL, drawn on the cover banner. */
+  logoDataUrl?: string;
+  primaryColor: string;
+  secondaryColor: string;
+  /** Replaces "RedMesh Scan Report" on the cover. */
+  coverTitle?: string;
+  /** Paragraph printed on the cover under the task overview. */
+  coverText?: string;
+  /** Marking printed at the top of every page, e.g. "CONFIDENTIAL". */
+  classification?: string;
+  sections: ReportSections;
+}
+
+export interface ReportProfile {
+  id: string;
+  name: string;
+  fields: ReportProfileFields;
+  createdAt: string;
+  createdBy: string;
+  updatedAt: string;
+}
+
+/** A job pass that observed an asset fact; `passNr` is null for worker state outside pass history. */
+export interface AssetObservation {
+  jobId: string;
+  jobName: string;
+  passNr: number | null;
+  observedAt: string;
+}
+
+/** What one service probe reported on a port. */
+export interface AssetService {
+  /** Probe that reported it, e.g. `_service_info_22`. */
+  probe: string;
+  banner?: string;
+  version?: string;
+  /** Server or product string, e.g. `nginx/1.24.0`. */
+  product?: string;
+  firstSeen: string;
+  lastSeen: string;
+  lastObservation: AssetObservation;
+}
+
+export interface AssetPort {
+  port: number;
+  /** Well-known service name for the port number, when there is one. */
+  service?: string;
+  firstSeen: string;
+  lastSeen: string;
+  services: AssetService[];
+  /** Newest first, capped to the most recent observations. */
+  observations: AssetObservation[];
+}
+
+/** Everything the inventory knows about one scanned target. */
+export interface AssetHost {
+  host: string;
+  firstSeen: string;
+  lastSeen: string;
+  ports: AssetPort[];
+}
+
+export interface AssetHostSummary {
+  host: string;
+  firstSeen: string;
+  lastSeen: string;
+  ports: number[];
+  /** Distinct products and service names seen on the host. */
+  services: string[];
+  jobIds: string[];
+}
+
+export interface AssetInventoryPage {
+  /** When job reports were last ingested; null before the first ingest. */
+  ingestedAt: string | null;
+  hosts: AssetHostSummary[];
+}
+
+/** Where a certificate was served, and the latest job pass that saw it there. */
+export interface TlsEndpoint {
+  host: string;
+  port: number;
+  probe: string;
+  lastObservation: AssetObservation;
+}
+
+/** A certificate parsed out of TLS probe results, merged across jobs by fingerprint or identity. */
+export interface TlsCertificate {
+  id: string;
+  subject: string;
+  commonName?: string;
+  sans: string[];
+  issuer: string;
+  serialNumber?: string;
+  fingerprint?: string;
+  notBefore?: string;
+  notAfter?: string;
+  keyType?: string;
+  keySize?: number;
+  signatureAlgorithm?: string;
+  selfSigned: boolean;
+  /** Protocol versions and cipher suites the endpoints negotiated or advertised. */
+  protocols: string[];
+  ciphers: string[];
+  endpoints: TlsEndpoint[];
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export interface TlsCertificateSummary extends TlsCertificate {
+  /** Whole days until `notAfter`, negative once expired; null when the probe did not report it. */
+  daysToExpiry: number | null;
+  weakKey: boolean;
+  weakProtocols: string[];
+  weakCiphers: string[];
+}
+
+export interface TlsCertificatePage {
+  ingestedAt: string | null;
+  certificates: TlsCertificateSummary[];
+}
+
+/** A product seen on one port of one host, with the version from its latest observation. */
+export interface TechInstall {
+  host: string;
+  port: number;
+  /** Canonical product name, e.g. `OpenSSH`, `nginx`, `Apache httpd`. */
+  product: string;
+  version: string | null;
+  probe: string;
+  firstSeen: string;
+  lastSeen: string;
+  lastObservation: AssetObservation;
+}
+
+/** A product whose reported version differed from the previous pass that saw it. */
+export interface TechVersionChange {
+  host: string;
+  port: number;
+  product: string;
+  from: string | null;
+  to: string;
+  observation: AssetObservation;
+}
+
+export interface TechVersionCount {
+  version: string | null;
+  hosts: number;
+}
+
+export interface TechProductDistribution {
+  product: string;
+  hosts: number;
+  versions: TechVersionCount[];
+}
+
+export interface TechInventoryPage {
+  ingestedAt: string | null;
+  query: string;
+  installs: TechInstall[];
+  distribution: TechProductDistribution[];
+  changes: TechVersionChange[];
+}
+
+/** A versioned product detected on a port, as submitted for CVE matching. */
+export interface CveMatchItem {
+  port: number;
+  product: string;
+  version: string;
+}
+
+/** A CVE from the imported feed whose affected versions include a detected product version. */
+export interface CveMatch {
+  cveId: string;
+  port: number;
+  product: string;
+  version: string;
+  cvssScore: number | null;
+  cvssVector?: string;
+  severity: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW' | 'INFO';
+  summary: string;
+  published?: string;
+}
+
+export interface CveFeedStatus {
+  /** When the feed directory was last imported; null before the first import. */
+  importedAt: string | null;
+  importedBy?: string;
+  feedDir: string;
+  sourceFiles: string[];
+  cveCount: number;
+  aliasCount: number;
+}
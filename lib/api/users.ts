@@ -0,0 +1,131 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { randomBytes, scrypt as scryptCallback, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { ApiError } from './errors';
+import { UserAccount } from './types';
+import { getAppConfig } from '../config/env';
+import { isUserRole } from '../domain/roles';
+
+const scrypt = promisify(scryptCallback) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+const SCRYPT_KEY_LENGTH = 64;
+
+/**
+ * Entry of the local user directory (`<REDMESH_DATA_DIR>/users.json` or `REDMESH_USERS_FILE`).
+ *
+ * ```json
+ * { "users": [{ "username": "alice", "displayName": "Alice", "roles": ["operator"],
+ *               "passwordHash": "scrypt:<salt>:<hex>" }] }
+ * ```
+ * `password` (plain text) is accepted for local development only.
+ */
+interface LocalUserRecord {
+  username: string;
+  displayName?: string;
+  roles?: string[];
+  passwordHash?: string;
+  password?: string;
+  disabled?: boolean;
+}
+
+export function getUsersFilePath(): string {
+  const config = getAppConfig();
+  return path.resolve(config.usersFile ?? path.join(config.dataDir, 'users.json'));
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const derived = await scrypt(password, salt, SCRYPT_KEY_LENGTH);
+  return `scrypt:${salt}:${derived.toString('hex')}`;
+}
+
+async function verifyPassword(record: LocalUserRecord, password: string): Promise<boolean> {
+  if (record.passwordHash) {
+    const [scheme, salt, expectedHex] = record.passwordHash.split(':');
+    if (scheme !== 'scrypt' || !salt || !expectedHex) {
+      return false;
+    }
+    const expected = Buffer.from(expectedHex, 'hex');
+    const derived = await scrypt(password, salt, expected.length || SCRYPT_KEY_LENGTH);
+    return derived.length === expected.length && timingSafeEqual(derived, expected);
+  }
+
+  if (typeof record.password === 'string') {
+    const expected = Buffer.from(record.password);
+    const given = Buffer.from(password);
+    return expected.length === given.length && timingSafeEqual(expected, given);
+  }
+
+  return false;
+}
+
+/**
+ * Read the local user directory. A missing file means no local users are configured.
+ */
+export async function loadLocalUsers(): Promise<LocalUserRecord[]> {
+  let raw: string;
+  try {
+    raw = await readFile(getUsersFilePath(), 'utf8');
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (_error) {
+    throw new ApiError(500, 'Local user directory is not valid JSON.');
+  }
+
+  const users = Array.isArray(parsed) ? parsed : (parsed as { users?: unknown })?.users;
+  if (!Array.isArray(users)) {
+    throw new ApiError(500, 'Local user directory must contain a "users" array.');
+  }
+
+  return users.filter(
+    (entry): entry is LocalUserRecord => Boolean(entry) && typeof (entry as LocalUserRecord).username === 'string'
+  );
+}
+
+function toUserAccount(record: LocalUserRecord): UserAccount {
+  return {
+    id: record.username,
+    username: record.username,
+    displayName: record.displayName ?? record.username,
+    roles: (record.roles ?? []).filter(isUserRole)
+  };
+}
+
+/**
+ * Authenticate against the local user directory.
+ * Returns null when the username is not listed so other auth paths can be tried.
+ */
+export async function authenticateLocalUser(username: string, password: string): Promise<UserAccount | null> {
+  const users = await loadLocalUsers();
+  const record = users.find((candidate) => candidate.username === username);
+  if (!record) {
+    return null;
+  }
+
+  if (record.disabled || !(await verifyPassword(record, password))) {
+    throw new ApiError(401, 'Password does not match.');
+  }
+
+  return toUserAccount(record);
+}
+
+/**
+ * Look up a user in the local user directory without a password, e.g. when a session is refreshed.
+ * Returns undefined when the username is not listed and null when the account is disabled.
+ */
+export async function findLocalUser(username: string): Promise<UserAccount | null | undefined> {
+  const users = await loadLocalUsers();
+  const record = users.find((candidate) => candidate.username === username);
+  if (!record) {
+    return undefined;
+  }
+  return record.disabled ? null : toUserAccount(record);
+}
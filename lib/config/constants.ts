@@ -25,4 +25,17 @@ export const STREAM_API_TIMEOUT_MS = 120_000;
 // =============================================================================
 
 /** Prefix for internal Ratio1 node addresses */
-export const INTERNAL_ADDRESS_PREFIX = '0xai_';
\ No newline at end of file
+export const INTERNAL_ADDRESS_PREFIX = '0xai_';
+
+// =============================================================================
+// Sessions
+// =============================================================================
+
+/** Name of the HttpOnly cookie carrying the signed session token */
+export const SESSION_COOKIE_NAME = 'redmesh_session';
+
+/** Default session lifetime (8 hours) */
+export const DEFAULT_SESSION_TTL_SECONDS = 8 * 60 * 60;
+
+/** Shortest accepted REDMESH_SESSION_SECRET; sessions are refused without one */
+export const MIN_SESSION_SECRET_LENGTH = 32;
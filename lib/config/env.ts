@@ -1,3 +1,5 @@
+import { DEFAULT_SESSION_TTL_SECONDS, MIN_SESSION_SECRET_LENGTH } from './constants';
+
 export interface AppRuntimeConfig {
   redmeshApiUrl?: string;
   oraclesApiUrl?: string;
@@ -14,6 +16,16 @@ export interface AppRuntimeConfig {
   forceMockAuth: boolean;
   adminUsername: string;
   adminPassword: string;
+  sessionSecret?: string;
+  sessionTtlSeconds: number;
+  trustedProxyHops: number;
+  dataDir: string;
+  usersFile?: string;
+  cveFeedDir: string;
+  scopeOpen: boolean;
+  defectDojoUrl?: string;
+  defectDojoApiKey?: string;
+  defectDojoEngagementId?: number;
 }
 
 let cachedConfig: AppRuntimeConfig | null = null;
@@ -95,6 +107,12 @@ function resolveConfig(): AppRuntimeConfig {
   const redmeshPassword = process.env.REDMESH_PASSWORD?.trim();
   const adminUsername = (process.env.ADMIN_USERNAME ?? 'admin').trim();
   const adminPassword = (process.env.ADMIN_PASSWORD ?? 'admin123').trim();
+  const sessionTtlRaw = Number.parseInt(process.env.REDMESH_SESSION_TTL?.trim() ?? '', 10);
+  const sessionTtlSeconds =
+    Number.isInteger(sessionTtlRaw) && sessionTtlRaw > 0 ? sessionTtlRaw : DEFAULT_SESSION_TTL_SECONDS;
+  // Reverse proxies in front of the Navigator; forwarded client IPs are only trusted behind them.
+  const trustedProxyHopsRaw = Number.parseInt(process.env.REDMESH_TRUSTED_PROXY_HOPS?.trim() ?? '', 10);
+  const trustedProxyHops = Number.isInteger(trustedProxyHopsRaw) && trustedProxyHopsRaw > 0 ? trustedProxyHopsRaw : 0;
   const chainstorePeers = parsePeerList(
       process.env.R1EN_CHAINSTORE_PEERS || process.env.EE_CHAINSTORE_PEERS || process.env.CHAINSTORE_PEERS
   );
@@ -122,6 +140,30 @@ function resolveConfig(): AppRuntimeConfig {
     true
   );
 
+  // Launches need an allow rule covering the target unless open scope is switched on explicitly.
+  const scopeOpen = coerceBoolean(process.env.REDMESH_SCOPE_OPEN, false);
+
+  // Sessions are only signed with an explicit, long enough secret. Anything derived from the
+  // config (password, host ID) is guessable, so without one no session is issued or accepted.
+  const explicitSessionSecret = process.env.REDMESH_SESSION_SECRET?.trim();
+  if (explicitSessionSecret && explicitSessionSecret.length < MIN_SESSION_SECRET_LENGTH) {
+    console.warn(`REDMESH_SESSION_SECRET is shorter than ${MIN_SESSION_SECRET_LENGTH} characters; sign-in is disabled.`);
+  }
+  const sessionSecret =
+    explicitSessionSecret && explicitSessionSecret.length >= MIN_SESSION_SECRET_LENGTH ? explicitSessionSecret : undefined;
+
+  // Local Navigator state (user directory and other stores) lives under the data directory.
+  const dataDir = process.env.REDMESH_DATA_DIR?.trim() || 'data';
+  const usersFile = process.env.REDMESH_USERS_FILE?.trim() || undefined;
+  // NVD JSON feeds and CPE dictionaries are imported from here; nothing is downloaded at runtime.
+  const cveFeedDir = process.env.REDMESH_CVE_FEED_DIR?.trim() || `${dataDir}/cve-feed`;
+
+  // Optional DefectDojo (or compatible) import-scan endpoint for pushing job findings.
+  const defectDojoUrl = normalizeUrl(process.env.DEFECTDOJO_URL);
+  const defectDojoApiKey = process.env.DEFECTDOJO_API_KEY?.trim() || undefined;
+  const engagementRaw = Number.parseInt(process.env.DEFECTDOJO_ENGAGEMENT_ID?.trim() ?? '', 10);
+  const defectDojoEngagementId = Number.isInteger(engagementRaw) && engagementRaw > 0 ? engagementRaw : undefined;
+
   const criticalValues = [redmeshApiUrl, chainstoreApiUrl, hostId];
   const missingCritical = criticalValues.some((value) => !value);
 
@@ -140,7 +182,17 @@ function resolveConfig(): AppRuntimeConfig {
     forceMockTasks,
     forceMockAuth,
     adminUsername,
-    adminPassword
+    adminPassword,
+    sessionSecret,
+    sessionTtlSeconds,
+    trustedProxyHops,
+    dataDir,
+    usersFile,
+    cveFeedDir,
+    scopeOpen,
+    defectDojoUrl,
+    defectDojoApiKey,
+    defectDojoEngagementId
   };
 }
 
@@ -0,0 +1,267 @@
+/**
+ * Cross-job asset inventory: folds every job's reports into host -> port -> service facts with
+ * first/last seen times and the job pass that observed them.
+ */
+
+import type { AssetHost, AssetHostSummary, AssetObservation, AssetPort, Job } from '../api/types';
+import { aggregatePorts } from './findings';
+import type { AggregatedPortsData } from './findings';
+import { WELL_KNOWN_PORTS } from './knowledge';
+
+/** Observations kept per port; older ones still count towards first seen. */
+export const MAX_PORT_OBSERVATIONS = 20;
+
+const MAX_BANNER_LENGTH = 300;
+
+interface ServiceFact {
+  probe: string;
+  banner?: string;
+  version?: string;
+  product?: string;
+}
+
+/** One port of one host as seen by one job pass. */
+export interface AssetFact {
+  host: string;
+  port: number;
+  observation: AssetObservation;
+  services: ServiceFact[];
+}
+
+export function normalizeAssetHost(target: string): string {
+  return target.trim().toLowerCase();
+}
+
+function text(value: unknown): string | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+  const trimmed = String(value).trim();
+  return trimmed ? trimmed.slice(0, MAX_BANNER_LENGTH) : undefined;
+}
+
+/** Banner, version and product from a service probe result; plain strings are treated as banners. */
+function serviceFact(probe: string, result: unknown): ServiceFact | null {
+  if (typeof result === 'string') {
+    const banner = text(result.split('\n')[0]);
+    return banner ? { probe, banner } : null;
+  }
+  if (!result || typeof result !== 'object' || Array.isArray(result)) {
+    return null;
+  }
+  const raw = result as Record<string, unknown>;
+  if (raw.error) {
+    return null;
+  }
+  const fact: ServiceFact = { probe };
+  const banner = text(raw.banner);
+  const version = text(raw.version);
+  const product = text(raw.server ?? raw.product);
+  if (banner) fact.banner = banner;
+  if (version) fact.version = version;
+  if (product) fact.product = product;
+  return fact;
+}
+
+function latestTimelineDate(job: Job): string | undefined {
+  return job.timeline
+    .map((entry) => entry.date)
+    .filter(Boolean)
+    .sort()
+    .pop();
+}
+
+/**
+ * Visit every pass of every job whose reports are available, with the ports it aggregated.
+ * Jobs without available pass reports (still running, or mock data) are visited once with
+ * their live worker state.
+ */
+export function forEachObservedPass(
+  jobs: Job[],
+  reports: Record<string, Record<string, unknown>>,
+  visit: (host: string, observation: AssetObservation, aggregated: AggregatedPortsData) => void,
+  now: Date = new Date()
+): void {
+  jobs.forEach((job) => {
+    const host = normalizeAssetHost(job.target);
+    if (!host) {
+      return;
+    }
+    let fromPasses = false;
+
+    (job.passHistory ?? []).forEach((pass) => {
+      const passReports: Record<string, Record<string, unknown>> = {};
+      Object.values(pass.reports ?? {}).forEach((cid) => {
+        if (reports[cid]) passReports[cid] = reports[cid];
+      });
+      if (Object.keys(passReports).length === 0) {
+        return;
+      }
+      fromPasses = true;
+      const observation = {
+        jobId: job.id,
+        jobName: job.displayName,
+        passNr: pass.passNr,
+        observedAt: pass.completedAt || latestTimelineDate(job) || now.toISOString(),
+      };
+      visit(host, observation, aggregatePorts(passReports, null));
+    });
+
+    if (!fromPasses) {
+      const observation = {
+        jobId: job.id,
+        jobName: job.displayName,
+        passNr: null,
+        observedAt: latestTimelineDate(job) || now.toISOString(),
+      };
+      visit(host, observation, aggregatePorts({}, job));
+    }
+  });
+}
+
+/** Port and service facts from every observed pass of every job. */
+export function collectAssetFacts(
+  jobs: Job[],
+  reports: Record<string, Record<string, unknown>>,
+  now: Date = new Date()
+): AssetFact[] {
+  const facts: AssetFact[] = [];
+  forEachObservedPass(
+    jobs,
+    reports,
+    (host, observation, aggregated) => {
+      aggregated.ports.forEach((port) => {
+        facts.push({
+          host,
+          port,
+          observation,
+          services: Object.entries(aggregated.services.get(port) ?? {})
+            .map(([probe, result]) => serviceFact(probe, result))
+            .filter((fact): fact is ServiceFact => fact !== null),
+        });
+      });
+    },
+    now
+  );
+  return facts;
+}
+
+function earlier(a: string, b: string): string {
+  return a <= b ? a : b;
+}
+
+function later(a: string, b: string): string {
+  return a >= b ? a : b;
+}
+
+function mergeIntoPort(entry: AssetPort, fact: AssetFact): void {
+  const { observation } = fact;
+  const seenAt = observation.observedAt;
+  entry.firstSeen = earlier(entry.firstSeen, seenAt);
+  entry.lastSeen = later(entry.lastSeen, seenAt);
+
+  const known = entry.observations.some(
+    (existing) => existing.jobId === observation.jobId && existing.passNr === observation.passNr
+  );
+  if (!known) {
+    entry.observations = [...entry.observations, observation]
+      .sort((a, b) => b.observedAt.localeCompare(a.observedAt))
+      .slice(0, MAX_PORT_OBSERVATIONS);
+  }
+
+  fact.services.forEach((service) => {
+    const existing = entry.services.find((candidate) => candidate.probe === service.probe);
+    if (!existing) {
+      entry.services.push({ ...service, firstSeen: seenAt, lastSeen: seenAt, lastObservation: observation });
+      return;
+    }
+    existing.firstSeen = earlier(existing.firstSeen, seenAt);
+    if (seenAt >= existing.lastSeen) {
+      // Newest observation wins for banner, version and product
+      existing.lastSeen = seenAt;
+      existing.lastObservation = observation;
+      existing.banner = service.banner;
+      existing.version = service.version;
+      existing.product = service.product;
+    }
+  });
+}
+
+/**
+ * Merge facts into a previously stored inventory. Re-ingesting the same jobs is a no-op, so
+ * hosts and ports seen by jobs that were purged since are kept.
+ */
+export function mergeAssetFacts(previous: Record<string, AssetHost>, facts: AssetFact[]): Record<string, AssetHost> {
+  const hosts = JSON.parse(JSON.stringify(previous)) as Record<string, AssetHost>;
+
+  facts.forEach((fact) => {
+    const seenAt = fact.observation.observedAt;
+    if (!hosts[fact.host]) {
+      hosts[fact.host] = { host: fact.host, firstSeen: seenAt, lastSeen: seenAt, ports: [] };
+    }
+    const host = hosts[fact.host];
+    host.firstSeen = earlier(host.firstSeen, seenAt);
+    host.lastSeen = later(host.lastSeen, seenAt);
+
+    let entry = host.ports.find((candidate) => candidate.port === fact.port);
+    if (!entry) {
+      entry = {
+        port: fact.port,
+        ...(WELL_KNOWN_PORTS[fact.port] ? { service: WELL_KNOWN_PORTS[fact.port] } : {}),
+        firstSeen: seenAt,
+        lastSeen: seenAt,
+        services: [],
+        observations: [],
+      };
+      host.ports.push(entry);
+      host.ports.sort((a, b) => a.port - b.port);
+    }
+    mergeIntoPort(entry, fact);
+  });
+
+  return hosts;
+}
+
+export function summarizeAssetHost(host: AssetHost): AssetHostSummary {
+  const services = new Set<string>();
+  const jobIds = new Set<string>();
+  host.ports.forEach((port) => {
+    if (port.service) services.add(port.service);
+    port.services.forEach((service) => {
+      if (service.product) services.add(service.product);
+    });
+    port.observations.forEach((observation) => jobIds.add(observation.jobId));
+  });
+
+  return {
+    host: host.host,
+    firstSeen: host.firstSeen,
+    lastSeen: host.lastSeen,
+    ports: host.ports.map((port) => port.port),
+    services: Array.from(services).sort(),
+    jobIds: Array.from(jobIds),
+  };
+}
+
+/**
+ * Case-insensitive match against the host, port numbers, service names, banners, versions,
+ * products and observing job names.
+ */
+export function matchesAssetQuery(host: AssetHost, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return true;
+  }
+  if (host.host.includes(needle)) {
+    return true;
+  }
+  return host.ports.some((port) => {
+    const haystack = [
+      String(port.port),
+      port.service,
+      ...port.services.flatMap((service) => [service.banner, service.version, service.product]),
+      ...port.observations.map((observation) => observation.jobName),
+    ];
+    return haystack.some((value) => value?.toLowerCase().includes(needle));
+  });
+}
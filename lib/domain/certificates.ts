@@ -0,0 +1,397 @@
+/**
+ * TLS certificate inventory: parses certificate, protocol and cipher data out of TLS probe
+ * results (`_service_info_tls`, HTTPS service info) and merges it across jobs.
+ *
+ * Probe output is not uniform, so the parser accepts flat (`cert_not_after`), camelCase
+ * (`notAfter`) and nested (`certificate: {...}`) keys, Python `getpeercert()` name tuples,
+ * OpenSSL date strings and plain-text results.
+ */
+
+import type { AssetObservation, Job, TlsCertificate, TlsCertificateSummary } from '../api/types';
+import { forEachObservedPass } from './assets';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const NESTED_CERT_KEYS = ['certificate', 'cert', 'peercert', 'peercertificate', 'servercertificate'];
+
+const NAME_ABBREVIATIONS: Record<string, string> = {
+  commonname: 'CN',
+  organizationname: 'O',
+  organizationalunitname: 'OU',
+  countryname: 'C',
+  stateorprovincename: 'ST',
+  localityname: 'L',
+  emailaddress: 'E',
+};
+
+const WEAK_PROTOCOLS = /^(SSLv2|SSLv3|TLSv1(\.0)?|TLSv1\.1)$/i;
+const WEAK_CIPHERS = /(RC4|DES|NULL|EXPORT|EXP-|MD5|anon)/i;
+const PROTOCOL_PATTERN = /\b(SSLv[23]|TLSv1(?:\.[0-3])?)\b/gi;
+
+/** Certificate fields found in one probe result. */
+export interface ParsedTlsCertificate {
+  subject: string;
+  commonName?: string;
+  sans: string[];
+  issuer: string;
+  serialNumber?: string;
+  fingerprint?: string;
+  notBefore?: string;
+  notAfter?: string;
+  keyType?: string;
+  keySize?: number;
+  signatureAlgorithm?: string;
+  selfSigned: boolean;
+  protocols: string[];
+  ciphers: string[];
+}
+
+export interface CertificateFact {
+  host: string;
+  port: number;
+  probe: string;
+  observation: AssetObservation;
+  certificate: ParsedTlsCertificate;
+}
+
+/** Lowercase, strip separators and a leading `cert_` / `certificate_` prefix. */
+function normalizeKey(key: string): string {
+  return key
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '')
+    .replace(/^(certificate|cert)(?=[a-z])/, '');
+}
+
+function flatten(raw: Record<string, unknown>): Map<string, unknown> {
+  const fields = new Map<string, unknown>();
+  const add = (source: Record<string, unknown>) => {
+    Object.entries(source).forEach(([key, value]) => {
+      const normalized = normalizeKey(key);
+      if (!fields.has(normalized)) fields.set(normalized, value);
+    });
+  };
+  // Nested certificate fields win over same-named connection fields such as `version`
+  Object.entries(raw).forEach(([key, value]) => {
+    if (NESTED_CERT_KEYS.includes(key.toLowerCase().replace(/[^a-z]/g, '')) && value && typeof value === 'object' && !Array.isArray(value)) {
+      add(value as Record<string, unknown>);
+    }
+  });
+  add(raw);
+  return fields;
+}
+
+function pick(fields: Map<string, unknown>, ...keys: string[]): unknown {
+  for (const key of keys) {
+    const value = fields.get(key);
+    if (value !== undefined && value !== null && value !== '') return value;
+  }
+  return undefined;
+}
+
+function stringValue(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (typeof value === 'number') return String(value);
+  return undefined;
+}
+
+/** `[[["commonName", "x"]], ...]`, `{ commonName: "x" }` or `"CN=x, O=y"` to `CN=x, O=y`. */
+function distinguishedName(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return value.trim() || undefined;
+  }
+  const parts: string[] = [];
+  const addPart = (key: unknown, val: unknown) => {
+    if (typeof key !== 'string' || (typeof val !== 'string' && typeof val !== 'number')) return;
+    parts.push(`${NAME_ABBREVIATIONS[normalizeKey(key)] ?? key}=${val}`);
+  };
+  const walk = (node: unknown) => {
+    if (!Array.isArray(node)) return;
+    if (node.length === 2 && typeof node[0] === 'string' && !Array.isArray(node[1])) {
+      addPart(node[0], node[1]);
+      return;
+    }
+    node.forEach(walk);
+  };
+  if (Array.isArray(value)) {
+    walk(value);
+  } else if (value && typeof value === 'object') {
+    Object.entries(value as Record<string, unknown>).forEach(([key, val]) => addPart(key, val));
+  }
+  return parts.length > 0 ? parts.join(', ') : undefined;
+}
+
+function commonNameOf(dn: string | undefined): string | undefined {
+  return dn?.match(/(?:^|,\s*)CN=([^,]+)/i)?.[1]?.trim();
+}
+
+function sanList(value: unknown): string[] {
+  const names: string[] = [];
+  const addName = (name: string) => {
+    const cleaned = name.trim().replace(/^(DNS|IP Address|IP|URI|email):\s*/i, '');
+    if (cleaned && !names.includes(cleaned)) names.push(cleaned);
+  };
+  if (typeof value === 'string') {
+    value.split(/[,;\s]+/).forEach(addName);
+  } else if (Array.isArray(value)) {
+    value.forEach((entry) => {
+      if (typeof entry === 'string') addName(entry);
+      else if (Array.isArray(entry) && entry.length === 2 && typeof entry[1] === 'string') addName(entry[1]);
+    });
+  }
+  return names;
+}
+
+function isoDate(value: unknown): string | undefined {
+  if (typeof value === 'number') {
+    // Seconds or milliseconds since the epoch
+    const date = new Date(value < 1e12 ? value * 1000 : value);
+    return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    return undefined;
+  }
+  const date = new Date(value.trim().replace(/\s+/g, ' '));
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function listOf(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return value.split(/[,\s]+/).filter(Boolean);
+  }
+  if (Array.isArray(value)) {
+    // A Python `ssl.cipher()` tuple is `[name, protocol, bits]`
+    if (value.length === 3 && typeof value[0] === 'string' && typeof value[2] === 'number') {
+      return [value[0]];
+    }
+    return value.flatMap((entry) => (typeof entry === 'string' ? [entry] : Array.isArray(entry) && typeof entry[0] === 'string' ? [entry[0]] : []));
+  }
+  if (value && typeof value === 'object') {
+    // `{ "TLSv1.2": true, "TLSv1.0": false }`
+    return Object.entries(value as Record<string, unknown>)
+      .filter(([, enabled]) => enabled === true)
+      .map(([name]) => name);
+  }
+  return [];
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values.map((value) => value.trim()).filter(Boolean)));
+}
+
+function protocolsFrom(fields: Map<string, unknown>): string[] {
+  const values = [
+    ...listOf(pick(fields, 'protocols', 'supportedprotocols', 'tlsversions', 'enabledprotocols')),
+    ...listOf(pick(fields, 'protocol', 'tlsversion', 'negotiatedprotocol')),
+  ];
+  // `version` is the certificate version in some probes and the protocol in others
+  const version = stringValue(fields.get('version'));
+  if (version && /^(SSL|TLS)/i.test(version)) values.push(version);
+  return unique(values.filter((value) => /^(SSL|TLS)/i.test(value)));
+}
+
+function parseStructured(raw: Record<string, unknown>): ParsedTlsCertificate | null {
+  const fields = flatten(raw);
+  const subject = distinguishedName(pick(fields, 'subject', 'subjectdn', 'subjectname'));
+  const issuer = distinguishedName(pick(fields, 'issuer', 'issuerdn', 'issuername'));
+  const sans = sanList(pick(fields, 'subjectaltname', 'subjectaltnames', 'sans', 'san', 'altnames'));
+  const notAfter = isoDate(pick(fields, 'notafter', 'validto', 'validuntil', 'expires', 'expiry', 'expiration', 'expiresat'));
+  const notBefore = isoDate(pick(fields, 'notbefore', 'validfrom', 'issued', 'issuedat'));
+
+  if (!subject && !issuer && !notAfter && sans.length === 0) {
+    return null;
+  }
+
+  const commonName = stringValue(pick(fields, 'commonname', 'cn', 'subjectcn')) ?? commonNameOf(subject) ?? sans[0];
+  const selfSignedFlag = pick(fields, 'selfsigned', 'isselfsigned');
+  const findingsText = Array.isArray(raw.findings) ? JSON.stringify(raw.findings) : '';
+
+  const parsed: ParsedTlsCertificate = {
+    subject: subject ?? (commonName ? `CN=${commonName}` : ''),
+    sans,
+    issuer: issuer ?? '',
+    selfSigned:
+      selfSignedFlag === true ||
+      (selfSignedFlag === undefined && Boolean(subject) && subject === issuer) ||
+      /self[- ]signed/i.test(findingsText),
+    protocols: protocolsFrom(fields),
+    ciphers: unique([
+      ...listOf(pick(fields, 'cipher', 'negotiatedcipher', 'ciphersuite')),
+      ...listOf(pick(fields, 'ciphers', 'supportedciphers', 'ciphersuites', 'acceptedciphers')),
+    ]),
+  };
+
+  const serialNumber = stringValue(pick(fields, 'serialnumber', 'serial'));
+  const fingerprint = stringValue(pick(fields, 'sha256fingerprint', 'fingerprintsha256', 'fingerprint', 'sha256', 'sha1fingerprint'));
+  const keyType = stringValue(pick(fields, 'keytype', 'keyalgorithm', 'publickeyalgorithm', 'publickeytype'));
+  const keySize = Number(pick(fields, 'keysize', 'keybits', 'publickeysize', 'publickeybits', 'bits'));
+  const signatureAlgorithm = stringValue(pick(fields, 'signaturealgorithm', 'sigalg', 'signaturealg'));
+
+  if (commonName) parsed.commonName = commonName;
+  if (serialNumber) parsed.serialNumber = serialNumber;
+  if (fingerprint) parsed.fingerprint = fingerprint.toLowerCase().replace(/:/g, '');
+  if (notBefore) parsed.notBefore = notBefore;
+  if (notAfter) parsed.notAfter = notAfter;
+  if (keyType) parsed.keyType = keyType;
+  if (Number.isFinite(keySize) && keySize > 0) parsed.keySize = keySize;
+  if (signatureAlgorithm) parsed.signatureAlgorithm = signatureAlgorithm;
+  return parsed;
+}
+
+/** Plain-text probe output: `Subject: ...`, `Issuer: ...`, `Not After: ...`, protocol names. */
+function parseText(text: string): ParsedTlsCertificate | null {
+  const line = (pattern: RegExp) => text.match(pattern)?.[1]?.trim();
+  const subject = line(/subject\s*[:=]\s*(.+)/i);
+  const issuer = line(/issuer\s*[:=]\s*(.+)/i);
+  const notAfter = isoDate(line(/(?:not\s*after|valid\s*(?:to|until)|expires(?:\s*on)?)\s*[:=]?\s*(.+)/i));
+  const sans = sanList(line(/(?:subject\s*alt(?:ernative)?\s*names?|SANs?)\s*[:=]\s*(.+)/i) ?? '');
+  if (!subject && !issuer && !notAfter && sans.length === 0) {
+    return null;
+  }
+  const parsed: ParsedTlsCertificate = {
+    subject: subject ?? '',
+    sans,
+    issuer: issuer ?? '',
+    selfSigned: /self[- ]signed/i.test(text) || (Boolean(subject) && subject === issuer),
+    protocols: unique(text.match(PROTOCOL_PATTERN) ?? []),
+    ciphers: unique(text.match(/cipher\s*[:=]\s*([A-Z0-9_-]+)/i)?.slice(1) ?? []),
+  };
+  const commonName = commonNameOf(subject) ?? sans[0];
+  if (commonName) parsed.commonName = commonName;
+  if (notAfter) parsed.notAfter = notAfter;
+  return parsed;
+}
+
+/**
+ * Certificate fields from one probe result, or null when it carries no certificate.
+ */
+export function parseTlsCertificate(result: unknown): ParsedTlsCertificate | null {
+  if (typeof result === 'string') {
+    return parseText(result);
+  }
+  if (!result || typeof result !== 'object' || Array.isArray(result)) {
+    return null;
+  }
+  const raw = result as Record<string, unknown>;
+  return raw.error ? null : parseStructured(raw);
+}
+
+/** Fingerprint when reported; otherwise subject, issuer, serial and expiry identify the certificate. */
+export function certificateId(certificate: ParsedTlsCertificate): string {
+  if (certificate.fingerprint) {
+    return certificate.fingerprint;
+  }
+  return [certificate.subject, certificate.issuer, certificate.serialNumber ?? '', certificate.notAfter ?? '']
+    .join('|')
+    .toLowerCase();
+}
+
+/** Certificates from every service probe result of every observed job pass. */
+export function collectCertificateFacts(
+  jobs: Job[],
+  reports: Record<string, Record<string, unknown>>,
+  now: Date = new Date()
+): CertificateFact[] {
+  const facts: CertificateFact[] = [];
+  forEachObservedPass(
+    jobs,
+    reports,
+    (host, observation, aggregated) => {
+      aggregated.ports.forEach((port) => {
+        Object.entries(aggregated.services.get(port) ?? {}).forEach(([probe, result]) => {
+          const certificate = parseTlsCertificate(result);
+          if (certificate) facts.push({ host, port, probe, observation, certificate });
+        });
+      });
+    },
+    now
+  );
+  return facts;
+}
+
+/**
+ * Merge certificate facts into the stored inventory; the newest observation wins for the
+ * certificate fields, protocols and ciphers accumulate, and each endpoint keeps its latest pass.
+ */
+export function mergeCertificateFacts(
+  previous: Record<string, TlsCertificate>,
+  facts: CertificateFact[]
+): Record<string, TlsCertificate> {
+  const certificates = JSON.parse(JSON.stringify(previous)) as Record<string, TlsCertificate>;
+
+  facts.forEach(({ host, port, probe, observation, certificate }) => {
+    const id = certificateId(certificate);
+    const seenAt = observation.observedAt;
+    const existing = certificates[id];
+
+    if (!existing) {
+      certificates[id] = {
+        id,
+        ...certificate,
+        endpoints: [{ host, port, probe, lastObservation: observation }],
+        firstSeen: seenAt,
+        lastSeen: seenAt,
+      };
+      return;
+    }
+
+    if (seenAt >= existing.lastSeen) {
+      Object.assign(existing, certificate, {
+        protocols: unique([...existing.protocols, ...certificate.protocols]),
+        ciphers: unique([...existing.ciphers, ...certificate.ciphers]),
+        lastSeen: seenAt,
+      });
+    } else {
+      existing.protocols = unique([...existing.protocols, ...certificate.protocols]);
+      existing.ciphers = unique([...existing.ciphers, ...certificate.ciphers]);
+    }
+    if (seenAt < existing.firstSeen) {
+      existing.firstSeen = seenAt;
+    }
+
+    const endpoint = existing.endpoints.find((entry) => entry.host === host && entry.port === port);
+    if (!endpoint) {
+      existing.endpoints.push({ host, port, probe, lastObservation: observation });
+      existing.endpoints.sort((a, b) => a.host.localeCompare(b.host) || a.port - b.port);
+    } else if (seenAt >= endpoint.lastObservation.observedAt) {
+      endpoint.probe = probe;
+      endpoint.lastObservation = observation;
+    }
+  });
+
+  return certificates;
+}
+
+/** RSA and DSA below 2048 bits, elliptic curves below 224 bits. */
+export function isWeakKey(certificate: Pick<TlsCertificate, 'keyType' | 'keySize'>): boolean {
+  const { keyType, keySize } = certificate;
+  if (!keySize) {
+    return false;
+  }
+  if (keyType && /(ec|ed25519|ed448)/i.test(keyType)) {
+    return keySize < 224;
+  }
+  // Without a key type, 256/384/521 bits can only be curves
+  if (!keyType && [256, 384, 521].includes(keySize)) {
+    return false;
+  }
+  return keySize < 2048;
+}
+
+export function summarizeCertificate(certificate: TlsCertificate, now: Date = new Date()): TlsCertificateSummary {
+  const expiresAt = certificate.notAfter ? new Date(certificate.notAfter).getTime() : NaN;
+  return {
+    ...certificate,
+    daysToExpiry: Number.isNaN(expiresAt) ? null : Math.floor((expiresAt - now.getTime()) / DAY_MS),
+    weakKey: isWeakKey(certificate),
+    weakProtocols: certificate.protocols.filter((protocol) => WEAK_PROTOCOLS.test(protocol)),
+    weakCiphers: certificate.ciphers.filter((cipher) => WEAK_CIPHERS.test(cipher)),
+  };
+}
+
+/** Soonest expiry first; certificates without an expiry date last. */
+export function compareByExpiry(a: TlsCertificateSummary, b: TlsCertificateSummary): number {
+  if (a.daysToExpiry === null || b.daysToExpiry === null) {
+    return Number(a.daysToExpiry === null) - Number(b.daysToExpiry === null) || a.subject.localeCompare(b.subject);
+  }
+  return a.daysToExpiry - b.daysToExpiry || a.subject.localeCompare(b.subject);
+}
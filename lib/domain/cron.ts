@@ -0,0 +1,262 @@
+/**
+ * Five-field cron expressions (`minute hour day-of-month month day-of-week`) evaluated in an
+ * IANA timezone. Pure functions shared by the scheduler and the Schedules page.
+ *
+ * Fields accept `*`, numbers, lists (`1,15`), ranges (`1-5`), steps (`*\/15`, `0-30/10`) and, for
+ * month and day-of-week, three-letter names (`JAN`, `MON`). Day-of-week 7 is Sunday, like 0. When
+ * both day fields are restricted a day matches if either does, as in Vixie cron.
+ */
+
+export interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** True when day-of-month was `*`; used for the day-of-month/day-of-week OR rule. */
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+interface FieldSpec {
+  label: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { label: 'minute', min: 0, max: 59 },
+  { label: 'hour', min: 0, max: 23 },
+  { label: 'day of month', min: 1, max: 31 },
+  {
+    label: 'month',
+    min: 1,
+    max: 12,
+    names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
+  },
+  { label: 'day of week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] }
+];
+
+/** How far ahead to search for the next run; covers Feb 29 schedules. */
+const MAX_SEARCH_DAYS = 366 * 8;
+
+function parseValue(raw: string, spec: FieldSpec): number {
+  const upper = raw.toUpperCase();
+  const nameIndex = spec.names?.indexOf(upper) ?? -1;
+  if (nameIndex >= 0) {
+    return nameIndex + (spec.label === 'month' ? 1 : 0);
+  }
+  if (!/^\d+$/.test(raw)) {
+    throw new Error(`Invalid ${spec.label} value "${raw}".`);
+  }
+  const value = Number(raw);
+  if (value < spec.min || value > spec.max) {
+    throw new Error(`${spec.label} value ${value} is outside ${spec.min}-${spec.max}.`);
+  }
+  return value;
+}
+
+function parseField(raw: string, spec: FieldSpec): number[] {
+  const values = new Set<number>();
+
+  for (const part of raw.split(',')) {
+    const [rangeRaw, stepRaw, extra] = part.split('/');
+    if (!rangeRaw || extra !== undefined) {
+      throw new Error(`Invalid ${spec.label} field "${raw}".`);
+    }
+    const step = stepRaw === undefined ? 1 : Number(stepRaw);
+    if (!Number.isInteger(step) || step < 1 || (stepRaw !== undefined && !/^\d+$/.test(stepRaw))) {
+      throw new Error(`Invalid ${spec.label} step "${stepRaw}".`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangeRaw === '*') {
+      start = spec.min;
+      end = spec.label === 'day of week' ? 6 : spec.max;
+    } else if (rangeRaw.includes('-')) {
+      const [from, to] = rangeRaw.split('-');
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (end < start) {
+        throw new Error(`Invalid ${spec.label} range "${rangeRaw}".`);
+      }
+    } else {
+      start = parseValue(rangeRaw, spec);
+      // `5/15` means "from 5, every 15"
+      end = stepRaw === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(spec.label === 'day of week' && value === 7 ? 0 : value);
+    }
+  }
+
+  return Array.from(values).sort((a, b) => a - b);
+}
+
+/**
+ * Parse a cron expression, throwing an Error with a readable message when it is invalid.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error('Cron expressions need five fields: minute hour day-of-month month day-of-week.');
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]));
+  return {
+    minutes,
+    hours,
+    daysOfMonth: new Set(daysOfMonth),
+    months: new Set(months),
+    daysOfWeek: new Set(daysOfWeek),
+    anyDayOfMonth: parts[2] === '*',
+    anyDayOfWeek: parts[4] === '*'
+  };
+}
+
+/** Longest month length, by month; February counts its leap day. */
+const MONTH_DAYS = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+/**
+ * True when the expression can fire at all. Only the day fields can rule out every date: a
+ * day-of-month that no selected month has (`0 0 31 2 *`), with day-of-week left as `*`.
+ */
+function canEverMatch(schedule: CronSchedule): boolean {
+  if (schedule.anyDayOfMonth || !schedule.anyDayOfWeek) {
+    return true;
+  }
+  return Array.from(schedule.months).some((month) =>
+    Array.from(schedule.daysOfMonth).some((day) => day <= MONTH_DAYS[month - 1])
+  );
+}
+
+/** Returns the validation error for an expression, or null when it is valid. */
+export function validateCron(expression: string): string | null {
+  try {
+    if (!canEverMatch(parseCron(expression))) {
+      return 'None of the selected months has the selected day of month, so the schedule would never run.';
+    }
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid cron expression.';
+  }
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (_error) {
+    return false;
+  }
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function zonedParts(instant: number, timeZone: string): ZonedParts {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric'
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(
+    formatter.formatToParts(new Date(instant)).map((part) => [part.type, part.value])
+  );
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute)
+  };
+}
+
+function offsetAt(instant: number, timeZone: string): number {
+  const minuteStart = instant - (((instant % 60_000) + 60_000) % 60_000);
+  const local = zonedParts(minuteStart, timeZone);
+  return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) - minuteStart;
+}
+
+/** Convert a wall-clock time in `timeZone` to a UTC instant; null when it falls in a DST gap. */
+function zonedTimeToUtc(local: ZonedParts, timeZone: string): number | null {
+  const guess = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+  let instant = guess - offsetAt(guess, timeZone);
+  const corrected = guess - offsetAt(instant, timeZone);
+  if (corrected !== instant) {
+    instant = corrected;
+  }
+  const check = zonedParts(instant, timeZone);
+  return check.hour === local.hour && check.minute === local.minute && check.day === local.day ? instant : null;
+}
+
+function dayMatches(schedule: CronSchedule, year: number, month: number, day: number): boolean {
+  if (!schedule.months.has(month)) {
+    return false;
+  }
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  const domMatch = schedule.daysOfMonth.has(day);
+  const dowMatch = schedule.daysOfWeek.has(weekday);
+  if (schedule.anyDayOfMonth && schedule.anyDayOfWeek) {
+    return true;
+  }
+  if (schedule.anyDayOfMonth) {
+    return dowMatch;
+  }
+  if (schedule.anyDayOfWeek) {
+    return domMatch;
+  }
+  return domMatch || dowMatch;
+}
+
+/**
+ * The next `count` run times strictly after `from`, as Dates.
+ * Wall-clock times skipped by a DST change are not run.
+ */
+export function nextCronRuns(expression: string, timeZone: string, from: Date, count: number = 1): Date[] {
+  const schedule = parseCron(expression);
+  const runs: Date[] = [];
+  const after = from.getTime();
+  const start = zonedParts(after, timeZone);
+
+  for (let offset = 0; offset < MAX_SEARCH_DAYS && runs.length < count; offset += 1) {
+    const date = new Date(Date.UTC(start.year, start.month - 1, start.day + offset));
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+    const day = date.getUTCDate();
+    if (!dayMatches(schedule, year, month, day)) {
+      continue;
+    }
+
+    for (const hour of schedule.hours) {
+      for (const minute of schedule.minutes) {
+        const instant = zonedTimeToUtc({ year, month, day, hour, minute }, timeZone);
+        if (instant !== null && instant > after) {
+          runs.push(new Date(instant));
+          if (runs.length === count) {
+            return runs;
+          }
+        }
+      }
+    }
+  }
+
+  return runs;
+}
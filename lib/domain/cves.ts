@@ -0,0 +1,407 @@
+/**
+ * Offline CVE matching: NVD JSON feeds are reduced to per-CPE version ranges, and product/version
+ * pairs taken from service banners are matched against them. Matches are attached to the
+ * aggregated ports as a synthetic `_cve_match` probe so they show up like any other finding.
+ */
+
+import type { CveMatch, CveMatchItem } from '../api/types';
+import type { AggregatedPortsData } from './findings';
+import { cvssSeverity } from './cvss';
+import { compareVersions, extractTechnologies } from './techStack';
+
+export const CVE_MATCH_PROBE = '_cve_match';
+
+const MAX_SUMMARY_LENGTH = 400;
+
+/** Canonical product names (see `techStack`) to the NVD `vendor:product` pairs they ship as. */
+const CPE_ALIASES: Record<string, string[]> = {
+  OpenSSH: ['openbsd:openssh'],
+  Dropbear: ['dropbear_ssh_project:dropbear_ssh'],
+  nginx: ['f5:nginx', 'nginx:nginx'],
+  OpenResty: ['openresty:openresty'],
+  'Apache httpd': ['apache:http_server'],
+  'Apache Tomcat': ['apache:tomcat'],
+  'Microsoft IIS': ['microsoft:internet_information_services', 'microsoft:iis'],
+  lighttpd: ['lighttpd:lighttpd'],
+  Caddy: ['caddyserver:caddy'],
+  Jetty: ['eclipse:jetty'],
+  Werkzeug: ['palletsprojects:werkzeug'],
+  Express: ['expressjs:express'],
+  'Node.js': ['nodejs:node.js'],
+  PHP: ['php:php'],
+  Python: ['python:python'],
+  OpenSSL: ['openssl:openssl'],
+  MySQL: ['oracle:mysql', 'mysql:mysql'],
+  MariaDB: ['mariadb:mariadb'],
+  PostgreSQL: ['postgresql:postgresql'],
+  Redis: ['redis:redis'],
+  MongoDB: ['mongodb:mongodb'],
+  Elasticsearch: ['elastic:elasticsearch', 'elasticsearch:elasticsearch'],
+  vsftpd: ['vsftpd_project:vsftpd', 'beasts:vsftpd'],
+  ProFTPD: ['proftpd:proftpd', 'proftpd_project:proftpd'],
+  'Pure-FTPd': ['pureftpd:pure-ftpd'],
+  Exim: ['exim:exim'],
+  Postfix: ['postfix:postfix'],
+  Dovecot: ['dovecot:dovecot'],
+  WordPress: ['wordpress:wordpress'],
+  Drupal: ['drupal:drupal'],
+  Joomla: ['joomla:joomla\\!'],
+  jQuery: ['jquery:jquery'],
+};
+
+/** One affected-version range of a vulnerable CPE. */
+export interface CpeRange {
+  vendor: string;
+  product: string;
+  /** Exact version (with the CPE update appended, e.g. `7.4p1`) when the entry is not a range. */
+  version?: string;
+  startIncluding?: string;
+  startExcluding?: string;
+  endIncluding?: string;
+  endExcluding?: string;
+}
+
+export interface CveRecord {
+  id: string;
+  summary: string;
+  cvssScore: number | null;
+  cvssVector?: string;
+  severity: CveMatch['severity'];
+  published?: string;
+  ranges: CpeRange[];
+}
+
+export interface CveIndex {
+  cves: CveRecord[];
+  /** Extra product name -> `vendor:product` aliases from imported CPE dictionaries. */
+  aliases: Record<string, string[]>;
+}
+
+export function severityFromCvss(score: number | null, reported?: unknown): CveMatch['severity'] {
+  const named = typeof reported === 'string' ? reported.toUpperCase() : '';
+  if (named === 'CRITICAL' || named === 'HIGH' || named === 'MEDIUM' || named === 'LOW') {
+    return named;
+  }
+  return score === null ? 'MEDIUM' : cvssSeverity(score);
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/** CPE 2.3 fields are colon separated with `\:` escapes. */
+function splitCpe(cpe: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  for (let index = 0; index < cpe.length; index++) {
+    const char = cpe[index];
+    if (char === '\\' && index + 1 < cpe.length) {
+      current += char + cpe[++index];
+    } else if (char === ':') {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+/** Vulnerable application CPE match to a range; wildcard entries without bounds are dropped. */
+function cpeRange(match: Record<string, unknown>): CpeRange | null {
+  if (match.vulnerable === false) {
+    return null;
+  }
+  const cpe = optionalString(match.criteria ?? match.cpe23Uri);
+  const fields = cpe ? splitCpe(cpe) : [];
+  if (fields.length < 6 || fields[2] !== 'a') {
+    return null;
+  }
+  const [, , , vendor, product, version, update] = fields;
+  const range: CpeRange = { vendor, product };
+  if (version !== '*' && version !== '-') {
+    range.version = update && update !== '*' && update !== '-' ? `${version}${update}` : version;
+  }
+  const startIncluding = optionalString(match.versionStartIncluding);
+  const startExcluding = optionalString(match.versionStartExcluding);
+  const endIncluding = optionalString(match.versionEndIncluding);
+  const endExcluding = optionalString(match.versionEndExcluding);
+  if (startIncluding) range.startIncluding = startIncluding;
+  if (startExcluding) range.startExcluding = startExcluding;
+  if (endIncluding) range.endIncluding = endIncluding;
+  if (endExcluding) range.endExcluding = endExcluding;
+
+  if (!range.version && !startIncluding && !startExcluding && !endIncluding && !endExcluding) {
+    return null;
+  }
+  return range;
+}
+
+/** Every cpeMatch under a configuration, descending into child nodes (1.1) and node lists (2.0). */
+function collectRanges(nodes: unknown[], ranges: CpeRange[]): void {
+  nodes.forEach((raw) => {
+    const node = asRecord(raw);
+    [...asArray(node.cpeMatch), ...asArray(node.cpe_match)].forEach((match) => {
+      const range = cpeRange(asRecord(match));
+      if (range) ranges.push(range);
+    });
+    collectRanges(asArray(node.children), ranges);
+    collectRanges(asArray(node.nodes), ranges);
+  });
+}
+
+function englishDescription(entries: unknown[]): string {
+  const english = entries.map(asRecord).find((entry) => entry.lang === 'en') ?? asRecord(entries[0]);
+  const text = optionalString(english.value) ?? '';
+  return text.length > MAX_SUMMARY_LENGTH ? `${text.slice(0, MAX_SUMMARY_LENGTH - 1)}…` : text;
+}
+
+/** NVD CVE API 2.0 records (`vulnerabilities[].cve`). */
+function parseApiRecord(raw: unknown): CveRecord | null {
+  const cve = asRecord(asRecord(raw).cve);
+  const id = optionalString(cve.id);
+  if (!id) return null;
+
+  const metrics = asRecord(cve.metrics);
+  const metric = asRecord(
+    [metrics.cvssMetricV40, metrics.cvssMetricV31, metrics.cvssMetricV30, metrics.cvssMetricV2]
+      .map((list) => asArray(list).map(asRecord))
+      .find((list) => list.length > 0)
+      ?.sort((a, b) => Number(b.type === 'Primary') - Number(a.type === 'Primary'))[0]
+  );
+  const data = asRecord(metric.cvssData);
+  const score = typeof data.baseScore === 'number' ? data.baseScore : null;
+
+  const ranges: CpeRange[] = [];
+  asArray(cve.configurations).forEach((configuration) => collectRanges(asArray(asRecord(configuration).nodes), ranges));
+  if (ranges.length === 0) return null;
+
+  const record: CveRecord = {
+    id,
+    summary: englishDescription(asArray(cve.descriptions)),
+    cvssScore: score,
+    severity: severityFromCvss(score, data.baseSeverity ?? metric.baseSeverity),
+    ranges,
+  };
+  const vector = optionalString(data.vectorString);
+  const published = optionalString(cve.published);
+  if (vector) record.cvssVector = vector;
+  if (published) record.published = published;
+  return record;
+}
+
+/** Legacy NVD 1.1 data feed records (`CVE_Items[]`). */
+function parseLegacyRecord(raw: unknown): CveRecord | null {
+  const item = asRecord(raw);
+  const cve = asRecord(item.cve);
+  const id = optionalString(asRecord(cve.CVE_data_meta).ID);
+  if (!id) return null;
+
+  const impact = asRecord(item.impact);
+  const v3 = asRecord(asRecord(impact.baseMetricV3).cvssV3);
+  const v2 = asRecord(asRecord(impact.baseMetricV2).cvssV2);
+  const data = Object.keys(v3).length > 0 ? v3 : v2;
+  const score = typeof data.baseScore === 'number' ? data.baseScore : null;
+
+  const ranges: CpeRange[] = [];
+  collectRanges(asArray(asRecord(item.configurations).nodes), ranges);
+  if (ranges.length === 0) return null;
+
+  const record: CveRecord = {
+    id,
+    summary: englishDescription(asArray(asRecord(cve.description).description_data)),
+    cvssScore: score,
+    severity: severityFromCvss(score, data.baseSeverity ?? asRecord(impact.baseMetricV2).severity),
+    ranges,
+  };
+  const vector = optionalString(data.vectorString);
+  const published = optionalString(item.publishedDate);
+  if (vector) record.cvssVector = vector;
+  if (published) record.published = published;
+  return record;
+}
+
+export function isNvdFeed(document: unknown): boolean {
+  const root = asRecord(document);
+  return Array.isArray(root.vulnerabilities) || Array.isArray(root.CVE_Items);
+}
+
+/** CVE records with at least one vulnerable application CPE from an NVD 1.1 or 2.0 JSON document. */
+export function parseNvdFeed(document: unknown): CveRecord[] {
+  const root = asRecord(document);
+  const records = Array.isArray(root.vulnerabilities)
+    ? root.vulnerabilities.map(parseApiRecord)
+    : asArray(root.CVE_Items).map(parseLegacyRecord);
+  return records.filter((record): record is CveRecord => record !== null);
+}
+
+export function isCpeDictionary(document: unknown): boolean {
+  return Array.isArray(asRecord(document).products);
+}
+
+function aliasKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Product name aliases from an NVD CPE dictionary (API 2.0 `products[].cpe`). Each title with its
+ * version stripped ("Apache Software Foundation Apache HTTP Server") points at its CPE.
+ */
+export function parseCpeDictionary(document: unknown): Record<string, string[]> {
+  const aliases: Record<string, string[]> = {};
+  asArray(asRecord(document).products).forEach((raw) => {
+    const cpe = asRecord(asRecord(raw).cpe);
+    const name = optionalString(cpe.cpeName);
+    const fields = name ? splitCpe(name) : [];
+    if (fields.length < 6 || fields[2] !== 'a' || cpe.deprecated === true) {
+      return;
+    }
+    const target = `${fields[3]}:${fields[4]}`;
+    const version = fields[5];
+    asArray(cpe.titles).forEach((title) => {
+      const text = optionalString(asRecord(title).title);
+      if (!text) return;
+      const key = aliasKey(version && version !== '*' && version !== '-' ? text.split(version)[0] : text);
+      if (!key) return;
+      if (!aliases[key]) aliases[key] = [];
+      if (!aliases[key].includes(target)) aliases[key].push(target);
+    });
+  });
+  return aliases;
+}
+
+/** `vendor:product` keys a detected product may be listed under. */
+export function cpeCandidates(product: string, aliases: Record<string, string[]> = {}): string[] {
+  const candidates = [...(CPE_ALIASES[product] ?? []), ...(aliases[aliasKey(product)] ?? [])];
+  // Unknown products fall back to a vendor-agnostic match on the CPE product name
+  candidates.push(`*:${product.toLowerCase().replace(/\s+/g, '_')}`);
+  return Array.from(new Set(candidates));
+}
+
+function baseVersion(version: string): string {
+  return version.match(/^\d+(?:\.\d+)*/)?.[0] ?? version;
+}
+
+export function versionAffected(version: string, range: CpeRange): boolean {
+  if (range.version) {
+    return compareVersions(version, range.version) === 0 || (!/[a-z]/i.test(range.version) && baseVersion(version) === range.version);
+  }
+  if (range.startIncluding && compareVersions(version, range.startIncluding) < 0) return false;
+  if (range.startExcluding && compareVersions(version, range.startExcluding) <= 0) return false;
+  if (range.endIncluding && compareVersions(version, range.endIncluding) > 0) return false;
+  if (range.endExcluding && compareVersions(version, range.endExcluding) >= 0) return false;
+  return true;
+}
+
+/** CVE records grouped by `vendor:product` and `*:product` for lookup. */
+export function buildCveLookup(cves: CveRecord[]): Map<string, CveRecord[]> {
+  const lookup = new Map<string, CveRecord[]>();
+  const add = (key: string, record: CveRecord) => {
+    const list = lookup.get(key);
+    if (!list) lookup.set(key, [record]);
+    else if (list[list.length - 1] !== record) list.push(record);
+  };
+  cves.forEach((record) => {
+    record.ranges.forEach((range) => {
+      add(`${range.vendor}:${range.product}`, record);
+      add(`*:${range.product}`, record);
+    });
+  });
+  return lookup;
+}
+
+/** Matches for each item, highest CVSS first within a port. */
+export function matchCves(
+  lookup: Map<string, CveRecord[]>,
+  aliases: Record<string, string[]>,
+  items: CveMatchItem[]
+): CveMatch[] {
+  const matches: CveMatch[] = [];
+  items.forEach(({ port, product, version }) => {
+    const seen = new Set<string>();
+    cpeCandidates(product, aliases).forEach((key) => {
+      const [vendor, cpeProduct] = key.split(':');
+      (lookup.get(key) ?? []).forEach((record) => {
+        if (seen.has(record.id)) return;
+        const affected = record.ranges.some(
+          (range) =>
+            range.product === cpeProduct && (vendor === '*' || range.vendor === vendor) && versionAffected(version, range)
+        );
+        if (!affected) return;
+        seen.add(record.id);
+        const match: CveMatch = {
+          cveId: record.id,
+          port,
+          product,
+          version,
+          cvssScore: record.cvssScore,
+          severity: record.severity,
+          summary: record.summary,
+        };
+        if (record.cvssVector) match.cvssVector = record.cvssVector;
+        if (record.published) match.published = record.published;
+        matches.push(match);
+      });
+    });
+  });
+  return matches.sort((a, b) => a.port - b.port || (b.cvssScore ?? -1) - (a.cvssScore ?? -1) || a.cveId.localeCompare(b.cveId));
+}
+
+/** Versioned products per port, taken from the service probe results. */
+export function cveMatchItems(aggregated: AggregatedPortsData): CveMatchItem[] {
+  const items: CveMatchItem[] = [];
+  aggregated.ports.forEach((port) => {
+    Object.entries(aggregated.services.get(port) ?? {}).forEach(([probe, result]) => {
+      if (probe === CVE_MATCH_PROBE) return;
+      extractTechnologies(probe, result).forEach(({ product, version }) => {
+        if (version && !items.some((item) => item.port === port && item.product === product && item.version === version)) {
+          items.push({ port, product, version });
+        }
+      });
+    });
+  });
+  return items;
+}
+
+/** Add matched CVEs to their ports as findings of the synthetic `_cve_match` probe. */
+export function attachCveFindings(aggregated: AggregatedPortsData, matches: CveMatch[]): AggregatedPortsData {
+  if (matches.length === 0) {
+    return aggregated;
+  }
+  const services = new Map(aggregated.services);
+  aggregated.ports.forEach((port) => {
+    const forPort = matches.filter((match) => match.port === port);
+    if (forPort.length === 0) return;
+    services.set(port, {
+      ...(services.get(port) ?? {}),
+      [CVE_MATCH_PROBE]: {
+        findings: forPort.map((match) => ({
+          severity: match.severity,
+          title: `${match.cveId} in ${match.product} ${match.version}`,
+          description: match.summary,
+          evidence: [
+            `${match.product} ${match.version} detected on port ${port}, within an affected range of the imported vulnerability feed.`,
+            match.cvssScore !== null ? `CVSS ${match.cvssScore}${match.cvssVector ? ` (${match.cvssVector})` : ''}` : null,
+          ]
+            .filter(Boolean)
+            .join('\n'),
+          remediation: `Upgrade ${match.product} to a release that fixes ${match.cveId}.`,
+          confidence: 'likely',
+          cve_id: match.cveId,
+          ...(match.cvssScore !== null ? { cvss_score: match.cvssScore } : {}),
+          ...(match.cvssVector ? { cvss_vector: match.cvssVector } : {}),
+        })),
+      },
+    });
+  });
+  return { ...aggregated, services };
+}
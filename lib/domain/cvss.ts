@@ -0,0 +1,506 @@
+/**
+ * CVSS v3.0 / v3.1 / v4.0 base score calculator. Vectors are validated against the metric tables
+ * of each specification; threat, temporal, environmental and supplemental metrics are accepted and
+ * kept in the normalized vector but do not change the base score.
+ */
+
+import type { ParsedFinding } from '../utils/probeResult';
+
+export type CvssVersion = '3.0' | '3.1' | '4.0';
+
+export interface CvssMetricOption {
+  value: string;
+  label: string;
+}
+
+export interface CvssMetricDefinition {
+  key: string;
+  name: string;
+  options: CvssMetricOption[];
+}
+
+export interface CvssScore {
+  version: CvssVersion;
+  /** Normalized vector: metrics in specification order with canonical value spelling. */
+  vector: string;
+  score: number;
+  severity: ParsedFinding['severity'];
+}
+
+export class CvssVectorError extends Error {}
+
+const IMPACT_OPTIONS: CvssMetricOption[] = [
+  { value: 'H', label: 'High' },
+  { value: 'L', label: 'Low' },
+  { value: 'N', label: 'None' },
+];
+
+const ATTACK_VECTOR: CvssMetricDefinition = {
+  key: 'AV',
+  name: 'Attack Vector',
+  options: [
+    { value: 'N', label: 'Network' },
+    { value: 'A', label: 'Adjacent' },
+    { value: 'L', label: 'Local' },
+    { value: 'P', label: 'Physical' },
+  ],
+};
+
+const ATTACK_COMPLEXITY: CvssMetricDefinition = {
+  key: 'AC',
+  name: 'Attack Complexity',
+  options: [
+    { value: 'L', label: 'Low' },
+    { value: 'H', label: 'High' },
+  ],
+};
+
+const PRIVILEGES_REQUIRED: CvssMetricDefinition = {
+  key: 'PR',
+  name: 'Privileges Required',
+  options: [
+    { value: 'N', label: 'None' },
+    { value: 'L', label: 'Low' },
+    { value: 'H', label: 'High' },
+  ],
+};
+
+/** Base metrics in vector order, as offered by the finding editor. */
+export const CVSS_BASE_METRICS: Record<'3.1' | '4.0', CvssMetricDefinition[]> = {
+  '3.1': [
+    ATTACK_VECTOR,
+    ATTACK_COMPLEXITY,
+    PRIVILEGES_REQUIRED,
+    {
+      key: 'UI',
+      name: 'User Interaction',
+      options: [
+        { value: 'N', label: 'None' },
+        { value: 'R', label: 'Required' },
+      ],
+    },
+    {
+      key: 'S',
+      name: 'Scope',
+      options: [
+        { value: 'U', label: 'Unchanged' },
+        { value: 'C', label: 'Changed' },
+      ],
+    },
+    { key: 'C', name: 'Confidentiality', options: IMPACT_OPTIONS },
+    { key: 'I', name: 'Integrity', options: IMPACT_OPTIONS },
+    { key: 'A', name: 'Availability', options: IMPACT_OPTIONS },
+  ],
+  '4.0': [
+    ATTACK_VECTOR,
+    ATTACK_COMPLEXITY,
+    {
+      key: 'AT',
+      name: 'Attack Requirements',
+      options: [
+        { value: 'N', label: 'None' },
+        { value: 'P', label: 'Present' },
+      ],
+    },
+    PRIVILEGES_REQUIRED,
+    {
+      key: 'UI',
+      name: 'User Interaction',
+      options: [
+        { value: 'N', label: 'None' },
+        { value: 'P', label: 'Passive' },
+        { value: 'A', label: 'Active' },
+      ],
+    },
+    { key: 'VC', name: 'Vulnerable System Confidentiality', options: IMPACT_OPTIONS },
+    { key: 'VI', name: 'Vulnerable System Integrity', options: IMPACT_OPTIONS },
+    { key: 'VA', name: 'Vulnerable System Availability', options: IMPACT_OPTIONS },
+    { key: 'SC', name: 'Subsequent System Confidentiality', options: IMPACT_OPTIONS },
+    { key: 'SI', name: 'Subsequent System Integrity', options: IMPACT_OPTIONS },
+    { key: 'SA', name: 'Subsequent System Availability', options: IMPACT_OPTIONS },
+  ],
+};
+
+/** Every metric a vector may carry, in specification order, with its allowed values. */
+const V3_METRICS: Array<[string, string[]]> = [
+  ['AV', ['N', 'A', 'L', 'P']],
+  ['AC', ['L', 'H']],
+  ['PR', ['N', 'L', 'H']],
+  ['UI', ['N', 'R']],
+  ['S', ['U', 'C']],
+  ['C', ['H', 'L', 'N']],
+  ['I', ['H', 'L', 'N']],
+  ['A', ['H', 'L', 'N']],
+  ['E', ['X', 'H', 'F', 'P', 'U']],
+  ['RL', ['X', 'U', 'W', 'T', 'O']],
+  ['RC', ['X', 'C', 'R', 'U']],
+  ['CR', ['X', 'H', 'M', 'L']],
+  ['IR', ['X', 'H', 'M', 'L']],
+  ['AR', ['X', 'H', 'M', 'L']],
+  ['MAV', ['X', 'N', 'A', 'L', 'P']],
+  ['MAC', ['X', 'L', 'H']],
+  ['MPR', ['X', 'N', 'L', 'H']],
+  ['MUI', ['X', 'N', 'R']],
+  ['MS', ['X', 'U', 'C']],
+  ['MC', ['X', 'H', 'L', 'N']],
+  ['MI', ['X', 'H', 'L', 'N']],
+  ['MA', ['X', 'H', 'L', 'N']],
+];
+
+const V4_METRICS: Array<[string, string[]]> = [
+  ['AV', ['N', 'A', 'L', 'P']],
+  ['AC', ['L', 'H']],
+  ['AT', ['N', 'P']],
+  ['PR', ['N', 'L', 'H']],
+  ['UI', ['N', 'P', 'A']],
+  ['VC', ['H', 'L', 'N']],
+  ['VI', ['H', 'L', 'N']],
+  ['VA', ['H', 'L', 'N']],
+  ['SC', ['H', 'L', 'N']],
+  ['SI', ['H', 'L', 'N']],
+  ['SA', ['H', 'L', 'N']],
+  ['E', ['X', 'A', 'P', 'U']],
+  ['CR', ['X', 'H', 'M', 'L']],
+  ['IR', ['X', 'H', 'M', 'L']],
+  ['AR', ['X', 'H', 'M', 'L']],
+  ['MAV', ['X', 'N', 'A', 'L', 'P']],
+  ['MAC', ['X', 'L', 'H']],
+  ['MAT', ['X', 'N', 'P']],
+  ['MPR', ['X', 'N', 'L', 'H']],
+  ['MUI', ['X', 'N', 'P', 'A']],
+  ['MVC', ['X', 'H', 'L', 'N']],
+  ['MVI', ['X', 'H', 'L', 'N']],
+  ['MVA', ['X', 'H', 'L', 'N']],
+  ['MSC', ['X', 'H', 'L', 'N']],
+  ['MSI', ['X', 'S', 'H', 'L', 'N']],
+  ['MSA', ['X', 'S', 'H', 'L', 'N']],
+  ['S', ['X', 'N', 'P']],
+  ['AU', ['X', 'N', 'Y']],
+  ['R', ['X', 'A', 'U', 'I']],
+  ['V', ['X', 'D', 'C']],
+  ['RE', ['X', 'L', 'M', 'H']],
+  ['U', ['X', 'Clear', 'Green', 'Amber', 'Red']],
+];
+
+const BASE_METRIC_COUNT: Record<CvssVersion, number> = { '3.0': 8, '3.1': 8, '4.0': 11 };
+
+/** Lowest score of each severity band, used to rank findings that carry no score. */
+const SEVERITY_FLOOR: Record<ParsedFinding['severity'], number> = {
+  CRITICAL: 9.0,
+  HIGH: 7.0,
+  MEDIUM: 4.0,
+  LOW: 0.1,
+  INFO: 0,
+};
+
+/** CVSS qualitative rating; "None" (0.0) maps to INFO. */
+export function cvssSeverity(score: number): ParsedFinding['severity'] {
+  if (score >= 9) return 'CRITICAL';
+  if (score >= 7) return 'HIGH';
+  if (score >= 4) return 'MEDIUM';
+  if (score > 0) return 'LOW';
+  return 'INFO';
+}
+
+/**
+ * Split a vector into its version and metrics. Metric keys and values are checked against the
+ * specification; every base metric is required.
+ */
+export function parseCvssVector(vector: string): { version: CvssVersion; metrics: Record<string, string> } {
+  const [prefix, ...parts] = vector.trim().split('/');
+  const version = prefix.toUpperCase().replace(/^CVSS:/, '');
+  if (!/^CVSS:/i.test(prefix) || (version !== '3.0' && version !== '3.1' && version !== '4.0')) {
+    throw new CvssVectorError('CVSS vectors must start with CVSS:3.0/, CVSS:3.1/ or CVSS:4.0/.');
+  }
+
+  const definitions = version === '4.0' ? V4_METRICS : V3_METRICS;
+  const metrics: Record<string, string> = {};
+  parts.forEach((part) => {
+    const [key, value, ...rest] = part.split(':');
+    const definition = definitions.find(([name]) => name === key?.toUpperCase());
+    if (!definition || value === undefined || rest.length > 0) {
+      throw new CvssVectorError(`Unknown CVSS ${version} metric "${part}".`);
+    }
+    if (metrics[definition[0]] !== undefined) {
+      throw new CvssVectorError(`Metric ${definition[0]} appears more than once.`);
+    }
+    const allowed = definition[1].find((option) => option.toUpperCase() === value.toUpperCase());
+    if (!allowed) {
+      throw new CvssVectorError(`${definition[0]} must be one of ${definition[1].join(', ')}.`);
+    }
+    metrics[definition[0]] = allowed;
+  });
+
+  const missing = definitions
+    .slice(0, BASE_METRIC_COUNT[version])
+    .map(([key]) => key)
+    .filter((key) => metrics[key] === undefined);
+  if (missing.length > 0) {
+    throw new CvssVectorError(`Missing base metrics: ${missing.join(', ')}.`);
+  }
+
+  return { version, metrics };
+}
+
+/** Vector string with the metrics in specification order. */
+export function buildCvssVector(version: CvssVersion, metrics: Record<string, string>): string {
+  const definitions = version === '4.0' ? V4_METRICS : V3_METRICS;
+  const parts = definitions.filter(([key]) => metrics[key] !== undefined).map(([key]) => `${key}:${metrics[key]}`);
+  return [`CVSS:${version}`, ...parts].join('/');
+}
+
+// --- CVSS v3.x (specification section 7.1) ---
+
+const V3_WEIGHTS = {
+  AV: { N: 0.85, A: 0.62, L: 0.55, P: 0.2 } as Record<string, number>,
+  AC: { L: 0.77, H: 0.44 } as Record<string, number>,
+  UI: { N: 0.85, R: 0.62 } as Record<string, number>,
+  CIA: { H: 0.56, L: 0.22, N: 0 } as Record<string, number>,
+};
+
+function privilegesWeight(value: string, scopeChanged: boolean): number {
+  if (value === 'N') return 0.85;
+  if (value === 'L') return scopeChanged ? 0.68 : 0.62;
+  return scopeChanged ? 0.5 : 0.27;
+}
+
+/** v3.1 Roundup, which avoids floating point artefacts such as 4.000000001 rounding to 4.1. */
+function roundUp31(value: number): number {
+  const scaled = Math.round(value * 100000);
+  return scaled % 10000 === 0 ? scaled / 100000 : (Math.floor(scaled / 10000) + 1) / 10;
+}
+
+function roundUp30(value: number): number {
+  return Math.ceil(value * 10) / 10;
+}
+
+function scoreV3(version: '3.0' | '3.1', metrics: Record<string, string>): number {
+  const scopeChanged = metrics.S === 'C';
+  const iss = 1 - (1 - V3_WEIGHTS.CIA[metrics.C]) * (1 - V3_WEIGHTS.CIA[metrics.I]) * (1 - V3_WEIGHTS.CIA[metrics.A]);
+  const impact = scopeChanged ? 7.52 * (iss - 0.029) - 3.25 * Math.pow(iss - 0.02, 15) : 6.42 * iss;
+  const exploitability =
+    8.22 * V3_WEIGHTS.AV[metrics.AV] * V3_WEIGHTS.AC[metrics.AC] * privilegesWeight(metrics.PR, scopeChanged) * V3_WEIGHTS.UI[metrics.UI];
+
+  if (impact <= 0) return 0;
+  const roundUp = version === '3.1' ? roundUp31 : roundUp30;
+  return roundUp(Math.min((scopeChanged ? 1.08 : 1) * (impact + exploitability), 10));
+}
+
+// --- CVSS v4.0 (specification section 8, FIRST reference implementation) ---
+
+/** Score of each MacroVector, keyed by its EQ1..EQ6 levels. */
+const V4_MACRO_SCORES: Record<string, number> = {
+  '000000': 10, '000001': 9.9, '000010': 9.8, '000011': 9.5, '000020': 9.5, '000021': 9.2,
+  '000100': 10, '000101': 9.6, '000110': 9.3, '000111': 8.7, '000120': 9.1, '000121': 8.1,
+  '000200': 9.3, '000201': 9, '000210': 8.9, '000211': 8, '000220': 8.1, '000221': 6.8,
+  '001000': 9.8, '001001': 9.5, '001010': 9.5, '001011': 9.2, '001020': 9, '001021': 8.4,
+  '001100': 9.3, '001101': 9.2, '001110': 8.9, '001111': 8.1, '001120': 8.1, '001121': 6.5,
+  '001200': 8.8, '001201': 8, '001210': 7.8, '001211': 7, '001220': 6.9, '001221': 4.8,
+  '002001': 9.2, '002011': 8.2, '002021': 7.2, '002101': 7.9, '002111': 6.9, '002121': 5,
+  '002201': 6.9, '002211': 5.5, '002221': 2.7,
+  '010000': 9.9, '010001': 9.7, '010010': 9.5, '010011': 9.2, '010020': 9.2, '010021': 8.5,
+  '010100': 9.5, '010101': 9.1, '010110': 9, '010111': 8.3, '010120': 8.4, '010121': 7.1,
+  '010200': 9.2, '010201': 8.1, '010210': 8.2, '010211': 7.1, '010220': 7.2, '010221': 5.3,
+  '011000': 9.5, '011001': 9.3, '011010': 9.2, '011011': 8.5, '011020': 8.5, '011021': 7.3,
+  '011100': 9.2, '011101': 8.2, '011110': 8, '011111': 7.2, '011120': 7, '011121': 5.9,
+  '011200': 8.4, '011201': 7, '011210': 7.1, '011211': 5.2, '011220': 5, '011221': 3,
+  '012001': 8.6, '012011': 7.5, '012021': 5.2, '012101': 7.1, '012111': 5.2, '012121': 2.9,
+  '012201': 6.3, '012211': 2.9, '012221': 1.7,
+  '100000': 9.8, '100001': 9.5, '100010': 9.4, '100011': 8.7, '100020': 9.1, '100021': 8.1,
+  '100100': 9.4, '100101': 8.9, '100110': 8.6, '100111': 7.4, '100120': 7.7, '100121': 6.4,
+  '100200': 8.7, '100201': 7.5, '100210': 7.4, '100211': 6.3, '100220': 6.3, '100221': 4.9,
+  '101000': 9.4, '101001': 8.9, '101010': 8.8, '101011': 7.7, '101020': 7.6, '101021': 6.7,
+  '101100': 8.6, '101101': 7.6, '101110': 7.4, '101111': 5.8, '101120': 5.9, '101121': 5,
+  '101200': 7.2, '101201': 5.7, '101210': 5.7, '101211': 5.2, '101220': 5.2, '101221': 2.5,
+  '102001': 8.3, '102011': 7, '102021': 5.4, '102101': 6.5, '102111': 5.8, '102121': 2.6,
+  '102201': 5.3, '102211': 2.1, '102221': 1.3,
+  '110000': 9.5, '110001': 9, '110010': 8.8, '110011': 7.6, '110020': 7.6, '110021': 7,
+  '110100': 9, '110101': 7.7, '110110': 7.5, '110111': 6.2, '110120': 6.1, '110121': 5.3,
+  '110200': 7.7, '110201': 6.6, '110210': 6.8, '110211': 5.9, '110220': 5.2, '110221': 3,
+  '111000': 8.9, '111001': 7.8, '111010': 7.6, '111011': 6.7, '111020': 6.2, '111021': 5.8,
+  '111100': 7.4, '111101': 5.9, '111110': 5.7, '111111': 5.7, '111120': 4.7, '111121': 2.3,
+  '111200': 6.1, '111201': 5.2, '111210': 5.7, '111211': 2.9, '111220': 2.4, '111221': 1.6,
+  '112001': 7.1, '112011': 5.9, '112021': 3, '112101': 5.8, '112111': 2.6, '112121': 1.5,
+  '112201': 2.3, '112211': 1.3, '112221': 0.6,
+  '200000': 9.3, '200001': 8.7, '200010': 8.6, '200011': 7.2, '200020': 7.5, '200021': 5.8,
+  '200100': 8.6, '200101': 7.4, '200110': 7.4, '200111': 6.1, '200120': 5.6, '200121': 3.4,
+  '200200': 7, '200201': 5.4, '200210': 5.2, '200211': 4, '200220': 4, '200221': 2.2,
+  '201000': 8.5, '201001': 7.5, '201010': 7.4, '201011': 5.5, '201020': 6.2, '201021': 5.1,
+  '201100': 7.2, '201101': 5.7, '201110': 5.5, '201111': 4.1, '201120': 4.6, '201121': 1.9,
+  '201200': 5.3, '201201': 3.6, '201210': 3.4, '201211': 1.9, '201220': 1.9, '201221': 0.8,
+  '202001': 6.4, '202011': 5.1, '202021': 2, '202101': 4.7, '202111': 2.1, '202121': 1.1,
+  '202201': 2.4, '202211': 0.9, '202221': 0.4,
+  '210000': 8.8, '210001': 7.5, '210010': 7.3, '210011': 5.3, '210020': 6, '210021': 5,
+  '210100': 7.3, '210101': 5.5, '210110': 5.9, '210111': 4, '210120': 4.1, '210121': 2,
+  '210200': 5.4, '210201': 4.3, '210210': 4.5, '210211': 2.2, '210220': 2, '210221': 1.1,
+  '211000': 7.5, '211001': 5.5, '211010': 5.8, '211011': 4.5, '211020': 4, '211021': 2.1,
+  '211100': 6.1, '211101': 5.1, '211110': 4.8, '211111': 1.8, '211120': 2, '211121': 0.9,
+  '211200': 4.6, '211201': 1.8, '211210': 1.7, '211211': 0.7, '211220': 0.8, '211221': 0.2,
+  '212001': 5.3, '212011': 2.4, '212021': 1.4, '212101': 2.4, '212111': 1.2, '212121': 0.5,
+  '212201': 1, '212211': 0.3, '212221': 0.1,
+};
+
+/** Highest-severity vectors of each equivalence class, as metric fragments. */
+const V4_MAX_COMPOSED = {
+  eq1: [['AV:N/PR:N/UI:N'], ['AV:A/PR:N/UI:N', 'AV:N/PR:L/UI:N', 'AV:N/PR:N/UI:P'], ['AV:P/PR:N/UI:N', 'AV:A/PR:L/UI:P']],
+  eq2: [['AC:L/AT:N'], ['AC:H/AT:N', 'AC:L/AT:P']],
+  eq3eq6: [
+    [['VC:H/VI:H/VA:H/CR:H/IR:H/AR:H'], ['VC:H/VI:H/VA:L/CR:M/IR:M/AR:H', 'VC:H/VI:H/VA:H/CR:M/IR:M/AR:M']],
+    [
+      ['VC:L/VI:H/VA:H/CR:H/IR:H/AR:H', 'VC:H/VI:L/VA:H/CR:H/IR:H/AR:H'],
+      [
+        'VC:L/VI:H/VA:L/CR:H/IR:M/AR:H',
+        'VC:L/VI:H/VA:H/CR:H/IR:M/AR:M',
+        'VC:H/VI:L/VA:H/CR:M/IR:H/AR:M',
+        'VC:H/VI:L/VA:L/CR:M/IR:H/AR:H',
+        'VC:L/VI:L/VA:H/CR:H/IR:H/AR:M',
+      ],
+    ],
+    [[], ['VC:L/VI:L/VA:L/CR:H/IR:H/AR:H']],
+  ],
+  eq4: [['SC:H/SI:S/SA:S'], ['SC:H/SI:H/SA:H'], ['SC:L/SI:L/SA:L']],
+};
+
+/** Depth of each MacroVector, in severity-distance steps. */
+const V4_MAX_SEVERITY = {
+  eq1: [1, 4, 5],
+  eq2: [1, 2],
+  eq3eq6: [
+    [7, 6],
+    [8, 8],
+    [NaN, 10],
+  ],
+  eq4: [6, 5, 4],
+};
+
+const V4_LEVELS: Record<string, Record<string, number>> = {
+  AV: { N: 0, A: 0.1, L: 0.2, P: 0.3 },
+  PR: { N: 0, L: 0.1, H: 0.2 },
+  UI: { N: 0, P: 0.1, A: 0.2 },
+  AC: { L: 0, H: 0.1 },
+  AT: { N: 0, P: 0.1 },
+  VC: { H: 0, L: 0.1, N: 0.2 },
+  VI: { H: 0, L: 0.1, N: 0.2 },
+  VA: { H: 0, L: 0.1, N: 0.2 },
+  SC: { H: 0.1, L: 0.2, N: 0.3 },
+  SI: { S: 0, H: 0.1, L: 0.2, N: 0.3 },
+  SA: { S: 0, H: 0.1, L: 0.2, N: 0.3 },
+  CR: { H: 0, M: 0.1, L: 0.2 },
+  IR: { H: 0, M: 0.1, L: 0.2 },
+  AR: { H: 0, M: 0.1, L: 0.2 },
+};
+
+const STEP = 0.1;
+
+/**
+ * CVSS-B score: base metrics only, so exploit maturity is Attacked, security requirements are
+ * High and no subsequent system is rated Safety.
+ */
+function scoreV4(base: Record<string, string>): number {
+  const m: Record<string, string> = { ...base, E: 'A', CR: 'H', IR: 'H', AR: 'H' };
+  if (['VC', 'VI', 'VA', 'SC', 'SI', 'SA'].every((key) => m[key] === 'N')) {
+    return 0;
+  }
+
+  const eq1 = m.AV === 'N' && m.PR === 'N' && m.UI === 'N' ? 0 : (m.AV === 'N' || m.PR === 'N' || m.UI === 'N') && m.AV !== 'P' ? 1 : 2;
+  const eq2 = m.AC === 'L' && m.AT === 'N' ? 0 : 1;
+  const eq3 = m.VC === 'H' && m.VI === 'H' ? 0 : m.VC === 'H' || m.VI === 'H' || m.VA === 'H' ? 1 : 2;
+  const eq4 = m.SI === 'S' || m.SA === 'S' ? 0 : m.SC === 'H' || m.SI === 'H' || m.SA === 'H' ? 1 : 2;
+  const eq5 = m.E === 'A' ? 0 : m.E === 'P' ? 1 : 2;
+  const eq6 = (m.CR === 'H' && m.VC === 'H') || (m.IR === 'H' && m.VI === 'H') || (m.AR === 'H' && m.VA === 'H') ? 0 : 1;
+
+  const lookup = (...levels: number[]) => V4_MACRO_SCORES[levels.join('')] ?? NaN;
+  const value = lookup(eq1, eq2, eq3, eq4, eq5, eq6);
+
+  // Score of the next lower MacroVector along each equivalence set; NaN where there is none
+  let eq3eq6Lower: number;
+  if (eq3 === 0 && eq6 === 0) {
+    eq3eq6Lower = Math.max(lookup(eq1, eq2, eq3, eq4, eq5, eq6 + 1), lookup(eq1, eq2, eq3 + 1, eq4, eq5, eq6));
+  } else if (eq3 === 1 && eq6 === 0) {
+    eq3eq6Lower = lookup(eq1, eq2, eq3, eq4, eq5, eq6 + 1);
+  } else if (eq3 < 2 && eq6 === 1) {
+    eq3eq6Lower = lookup(eq1, eq2, eq3 + 1, eq4, eq5, eq6);
+  } else {
+    eq3eq6Lower = NaN;
+  }
+  const lower = {
+    eq1: lookup(eq1 + 1, eq2, eq3, eq4, eq5, eq6),
+    eq2: lookup(eq1, eq2 + 1, eq3, eq4, eq5, eq6),
+    eq3eq6: eq3eq6Lower,
+    eq4: lookup(eq1, eq2, eq3, eq4 + 1, eq5, eq6),
+    eq5: lookup(eq1, eq2, eq3, eq4, eq5 + 1, eq6),
+  };
+
+  // Severity distance to the first highest-severity vector of the MacroVector that is not below this one
+  const candidates = V4_MAX_COMPOSED.eq1[eq1].flatMap((e1) =>
+    V4_MAX_COMPOSED.eq2[eq2].flatMap((e2) =>
+      V4_MAX_COMPOSED.eq3eq6[eq3][eq6].flatMap((e36) => V4_MAX_COMPOSED.eq4[eq4].map((e4) => [e1, e2, e36, e4].join('/')))
+    )
+  );
+  const distancesTo = (maxVector: string): Record<string, number> => {
+    const max = Object.fromEntries(maxVector.split('/').map((part) => part.split(':')));
+    return Object.fromEntries(Object.keys(V4_LEVELS).map((metric) => [metric, V4_LEVELS[metric][m[metric]] - V4_LEVELS[metric][max[metric]]]));
+  };
+  const distances =
+    candidates.map(distancesTo).find((entry) => Object.values(entry).every((value) => value >= 0)) ??
+    distancesTo(candidates[candidates.length - 1]);
+
+  const current = {
+    eq1: distances.AV + distances.PR + distances.UI,
+    eq2: distances.AC + distances.AT,
+    eq3eq6: distances.VC + distances.VI + distances.VA + distances.CR + distances.IR + distances.AR,
+    eq4: distances.SC + distances.SI + distances.SA,
+    eq5: 0,
+  };
+  const depth = {
+    eq1: V4_MAX_SEVERITY.eq1[eq1] * STEP,
+    eq2: V4_MAX_SEVERITY.eq2[eq2] * STEP,
+    eq3eq6: V4_MAX_SEVERITY.eq3eq6[eq3][eq6] * STEP,
+    eq4: V4_MAX_SEVERITY.eq4[eq4] * STEP,
+    eq5: 1,
+  };
+
+  // Mean proportional distance to the next lower MacroVector, over the sets that have one
+  let existing = 0;
+  let total = 0;
+  (Object.keys(lower) as Array<keyof typeof lower>).forEach((eq) => {
+    const available = value - lower[eq];
+    if (Number.isNaN(available)) return;
+    existing += 1;
+    total += available * (current[eq] / depth[eq]);
+  });
+
+  const score = Math.min(Math.max(value - (existing === 0 ? 0 : total / existing), 0), 10);
+  return Math.round((score + Number.EPSILON) * 10) / 10;
+}
+
+/** Validate a vector and compute its base score and severity. */
+export function scoreCvssVector(vector: string): CvssScore {
+  const { version, metrics } = parseCvssVector(vector);
+  const score = version === '4.0' ? scoreV4(metrics) : scoreV3(version, metrics);
+  return { version, vector: buildCvssVector(version, metrics), score, severity: cvssSeverity(score) };
+}
+
+/** Same as `scoreCvssVector` for untrusted input; null when the value is not a valid vector. */
+export function tryScoreCvssVector(vector: unknown): CvssScore | null {
+  if (typeof vector !== 'string' || !vector.trim()) return null;
+  try {
+    return scoreCvssVector(vector);
+  } catch (error) {
+    if (error instanceof CvssVectorError) return null;
+    throw error;
+  }
+}
+
+/** Sort key for findings: the CVSS score, or the floor of the severity band when unscored. */
+export function findingScore(finding: Pick<ParsedFinding, 'severity' | 'cvss_score'>): number {
+  return finding.cvss_score ?? SEVERITY_FLOOR[finding.severity] ?? 0;
+}
+
+/** Highest score first; unscored findings rank at the bottom of their severity band. */
+export function compareFindingScores(
+  a: Pick<ParsedFinding, 'severity' | 'cvss_score'>,
+  b: Pick<ParsedFinding, 'severity' | 'cvss_score'>
+): number {
+  return findingScore(b) - findingScore(a);
+}
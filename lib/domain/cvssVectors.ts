@@ -0,0 +1,102 @@
+/**
+ * Analyst-assigned CVSS vectors. A vector saved on a finding's triage record replaces the score,
+ * vector and severity the probe reported, so the job page, the reports and the exports agree.
+ */
+
+import type { FindingTriage, WorkerReport } from '../api/types';
+import type { AggregatedPortsData } from './findings';
+import { findingFingerprint } from './findings';
+import { CvssScore, tryScoreCvssVector } from './cvss';
+
+/** Scored vectors by finding fingerprint; records without a valid vector are skipped. */
+export function cvssVectorsByFingerprint(records: FindingTriage[]): Map<string, CvssScore> {
+  const scores = new Map<string, CvssScore>();
+  records.forEach((record) => {
+    const scored = tryScoreCvssVector(record.cvssVector);
+    if (scored) scores.set(record.fingerprint, scored);
+  });
+  return scores;
+}
+
+function scoreProbeResult(result: unknown, fingerprintOf: (title: string, cweId?: string) => string, scores: Map<string, CvssScore>): unknown {
+  if (!result || typeof result !== 'object' || Array.isArray(result)) return result;
+  const obj = result as Record<string, unknown>;
+  if (!Array.isArray(obj.findings) || obj.findings.length === 0) return result;
+
+  let changed = false;
+  const findings = obj.findings.map((raw) => {
+    if (typeof raw !== 'object' || raw === null) return raw;
+    const entry = raw as Record<string, unknown>;
+    const scored = scores.get(fingerprintOf(String(entry.title ?? ''), entry.cwe_id ? String(entry.cwe_id) : undefined));
+    if (!scored) return raw;
+    changed = true;
+    return { ...entry, severity: scored.severity, cvss_score: scored.score, cvss_vector: scored.vector };
+  });
+
+  return changed ? { ...obj, findings } : result;
+}
+
+function scorePortMap(
+  map: Map<number, Record<string, unknown>>,
+  target: string,
+  scores: Map<string, CvssScore>
+): Map<number, Record<string, unknown>> {
+  const scoredMap = new Map<number, Record<string, unknown>>();
+  map.forEach((probes, port) => {
+    const next: Record<string, unknown> = {};
+    Object.entries(probes).forEach(([probe, result]) => {
+      next[probe] = scoreProbeResult(
+        result,
+        (title, cweId) => findingFingerprint({ target, port, probe, title, cweId }),
+        scores
+      );
+    });
+    scoredMap.set(port, next);
+  });
+  return scoredMap;
+}
+
+/**
+ * Apply the analyst vectors from `records` to aggregated port data.
+ */
+export function applyCvssVectors(aggregated: AggregatedPortsData, target: string, records: FindingTriage[]): AggregatedPortsData {
+  const scores = cvssVectorsByFingerprint(records);
+  if (scores.size === 0) {
+    return aggregated;
+  }
+  return {
+    ...aggregated,
+    services: scorePortMap(aggregated.services, target, scores),
+    webTests: scorePortMap(aggregated.webTests, target, scores),
+  };
+}
+
+/**
+ * Same for raw worker reports, as used by the detailed sections of the PDF report.
+ */
+export function applyReportCvssVectors(
+  reports: Record<string, WorkerReport>,
+  target: string,
+  records: FindingTriage[]
+): Record<string, WorkerReport> {
+  const scores = cvssVectorsByFingerprint(records);
+  if (scores.size === 0) {
+    return reports;
+  }
+
+  const toMap = (info: Record<string, Record<string, unknown>>) =>
+    new Map(Object.entries(info).map(([port, probes]) => [Number(port), probes]));
+  const fromMap = (map: Map<number, Record<string, unknown>>) =>
+    Object.fromEntries(Array.from(map.entries()).map(([port, probes]) => [String(port), probes]));
+
+  return Object.fromEntries(
+    Object.entries(reports).map(([key, report]) => [
+      key,
+      {
+        ...report,
+        serviceInfo: fromMap(scorePortMap(toMap(report.serviceInfo), target, scores)),
+        webTestsInfo: fromMap(scorePortMap(toMap(report.webTestsInfo), target, scores)),
+      },
+    ])
+  );
+}
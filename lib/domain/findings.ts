@@ -0,0 +1,166 @@
+/**
+ * Port and finding aggregation shared by the job detail page, campaigns and exports.
+ */
+
+import type { FindingIdentity, FindingTriage, Job, WorkerReport } from '../api/types';
+import { normalizeProbeResult } from '../utils/probeResult';
+import type { ParsedFinding } from '../utils/probeResult';
+
+export interface AggregatedPortsData {
+  ports: number[];
+  services: Map<number, Record<string, unknown>>;
+  webTests: Map<number, Record<string, unknown>>;
+  totalServices: number;
+  totalFindings: number;
+}
+
+/** A single structured finding flattened out of the per-port probe results. */
+export interface FlatFinding extends ParsedFinding {
+  port: number;
+  probe: string;
+  source: 'service' | 'web';
+}
+
+type ReportLike = Partial<WorkerReport> & {
+  open_ports?: number[];
+  service_info?: Record<string, Record<string, unknown>>;
+  web_tests_info?: Record<string, Record<string, unknown>>;
+};
+
+function mergeByPort(target: Map<number, Record<string, unknown>>, source: unknown): void {
+  if (!source || typeof source !== 'object') {
+    return;
+  }
+  Object.entries(source as Record<string, unknown>).forEach(([port, info]) => {
+    const portNum = parseInt(port, 10);
+    if (!isNaN(portNum) && info) {
+      target.set(portNum, info as Record<string, unknown>);
+    }
+  });
+}
+
+/**
+ * Aggregates open ports, service info, and web test results from all sources
+ * (reports and job workers) into a unified data structure.
+ */
+export function aggregatePorts(
+  reports: Record<string, WorkerReport | Record<string, unknown>>,
+  job: Pick<Job, 'workers'> | null
+): AggregatedPortsData {
+  const portsSet = new Set<number>();
+  const serviceMap = new Map<number, Record<string, unknown>>();
+  const webTestsMap = new Map<number, Record<string, unknown>>();
+
+  // Collect from reports (camelCase when normalized, snake_case straight from R1FS)
+  Object.values(reports).forEach((raw) => {
+    const report = raw as ReportLike;
+    const openPorts = report.openPorts ?? report.open_ports;
+    if (Array.isArray(openPorts)) {
+      openPorts.forEach((port) => portsSet.add(port));
+    }
+    mergeByPort(serviceMap, report.serviceInfo ?? report.service_info);
+    mergeByPort(webTestsMap, report.webTestsInfo ?? report.web_tests_info);
+  });
+
+  // Collect from job workers
+  job?.workers.forEach((worker) => {
+    worker.openPorts.forEach((port) => portsSet.add(port));
+    mergeByPort(serviceMap, worker.serviceInfo);
+    mergeByPort(webTestsMap, worker.webTestsInfo);
+  });
+
+  const sortedPorts = Array.from(portsSet).sort((a, b) => a - b);
+
+  // Count total findings
+  let totalFindings = 0;
+  webTestsMap.forEach((info) => {
+    totalFindings += Object.keys(info).length;
+  });
+
+  return {
+    ports: sortedPorts,
+    services: serviceMap,
+    webTests: webTestsMap,
+    // One service per port
+    totalServices: serviceMap.size,
+    totalFindings,
+  };
+}
+
+/**
+ * Flatten every structured finding from the aggregated probe results, port by port.
+ */
+export function extractFindings(aggregated: AggregatedPortsData): FlatFinding[] {
+  const findings: FlatFinding[] = [];
+  const collect = (source: FlatFinding['source'], map: Map<number, Record<string, unknown>>) => {
+    Array.from(map.keys())
+      .sort((a, b) => a - b)
+      .forEach((port) => {
+        Object.entries(map.get(port) ?? {}).forEach(([probe, result]) => {
+          normalizeProbeResult(result).findings.forEach((finding) => {
+            findings.push({ ...finding, port, probe, source });
+          });
+        });
+      });
+  };
+
+  collect('service', aggregated.services);
+  collect('web', aggregated.webTests);
+  return findings;
+}
+
+/** 64-bit string hash (cyrb53 variant) so fingerprints can be computed in the browser too. */
+function hashString(input: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (h2 >>> 0).toString(16).padStart(8, '0') + (h1 >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Stable finding id built from target, port, probe, title and CWE. The job id is left out so
+ * the same finding keeps its fingerprint across passes and re-runs of the target.
+ */
+export function findingFingerprint(identity: FindingIdentity): string {
+  const key = [
+    identity.target.trim().toLowerCase(),
+    identity.port,
+    identity.probe,
+    identity.title.trim().replace(/\s+/g, ' '),
+    (identity.cweId ?? '').trim().toUpperCase()
+  ].join('|');
+  return hashString(key);
+}
+
+/**
+ * Put findings triaged "fixed" back to open, flagged as regressions, when the latest completed
+ * pass finished after the fix was recorded and still reports them. `findings` are the ones the
+ * job's reports currently hold; other records are returned unchanged.
+ */
+export function reopenRegressions(
+  records: FindingTriage[],
+  job: Pick<Job, 'target' | 'passHistory'>,
+  findings: FlatFinding[]
+): FindingTriage[] {
+  const lastPass = Math.max(...(job.passHistory ?? []).map((pass) => Date.parse(pass.completedAt)).filter(Number.isFinite));
+  if (!records.some((record) => record.status === 'fixed') || !Number.isFinite(lastPass)) {
+    return records;
+  }
+
+  const present = new Set(
+    findings.map((finding) =>
+      findingFingerprint({ target: job.target, port: finding.port, probe: finding.probe, title: finding.title, cweId: finding.cwe_id })
+    )
+  );
+  return records.map((record) =>
+    record.status === 'fixed' && present.has(record.fingerprint) && Date.parse(record.fixedAt ?? record.updatedAt) < lastPass
+      ? { ...record, status: 'open', regression: true }
+      : record
+  );
+}
@@ -0,0 +1,169 @@
+/**
+ * Side-by-side comparison of two jobs, typically a baseline scan and the re-scan launched after
+ * the client remediated. Ports and services are aligned by port number and findings by fingerprint,
+ * so the two jobs only need to share a target, not a job id or pass history.
+ */
+
+import type { Job, WorkerReport } from '../api/types';
+import { aggregatePorts, extractFindings, findingFingerprint } from './findings';
+import type { FlatFinding } from './findings';
+import { diffServices, versionFields } from './passDiff';
+import type { ServiceChange } from './passDiff';
+
+export type PortComparisonState = 'unchanged' | 'opened' | 'closed';
+
+/**
+ * fixed: present in the baseline only. new: present in the re-scan only. regressed: present in
+ * both with a higher severity in the re-scan. persisting: present in both at the same or a lower
+ * severity.
+ */
+export type FindingComparisonState = 'fixed' | 'new' | 'regressed' | 'persisting';
+
+export interface PortComparison {
+  port: number;
+  state: PortComparisonState;
+  /** One "probe: banner" line per probe, for each side. */
+  baselineServices: string[];
+  currentServices: string[];
+  changes: ServiceChange[];
+}
+
+export interface FindingComparison {
+  fingerprint: string;
+  state: FindingComparisonState;
+  port: number;
+  probe: string;
+  title: string;
+  baseline?: FlatFinding;
+  current?: FlatFinding;
+}
+
+export interface JobComparison {
+  baselineJobId: string;
+  currentJobId: string;
+  sameTarget: boolean;
+  ports: PortComparison[];
+  findings: FindingComparison[];
+  summary: Record<FindingComparisonState, number> & { openedPorts: number; closedPorts: number };
+}
+
+export interface ComparedJob {
+  job: Job;
+  reports: Record<string, WorkerReport | Record<string, unknown>>;
+}
+
+const SEVERITY_ORDER: Record<FlatFinding['severity'], number> = {
+  CRITICAL: 0,
+  HIGH: 1,
+  MEDIUM: 2,
+  LOW: 3,
+  INFO: 4,
+};
+
+const STATE_ORDER: Record<FindingComparisonState, number> = {
+  regressed: 0,
+  new: 1,
+  persisting: 2,
+  fixed: 3,
+};
+
+function describeServices(services: Record<string, unknown> | undefined): string[] {
+  return Object.entries(services ?? {})
+    .map(([probe, result]) => {
+      const fields = Object.values(versionFields(result));
+      const label = probe.replace(/^_(service_info|web_test)_/, '');
+      return fields.length > 0 ? `${label}: ${fields[0]}` : label;
+    })
+    .sort();
+}
+
+function findingState(baseline: FlatFinding | undefined, current: FlatFinding | undefined): FindingComparisonState {
+  if (!current) return 'fixed';
+  if (!baseline) return 'new';
+  return SEVERITY_ORDER[current.severity] < SEVERITY_ORDER[baseline.severity] ? 'regressed' : 'persisting';
+}
+
+/**
+ * Compare a baseline job against a later one. Findings are fingerprinted against the baseline
+ * target so a re-scan that spells the host differently still lines up.
+ */
+export function compareJobs(baseline: ComparedJob, current: ComparedJob): JobComparison {
+  const before = aggregatePorts(baseline.reports, baseline.job);
+  const after = aggregatePorts(current.reports, current.job);
+  const target = baseline.job.target;
+
+  const beforePorts = new Set(before.ports);
+  const afterPorts = new Set(after.ports);
+  const serviceChanges = diffServices(before, after);
+
+  const ports: PortComparison[] = Array.from(new Set([...before.ports, ...after.ports]))
+    .sort((a, b) => a - b)
+    .map((port) => ({
+      port,
+      state: !beforePorts.has(port) ? 'opened' : !afterPorts.has(port) ? 'closed' : 'unchanged',
+      baselineServices: describeServices(before.services.get(port)),
+      currentServices: describeServices(after.services.get(port)),
+      changes: serviceChanges.filter((change) => change.port === port),
+    }));
+
+  const index = (findings: FlatFinding[]) => {
+    const byFingerprint = new Map<string, FlatFinding>();
+    findings.forEach((finding) => {
+      const fingerprint = findingFingerprint({
+        target,
+        port: finding.port,
+        probe: finding.probe,
+        title: finding.title,
+        cweId: finding.cwe_id,
+      });
+      const existing = byFingerprint.get(fingerprint);
+      // Several workers can report the same finding; keep the most severe copy
+      if (!existing || SEVERITY_ORDER[finding.severity] < SEVERITY_ORDER[existing.severity]) {
+        byFingerprint.set(fingerprint, finding);
+      }
+    });
+    return byFingerprint;
+  };
+  const beforeFindings = index(extractFindings(before));
+  const afterFindings = index(extractFindings(after));
+
+  const findings: FindingComparison[] = Array.from(new Set([...beforeFindings.keys(), ...afterFindings.keys()]))
+    .map((fingerprint) => {
+      const baselineFinding = beforeFindings.get(fingerprint);
+      const currentFinding = afterFindings.get(fingerprint);
+      const reference = (currentFinding ?? baselineFinding)!;
+      return {
+        fingerprint,
+        state: findingState(baselineFinding, currentFinding),
+        port: reference.port,
+        probe: reference.probe,
+        title: reference.title,
+        baseline: baselineFinding,
+        current: currentFinding,
+      };
+    })
+    .sort(
+      (a, b) =>
+        STATE_ORDER[a.state] - STATE_ORDER[b.state] ||
+        SEVERITY_ORDER[(a.current ?? a.baseline)!.severity] - SEVERITY_ORDER[(b.current ?? b.baseline)!.severity] ||
+        a.port - b.port
+    );
+
+  const count = (state: FindingComparisonState) => findings.filter((finding) => finding.state === state).length;
+
+  return {
+    baselineJobId: baseline.job.id,
+    currentJobId: current.job.id,
+    sameTarget: baseline.job.target.trim().toLowerCase() === current.job.target.trim().toLowerCase(),
+    ports,
+    findings,
+    summary: {
+      fixed: count('fixed'),
+      new: count('new'),
+      regressed: count('regressed'),
+      persisting: count('persisting'),
+      openedPorts: ports.filter((port) => port.state === 'opened').length,
+      closedPorts: ports.filter((port) => port.state === 'closed').length,
+    },
+  };
+}
@@ -73,7 +73,7 @@ export const CATEGORY_FILTER_DESCRIPTIONS: Record<string, string> = {
 /** Tooltip text for sort mode buttons. */
 export const SORT_MODE_DESCRIPTIONS: Record<string, string> = {
   numeric: 'Sort ports by number in ascending order.',
-  risk: 'Sort ports by highest severity first, then by port number.',
+  risk: 'Sort ports by highest CVSS score first (unscored findings rank by severity), then by port number.',
 };
 
 /** Key terms covering cybersec concepts and RedMesh-specific terminology. */
@@ -106,6 +106,7 @@ export const TASK_FORM_DESCRIPTIONS: Record<string, string> = {
   taskName: 'A human-readable label for this scan task. Shown in the dashboard and reports.',
   summary: 'Optional free-text description of the task scope, goal, or change context.',
   target: 'IP address, hostname, or CIDR range to scan. Examples: 10.0.5.12, api.internal.local, 192.168.1.0/24.',
+  targetList: 'One entry per line (or comma-separated): hosts, CIDR blocks such as 10.0.5.0/28, or ranges such as 10.0.6.1-20. Each expanded host becomes its own task, grouped as a campaign.',
   portRange: 'Inclusive TCP port range to sweep. 1–1024 covers well-known services; 1–65535 covers all ports (slower).',
   portStart: 'First port in the scan range (minimum 1).',
   portEnd: 'Last port in the scan range (maximum 65535).',
@@ -0,0 +1,206 @@
+/**
+ * Pass-to-pass drift for continuous jobs: ports that opened or closed, service banners and
+ * versions that changed, findings that appeared or were resolved, and how the risk score moved.
+ */
+
+import type { Job, PassHistoryEntry, RiskBreakdown, WorkerReport } from '../api/types';
+import { aggregatePorts, extractFindings, findingFingerprint } from './findings';
+import type { AggregatedPortsData, FlatFinding } from './findings';
+
+export interface PassRef {
+  passNr: number;
+  completedAt: string;
+  riskScore: number | null;
+}
+
+export interface ServiceChange {
+  port: number;
+  probe: string;
+  field: string;
+  before: string | null;
+  after: string | null;
+}
+
+export interface RiskComponentDelta {
+  key: string;
+  label: string;
+  from: number | null;
+  to: number | null;
+  delta: number | null;
+}
+
+export interface PassDiff {
+  from: PassRef;
+  to: PassRef;
+  openedPorts: number[];
+  closedPorts: number[];
+  serviceChanges: ServiceChange[];
+  newFindings: FlatFinding[];
+  resolvedFindings: FlatFinding[];
+  risk: {
+    from: number | null;
+    to: number | null;
+    delta: number | null;
+    components: RiskComponentDelta[];
+    /** Finding counts per severity from the risk breakdowns. */
+    findingCounts: RiskComponentDelta[];
+  };
+}
+
+/** Probe result fields that identify the software and version behind a port. */
+const VERSION_FIELDS = ['banner', 'version', 'server', 'server_type', 'product'];
+
+const RISK_COMPONENTS: Array<{ key: keyof Omit<RiskBreakdown, 'findingCounts'>; label: string }> = [
+  { key: 'findingsScore', label: 'Findings score' },
+  { key: 'openPortsScore', label: 'Open ports score' },
+  { key: 'breadthScore', label: 'Breadth score' },
+  { key: 'credentialsPenalty', label: 'Credentials penalty' },
+  { key: 'rawTotal', label: 'Raw total' },
+];
+
+type ReportMap = Record<string, WorkerReport | Record<string, unknown>>;
+
+function findPass(job: Job, passNr: number): PassHistoryEntry | undefined {
+  return job.passHistory?.find((pass) => pass.passNr === passNr);
+}
+
+/**
+ * The latest pass and the one before it, or null when the job has fewer than two passes.
+ */
+export function defaultDiffRange(job: Job): { from: number; to: number } | null {
+  const passes = [...(job.passHistory ?? [])].sort((a, b) => a.passNr - b.passNr);
+  if (passes.length < 2) return null;
+  return { from: passes[passes.length - 2].passNr, to: passes[passes.length - 1].passNr };
+}
+
+/** Reports of one pass, picked out of the job's CID → report map. */
+export function passReports(job: Job, passNr: number, reports: ReportMap): ReportMap {
+  const pass = findPass(job, passNr);
+  const selected: ReportMap = {};
+  Object.values(pass?.reports ?? {}).forEach((cid) => {
+    if (reports[cid]) selected[cid] = reports[cid];
+  });
+  return selected;
+}
+
+function delta(from: number | null, to: number | null): number | null {
+  return from !== null && to !== null ? to - from : null;
+}
+
+/** Banner and version fields of one probe result, keyed by field name. */
+export function versionFields(result: unknown): Record<string, string> {
+  if (result === null || result === undefined) return {};
+  if (typeof result !== 'object' || Array.isArray(result)) {
+    // Legacy string results are the banner line itself
+    return { result: String(result).trim() };
+  }
+  const fields: Record<string, string> = {};
+  const obj = result as Record<string, unknown>;
+  VERSION_FIELDS.forEach((field) => {
+    const value = obj[field];
+    if (typeof value === 'string' || typeof value === 'number') {
+      fields[field] = String(value);
+    }
+  });
+  return fields;
+}
+
+/** Banner/version changes on ports open in both aggregates. */
+export function diffServices(from: AggregatedPortsData, to: AggregatedPortsData): ServiceChange[] {
+  const changes: ServiceChange[] = [];
+  const ports = Array.from(to.services.keys())
+    .filter((port) => from.services.has(port))
+    .sort((a, b) => a - b);
+
+  ports.forEach((port) => {
+    const before = from.services.get(port) ?? {};
+    const after = to.services.get(port) ?? {};
+    const probes = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+    probes.forEach((probe) => {
+      const beforeFields = versionFields(before[probe]);
+      const afterFields = versionFields(after[probe]);
+      const fields = new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)]);
+      fields.forEach((field) => {
+        const previous = beforeFields[field] ?? null;
+        const current = afterFields[field] ?? null;
+        if (previous !== current) {
+          changes.push({ port, probe, field, before: previous, after: current });
+        }
+      });
+    });
+  });
+
+  return changes;
+}
+
+function diffRisk(from: PassHistoryEntry, to: PassHistoryEntry): PassDiff['risk'] {
+  const fromScore = from.riskScore ?? null;
+  const toScore = to.riskScore ?? null;
+
+  const components = RISK_COMPONENTS.map(({ key, label }) => {
+    const previous = from.riskBreakdown?.[key] ?? null;
+    const current = to.riskBreakdown?.[key] ?? null;
+    return { key, label, from: previous, to: current, delta: delta(previous, current) };
+  }).filter((component) => component.from !== null || component.to !== null);
+
+  const severities = Array.from(
+    new Set([
+      ...Object.keys(from.riskBreakdown?.findingCounts ?? {}),
+      ...Object.keys(to.riskBreakdown?.findingCounts ?? {}),
+    ])
+  );
+  const findingCounts = severities.map((severity) => {
+    const previous = from.riskBreakdown ? from.riskBreakdown.findingCounts[severity] ?? 0 : null;
+    const current = to.riskBreakdown ? to.riskBreakdown.findingCounts[severity] ?? 0 : null;
+    return { key: severity, label: severity, from: previous, to: current, delta: delta(previous, current) };
+  });
+
+  return { from: fromScore, to: toScore, delta: delta(fromScore, toScore), components, findingCounts };
+}
+
+/**
+ * Compare two passes of a job. Throws when either pass is missing from the pass history.
+ */
+export function diffPasses(job: Job, reports: ReportMap, fromPassNr: number, toPassNr: number): PassDiff {
+  const fromPass = findPass(job, fromPassNr);
+  const toPass = findPass(job, toPassNr);
+  if (!fromPass || !toPass) {
+    throw new Error(`Pass ${!fromPass ? fromPassNr : toPassNr} is not in the history of this job.`);
+  }
+
+  const before = aggregatePorts(passReports(job, fromPassNr, reports), null);
+  const after = aggregatePorts(passReports(job, toPassNr, reports), null);
+
+  const beforePorts = new Set(before.ports);
+  const afterPorts = new Set(after.ports);
+
+  const fingerprint = (finding: FlatFinding) =>
+    findingFingerprint({
+      target: job.target,
+      port: finding.port,
+      probe: finding.probe,
+      title: finding.title,
+      cweId: finding.cwe_id,
+    });
+  const beforeFindings = extractFindings(before);
+  const afterFindings = extractFindings(after);
+  const beforeKeys = new Set(beforeFindings.map(fingerprint));
+  const afterKeys = new Set(afterFindings.map(fingerprint));
+
+  const toRef = (pass: PassHistoryEntry): PassRef => ({
+    passNr: pass.passNr,
+    completedAt: pass.completedAt,
+    riskScore: pass.riskScore ?? null,
+  });
+
+  return {
+    from: toRef(fromPass),
+    to: toRef(toPass),
+    openedPorts: after.ports.filter((port) => !beforePorts.has(port)),
+    closedPorts: before.ports.filter((port) => !afterPorts.has(port)),
+    serviceChanges: diffServices(before, after),
+    newFindings: afterFindings.filter((finding) => !beforeKeys.has(fingerprint(finding))),
+    resolvedFindings: beforeFindings.filter((finding) => !afterKeys.has(fingerprint(finding))),
+    risk: diffRisk(fromPass, toPass),
+  };
+}
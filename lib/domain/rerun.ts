@@ -0,0 +1,118 @@
+/**
+ * Rebuild launch settings from an existing job so it can be run again.
+ *
+ * Jobs only record what RedMesh keeps in their specs, and the node may have changed since the
+ * original launch, so every setting that cannot be carried over is reported as a difference.
+ */
+
+import type { Job, JobTemplateFields } from '../api/types';
+import { DURATION } from '../api/constants';
+
+export interface RerunDifference {
+  field: string;
+  original: string;
+  rerun: string;
+  reason: string;
+}
+
+export interface RerunPlan {
+  target: string;
+  fields: JobTemplateFields;
+  differences: RerunDifference[];
+}
+
+export interface RerunContext {
+  /** Current feature catalog; an empty catalog skips the feature check. */
+  featureCatalog: Array<{ id: string; label: string }>;
+  /** Peers currently online; an empty list skips the peer check. */
+  peers: Array<{ address: string; label: string }>;
+}
+
+function list(values: string[]): string {
+  return values.length ? values.join(', ') : '—';
+}
+
+/**
+ * Settings the launch request sends but the job specs do not keep; the form defaults apply.
+ */
+const UNRECORDED_FIELDS: Array<{ field: string; rerun: string }> = [
+  { field: 'Credential redaction', rerun: 'On' },
+  { field: 'ICS safe mode', rerun: 'On' },
+  { field: 'Rate limiting', rerun: 'On' },
+  { field: 'Scanner identity', rerun: 'Default' }
+];
+
+export function buildRerunPlan(job: Job, context: RerunContext): RerunPlan {
+  const differences: RerunDifference[] = [];
+  const catalogIds = new Set(context.featureCatalog.map((feature) => feature.id));
+
+  // Older jobs only list exclusions; everything else in the catalog was enabled.
+  const originalFeatures = job.featureSet.length
+    ? job.featureSet
+    : context.featureCatalog.map((feature) => feature.id).filter((id) => !job.excludedFeatures.includes(id));
+  let features = originalFeatures;
+  if (catalogIds.size > 0) {
+    const removed = originalFeatures.filter((id) => !catalogIds.has(id));
+    features = originalFeatures.filter((id) => catalogIds.has(id));
+    if (removed.length > 0) {
+      differences.push({
+        field: 'Features',
+        original: list(removed),
+        rerun: 'Skipped',
+        reason: 'No longer in the feature catalog of this node.'
+      });
+    }
+  }
+
+  const originalPeers = job.workers.map((worker) => worker.id);
+  let selectedPeers: string[] | undefined = originalPeers.length ? originalPeers : undefined;
+  if (context.peers.length > 0 && originalPeers.length > 0) {
+    const online = new Set(context.peers.map((peer) => peer.address));
+    const offline = originalPeers.filter((address) => !online.has(address));
+    const available = originalPeers.filter((address) => online.has(address));
+    selectedPeers = available.length ? available : undefined;
+    if (offline.length > 0) {
+      differences.push({
+        field: 'Worker peers',
+        original: list(offline),
+        rerun: available.length ? list(available) : 'All online peers',
+        reason: 'Peers are no longer online.'
+      });
+    }
+  }
+
+  const workerCount = selectedPeers?.length ?? job.workerCount;
+  if (job.workerCount > 0 && workerCount !== job.workerCount) {
+    differences.push({
+      field: 'Worker count',
+      original: String(job.workerCount),
+      rerun: String(workerCount),
+      reason: 'Limited to the peers that are still online.'
+    });
+  }
+
+  const duration = job.runMode === DURATION.CONTINUOUS ? DURATION.CONTINUOUS : DURATION.SINGLEPASS;
+
+  UNRECORDED_FIELDS.forEach(({ field, rerun }) => {
+    differences.push({ field, original: 'Not recorded', rerun, reason: 'Not stored with the job; form defaults apply.' });
+  });
+
+  return {
+    target: job.target,
+    fields: {
+      name: `${job.displayName} (re-run)`,
+      summary: job.summary,
+      portRange: { ...job.portRange },
+      exceptions: job.exceptionPorts,
+      features,
+      workerCount,
+      priority: job.priority,
+      distribution: job.distribution ?? 'slice',
+      duration,
+      scanDelay: job.tempo ? { ...job.tempo } : undefined,
+      monitorInterval: duration === DURATION.CONTINUOUS ? job.monitorInterval : undefined,
+      selectedPeers
+    },
+    differences
+  };
+}
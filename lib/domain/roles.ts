@@ -0,0 +1,54 @@
+import type { UserAccount } from '../api/types';
+
+export type UserRole = 'viewer' | 'operator' | 'admin';
+
+export type Permission =
+  | 'jobs:read'
+  | 'jobs:create'
+  | 'jobs:stop'
+  | 'jobs:purge'
+  | 'advanced:view'
+  | 'audit:read'
+  | 'apikeys:manage'
+  | 'scope:manage'
+  | 'findings:triage'
+  | 'cves:import';
+
+/** Roles ordered from least to most privileged. */
+export const ROLE_ORDER: UserRole[] = ['viewer', 'operator', 'admin'];
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  viewer: ['jobs:read'],
+  operator: ['jobs:read', 'jobs:create', 'jobs:stop', 'findings:triage'],
+  admin: ['jobs:read', 'jobs:create', 'jobs:stop', 'jobs:purge', 'advanced:view', 'audit:read', 'apikeys:manage', 'scope:manage', 'findings:triage', 'cves:import']
+};
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (ROLE_ORDER as string[]).includes(value);
+}
+
+/**
+ * Resolve the effective role from a user's role list.
+ * The most privileged recognised role wins; users without one fall back to viewer.
+ */
+export function resolveRole(roles: string[] | undefined): UserRole {
+  const known = (roles ?? []).map((role) => role.toLowerCase()).filter(isUserRole);
+  return known.reduce<UserRole>(
+    (best, role) => (ROLE_ORDER.indexOf(role) > ROLE_ORDER.indexOf(best) ? role : best),
+    'viewer'
+  );
+}
+
+export function getRolePermissions(role: UserRole): Permission[] {
+  return ROLE_PERMISSIONS[role];
+}
+
+export function hasPermission(
+  user: Pick<UserAccount, 'roles'> | null | undefined,
+  permission: Permission
+): boolean {
+  if (!user) {
+    return false;
+  }
+  return getRolePermissions(resolveRole(user.roles)).includes(permission);
+}
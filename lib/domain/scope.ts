@@ -0,0 +1,282 @@
+/**
+ * Engagement scope matching. Pure functions shared by the launch route and the task form.
+ *
+ * Rule values may be an IP address, a CIDR block (IPv4 or IPv6), a hostname, or a wildcard
+ * domain such as `*.corp.example`. Deny rules always win over allow rules, and a target no allow
+ * rule covers is out of scope unless open scope is enabled.
+ */
+
+export type ScopeRuleEffect = 'allow' | 'deny';
+export type ScopeRuleKind = 'cidr' | 'hostname' | 'wildcard';
+
+export interface ScopeRule {
+  id: string;
+  effect: ScopeRuleEffect;
+  value: string;
+  note?: string;
+  createdAt: string;
+  createdBy: string;
+}
+
+export interface ScopeDecision {
+  allowed: boolean;
+  reason: string;
+  /** Rule that decided the outcome, when one did. */
+  rule?: Pick<ScopeRule, 'id' | 'effect' | 'value'>;
+  /** Addresses the hostname resolved to, when resolution was attempted. */
+  resolvedAddresses?: string[];
+}
+
+export interface ScopeOptions {
+  /** Allow targets no deny rule matches while no allow rules are configured (`REDMESH_SCOPE_OPEN`). */
+  open?: boolean;
+}
+
+interface ParsedAddress {
+  bytes: number[];
+  version: 4 | 6;
+}
+
+interface ParsedNetwork extends ParsedAddress {
+  prefix: number;
+}
+
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/;
+
+function parseIpv4(value: string): number[] | null {
+  const parts = value.split('.');
+  if (parts.length !== 4) {
+    return null;
+  }
+  const bytes = parts.map((part) => (/^\d{1,3}$/.test(part) ? Number(part) : NaN));
+  return bytes.every((byte) => byte >= 0 && byte <= 255) ? bytes : null;
+}
+
+function parseIpv6(value: string): number[] | null {
+  if (!/^[0-9a-f:.]+$/i.test(value) || value.split('::').length > 2) {
+    return null;
+  }
+
+  const [head, tail] = value.split('::');
+  const toGroups = (section: string | undefined): number[] | null => {
+    if (!section) {
+      return [];
+    }
+    const groups: number[] = [];
+    for (const group of section.split(':')) {
+      if (group.includes('.')) {
+        const ipv4 = parseIpv4(group);
+        if (!ipv4) return null;
+        groups.push((ipv4[0] << 8) | ipv4[1], (ipv4[2] << 8) | ipv4[3]);
+      } else if (/^[0-9a-f]{1,4}$/i.test(group)) {
+        groups.push(parseInt(group, 16));
+      } else {
+        return null;
+      }
+    }
+    return groups;
+  };
+
+  const headGroups = toGroups(head);
+  const tailGroups = toGroups(tail);
+  if (!headGroups || !tailGroups) {
+    return null;
+  }
+
+  const missing = 8 - headGroups.length - tailGroups.length;
+  if ((tail === undefined && missing !== 0) || missing < 0 || (tail !== undefined && missing < 1)) {
+    return null;
+  }
+
+  const groups = [...headGroups, ...new Array(tail === undefined ? 0 : missing).fill(0), ...tailGroups];
+  return groups.flatMap((group) => [group >> 8, group & 0xff]);
+}
+
+export function parseIpAddress(value: string): ParsedAddress | null {
+  const trimmed = value.trim();
+  const ipv4 = parseIpv4(trimmed);
+  if (ipv4) {
+    return { bytes: ipv4, version: 4 };
+  }
+  const ipv6 = trimmed.includes(':') ? parseIpv6(trimmed) : null;
+  return ipv6 ? { bytes: ipv6, version: 6 } : null;
+}
+
+export function parseCidr(value: string): ParsedNetwork | null {
+  const [address, prefixRaw, extra] = value.trim().split('/');
+  if (extra !== undefined) {
+    return null;
+  }
+  const parsed = parseIpAddress(address);
+  if (!parsed) {
+    return null;
+  }
+  const maxPrefix = parsed.bytes.length * 8;
+  const prefix = prefixRaw === undefined ? maxPrefix : /^\d{1,3}$/.test(prefixRaw) ? Number(prefixRaw) : NaN;
+  if (!(prefix >= 0 && prefix <= maxPrefix)) {
+    return null;
+  }
+  return { ...parsed, prefix };
+}
+
+function prefixMatches(a: number[], b: number[], prefix: number): boolean {
+  for (let bit = 0; bit < prefix; bit += 8) {
+    const index = bit / 8;
+    const remaining = Math.min(prefix - bit, 8);
+    const mask = (0xff << (8 - remaining)) & 0xff;
+    if ((a[index] & mask) !== (b[index] & mask)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/** True when every address of `inner` lies inside `outer`. */
+function networkContains(outer: ParsedNetwork, inner: ParsedNetwork): boolean {
+  return outer.version === inner.version && inner.prefix >= outer.prefix && prefixMatches(outer.bytes, inner.bytes, outer.prefix);
+}
+
+/** True when the two networks share at least one address. */
+function networksOverlap(a: ParsedNetwork, b: ParsedNetwork): boolean {
+  return a.version === b.version && prefixMatches(a.bytes, b.bytes, Math.min(a.prefix, b.prefix));
+}
+
+export function normalizeHostname(value: string): string {
+  return value.trim().toLowerCase().replace(/\.$/, '');
+}
+
+export function isHostname(value: string): boolean {
+  return HOSTNAME_PATTERN.test(normalizeHostname(value)) && !parseIpAddress(value);
+}
+
+/**
+ * Classify a rule value, or return null when it is not a valid scope entry.
+ */
+export function classifyScopeValue(value: string): ScopeRuleKind | null {
+  const trimmed = value.trim();
+  if (parseCidr(trimmed)) {
+    return 'cidr';
+  }
+  if (trimmed.startsWith('*.') && isHostname(trimmed.slice(2))) {
+    return 'wildcard';
+  }
+  if (isHostname(trimmed)) {
+    return 'hostname';
+  }
+  return null;
+}
+
+function hostnameMatchesRule(hostname: string, rule: ScopeRule): boolean {
+  const kind = classifyScopeValue(rule.value);
+  const ruleValue = normalizeHostname(rule.value);
+  if (kind === 'hostname') {
+    return hostname === ruleValue;
+  }
+  if (kind === 'wildcard') {
+    return hostname.endsWith(ruleValue.slice(1));
+  }
+  return false;
+}
+
+function toRuleRef(rule: ScopeRule): ScopeDecision['rule'] {
+  return { id: rule.id, effect: rule.effect, value: rule.value };
+}
+
+/**
+ * Decide whether a target is in scope.
+ *
+ * - A deny rule matching the hostname, or overlapping any target/resolved address, rejects it.
+ * - A hostname that did not resolve is rejected while any CIDR rule exists, as its addresses
+ *   cannot be checked against them.
+ * - With no allow rules configured every target is rejected, or, in open mode, only deny rules apply.
+ * - Otherwise the hostname must match an allow rule, or every address must fall inside one.
+ */
+export function evaluateScope(
+  target: string,
+  rules: ScopeRule[],
+  resolvedAddresses: string[] = [],
+  options: ScopeOptions = {}
+): ScopeDecision {
+  const trimmed = target.trim();
+  const network = parseCidr(trimmed);
+  const hostname = network ? null : normalizeHostname(trimmed);
+
+  if (!network && !(hostname && isHostname(hostname))) {
+    return { allowed: false, reason: `"${trimmed}" is not a valid IP address, CIDR block or hostname.` };
+  }
+
+  const candidates = (network ? [{ label: trimmed, network }] : resolvedAddresses.map((address) => ({
+    label: address,
+    network: parseCidr(address)
+  }))).filter((entry): entry is { label: string; network: ParsedNetwork } => Boolean(entry.network));
+  const resolved = network ? undefined : resolvedAddresses;
+
+  const denyRules = rules.filter((rule) => rule.effect === 'deny');
+  const allowRules = rules.filter((rule) => rule.effect === 'allow');
+
+  for (const rule of denyRules) {
+    const ruleNetwork = parseCidr(rule.value);
+    const denied = ruleNetwork
+      ? candidates.some((candidate) => networksOverlap(ruleNetwork, candidate.network))
+      : hostname !== null && hostnameMatchesRule(hostname, rule);
+    if (denied) {
+      return {
+        allowed: false,
+        reason: `Target matches deny rule ${rule.value}.`,
+        rule: toRuleRef(rule),
+        resolvedAddresses: resolved
+      };
+    }
+  }
+
+  if (hostname && candidates.length === 0 && rules.some((rule) => parseCidr(rule.value))) {
+    return {
+      allowed: false,
+      reason: `${hostname} did not resolve to any address, so it cannot be checked against the CIDR rules.`,
+      resolvedAddresses: resolved
+    };
+  }
+
+  if (allowRules.length === 0) {
+    return options.open
+      ? { allowed: true, reason: 'Open scope: no allow rules are configured, so only deny rules apply.', resolvedAddresses: resolved }
+      : { allowed: false, reason: 'No allow rules are configured.', resolvedAddresses: resolved };
+  }
+
+  if (hostname) {
+    const byName = allowRules.find((rule) => hostnameMatchesRule(hostname, rule));
+    if (byName) {
+      return { allowed: true, reason: `Hostname matches ${byName.value}.`, rule: toRuleRef(byName), resolvedAddresses: resolved };
+    }
+    if (candidates.length === 0) {
+      return {
+        allowed: false,
+        reason: `${hostname} is not listed in scope and did not resolve to any address.`,
+        resolvedAddresses: resolved
+      };
+    }
+  }
+
+  const allowNetworks = allowRules
+    .map((rule) => ({ rule, network: parseCidr(rule.value) }))
+    .filter((entry): entry is { rule: ScopeRule; network: ParsedNetwork } => Boolean(entry.network));
+
+  const uncovered = candidates.find(
+    (candidate) => !allowNetworks.some((entry) => networkContains(entry.network, candidate.network))
+  );
+  if (uncovered) {
+    return {
+      allowed: false,
+      reason: `${uncovered.label} is outside the allowed scope.`,
+      resolvedAddresses: resolved
+    };
+  }
+
+  const covering = allowNetworks.find((entry) => networkContains(entry.network, candidates[0].network));
+  return {
+    allowed: true,
+    reason: covering ? `Target is inside ${covering.rule.value}.` : 'Target is inside the allowed scope.',
+    rule: covering ? toRuleRef(covering.rule) : undefined,
+    resolvedAddresses: resolved
+  };
+}
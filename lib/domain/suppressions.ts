@@ -0,0 +1,261 @@
+/**
+ * Suppression rules for known false positives and accepted findings. Matching is pure so the job
+ * page, the PDF report and the campaign summaries hide the same findings.
+ */
+
+import type { Job, SuppressionRule, WorkerReport } from '../api/types';
+import type { AggregatedPortsData, FlatFinding } from './findings';
+import { findingScore } from './cvss';
+import type { ParsedFinding } from '../utils/probeResult';
+import { parseSeverity } from '../utils/probeResult';
+
+/** Longest accepted title pattern */
+export const MAX_TITLE_PATTERN_LENGTH = 200;
+
+/** How title patterns are written, for the rule form and API errors. */
+export const TITLE_PATTERN_SYNTAX =
+  'Title patterns are plain text matched anywhere in the title, ignoring case; * matches any run of characters and ? one character.';
+
+/** Anchors, `.*`, escapes and alternation: regex syntax that would never match as a wildcard pattern. */
+const REGEX_SYNTAX = /^\^|\$$|\.[*+]|\\|\|/;
+
+/** Whether a title pattern looks like a regular expression rather than a wildcard pattern. */
+export function looksLikeRegex(pattern: string): boolean {
+  return REGEX_SYNTAX.test(pattern.trim());
+}
+
+export interface SuppressionCandidate {
+  target: string;
+  port: number;
+  probe: string;
+  severity: ParsedFinding['severity'];
+  title: string;
+}
+
+export interface SuppressedFinding {
+  port: number;
+  probe: string;
+  severity: ParsedFinding['severity'];
+  title: string;
+  cvss_score?: number;
+  ruleId: string;
+}
+
+export interface SuppressionResult {
+  aggregated: AggregatedPortsData;
+  suppressed: SuppressedFinding[];
+}
+
+export function isRuleActive(rule: SuppressionRule, now: Date = new Date()): boolean {
+  return new Date(rule.expiresAt).getTime() > now.getTime();
+}
+
+/**
+ * Case-insensitive wildcard match anywhere in the title: `*` stands for any run of characters and
+ * `?` for one. Greedy matching that backtracks only to the last `*`, so analyst-supplied patterns
+ * run in linear-ish time on the server instead of going through the regex engine.
+ */
+export function titleMatches(pattern: string, title: string): boolean {
+  const glob = `*${pattern.trim().toLowerCase()}*`;
+  const text = title.toLowerCase();
+  let g = 0;
+  let t = 0;
+  let starAt = -1;
+  let resumeAt = 0;
+
+  while (t < text.length) {
+    if (g < glob.length && (glob[g] === '?' || glob[g] === text[t])) {
+      g += 1;
+      t += 1;
+    } else if (g < glob.length && glob[g] === '*') {
+      starAt = g;
+      resumeAt = t;
+      g += 1;
+    } else if (starAt >= 0) {
+      g = starAt + 1;
+      resumeAt += 1;
+      t = resumeAt;
+    } else {
+      return false;
+    }
+  }
+  while (glob[g] === '*') {
+    g += 1;
+  }
+  return g === glob.length;
+}
+
+export function ruleMatches(rule: SuppressionRule, candidate: SuppressionCandidate): boolean {
+  if (rule.target && rule.target.toLowerCase() !== candidate.target.trim().toLowerCase()) return false;
+  if (rule.port !== undefined && rule.port !== candidate.port) return false;
+  if (rule.probe && rule.probe !== candidate.probe) return false;
+  if (rule.severity && rule.severity !== candidate.severity) return false;
+  if (rule.titlePattern && !titleMatches(rule.titlePattern, candidate.title)) return false;
+  return true;
+}
+
+/** The first active rule that hides this finding, if any. */
+export function findSuppressingRule(
+  rules: SuppressionRule[],
+  candidate: SuppressionCandidate,
+  now: Date = new Date()
+): SuppressionRule | undefined {
+  return rules.find((rule) => isRuleActive(rule, now) && ruleMatches(rule, candidate));
+}
+
+/**
+ * Drop suppressed findings from one structured probe result. Legacy string results carry no
+ * structured findings and are returned as they are.
+ */
+function filterProbeResult(
+  result: unknown,
+  matchRule: (severity: ParsedFinding['severity'], title: string) => SuppressionRule | undefined,
+  onSuppressed: (
+    finding: { severity: ParsedFinding['severity']; title: string; cvss_score?: number },
+    rule: SuppressionRule
+  ) => void
+): unknown {
+  if (!result || typeof result !== 'object' || Array.isArray(result)) return result;
+  const obj = result as Record<string, unknown>;
+  if (!Array.isArray(obj.findings) || obj.findings.length === 0) return result;
+
+  const removedTitles: string[] = [];
+  const findings = obj.findings.filter((raw) => {
+    if (typeof raw !== 'object' || raw === null) return true;
+    const entry = raw as Record<string, unknown>;
+    const severity = parseSeverity(entry.severity);
+    const title = String(entry.title ?? '');
+    const rule = matchRule(severity, title);
+    if (!rule) return true;
+    const cvssScore = typeof entry.cvss_score === 'number' ? entry.cvss_score : undefined;
+    onSuppressed(cvssScore === undefined ? { severity, title } : { severity, title, cvss_score: cvssScore }, rule);
+    removedTitles.push(title);
+    return false;
+  });
+
+  if (removedTitles.length === 0) return result;
+
+  // Legacy vulnerability strings duplicate the finding titles; drop those too
+  const vulnerabilities = Array.isArray(obj.vulnerabilities)
+    ? obj.vulnerabilities.filter((entry) => !removedTitles.some((title) => title && String(entry).includes(title)))
+    : obj.vulnerabilities;
+
+  return { ...obj, findings, vulnerabilities };
+}
+
+function filterPortMap(
+  map: Map<number, Record<string, unknown>>,
+  target: string,
+  rules: SuppressionRule[],
+  now: Date,
+  suppressed: SuppressedFinding[]
+): Map<number, Record<string, unknown>> {
+  const filtered = new Map<number, Record<string, unknown>>();
+  map.forEach((probes, port) => {
+    const next: Record<string, unknown> = {};
+    Object.entries(probes).forEach(([probe, result]) => {
+      next[probe] = filterProbeResult(
+        result,
+        (severity, title) => findSuppressingRule(rules, { target, port, probe, severity, title }, now),
+        (finding, rule) => suppressed.push({ ...finding, port, probe, ruleId: rule.id })
+      );
+    });
+    filtered.set(port, next);
+  });
+  return filtered;
+}
+
+/**
+ * Remove the findings hidden by active rules from aggregated port data.
+ */
+export function applySuppressions(
+  aggregated: AggregatedPortsData,
+  target: string,
+  rules: SuppressionRule[],
+  now: Date = new Date()
+): SuppressionResult {
+  const active = rules.filter((rule) => isRuleActive(rule, now));
+  if (active.length === 0) {
+    return { aggregated, suppressed: [] };
+  }
+
+  const suppressed: SuppressedFinding[] = [];
+  const services = filterPortMap(aggregated.services, target, active, now, suppressed);
+  const webTests = filterPortMap(aggregated.webTests, target, active, now, suppressed);
+  return { aggregated: { ...aggregated, services, webTests }, suppressed };
+}
+
+/**
+ * Same filtering for raw worker reports, as used by the detailed sections of the PDF report.
+ */
+export function suppressReportFindings(
+  reports: Record<string, WorkerReport>,
+  target: string,
+  rules: SuppressionRule[],
+  now: Date = new Date()
+): Record<string, WorkerReport> {
+  const active = rules.filter((rule) => isRuleActive(rule, now));
+  if (active.length === 0) {
+    return reports;
+  }
+
+  const toMap = (info: Record<string, Record<string, unknown>>) =>
+    new Map(Object.entries(info).map(([port, probes]) => [Number(port), probes]));
+  const fromMap = (map: Map<number, Record<string, unknown>>) =>
+    Object.fromEntries(Array.from(map.entries()).map(([port, probes]) => [String(port), probes]));
+
+  return Object.fromEntries(
+    Object.entries(reports).map(([key, report]) => [
+      key,
+      {
+        ...report,
+        serviceInfo: fromMap(filterPortMap(toMap(report.serviceInfo), target, active, now, [])),
+        webTestsInfo: fromMap(filterPortMap(toMap(report.webTestsInfo), target, active, now, [])),
+      },
+    ])
+  );
+}
+
+/** Keep the flattened findings of a target that no active rule hides. */
+export function filterSuppressedFindings<T extends FlatFinding>(
+  findings: T[],
+  target: string,
+  rules: SuppressionRule[],
+  now: Date = new Date()
+): T[] {
+  return findings.filter(
+    (finding) =>
+      !findSuppressingRule(
+        rules,
+        { target, port: finding.port, probe: finding.probe, severity: finding.severity, title: finding.title },
+        now
+      )
+  );
+}
+
+/**
+ * The job's risk score with the suppressed findings taken out, for the Navigator's own summaries.
+ * The backend does not publish its weights, so the findings component of the latest pass's
+ * breakdown shrinks by the suppressed findings' share of all finding scores (CVSS, or the floor of
+ * the severity band), and the score scales with the raw total. `findings` includes the suppressed
+ * ones. Returns the reported score when nothing is suppressed or there is no breakdown.
+ */
+export function riskScoreWithoutSuppressed(
+  job: Pick<Job, 'riskScore' | 'passHistory'>,
+  findings: Array<Pick<ParsedFinding, 'severity' | 'cvss_score'>>,
+  suppressed: SuppressedFinding[]
+): number | undefined {
+  const breakdown = [...(job.passHistory ?? [])].reverse().find((pass) => pass.riskBreakdown)?.riskBreakdown;
+  if (job.riskScore == null || !breakdown || breakdown.rawTotal <= 0 || suppressed.length === 0) {
+    return job.riskScore;
+  }
+
+  const total = findings.reduce((sum, finding) => sum + findingScore(finding), 0);
+  const hidden = suppressed.reduce((sum, finding) => sum + findingScore(finding), 0);
+  if (total <= 0) {
+    return job.riskScore;
+  }
+
+  const removed = breakdown.findingsScore * Math.min(hidden / total, 1);
+  return Math.max(0, Math.round((job.riskScore * (breakdown.rawTotal - removed)) / breakdown.rawTotal));
+}
@@ -0,0 +1,121 @@
+/**
+ * Target list expansion for multi-target (campaign) launches.
+ *
+ * Accepts entries separated by newlines, commas or whitespace. Each entry may be a hostname, an
+ * IP address, an IPv4 CIDR block (`10.0.0.0/28`) or an IPv4 dash range (`10.0.0.1-10.0.0.20` or
+ * the short form `10.0.0.1-20`). Lines starting with `#` are comments.
+ */
+
+import { isHostname, parseIpAddress } from './scope';
+
+export const MAX_CAMPAIGN_TARGETS = 256;
+
+export interface TargetListResult {
+  targets: string[];
+  errors: string[];
+}
+
+function ipv4ToNumber(value: string): number | null {
+  const parsed = parseIpAddress(value);
+  if (!parsed || parsed.version !== 4) {
+    return null;
+  }
+  return parsed.bytes.reduce((acc, byte) => acc * 256 + byte, 0);
+}
+
+function numberToIpv4(value: number): string {
+  return [24, 16, 8, 0].map((shift) => Math.floor(value / 2 ** shift) % 256).join('.');
+}
+
+function expandRange(start: number, end: number, limit: number): string[] | null {
+  if (end < start) {
+    return null;
+  }
+  if (end - start + 1 > limit) {
+    return null;
+  }
+  const hosts: string[] = [];
+  for (let value = start; value <= end; value += 1) {
+    hosts.push(numberToIpv4(value));
+  }
+  return hosts;
+}
+
+/**
+ * Expand a single entry into hosts, or return an error message.
+ * CIDR blocks larger than /31 skip their network and broadcast addresses.
+ */
+export function expandTargetEntry(entry: string, limit: number = MAX_CAMPAIGN_TARGETS): string[] | string {
+  const value = entry.trim();
+
+  if (value.includes('/')) {
+    const [address, prefixRaw] = value.split('/');
+    const base = ipv4ToNumber(address);
+    const prefix = Number(prefixRaw);
+    if (base === null || !/^\d{1,2}$/.test(prefixRaw ?? '') || prefix < 0 || prefix > 32) {
+      return `${value} is not a valid IPv4 CIDR block.`;
+    }
+    const size = 2 ** (32 - prefix);
+    const network = base - (base % size);
+    const [first, last] = size > 2 ? [network + 1, network + size - 2] : [network, network + size - 1];
+    return expandRange(first, last, limit) ?? `${value} expands to more than ${limit} hosts.`;
+  }
+
+  const dash = value.match(/^([\d.]+)-([\d.]+)$/);
+  if (dash) {
+    const start = ipv4ToNumber(dash[1]);
+    const endRaw = dash[2].includes('.') ? dash[2] : `${dash[1].split('.').slice(0, 3).join('.')}.${dash[2]}`;
+    const end = ipv4ToNumber(endRaw);
+    if (start === null || end === null) {
+      return `${value} is not a valid IPv4 range.`;
+    }
+    if (end < start) {
+      return `${value} ends before it starts.`;
+    }
+    return expandRange(start, end, limit) ?? `${value} expands to more than ${limit} hosts.`;
+  }
+
+  if (parseIpAddress(value) || isHostname(value)) {
+    return [value];
+  }
+
+  return `${value} is not a valid host, CIDR block or range.`;
+}
+
+/**
+ * Expand a free-form target list into unique hosts, preserving first-seen order.
+ */
+export function parseTargetList(input: string | string[], limit: number = MAX_CAMPAIGN_TARGETS): TargetListResult {
+  const text = Array.isArray(input) ? input.join('\n') : input;
+  const entries = text
+    .split('\n')
+    .map((line) => line.replace(/#.*$/, ''))
+    .flatMap((line) => line.split(/[,\s]+/))
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  const seen = new Set<string>();
+  const targets: string[] = [];
+  const errors: string[] = [];
+
+  for (const entry of entries) {
+    const expanded = expandTargetEntry(entry, limit);
+    if (typeof expanded === 'string') {
+      errors.push(expanded);
+      continue;
+    }
+    for (const host of expanded) {
+      const key = host.toLowerCase();
+      if (!seen.has(key)) {
+        seen.add(key);
+        targets.push(host);
+      }
+    }
+  }
+
+  if (targets.length > limit) {
+    errors.push(`Target list expands to ${targets.length} hosts; the limit is ${limit}.`);
+  }
+
+  return { targets, errors };
+}
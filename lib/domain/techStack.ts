@@ -0,0 +1,397 @@
+/**
+ * Technology stack inventory: normalized product/version pairs extracted from service banners
+ * (`_service_info_*`) and web fingerprinting (`_web_test_tech_fingerprint`), tracked per host
+ * with version changes between passes.
+ */
+
+import type {
+  AssetObservation,
+  Job,
+  TechInstall,
+  TechProductDistribution,
+  TechVersionChange,
+} from '../api/types';
+import { forEachObservedPass } from './assets';
+
+/** Version changes kept per host; the oldest are dropped first. */
+export const MAX_HOST_CHANGES = 50;
+
+/** Lowercased aliases to the canonical product name shown in the inventory. */
+const CANONICAL_PRODUCTS: Record<string, string> = {
+  openssh: 'OpenSSH',
+  dropbear: 'Dropbear',
+  nginx: 'nginx',
+  openresty: 'OpenResty',
+  apache: 'Apache httpd',
+  'apache httpd': 'Apache httpd',
+  httpd: 'Apache httpd',
+  'apache-coyote': 'Apache Tomcat',
+  tomcat: 'Apache Tomcat',
+  'apache tomcat': 'Apache Tomcat',
+  'microsoft-iis': 'Microsoft IIS',
+  iis: 'Microsoft IIS',
+  lighttpd: 'lighttpd',
+  caddy: 'Caddy',
+  jetty: 'Jetty',
+  gunicorn: 'gunicorn',
+  uvicorn: 'uvicorn',
+  werkzeug: 'Werkzeug',
+  express: 'Express',
+  'node.js': 'Node.js',
+  node: 'Node.js',
+  php: 'PHP',
+  python: 'Python',
+  openssl: 'OpenSSL',
+  mysql: 'MySQL',
+  mariadb: 'MariaDB',
+  postgresql: 'PostgreSQL',
+  postgres: 'PostgreSQL',
+  redis: 'Redis',
+  mongodb: 'MongoDB',
+  elasticsearch: 'Elasticsearch',
+  vsftpd: 'vsftpd',
+  proftpd: 'ProFTPD',
+  'pure-ftpd': 'Pure-FTPd',
+  exim: 'Exim',
+  postfix: 'Postfix',
+  dovecot: 'Dovecot',
+  wordpress: 'WordPress',
+  drupal: 'Drupal',
+  joomla: 'Joomla',
+  jquery: 'jQuery',
+  'asp.net': 'ASP.NET',
+};
+
+/** Products recognised in free text as `<name> <version>` (e.g. "HTTP server: nginx 1.24.0"). */
+const KNOWN_PRODUCT_PATTERN = new RegExp(
+  `(?:^|[^\\w.-])(${Object.keys(CANONICAL_PRODUCTS)
+    .filter((name) => name.length > 3)
+    .map((name) => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('|')})[\\s_/-]+v?(\\d+(?:\\.\\d+)*[\\w.-]*)`,
+  'gi'
+);
+
+/** `nginx/1.24.0`, `PHP/8.1.2` tokens as found in Server and X-Powered-By headers. */
+const SLASH_TOKEN_PATTERN = /([A-Za-z][\w.+-]*)\/v?(\d+(?:\.\d+)*[\w.-]*)/g;
+
+/** `SSH-2.0-OpenSSH_9.6p1 Ubuntu-3ubuntu13` */
+const SSH_BANNER_PATTERN = /SSH-[\d.]+-([A-Za-z][A-Za-z-]*?)[_-]v?(\d[\w.]*)/;
+
+const NOT_PRODUCTS = new Set(['http', 'https', 'ssh', 'tls', 'ssl', 'rtsp', 'sip']);
+
+const FINGERPRINT_KEYS = ['technologies', 'technology', 'tech', 'detected', 'stack', 'products'];
+
+export interface TechFact {
+  host: string;
+  port: number;
+  probe: string;
+  product: string;
+  version: string | null;
+  observation: AssetObservation;
+}
+
+interface ProductVersion {
+  product: string;
+  version: string | null;
+}
+
+export function canonicalProduct(name: string): string {
+  const trimmed = name.trim();
+  return CANONICAL_PRODUCTS[trimmed.toLowerCase()] ?? trimmed;
+}
+
+function cleanVersion(version: unknown): string | null {
+  if (typeof version !== 'string' && typeof version !== 'number') {
+    return null;
+  }
+  const cleaned = String(version).trim().replace(/^v(?=\d)/i, '').replace(/[.,;)]+$/, '');
+  return /^\d/.test(cleaned) ? cleaned : null;
+}
+
+function addPair(pairs: ProductVersion[], product: string, version: unknown): void {
+  if (!product.trim() || NOT_PRODUCTS.has(product.trim().toLowerCase())) {
+    return;
+  }
+  const name = canonicalProduct(product);
+  const cleaned = cleanVersion(version);
+  const existing = pairs.find((pair) => pair.product === name);
+  if (!existing) {
+    pairs.push({ product: name, version: cleaned });
+  } else if (!existing.version && cleaned) {
+    existing.version = cleaned;
+  }
+}
+
+/** Product/version pairs mentioned in a banner or header value. */
+export function parseTechText(text: string, pairs: ProductVersion[] = []): ProductVersion[] {
+  const ssh = text.match(SSH_BANNER_PATTERN);
+  if (ssh) {
+    addPair(pairs, ssh[1], ssh[2]);
+  }
+  Array.from(text.matchAll(SLASH_TOKEN_PATTERN)).forEach((match) => addPair(pairs, match[1], match[2]));
+  Array.from(text.matchAll(KNOWN_PRODUCT_PATTERN)).forEach((match) => addPair(pairs, match[1], match[2]));
+  return pairs;
+}
+
+function parseTechEntries(value: unknown, pairs: ProductVersion[]): void {
+  if (typeof value === 'string') {
+    const before = pairs.length;
+    parseTechText(value, pairs);
+    // A bare product name ("WordPress") without a version
+    if (pairs.length === before && /^[A-Za-z][\w .+-]{0,40}$/.test(value.trim())) {
+      addPair(pairs, value, null);
+    }
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach((entry) => parseTechEntries(entry, pairs));
+    return;
+  }
+  if (value && typeof value === 'object') {
+    const entry = value as Record<string, unknown>;
+    const name = entry.name ?? entry.product ?? entry.technology;
+    if (typeof name === 'string') {
+      addPair(pairs, name, entry.version);
+      return;
+    }
+    // `{ "nginx": "1.24.0", "PHP": "8.1" }`
+    Object.entries(entry).forEach(([product, version]) => {
+      if (typeof version === 'string' || typeof version === 'number' || version === null) {
+        addPair(pairs, product, version);
+      }
+    });
+  }
+}
+
+/**
+ * Product/version pairs reported by one probe result. Structured results contribute their
+ * `server`/`product` + `version`, banner, powered-by headers and technology lists; the tech
+ * fingerprint probe's finding titles are read too.
+ */
+export function extractTechnologies(probe: string, result: unknown): ProductVersion[] {
+  const pairs: ProductVersion[] = [];
+  if (typeof result === 'string') {
+    return parseTechText(result, pairs);
+  }
+  if (!result || typeof result !== 'object' || Array.isArray(result)) {
+    return pairs;
+  }
+  const raw = result as Record<string, unknown>;
+  if (raw.error) {
+    return pairs;
+  }
+
+  const product = raw.product ?? raw.server;
+  if (typeof product === 'string') {
+    const before = pairs.length;
+    parseTechText(product, pairs);
+    if (pairs.length === before) {
+      addPair(pairs, product, raw.version);
+    }
+  }
+  if (typeof raw.banner === 'string') {
+    parseTechText(raw.banner, pairs);
+  }
+  const headers = (raw.headers && typeof raw.headers === 'object' ? raw.headers : {}) as Record<string, unknown>;
+  [raw.powered_by, raw.x_powered_by, raw.poweredBy, headers.server, headers.Server, headers['x-powered-by'], headers['X-Powered-By']]
+    .filter((value): value is string => typeof value === 'string')
+    .forEach((value) => parseTechText(value, pairs));
+  FINGERPRINT_KEYS.forEach((key) => parseTechEntries(raw[key], pairs));
+
+  if (probe.includes('tech_fingerprint') && Array.isArray(raw.findings)) {
+    raw.findings.forEach((finding) => {
+      if (finding && typeof finding === 'object') {
+        const { title, evidence } = finding as Record<string, unknown>;
+        if (typeof title === 'string') parseTechText(title, pairs);
+        if (typeof evidence === 'string') parseTechText(evidence, pairs);
+      }
+    });
+  }
+  return pairs;
+}
+
+/** Technologies from every service and web probe result of every observed job pass. */
+export function collectTechFacts(
+  jobs: Job[],
+  reports: Record<string, Record<string, unknown>>,
+  now: Date = new Date()
+): TechFact[] {
+  const facts: TechFact[] = [];
+  forEachObservedPass(
+    jobs,
+    reports,
+    (host, observation, aggregated) => {
+      aggregated.ports.forEach((port) => {
+        const probes = [
+          ...Object.entries(aggregated.services.get(port) ?? {}),
+          ...Object.entries(aggregated.webTests.get(port) ?? {}),
+        ];
+        const seen: TechFact[] = [];
+        probes.forEach(([probe, result]) => {
+          extractTechnologies(probe, result).forEach(({ product, version }) => {
+            const existing = seen.find((fact) => fact.product === product);
+            if (!existing) {
+              seen.push({ host, port, probe, product, version, observation });
+            } else if (!existing.version && version) {
+              existing.version = version;
+              existing.probe = probe;
+            }
+          });
+        });
+        facts.push(...seen);
+      });
+    },
+    now
+  );
+  return facts;
+}
+
+/**
+ * Merge facts into the stored per-host installs. Facts are applied oldest first so a newer pass
+ * reporting a different version records a change; re-ingesting the same passes is a no-op.
+ */
+export function mergeTechFacts(
+  previous: Record<string, { installs: TechInstall[]; changes: TechVersionChange[] }>,
+  facts: TechFact[]
+): Record<string, { installs: TechInstall[]; changes: TechVersionChange[] }> {
+  const hosts = JSON.parse(JSON.stringify(previous)) as Record<string, { installs: TechInstall[]; changes: TechVersionChange[] }>;
+
+  [...facts]
+    .sort((a, b) => a.observation.observedAt.localeCompare(b.observation.observedAt))
+    .forEach(({ host, port, probe, product, version, observation }) => {
+      if (!hosts[host]) {
+        hosts[host] = { installs: [], changes: [] };
+      }
+      const entry = hosts[host];
+      const seenAt = observation.observedAt;
+      const install = entry.installs.find((candidate) => candidate.port === port && candidate.product === product);
+
+      if (!install) {
+        entry.installs.push({ host, port, product, version, probe, firstSeen: seenAt, lastSeen: seenAt, lastObservation: observation });
+        entry.installs.sort((a, b) => a.port - b.port || a.product.localeCompare(b.product));
+        return;
+      }
+
+      if (seenAt < install.firstSeen) {
+        install.firstSeen = seenAt;
+      }
+      if (seenAt > install.lastSeen) {
+        if (version && version !== install.version) {
+          entry.changes = [{ host, port, product, from: install.version, to: version, observation }, ...entry.changes].slice(
+            0,
+            MAX_HOST_CHANGES
+          );
+          install.version = version;
+        }
+        install.lastSeen = seenAt;
+        install.lastObservation = observation;
+        install.probe = probe;
+      } else if (seenAt === install.lastSeen && !install.version && version) {
+        install.version = version;
+      }
+    });
+
+  return hosts;
+}
+
+/**
+ * Compare dotted versions segment by segment, numerically where both segments are numbers
+ * (`8.9p1` < `9.0` < `9.6p1` < `10.0`).
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split(/[.\-_+]/);
+  const right = b.split(/[.\-_+]/);
+  for (let index = 0; index < Math.max(left.length, right.length); index++) {
+    const x = left[index] ?? '0';
+    const y = right[index] ?? '0';
+    const diff = parseInt(x, 10) - parseInt(y, 10);
+    if (!Number.isNaN(diff) && diff !== 0) {
+      return diff;
+    }
+    const text = x.localeCompare(y, undefined, { numeric: true });
+    if (text !== 0) {
+      return text;
+    }
+  }
+  return 0;
+}
+
+export interface TechQuery {
+  text: string;
+  product?: string;
+  operator?: '<' | '<=' | '>' | '>=' | '=' | '!=';
+  version?: string;
+}
+
+/** `OpenSSH < 8.0`, `nginx >= 1.25`, `php=8.1.2`; anything else is a plain text search. */
+export function parseTechQuery(query: string): TechQuery {
+  const text = query.trim();
+  const match = text.match(/^(.+?)\s*(<=|>=|!=|==|=|<|>)\s*v?(\d[\w.-]*)$/);
+  if (!match) {
+    return { text };
+  }
+  const operator = (match[2] === '==' ? '=' : match[2]) as TechQuery['operator'];
+  return { text, product: canonicalProduct(match[1]), operator, version: match[3] };
+}
+
+export function matchesTechQuery(install: Pick<TechInstall, 'host' | 'product' | 'version'>, query: TechQuery): boolean {
+  if (query.operator && query.product && query.version) {
+    if (install.product.toLowerCase() !== query.product.toLowerCase() || !install.version) {
+      return false;
+    }
+    const diff = compareVersions(install.version, query.version);
+    switch (query.operator) {
+      case '<':
+        return diff < 0;
+      case '<=':
+        return diff <= 0;
+      case '>':
+        return diff > 0;
+      case '>=':
+        return diff >= 0;
+      case '!=':
+        return diff !== 0;
+      default:
+        return diff === 0;
+    }
+  }
+  const needle = query.text.toLowerCase();
+  return (
+    !needle ||
+    [install.host, install.product, install.version ?? '', `${install.product} ${install.version ?? ''}`].some((value) =>
+      value.toLowerCase().includes(needle)
+    )
+  );
+}
+
+/** Hosts per product and per version, most widespread product first, newest version first. */
+export function techDistribution(installs: TechInstall[]): TechProductDistribution[] {
+  const byProduct = new Map<string, Map<string | null, Set<string>>>();
+  installs.forEach((install) => {
+    if (!byProduct.has(install.product)) {
+      byProduct.set(install.product, new Map());
+    }
+    const versions = byProduct.get(install.product)!;
+    if (!versions.has(install.version)) {
+      versions.set(install.version, new Set());
+    }
+    versions.get(install.version)!.add(install.host);
+  });
+
+  return Array.from(byProduct.entries())
+    .map(([product, versions]) => {
+      const hosts = new Set<string>();
+      versions.forEach((hostSet) => hostSet.forEach((host) => hosts.add(host)));
+      return {
+        product,
+        hosts: hosts.size,
+        versions: Array.from(versions.entries())
+          .map(([version, hostSet]) => ({ version, hosts: hostSet.size }))
+          .sort((a, b) => {
+            if (a.version === null || b.version === null) return Number(a.version === null) - Number(b.version === null);
+            return compareVersions(b.version, a.version);
+          }),
+      };
+    })
+    .sort((a, b) => b.hosts - a.hosts || a.product.localeCompare(b.product));
+}
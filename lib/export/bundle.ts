@@ -0,0 +1,263 @@
+/**
+ * Self-contained JSON bundle of one job for archiving and offline analysis: the normalized job
+ * (timeline, pass history with risk breakdowns and CIDs), every worker report keyed by pass and
+ * node, and the LLM analyses and quick summaries of each pass, each next to the CID it came from.
+ * SHA-256 checksums over a canonical serialization let an import detect edits and truncation.
+ */
+
+import { createHash } from 'crypto';
+import type { Job } from '../api/types';
+import { APP_VERSION } from '../config/version';
+
+export const JOB_BUNDLE_FORMAT = 'redmesh-job-bundle';
+export const JOB_BUNDLE_SCHEMA_VERSION = 1;
+
+/** Pass key for reports that are not referenced by the pass history. */
+export const UNASSIGNED_PASS = 'unassigned';
+
+export interface BundledReport {
+  cid: string;
+  report: Record<string, unknown>;
+}
+
+export interface BundledAnalysis {
+  cid: string | null;
+  analysis: Record<string, unknown>;
+}
+
+export interface JobBundleChecksums {
+  algorithm: 'sha256';
+  job: string;
+  /** pass -> node -> checksum of the report */
+  reports: Record<string, Record<string, string>>;
+  llmAnalyses: Record<string, string>;
+  quickSummaries: Record<string, string>;
+  /** Checksum of the whole bundle with the `checksums` field left out. */
+  bundle: string;
+}
+
+export interface JobBundle {
+  format: typeof JOB_BUNDLE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  exportedBy: string;
+  generator: { name: 'RedMesh Navigator'; version: string };
+  job: Job;
+  /** pass number (or "unassigned") -> node address -> report */
+  reports: Record<string, Record<string, BundledReport>>;
+  /** pass number -> LLM analysis */
+  llmAnalyses: Record<string, BundledAnalysis>;
+  /** pass number -> quick AI summary */
+  quickSummaries: Record<string, BundledAnalysis>;
+  checksums: JobBundleChecksums;
+}
+
+export interface JobBundleSource {
+  job: Job;
+  /** CID -> report, as returned by fetchJobOrArchive */
+  reports: Record<string, Record<string, unknown>>;
+  llmAnalyses?: Record<number, Record<string, unknown>>;
+  quickSummaries?: Record<number, Record<string, unknown>>;
+}
+
+/** JSON with object keys sorted at every level, so equal content always hashes the same. */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function sha256(value: unknown): string {
+  return createHash('sha256').update(canonicalJson(value)).digest('hex');
+}
+
+function mapValues<T, R>(record: Record<string, T>, fn: (value: T) => R): Record<string, R> {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, fn(value)]));
+}
+
+function computeChecksums(bundle: Omit<JobBundle, 'checksums'>): JobBundleChecksums {
+  return {
+    algorithm: 'sha256',
+    job: sha256(bundle.job),
+    reports: mapValues(bundle.reports, (byNode) => mapValues(byNode, (entry) => sha256(entry.report))),
+    llmAnalyses: mapValues(bundle.llmAnalyses, (entry) => sha256(entry.analysis)),
+    quickSummaries: mapValues(bundle.quickSummaries, (entry) => sha256(entry.analysis)),
+    bundle: sha256(bundle),
+  };
+}
+
+function bundleAnalyses(
+  analyses: Record<number, Record<string, unknown>> | undefined,
+  cidFor: (passNr: number) => string | undefined
+): Record<string, BundledAnalysis> {
+  const bundled: Record<string, BundledAnalysis> = {};
+  Object.entries(analyses ?? {}).forEach(([passKey, analysis]) => {
+    bundled[passKey] = { cid: cidFor(Number(passKey)) ?? null, analysis };
+  });
+  return bundled;
+}
+
+export function buildJobBundle(source: JobBundleSource, options: { exportedBy: string; now?: Date }): JobBundle {
+  const { job } = source;
+  const passes = job.passHistory ?? [];
+  const reports: Record<string, Record<string, BundledReport>> = {};
+  const assigned = new Set<string>();
+
+  passes.forEach((pass) => {
+    Object.entries(pass.reports ?? {}).forEach(([node, cid]) => {
+      const report = source.reports[cid];
+      if (!report) return;
+      assigned.add(cid);
+      reports[pass.passNr] = { ...reports[pass.passNr], [node]: { cid, report } };
+    });
+  });
+
+  Object.entries(source.reports).forEach(([cid, report]) => {
+    if (assigned.has(cid)) return;
+    const node = typeof report.localWorkerId === 'string' ? report.localWorkerId : cid;
+    reports[UNASSIGNED_PASS] = { ...reports[UNASSIGNED_PASS], [node]: { cid, report } };
+  });
+
+  const passFor = (passNr: number) => passes.find((pass) => pass.passNr === passNr);
+  const content: Omit<JobBundle, 'checksums'> = {
+    format: JOB_BUNDLE_FORMAT,
+    schemaVersion: JOB_BUNDLE_SCHEMA_VERSION,
+    exportedAt: (options.now ?? new Date()).toISOString(),
+    exportedBy: options.exportedBy,
+    generator: { name: 'RedMesh Navigator', version: APP_VERSION },
+    job,
+    reports,
+    llmAnalyses: bundleAnalyses(source.llmAnalyses, (passNr) => passFor(passNr)?.llmAnalysisCid),
+    quickSummaries: bundleAnalyses(source.quickSummaries, (passNr) => passFor(passNr)?.quickSummaryCid),
+  };
+
+  return { ...content, checksums: computeChecksums(content) };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+/** Job fields the job page and the exports rely on; a bundle without them would crash both. */
+function jobProblems(job: Record<string, unknown>): string[] {
+  const problems: string[] = [];
+
+  (['displayName', 'target', 'status'] as const).forEach((field) => {
+    if (typeof job[field] !== 'string') problems.push(`Job ${field} must be a string.`);
+  });
+  (['workers', 'timeline'] as const).forEach((field) => {
+    if (!Array.isArray(job[field])) problems.push(`Job ${field} must be an array.`);
+  });
+  if (job.riskScore !== undefined && job.riskScore !== null && typeof job.riskScore !== 'number') {
+    problems.push('Job riskScore must be a number.');
+  }
+  if (job.passHistory !== undefined) {
+    if (!Array.isArray(job.passHistory)) {
+      problems.push('Job passHistory must be an array.');
+    } else {
+      job.passHistory.forEach((pass: unknown, index) => {
+        if (!isRecord(pass) || typeof pass.passNr !== 'number' || !isRecord(pass.reports)) {
+          problems.push(`Job pass history entry ${index} needs a numeric passNr and a reports object.`);
+        }
+      });
+    }
+  }
+  if (Array.isArray(job.workers) && job.workers.some((worker) => !isRecord(worker))) {
+    problems.push('Job workers must be objects.');
+  }
+
+  return problems;
+}
+
+/** Structural problems that would keep the checksums from being computed at all. */
+function shapeProblems(bundle: Partial<JobBundle>): string[] {
+  const problems: string[] = [];
+  const isAnalysis = (entry: unknown) =>
+    isRecord(entry) && (entry.cid === null || typeof entry.cid === 'string') && isRecord(entry.analysis);
+
+  Object.entries(bundle.reports ?? {}).forEach(([pass, byNode]) => {
+    if (!isRecord(byNode)) {
+      problems.push(`Reports of pass ${pass} are not an object.`);
+      return;
+    }
+    Object.entries(byNode).forEach(([node, entry]) => {
+      if (!isRecord(entry) || typeof entry.cid !== 'string' || !isRecord(entry.report)) {
+        problems.push(`Report for pass ${pass}, node ${node} is malformed.`);
+      }
+    });
+  });
+  Object.entries(bundle.llmAnalyses ?? {}).forEach(([pass, entry]) => {
+    if (!isAnalysis(entry)) problems.push(`LLM analysis for pass ${pass} is malformed.`);
+  });
+  Object.entries(bundle.quickSummaries ?? {}).forEach(([pass, entry]) => {
+    if (!isAnalysis(entry)) problems.push(`Quick summary for pass ${pass} is malformed.`);
+  });
+
+  return problems;
+}
+
+/**
+ * Check an untrusted document against the bundle format and its checksums. Returns a list of
+ * problems; an empty list means the bundle is intact.
+ */
+export function verifyJobBundle(value: unknown): string[] {
+  if (!value || typeof value !== 'object') {
+    return ['Bundle must be a JSON object.'];
+  }
+  const bundle = value as Partial<JobBundle>;
+  if (bundle.format !== JOB_BUNDLE_FORMAT) {
+    return [`Not a ${JOB_BUNDLE_FORMAT} document.`];
+  }
+  if (bundle.schemaVersion !== JOB_BUNDLE_SCHEMA_VERSION) {
+    return [`Unsupported bundle schema version ${String(bundle.schemaVersion)}; expected ${JOB_BUNDLE_SCHEMA_VERSION}.`];
+  }
+  if (!isRecord(bundle.job) || typeof bundle.job.id !== 'string' || !bundle.job.id) {
+    return ['Bundle has no job.'];
+  }
+  const invalid = jobProblems(bundle.job as unknown as Record<string, unknown>);
+  if (typeof bundle.exportedAt !== 'string' || typeof bundle.exportedBy !== 'string') {
+    invalid.push('Bundle exportedAt and exportedBy must be strings.');
+  }
+  if (invalid.length > 0) {
+    return invalid;
+  }
+  if (!isRecord(bundle.reports) || !isRecord(bundle.llmAnalyses) || !isRecord(bundle.quickSummaries) || !isRecord(bundle.checksums)) {
+    return ['Bundle is incomplete.'];
+  }
+  const malformed = shapeProblems(bundle);
+  if (malformed.length > 0) {
+    return malformed;
+  }
+
+  const { checksums, ...content } = bundle as JobBundle;
+  const expected = computeChecksums(content);
+  const problems: string[] = [];
+
+  if (checksums.job !== expected.job) problems.push('Job checksum mismatch.');
+  Object.entries(expected.reports).forEach(([pass, byNode]) => {
+    Object.entries(byNode).forEach(([node, digest]) => {
+      if (checksums.reports?.[pass]?.[node] !== digest) {
+        problems.push(`Report checksum mismatch for pass ${pass}, node ${node}.`);
+      }
+    });
+  });
+  Object.entries(expected.llmAnalyses).forEach(([pass, digest]) => {
+    if (checksums.llmAnalyses?.[pass] !== digest) problems.push(`LLM analysis checksum mismatch for pass ${pass}.`);
+  });
+  Object.entries(expected.quickSummaries).forEach(([pass, digest]) => {
+    if (checksums.quickSummaries?.[pass] !== digest) problems.push(`Quick summary checksum mismatch for pass ${pass}.`);
+  });
+  if (problems.length === 0 && checksums.bundle !== expected.bundle) {
+    problems.push('Bundle checksum mismatch.');
+  }
+
+  return problems;
+}
@@ -0,0 +1,128 @@
+/**
+ * DefectDojo "Generic Findings Import" JSON for a job's findings. Each finding becomes one
+ * dynamic finding with the scanned host and port as its endpoint; triage decisions map onto
+ * DefectDojo's active / verified / false positive / risk accepted / mitigated flags.
+ */
+
+import type { FindingStatus, FindingTriage, Job } from '../api/types';
+import type { FlatFinding } from '../domain/findings';
+import { findingFingerprint } from '../domain/findings';
+import { WELL_KNOWN_PORTS } from '../domain/knowledge';
+
+export const DEFECTDOJO_SCAN_TYPE = 'Generic Findings Import';
+
+type DefectDojoSeverity = 'Critical' | 'High' | 'Medium' | 'Low' | 'Info';
+
+export interface DefectDojoEndpoint {
+  host: string;
+  port: number;
+  protocol?: string;
+}
+
+export interface DefectDojoFinding {
+  title: string;
+  severity: DefectDojoSeverity;
+  description: string;
+  mitigation?: string;
+  references?: string;
+  cwe?: number;
+  /** CVSS v3.x vector and base score; v4.0 scores are only written to the description. */
+  cvssv3?: string;
+  cvssv3_score?: number;
+  date: string;
+  active: boolean;
+  verified: boolean;
+  false_p: boolean;
+  risk_accepted: boolean;
+  is_mitigated: boolean;
+  static_finding: false;
+  dynamic_finding: true;
+  unique_id_from_tool: string;
+  vuln_id_from_tool: string;
+  endpoints: DefectDojoEndpoint[];
+}
+
+export interface DefectDojoReport {
+  findings: DefectDojoFinding[];
+}
+
+const SEVERITIES: Record<FlatFinding['severity'], DefectDojoSeverity> = {
+  CRITICAL: 'Critical',
+  HIGH: 'High',
+  MEDIUM: 'Medium',
+  LOW: 'Low',
+  INFO: 'Info',
+};
+
+const TRIAGE_FLAGS: Record<FindingStatus, Pick<DefectDojoFinding, 'active' | 'verified' | 'false_p' | 'risk_accepted' | 'is_mitigated'>> = {
+  open: { active: true, verified: false, false_p: false, risk_accepted: false, is_mitigated: false },
+  confirmed: { active: true, verified: true, false_p: false, risk_accepted: false, is_mitigated: false },
+  false_positive: { active: false, verified: false, false_p: true, risk_accepted: false, is_mitigated: false },
+  accepted_risk: { active: false, verified: true, false_p: false, risk_accepted: true, is_mitigated: false },
+  fixed: { active: false, verified: true, false_p: false, risk_accepted: false, is_mitigated: true },
+};
+
+/** Date of the latest completed pass, or today for jobs without pass history. */
+function scanDate(job: Job, now: Date): string {
+  const completed = (job.passHistory ?? [])
+    .map((pass) => pass.completedAt)
+    .filter(Boolean)
+    .sort()
+    .pop();
+  const date = completed ? new Date(completed) : now;
+  return (Number.isNaN(date.getTime()) ? now : date).toISOString().slice(0, 10);
+}
+
+function describe(finding: FlatFinding): string {
+  const sections = [finding.description || finding.title, `**Probe:** \`${finding.probe}\``];
+  if (finding.cvss_score !== undefined) {
+    sections.push(`**CVSS:** ${finding.cvss_score.toFixed(1)}${finding.cvss_vector ? ` (\`${finding.cvss_vector}\`)` : ''}`);
+  }
+  if (finding.evidence) sections.push(`**Evidence:**\n\n\`\`\`\n${finding.evidence}\n\`\`\``);
+  if (finding.confidence) sections.push(`**Confidence:** ${finding.confidence}`);
+  return sections.join('\n\n');
+}
+
+interface DefectDojoOptions {
+  triage?: FindingTriage[];
+  now?: Date;
+}
+
+export function buildDefectDojoReport(job: Job, findings: FlatFinding[], options: DefectDojoOptions = {}): DefectDojoReport {
+  const { triage = [], now = new Date() } = options;
+  const statuses = new Map(triage.map((record) => [record.fingerprint, record.status]));
+  const date = scanDate(job, now);
+
+  return {
+    findings: findings.map((finding) => {
+      const fingerprint = findingFingerprint({
+        target: job.target,
+        port: finding.port,
+        probe: finding.probe,
+        title: finding.title,
+        cweId: finding.cwe_id,
+      });
+      const cwe = Number(finding.cwe_id?.match(/\d+/)?.[0]);
+      const protocol = WELL_KNOWN_PORTS[finding.port]?.toLowerCase();
+
+      return {
+        title: finding.title,
+        severity: SEVERITIES[finding.severity] ?? 'Info',
+        description: describe(finding),
+        ...(finding.remediation ? { mitigation: finding.remediation } : {}),
+        ...(finding.owasp_id ? { references: `OWASP ${finding.owasp_id.trim()}` } : {}),
+        ...(Number.isInteger(cwe) && cwe > 0 ? { cwe } : {}),
+        ...(finding.cvss_vector?.startsWith('CVSS:3.') && finding.cvss_score !== undefined
+          ? { cvssv3: finding.cvss_vector, cvssv3_score: finding.cvss_score }
+          : {}),
+        date,
+        ...TRIAGE_FLAGS[statuses.get(fingerprint) ?? 'open'],
+        static_finding: false,
+        dynamic_finding: true,
+        unique_id_from_tool: fingerprint,
+        vuln_id_from_tool: finding.probe,
+        endpoints: [{ host: job.target, port: finding.port, ...(protocol ? { protocol } : {}) }],
+      };
+    }),
+  };
+}
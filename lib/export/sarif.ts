@@ -0,0 +1,181 @@
+/**
+ * SARIF 2.1.0 export of a job's findings, for code-scanning dashboards and security tab mirrors.
+ * Every probe method is a rule and every structured finding a result located at target:port.
+ */
+
+import type { Job, SuppressionRule } from '../api/types';
+import type { FlatFinding } from '../domain/findings';
+import { findingFingerprint } from '../domain/findings';
+import { findSuppressingRule } from '../domain/suppressions';
+import { getDefaultFeatureCatalog } from '../domain/features';
+import { APP_VERSION } from '../config/version';
+
+export const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+type SarifLevel = 'error' | 'warning' | 'note';
+
+export interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  fullDescription?: { text: string };
+  properties: { tags: string[] };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: { artifactLocation: { uri: string } };
+    logicalLocations: Array<{ name: string; kind: string }>;
+  }>;
+  partialFingerprints: Record<string, string>;
+  properties: Record<string, unknown>;
+  suppressions?: Array<{ kind: 'external'; status: 'accepted'; justification: string }>;
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: Array<{
+    tool: { driver: { name: string; version: string; informationUri: string; rules: SarifRule[] } };
+    automationDetails: { id: string };
+    properties: Record<string, unknown>;
+    results: SarifResult[];
+  }>;
+}
+
+const LEVELS: Record<FlatFinding['severity'], SarifLevel> = {
+  CRITICAL: 'error',
+  HIGH: 'error',
+  MEDIUM: 'warning',
+  LOW: 'note',
+  INFO: 'note',
+};
+
+/** Numeric score read by GitHub code scanning to bucket results by severity, for unscored findings. */
+const SECURITY_SEVERITY: Record<FlatFinding['severity'], string> = {
+  CRITICAL: '9.5',
+  HIGH: '8.0',
+  MEDIUM: '5.5',
+  LOW: '3.0',
+  INFO: '0.0',
+};
+
+/** CWE and OWASP tags in the `external/...` form code-scanning tools group by. */
+export function findingTags(finding: Pick<FlatFinding, 'cwe_id' | 'owasp_id'>): string[] {
+  const tags = ['security'];
+  const cwe = finding.cwe_id?.match(/\d+/)?.[0];
+  if (cwe) tags.push(`external/cwe/cwe-${cwe}`);
+  if (finding.owasp_id) tags.push(`external/owasp/${finding.owasp_id.trim()}`);
+  return tags;
+}
+
+function describeProbe(probe: string): { name: string; description?: string } {
+  const feature = getDefaultFeatureCatalog().find((candidate) => candidate.methods.includes(probe));
+  const name = probe.replace(/^_+/, '').replace(/_/g, ' ');
+  return feature ? { name, description: `${feature.label}: ${feature.description}` } : { name };
+}
+
+interface SarifOptions {
+  suppressionRules?: SuppressionRule[];
+  now?: Date;
+}
+
+/**
+ * Build a SARIF log for one job. Findings hidden by an active suppression rule stay in the log
+ * with an accepted external suppression, which SARIF consumers show as dismissed.
+ */
+export function buildSarifLog(job: Job, findings: FlatFinding[], options: SarifOptions = {}): SarifLog {
+  const { suppressionRules = [], now = new Date() } = options;
+  const rules: SarifRule[] = [];
+  const ruleIndex = new Map<string, number>();
+
+  const ruleFor = (finding: FlatFinding): number => {
+    const existing = ruleIndex.get(finding.probe);
+    if (existing !== undefined) {
+      const tags = rules[existing].properties.tags;
+      findingTags(finding).forEach((tag) => {
+        if (!tags.includes(tag)) tags.push(tag);
+      });
+      return existing;
+    }
+    const { name, description } = describeProbe(finding.probe);
+    rules.push({
+      id: finding.probe,
+      name,
+      shortDescription: { text: `RedMesh ${name} probe` },
+      ...(description ? { fullDescription: { text: description } } : {}),
+      properties: { tags: findingTags(finding) },
+    });
+    ruleIndex.set(finding.probe, rules.length - 1);
+    return rules.length - 1;
+  };
+
+  const results: SarifResult[] = findings.map((finding) => {
+    const location = `${job.target}:${finding.port}`;
+    const suppressedBy = findSuppressingRule(
+      suppressionRules,
+      { target: job.target, port: finding.port, probe: finding.probe, severity: finding.severity, title: finding.title },
+      now
+    );
+    const message = [finding.title, finding.description].filter(Boolean).join(' - ');
+
+    return {
+      ruleId: finding.probe,
+      ruleIndex: ruleFor(finding),
+      level: LEVELS[finding.severity] ?? 'note',
+      message: { text: message },
+      locations: [
+        {
+          physicalLocation: { artifactLocation: { uri: location } },
+          logicalLocations: [{ name: location, kind: 'module' }],
+        },
+      ],
+      partialFingerprints: {
+        'redmeshFinding/v1': findingFingerprint({
+          target: job.target,
+          port: finding.port,
+          probe: finding.probe,
+          title: finding.title,
+          cweId: finding.cwe_id,
+        }),
+      },
+      properties: {
+        severity: finding.severity,
+        'security-severity':
+          finding.cvss_score !== undefined ? finding.cvss_score.toFixed(1) : SECURITY_SEVERITY[finding.severity] ?? '0.0',
+        tags: findingTags(finding),
+        ...(finding.cvss_vector ? { cvssVector: finding.cvss_vector } : {}),
+        ...(finding.evidence ? { evidence: finding.evidence } : {}),
+        ...(finding.remediation ? { remediation: finding.remediation } : {}),
+        ...(finding.confidence ? { confidence: finding.confidence } : {}),
+      },
+      ...(suppressedBy
+        ? { suppressions: [{ kind: 'external' as const, status: 'accepted' as const, justification: suppressedBy.justification }] }
+        : {}),
+    };
+  });
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'RedMesh',
+            version: APP_VERSION,
+            informationUri: 'https://github.com/Ratio1/edge_node/tree/develop/extensions/business/cybersec/red_mesh',
+            rules,
+          },
+        },
+        automationDetails: { id: `redmesh/${job.id}` },
+        properties: { jobId: job.id, jobName: job.displayName, target: job.target, riskScore: job.riskScore ?? null },
+        results,
+      },
+    ],
+  };
+}
@@ -0,0 +1,232 @@
+/**
+ * Spreadsheet-friendly rows for the CSV and XLSX exports: one row per finding across every pass
+ * and worker, and one row per open port with its service banners.
+ */
+
+import type { FindingStatus, FindingTriage, Job, WorkerReport } from '../api/types';
+import type { FlatFinding } from '../domain/findings';
+import { findingFingerprint } from '../domain/findings';
+import { WELL_KNOWN_PORTS } from '../domain/knowledge';
+import { normalizeProbeResult } from '../utils/probeResult';
+
+export interface FindingRow {
+  job: string;
+  pass: number | null;
+  worker: string;
+  port: number;
+  protocol: string;
+  probe: string;
+  severity: string;
+  cvssScore: number | null;
+  cvssVector: string;
+  title: string;
+  description: string;
+  evidence: string;
+  remediation: string;
+  owaspId: string;
+  cweId: string;
+  confidence: string;
+  triageStatus: FindingStatus;
+}
+
+export interface PortRow {
+  job: string;
+  pass: number | null;
+  worker: string;
+  port: number;
+  protocol: string;
+  probe: string;
+  banner: string;
+}
+
+export type Column<T> = { key: keyof T; header: string };
+
+export const FINDING_COLUMNS: Column<FindingRow>[] = [
+  { key: 'job', header: 'Job' },
+  { key: 'pass', header: 'Pass' },
+  { key: 'worker', header: 'Worker node' },
+  { key: 'port', header: 'Port' },
+  { key: 'protocol', header: 'Protocol' },
+  { key: 'probe', header: 'Probe' },
+  { key: 'severity', header: 'Severity' },
+  { key: 'cvssScore', header: 'CVSS score' },
+  { key: 'cvssVector', header: 'CVSS vector' },
+  { key: 'title', header: 'Title' },
+  { key: 'description', header: 'Description' },
+  { key: 'evidence', header: 'Evidence' },
+  { key: 'remediation', header: 'Remediation' },
+  { key: 'owaspId', header: 'OWASP ID' },
+  { key: 'cweId', header: 'CWE ID' },
+  { key: 'confidence', header: 'Confidence' },
+  { key: 'triageStatus', header: 'Triage status' },
+];
+
+export const PORT_COLUMNS: Column<PortRow>[] = [
+  { key: 'job', header: 'Job' },
+  { key: 'pass', header: 'Pass' },
+  { key: 'worker', header: 'Worker node' },
+  { key: 'port', header: 'Port' },
+  { key: 'protocol', header: 'Protocol' },
+  { key: 'probe', header: 'Probe' },
+  { key: 'banner', header: 'Banner' },
+];
+
+type ReportLike = Partial<WorkerReport> & {
+  localWorkerId?: string;
+  open_ports?: number[];
+  service_info?: Record<string, Record<string, unknown>>;
+  web_tests_info?: Record<string, Record<string, unknown>>;
+};
+
+interface ReportSource {
+  pass: number | null;
+  worker: string;
+  report: ReportLike;
+}
+
+/** The findings of one worker report, with CVE matches and analyst CVSS vectors applied. */
+export interface SourceFindings {
+  pass: number | null;
+  worker: string;
+  findings: FlatFinding[];
+}
+
+/**
+ * Every worker report with the pass and node it came from. Reports outside the pass history
+ * (jobs fetched through get_job_status) get no pass; jobs without reports fall back to the
+ * live worker state.
+ */
+export function reportSources(job: Job, reports: Record<string, WorkerReport | Record<string, unknown>>): ReportSource[] {
+  const sources: ReportSource[] = [];
+  const seen = new Set<string>();
+
+  [...(job.passHistory ?? [])]
+    .sort((a, b) => a.passNr - b.passNr)
+    .forEach((pass) => {
+      Object.entries(pass.reports).forEach(([node, cid]) => {
+        const report = reports[cid];
+        if (!report) return;
+        seen.add(cid);
+        sources.push({ pass: pass.passNr, worker: node, report: report as ReportLike });
+      });
+    });
+
+  Object.entries(reports).forEach(([cid, raw]) => {
+    if (seen.has(cid)) return;
+    const report = raw as ReportLike;
+    sources.push({ pass: null, worker: report.localWorkerId ?? cid, report });
+  });
+
+  if (sources.length === 0) {
+    job.workers.forEach((worker) => {
+      sources.push({
+        pass: job.currentPass || null,
+        worker: worker.id,
+        report: { openPorts: worker.openPorts, serviceInfo: worker.serviceInfo, webTestsInfo: worker.webTestsInfo },
+      });
+    });
+  }
+
+  return sources;
+}
+
+function probeResults(report: ReportLike): Array<{ port: number; probe: string; result: unknown }> {
+  const entries: Array<{ port: number; probe: string; result: unknown }> = [];
+  [report.serviceInfo ?? report.service_info, report.webTestsInfo ?? report.web_tests_info].forEach((byPort) => {
+    Object.entries(byPort ?? {}).forEach(([portKey, probes]) => {
+      const port = Number(portKey);
+      if (!Number.isFinite(port) || !probes || typeof probes !== 'object') return;
+      Object.entries(probes).forEach(([probe, result]) => entries.push({ port, probe, result }));
+    });
+  });
+  return entries.sort((a, b) => a.port - b.port || a.probe.localeCompare(b.probe));
+}
+
+export function buildFindingRows(job: Job, sources: SourceFindings[], triage: FindingTriage[] = []): FindingRow[] {
+  const statuses = new Map(triage.map((record) => [record.fingerprint, record.status]));
+  const rows: FindingRow[] = [];
+
+  sources.forEach(({ pass, worker, findings }) => {
+    findings.forEach((finding) => {
+      const fingerprint = findingFingerprint({
+        target: job.target,
+        port: finding.port,
+        probe: finding.probe,
+        title: finding.title,
+        cweId: finding.cwe_id,
+      });
+      rows.push({
+        job: job.displayName || job.id,
+        pass,
+        worker,
+        port: finding.port,
+        protocol: WELL_KNOWN_PORTS[finding.port] ?? '',
+        probe: finding.probe,
+        severity: finding.severity,
+        cvssScore: finding.cvss_score ?? null,
+        cvssVector: finding.cvss_vector ?? '',
+        title: finding.title,
+        description: finding.description ?? '',
+        evidence: finding.evidence ?? '',
+        remediation: finding.remediation ?? '',
+        owaspId: finding.owasp_id ?? '',
+        cweId: finding.cwe_id ?? '',
+        confidence: finding.confidence ?? '',
+        triageStatus: statuses.get(fingerprint) ?? 'open',
+      });
+    });
+  });
+
+  return rows;
+}
+
+export function buildPortRows(job: Job, reports: Record<string, WorkerReport | Record<string, unknown>>): PortRow[] {
+  const rows: PortRow[] = [];
+
+  reportSources(job, reports).forEach(({ pass, worker, report }) => {
+    const results = probeResults(report);
+    const openPorts = Array.from(new Set([...(report.openPorts ?? report.open_ports ?? []), ...results.map((entry) => entry.port)]));
+    openPorts
+      .sort((a, b) => a - b)
+      .forEach((port) => {
+        const base = { job: job.displayName || job.id, pass, worker, port, protocol: WELL_KNOWN_PORTS[port] ?? '' };
+        const probes = results.filter((entry) => entry.port === port);
+        if (probes.length === 0) {
+          rows.push({ ...base, probe: '', banner: '' });
+          return;
+        }
+        probes.forEach(({ probe, result }) => {
+          const normalized = normalizeProbeResult(result);
+          rows.push({ ...base, probe, banner: normalized.banner ?? (typeof result === 'string' ? result : '') });
+        });
+      });
+  });
+
+  return rows;
+}
+
+/** Spreadsheet apps run cells starting with these as formulas; banners are attacker-controlled. */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export function cellText(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return FORMULA_PREFIX.test(text) ? `'${text}` : text;
+}
+
+/** Header titles and row values in column order, for the XLSX writer. */
+export function toTable<T>(columns: Column<T>[], rows: T[]): { header: string[]; rows: unknown[][] } {
+  return {
+    header: columns.map((column) => column.header),
+    rows: rows.map((row) => columns.map((column) => row[column.key])),
+  };
+}
+
+export function toCsv<T>(columns: Column<T>[], rows: T[]): string {
+  const escape = (value: unknown) => {
+    const text = typeof value === 'number' ? String(value) : cellText(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = [columns.map((column) => escape(column.header)).join(',')];
+  rows.forEach((row) => lines.push(columns.map((column) => escape(row[column.key])).join(',')));
+  return `${lines.join('\r\n')}\r\n`;
+}
@@ -0,0 +1,82 @@
+'use client';
+
+import { useAuth } from '@/components/auth/AuthContext';
+import { ApiKeyScope, ApiKeySummary, CreatedApiKey } from '@/lib/api/types';
+import { useCallback, useEffect, useState } from 'react';
+
+interface ApiKeysState {
+  keys: ApiKeySummary[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  createKey: (name: string, scope: ApiKeyScope) => Promise<CreatedApiKey>;
+  revokeKey: (id: string) => Promise<void>;
+}
+
+async function readPayload<T>(response: Response, fallbackMessage: string): Promise<T> {
+  const payload = await response.json().catch(() => null);
+  if (!response.ok || !payload) {
+    throw new Error(payload?.message ?? fallbackMessage);
+  }
+  return payload as T;
+}
+
+export default function useApiKeys(enabled = true): ApiKeysState {
+  const { loading: authLoading } = useAuth();
+  const [keys, setKeys] = useState<ApiKeySummary[]>([]);
+  const [loading, setLoading] = useState<boolean>(enabled);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (authLoading || !enabled) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const payload = await readPayload<{ keys: ApiKeySummary[] }>(
+        await fetch('/api/api-keys'),
+        'Unable to load API keys.'
+      );
+      setKeys(payload.keys);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load API keys.');
+    } finally {
+      setLoading(false);
+    }
+  }, [authLoading, enabled]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const createKey = useCallback(
+    async (name: string, scope: ApiKeyScope) => {
+      const created = await readPayload<CreatedApiKey>(
+        await fetch('/api/api-keys', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name, scope })
+        }),
+        'Unable to create API key.'
+      );
+      await refresh();
+      return created;
+    },
+    [refresh]
+  );
+
+  const revokeKey = useCallback(
+    async (id: string) => {
+      await readPayload(
+        await fetch(`/api/api-keys/${encodeURIComponent(id)}`, { method: 'DELETE' }),
+        'Unable to revoke API key.'
+      );
+      await refresh();
+    },
+    [refresh]
+  );
+
+  return { keys, loading, error, refresh, createKey, revokeKey };
+}
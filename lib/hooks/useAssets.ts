@@ -0,0 +1,202 @@
+'use client';
+
+import { useAuth } from '@/components/auth/AuthContext';
+import type { AssetHost, AssetInventoryPage, TechInventoryPage, TlsCertificatePage } from '@/lib/api/types';
+import { useCallback, useEffect, useState } from 'react';
+
+interface AssetInventoryState {
+  data: AssetInventoryPage | null;
+  loading: boolean;
+  error: string | null;
+  /** Re-ingest every job's reports, then reload. */
+  refresh: () => Promise<void>;
+}
+
+interface CertificateInventoryState {
+  data: TlsCertificatePage | null;
+  loading: boolean;
+  error: string | null;
+  /** Re-ingest every job's reports, then reload. */
+  refresh: () => Promise<void>;
+}
+
+interface TechInventoryState {
+  data: TechInventoryPage | null;
+  loading: boolean;
+  error: string | null;
+  /** Re-ingest every job's reports, then reload. */
+  refresh: () => Promise<void>;
+}
+
+interface AssetHostState {
+  host: AssetHost | null;
+  loading: boolean;
+  error: string | null;
+}
+
+async function readPayload<T>(response: Response, fallbackMessage: string): Promise<T> {
+  const payload = await response.json().catch(() => null);
+  if (!response.ok || !payload) {
+    throw new Error(payload?.message ?? fallbackMessage);
+  }
+  return payload as T;
+}
+
+export default function useAssets(query: string): AssetInventoryState {
+  const { loading: authLoading } = useAuth();
+  const [data, setData] = useState<AssetInventoryPage | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(
+    async (refresh: boolean) => {
+      if (authLoading) {
+        return;
+      }
+
+      const params = new URLSearchParams();
+      if (query.trim()) params.set('q', query.trim());
+      if (refresh) params.set('refresh', 'true');
+
+      setLoading(true);
+      setError(null);
+      try {
+        setData(await readPayload<AssetInventoryPage>(await fetch(`/api/assets?${params.toString()}`), 'Unable to load assets.'));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unable to load assets.');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [authLoading, query]
+  );
+
+  useEffect(() => {
+    void load(false);
+  }, [load]);
+
+  const refresh = useCallback(() => load(true), [load]);
+
+  return { data, loading, error, refresh };
+}
+
+export function useAssetHost(hostName: string | null): AssetHostState {
+  const { loading: authLoading } = useAuth();
+  const [host, setHost] = useState<AssetHost | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (authLoading || !hostName) {
+      setHost(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    fetch(`/api/assets?host=${encodeURIComponent(hostName)}`)
+      .then((response) => readPayload<{ host: AssetHost }>(response, 'Unable to load host.'))
+      .then((payload) => {
+        if (!cancelled) setHost(payload.host);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unable to load host.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [authLoading, hostName]);
+
+  return { host, loading, error };
+}
+
+export function useCertificates(expiringWithin: number | null): CertificateInventoryState {
+  const { loading: authLoading } = useAuth();
+  const [data, setData] = useState<TlsCertificatePage | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(
+    async (refresh: boolean) => {
+      if (authLoading) {
+        return;
+      }
+
+      const params = new URLSearchParams();
+      if (expiringWithin !== null) params.set('expiringWithin', String(expiringWithin));
+      if (refresh) params.set('refresh', 'true');
+
+      setLoading(true);
+      setError(null);
+      try {
+        setData(
+          await readPayload<TlsCertificatePage>(
+            await fetch(`/api/assets/certificates?${params.toString()}`),
+            'Unable to load certificates.'
+          )
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unable to load certificates.');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [authLoading, expiringWithin]
+  );
+
+  useEffect(() => {
+    void load(false);
+  }, [load]);
+
+  const refresh = useCallback(() => load(true), [load]);
+
+  return { data, loading, error, refresh };
+}
+
+export function useTechInventory(query: string): TechInventoryState {
+  const { loading: authLoading } = useAuth();
+  const [data, setData] = useState<TechInventoryPage | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(
+    async (refresh: boolean) => {
+      if (authLoading) {
+        return;
+      }
+
+      const params = new URLSearchParams();
+      if (query.trim()) params.set('q', query.trim());
+      if (refresh) params.set('refresh', 'true');
+
+      setLoading(true);
+      setError(null);
+      try {
+        setData(
+          await readPayload<TechInventoryPage>(
+            await fetch(`/api/assets/technologies?${params.toString()}`),
+            'Unable to load technologies.'
+          )
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unable to load technologies.');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [authLoading, query]
+  );
+
+  useEffect(() => {
+    void load(false);
+  }, [load]);
+
+  const refresh = useCallback(() => load(true), [load]);
+
+  return { data, loading, error, refresh };
+}
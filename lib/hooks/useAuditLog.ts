@@ -0,0 +1,63 @@
+'use client';
+
+import { useAuth } from '@/components/auth/AuthContext';
+import { AuditAction, AuditPage } from '@/lib/api/types';
+import { useCallback, useEffect, useState } from 'react';
+
+export interface AuditFilters {
+  action?: AuditAction | '';
+  username?: string;
+  jobId?: string;
+  from?: string;
+  to?: string;
+}
+
+interface AuditLogState {
+  data: AuditPage | null;
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+export default function useAuditLog(filters: AuditFilters, page: number, pageSize = 50): AuditLogState {
+  const { loading: authLoading } = useAuth();
+  const [data, setData] = useState<AuditPage | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const { action, username, jobId, from, to } = filters;
+
+  const load = useCallback(async () => {
+    if (authLoading) {
+      return;
+    }
+
+    const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) });
+    if (action) params.set('action', action);
+    if (username) params.set('username', username);
+    if (jobId) params.set('jobId', jobId);
+    if (from) params.set('from', new Date(from).toISOString());
+    if (to) params.set('to', new Date(to).toISOString());
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/audit?${params.toString()}`);
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload) {
+        throw new Error(payload?.message ?? 'Unable to load audit log.');
+      }
+      setData(payload as AuditPage);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load audit log.');
+    } finally {
+      setLoading(false);
+    }
+  }, [authLoading, page, pageSize, action, username, jobId, from, to]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  return { data, loading, error, refresh: load };
+}
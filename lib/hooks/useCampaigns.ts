@@ -0,0 +1,101 @@
+'use client';
+
+import { useAuth } from '@/components/auth/AuthContext';
+import type { CampaignDetail, CampaignSummary } from '@/lib/api/types';
+import { useCallback, useEffect, useState } from 'react';
+
+interface CampaignsState {
+  campaigns: CampaignSummary[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+interface CampaignState {
+  detail: CampaignDetail | null;
+  loading: boolean;
+  error: string | null;
+  notFound: boolean;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * List multi-target campaigns with their aggregate progress.
+ */
+export default function useCampaigns(): CampaignsState {
+  const { loading: authLoading } = useAuth();
+  const [campaigns, setCampaigns] = useState<CampaignSummary[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (authLoading) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/campaigns');
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload) {
+        throw new Error(payload?.message ?? 'Unable to load campaigns.');
+      }
+      setCampaigns((payload as { campaigns?: CampaignSummary[] }).campaigns ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load campaigns.');
+    } finally {
+      setLoading(false);
+    }
+  }, [authLoading]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return { campaigns, loading, error, refresh };
+}
+
+/**
+ * Load a single campaign with its jobs and combined findings.
+ */
+export function useCampaign(campaignId: string): CampaignState {
+  const { loading: authLoading } = useAuth();
+  const [detail, setDetail] = useState<CampaignDetail | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notFound, setNotFound] = useState<boolean>(false);
+
+  const refresh = useCallback(async () => {
+    if (authLoading || !campaignId) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setNotFound(false);
+    try {
+      const response = await fetch(`/api/campaigns/${encodeURIComponent(campaignId)}`);
+      if (response.status === 404) {
+        setNotFound(true);
+        setDetail(null);
+        return;
+      }
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload) {
+        throw new Error(payload?.message ?? 'Unable to load campaign.');
+      }
+      setDetail(payload as CampaignDetail);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load campaign.');
+    } finally {
+      setLoading(false);
+    }
+  }, [authLoading, campaignId]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return { detail, loading, error, notFound, refresh };
+}
@@ -0,0 +1,117 @@
+'use client';
+
+import { useAuth } from '@/components/auth/AuthContext';
+import type { CveFeedStatus, CveMatch } from '@/lib/api/types';
+import type { AggregatedPortsData } from '@/lib/domain/findings';
+import { cveMatchItems } from '@/lib/domain/cves';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+interface CveFeedState {
+  feed: CveFeedStatus | null;
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  /** Re-import the feed directory on the server. */
+  importFeed: () => Promise<CveFeedStatus>;
+}
+
+interface CveMatchState {
+  matches: CveMatch[];
+  importedAt: string | null;
+  loading: boolean;
+  error: string | null;
+}
+
+async function readPayload<T>(response: Response, fallbackMessage: string): Promise<T> {
+  const payload = await response.json().catch(() => null);
+  if (!response.ok || !payload) {
+    throw new Error(payload?.message ?? fallbackMessage);
+  }
+  return payload as T;
+}
+
+export default function useCveFeed(): CveFeedState {
+  const { loading: authLoading } = useAuth();
+  const [feed, setFeed] = useState<CveFeedStatus | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (authLoading) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const payload = await readPayload<{ feed: CveFeedStatus }>(await fetch('/api/cves/feed'), 'Unable to load the CVE feed status.');
+      setFeed(payload.feed);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load the CVE feed status.');
+    } finally {
+      setLoading(false);
+    }
+  }, [authLoading]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const importFeed = useCallback(async () => {
+    const payload = await readPayload<{ feed: CveFeedStatus }>(
+      await fetch('/api/cves/feed', { method: 'POST' }),
+      'Unable to import the CVE feed.'
+    );
+    setFeed(payload.feed);
+    return payload.feed;
+  }, []);
+
+  return { feed, loading, error, refresh, importFeed };
+}
+
+/** CVEs from the imported feed matching the product versions in the service banners. */
+export function useCveMatches(aggregated: AggregatedPortsData): CveMatchState {
+  const { loading: authLoading } = useAuth();
+  const [matches, setMatches] = useState<CveMatch[]>([]);
+  const [importedAt, setImportedAt] = useState<string | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Re-match only when the detected products change, not on every report refresh
+  const itemsKey = useMemo(() => JSON.stringify(cveMatchItems(aggregated)), [aggregated]);
+
+  useEffect(() => {
+    const items = JSON.parse(itemsKey) as unknown[];
+    if (authLoading || items.length === 0) {
+      setMatches([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    fetch('/api/cves/match', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ items })
+    })
+      .then((response) => readPayload<{ importedAt: string | null; matches: CveMatch[] }>(response, 'Unable to match CVEs.'))
+      .then((payload) => {
+        if (cancelled) return;
+        setMatches(payload.matches);
+        setImportedAt(payload.importedAt);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unable to match CVEs.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [authLoading, itemsKey]);
+
+  return { matches, importedAt, loading, error };
+}
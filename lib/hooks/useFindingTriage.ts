@@ -0,0 +1,76 @@
+'use client';
+
+import { useAuth } from '@/components/auth/AuthContext';
+import type { FindingIdentity, FindingStatus, FindingTriage } from '@/lib/api/types';
+import { useCallback, useEffect, useState } from 'react';
+
+export interface FindingTriageChanges {
+  status?: FindingStatus;
+  assignee?: string;
+  comment?: string;
+  /** Empty string clears the analyst vector. */
+  cvssVector?: string;
+}
+
+interface FindingTriageState {
+  /** Triage records by finding fingerprint. */
+  records: Map<string, FindingTriage>;
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  updateFinding: (identity: FindingIdentity, changes: FindingTriageChanges) => Promise<FindingTriage>;
+}
+
+async function readPayload<T>(response: Response, fallbackMessage: string): Promise<T> {
+  const payload = await response.json().catch(() => null);
+  if (!response.ok || !payload) {
+    throw new Error(payload?.message ?? fallbackMessage);
+  }
+  return payload as T;
+}
+
+export default function useFindingTriage(target: string | undefined): FindingTriageState {
+  const { loading: authLoading } = useAuth();
+  const [records, setRecords] = useState<Map<string, FindingTriage>>(new Map());
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (authLoading || !target) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const payload = await readPayload<{ records: FindingTriage[] }>(
+        await fetch(`/api/findings/triage?target=${encodeURIComponent(target)}`),
+        'Unable to load finding triage.'
+      );
+      setRecords(new Map(payload.records.map((record) => [record.fingerprint, record])));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load finding triage.');
+    } finally {
+      setLoading(false);
+    }
+  }, [authLoading, target]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const updateFinding = useCallback(async (identity: FindingIdentity, changes: FindingTriageChanges) => {
+    const payload = await readPayload<{ record: FindingTriage }>(
+      await fetch('/api/findings/triage', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...identity, ...changes })
+      }),
+      'Unable to update finding.'
+    );
+    setRecords((current) => new Map(current).set(payload.record.fingerprint, payload.record));
+    return payload.record;
+  }, []);
+
+  return { records, loading, error, refresh, updateFinding };
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useAuth } from '@/components/auth/AuthContext';
-import { Job, WorkerReport, LlmAnalysis } from '@/lib/api/types';
+import { ArchivedBundleInfo, Job, WorkerReport, LlmAnalysis } from '@/lib/api/types';
 import { useCallback, useEffect, useRef, useState } from 'react';
 
 interface JobState {
@@ -11,6 +11,8 @@ interface JobState {
   llmAnalyses: Record<number, LlmAnalysis>;
   /** Quick AI summaries for each pass (passNr -> analysis) */
   quickSummaries: Record<number, LlmAnalysis>;
+  /** Set when the job is served from an imported bundle because the mesh no longer has it */
+  archived: ArchivedBundleInfo | null;
   loading: boolean;
   error: string | null;
   notFound: boolean;
@@ -22,11 +24,12 @@ interface JobState {
  * More efficient than useJobs when you only need one job's data.
  */
 export default function useJob(jobId: string): JobState {
-  const { token, loading: authLoading } = useAuth();
+  const { loading: authLoading } = useAuth();
   const [job, setJob] = useState<Job | null>(null);
   const [reports, setReports] = useState<Record<string, WorkerReport>>({});
   const [llmAnalyses, setLlmAnalyses] = useState<Record<number, LlmAnalysis>>({});
   const [quickSummaries, setQuickSummaries] = useState<Record<number, LlmAnalysis>>({});
+  const [archived, setArchived] = useState<ArchivedBundleInfo | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [notFound, setNotFound] = useState<boolean>(false);
@@ -50,7 +53,6 @@ export default function useJob(jobId: string): JobState {
 
     try {
       const response = await fetch(`/api/jobs/${jobId}?includeReports=true`, {
-        headers: token ? { Authorization: `Bearer ${token}` } : undefined,
         signal: controller.signal
       });
 
@@ -69,6 +71,7 @@ export default function useJob(jobId: string): JobState {
       setReports((payload.reports as Record<string, WorkerReport>) ?? {});
       setLlmAnalyses((payload.llmAnalyses as Record<number, LlmAnalysis>) ?? {});
       setQuickSummaries((payload.quickSummaries as Record<number, LlmAnalysis>) ?? {});
+      setArchived((payload.archived as ArchivedBundleInfo) ?? null);
     } catch (err) {
       if (err instanceof DOMException && err.name === 'AbortError') {
         return;
@@ -81,7 +84,7 @@ export default function useJob(jobId: string): JobState {
         inFlightRef.current = null;
       }
     }
-  }, [jobId, token, authLoading]);
+  }, [jobId, authLoading]);
 
   useEffect(() => {
     void loadJob();
@@ -100,6 +103,7 @@ export default function useJob(jobId: string): JobState {
     reports,
     llmAnalyses,
     quickSummaries,
+    archived,
     loading,
     error,
     notFound,
@@ -29,17 +29,23 @@ interface PurgeJobResult {
   cids_total: number;
 }
 
+interface DefectDojoPushResult {
+  testId: number | null;
+  findingCount: number;
+}
+
 interface UseJobActionsReturn {
   stopJob: (jobId: string) => Promise<StopJobResult>;
   stopMonitoring: (jobId: string, stopType?: StopType) => Promise<StopMonitoringResult>;
   purgeJob: (jobId: string) => Promise<PurgeJobResult>;
+  pushToDefectDojo: (jobId: string) => Promise<DefectDojoPushResult>;
   loading: boolean;
   error: string | null;
   clearError: () => void;
 }
 
 /**
- * Hook for job actions (stop, delete, stop monitoring).
+ * Hook for job actions (stop, delete, stop monitoring, DefectDojo push).
  * Provides loading and error states for UI feedback.
  */
 export function useJobActions(): UseJobActionsReturn {
@@ -138,10 +144,38 @@ export function useJobActions(): UseJobActionsReturn {
     }
   }, []);
 
+  const pushToDefectDojo = useCallback(async (jobId: string): Promise<DefectDojoPushResult> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/jobs/${encodeURIComponent(jobId)}/defectdojo`, {
+        method: 'POST'
+      });
+
+      const payload = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        const message = payload?.message || 'Failed to push findings to DefectDojo.';
+        setError(message);
+        throw new Error(message);
+      }
+
+      return payload as DefectDojoPushResult;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to push findings to DefectDojo.';
+      setError(message);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
   return {
     stopJob,
     stopMonitoring,
     purgeJob,
+    pushToDefectDojo,
     loading,
     error,
     clearError
@@ -0,0 +1,82 @@
+'use client';
+
+import { useAuth } from '@/components/auth/AuthContext';
+import type { ArchivedBundleInfo } from '@/lib/api/types';
+import { useCallback, useEffect, useState } from 'react';
+
+interface JobBundlesState {
+  bundles: ArchivedBundleInfo[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  importBundle: (file: File) => Promise<ArchivedBundleInfo>;
+  deleteBundle: (jobId: string) => Promise<void>;
+}
+
+async function readPayload<T>(response: Response, fallbackMessage: string): Promise<T> {
+  const payload = await response.json().catch(() => null);
+  if (!response.ok || !payload) {
+    throw new Error(payload?.message ?? fallbackMessage);
+  }
+  return payload as T;
+}
+
+export default function useJobBundles(): JobBundlesState {
+  const { loading: authLoading } = useAuth();
+  const [bundles, setBundles] = useState<ArchivedBundleInfo[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (authLoading) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const payload = await readPayload<{ bundles: ArchivedBundleInfo[] }>(
+        await fetch('/api/bundles'),
+        'Unable to load job bundles.'
+      );
+      setBundles(payload.bundles);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load job bundles.');
+    } finally {
+      setLoading(false);
+    }
+  }, [authLoading]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const importBundle = useCallback(
+    async (file: File) => {
+      const payload = await readPayload<{ bundle: ArchivedBundleInfo }>(
+        await fetch('/api/bundles', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: await file.text()
+        }),
+        'Unable to import job bundle.'
+      );
+      await refresh();
+      return payload.bundle;
+    },
+    [refresh]
+  );
+
+  const deleteBundle = useCallback(
+    async (jobId: string) => {
+      await readPayload(
+        await fetch(`/api/bundles/${encodeURIComponent(jobId)}`, { method: 'DELETE' }),
+        'Unable to delete job bundle.'
+      );
+      await refresh();
+    },
+    [refresh]
+  );
+
+  return { bundles, loading, error, refresh, importBundle, deleteBundle };
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { useAuth } from '@/components/auth/AuthContext';
+import type { Job, LlmAnalysis, WorkerReport } from '@/lib/api/types';
+import type { JobComparison } from '@/lib/domain/jobCompare';
+import { useCallback, useEffect, useState } from 'react';
+
+export interface ComparedJobData {
+  job: Job;
+  reports: Record<string, WorkerReport>;
+  llmAnalyses: Record<number, LlmAnalysis>;
+  quickSummaries: Record<number, LlmAnalysis>;
+}
+
+interface JobComparisonState {
+  comparison: JobComparison | null;
+  baseline: ComparedJobData | null;
+  current: ComparedJobData | null;
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Compare two jobs through `/api/jobs/compare`. Nothing is fetched until both job ids are set.
+ */
+export default function useJobComparison(baselineId: string | null, currentId: string | null): JobComparisonState {
+  const { loading: authLoading } = useAuth();
+  const [comparison, setComparison] = useState<JobComparison | null>(null);
+  const [baseline, setBaseline] = useState<ComparedJobData | null>(null);
+  const [current, setCurrent] = useState<ComparedJobData | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (authLoading || !baselineId || !currentId) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const query = new URLSearchParams({ a: baselineId, b: currentId });
+      const response = await fetch(`/api/jobs/compare?${query.toString()}`);
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload) {
+        throw new Error(payload?.message ?? 'Unable to compare jobs.');
+      }
+      setComparison(payload.comparison as JobComparison);
+      setBaseline(payload.baseline as ComparedJobData);
+      setCurrent(payload.current as ComparedJobData);
+    } catch (err) {
+      setComparison(null);
+      setError(err instanceof Error ? err.message : 'Unable to compare jobs.');
+    } finally {
+      setLoading(false);
+    }
+  }, [authLoading, baselineId, currentId]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return { comparison, baseline, current, loading, error, refresh };
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import { useAuth } from '@/components/auth/AuthContext';
+import type { JobTemplate, JobTemplateFields } from '@/lib/api/types';
+import { useCallback, useEffect, useState } from 'react';
+
+interface JobTemplatesState {
+  templates: JobTemplate[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  createTemplate: (name: string, fields: JobTemplateFields) => Promise<JobTemplate>;
+  updateTemplate: (id: string, fields: JobTemplateFields) => Promise<JobTemplate>;
+  deleteTemplate: (id: string) => Promise<void>;
+}
+
+async function readPayload<T>(response: Response, fallbackMessage: string): Promise<T> {
+  const payload = await response.json().catch(() => null);
+  if (!response.ok || !payload) {
+    throw new Error(payload?.message ?? fallbackMessage);
+  }
+  return payload as T;
+}
+
+export default function useJobTemplates(): JobTemplatesState {
+  const { loading: authLoading } = useAuth();
+  const [templates, setTemplates] = useState<JobTemplate[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (authLoading) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const payload = await readPayload<{ templates: JobTemplate[] }>(
+        await fetch('/api/templates'),
+        'Unable to load templates.'
+      );
+      setTemplates(payload.templates);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load templates.');
+    } finally {
+      setLoading(false);
+    }
+  }, [authLoading]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const createTemplate = useCallback(
+    async (name: string, fields: JobTemplateFields) => {
+      const payload = await readPayload<{ template: JobTemplate }>(
+        await fetch('/api/templates', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name, fields })
+        }),
+        'Unable to save template.'
+      );
+      await refresh();
+      return payload.template;
+    },
+    [refresh]
+  );
+
+  const updateTemplate = useCallback(
+    async (id: string, fields: JobTemplateFields) => {
+      const payload = await readPayload<{ template: JobTemplate }>(
+        await fetch(`/api/templates/${encodeURIComponent(id)}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ fields })
+        }),
+        'Unable to update template.'
+      );
+      await refresh();
+      return payload.template;
+    },
+    [refresh]
+  );
+
+  const deleteTemplate = useCallback(
+    async (id: string) => {
+      await readPayload(
+        await fetch(`/api/templates/${encodeURIComponent(id)}`, { method: 'DELETE' }),
+        'Unable to delete template.'
+      );
+      await refresh();
+    },
+    [refresh]
+  );
+
+  return { templates, loading, error, refresh, createTemplate, updateTemplate, deleteTemplate };
+}
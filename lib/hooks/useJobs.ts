@@ -16,7 +16,7 @@ interface JobsState {
 }
 
 export default function useJobs(): JobsState {
-  const { token, loading: authLoading } = useAuth();
+  const { loading: authLoading } = useAuth();
   const [jobs, setJobs] = useState<Job[] | undefined>(undefined);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
@@ -41,7 +41,6 @@ export default function useJobs(): JobsState {
     try {
       // Fetch jobs without reports - reports are loaded on-demand when viewing a specific job
       const response = await fetch('/api/jobs', {
-        headers: token ? { Authorization: `Bearer ${token}` } : undefined,
         signal: controller.signal
       });
 
@@ -63,7 +62,7 @@ export default function useJobs(): JobsState {
         inFlightRef.current = null;
       }
     }
-  }, [token, authLoading]);
+  }, [authLoading]);
 
   useEffect(() => {
     void loadJobs();
@@ -0,0 +1,50 @@
+'use client';
+
+import { useAuth } from '@/components/auth/AuthContext';
+import type { PassDiff } from '@/lib/domain/passDiff';
+import { useCallback, useEffect, useState } from 'react';
+
+interface PassDiffState {
+  diff: PassDiff | null;
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Compare two passes of a job through `/api/jobs/[jobId]/diff`. Nothing is fetched until both
+ * pass numbers are known.
+ */
+export default function usePassDiff(jobId: string, from: number | null, to: number | null): PassDiffState {
+  const { loading: authLoading } = useAuth();
+  const [diff, setDiff] = useState<PassDiff | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (authLoading || !jobId || from === null || to === null) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/jobs/${encodeURIComponent(jobId)}/diff?from=${from}&to=${to}`);
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload) {
+        throw new Error(payload?.message ?? 'Unable to compare passes.');
+      }
+      setDiff(payload.diff as PassDiff);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to compare passes.');
+    } finally {
+      setLoading(false);
+    }
+  }, [authLoading, jobId, from, to]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return { diff, loading, error, refresh };
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import { useAuth } from '@/components/auth/AuthContext';
+import type { ReportProfile, ReportProfileFields } from '@/lib/api/types';
+import { useCallback, useEffect, useState } from 'react';
+
+interface ReportProfilesState {
+  profiles: ReportProfile[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  createProfile: (name: string, fields: ReportProfileFields) => Promise<ReportProfile>;
+  updateProfile: (id: string, name: string, fields: ReportProfileFields) => Promise<ReportProfile>;
+  deleteProfile: (id: string) => Promise<void>;
+}
+
+async function readPayload<T>(response: Response, fallbackMessage: string): Promise<T> {
+  const payload = await response.json().catch(() => null);
+  if (!response.ok || !payload) {
+    throw new Error(payload?.message ?? fallbackMessage);
+  }
+  return payload as T;
+}
+
+export default function useReportProfiles(): ReportProfilesState {
+  const { loading: authLoading } = useAuth();
+  const [profiles, setProfiles] = useState<ReportProfile[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (authLoading) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const payload = await readPayload<{ profiles: ReportProfile[] }>(
+        await fetch('/api/report-profiles'),
+        'Unable to load report profiles.'
+      );
+      setProfiles(payload.profiles);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load report profiles.');
+    } finally {
+      setLoading(false);
+    }
+  }, [authLoading]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const createProfile = useCallback(
+    async (name: string, fields: ReportProfileFields) => {
+      const payload = await readPayload<{ profile: ReportProfile }>(
+        await fetch('/api/report-profiles', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name, fields })
+        }),
+        'Unable to save report profile.'
+      );
+      await refresh();
+      return payload.profile;
+    },
+    [refresh]
+  );
+
+  const updateProfile = useCallback(
+    async (id: string, name: string, fields: ReportProfileFields) => {
+      const payload = await readPayload<{ profile: ReportProfile }>(
+        await fetch(`/api/report-profiles/${encodeURIComponent(id)}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name, fields })
+        }),
+        'Unable to update report profile.'
+      );
+      await refresh();
+      return payload.profile;
+    },
+    [refresh]
+  );
+
+  const deleteProfile = useCallback(
+    async (id: string) => {
+      await readPayload(
+        await fetch(`/api/report-profiles/${encodeURIComponent(id)}`, { method: 'DELETE' }),
+        'Unable to delete report profile.'
+      );
+      await refresh();
+    },
+    [refresh]
+  );
+
+  return { profiles, loading, error, refresh, createProfile, updateProfile, deleteProfile };
+}
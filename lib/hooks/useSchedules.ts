@@ -0,0 +1,129 @@
+'use client';
+
+import { useAuth } from '@/components/auth/AuthContext';
+import type { ScheduleRun, ScheduleSummary } from '@/lib/api/types';
+import { useCallback, useEffect, useState } from 'react';
+
+export interface ScheduleDraft {
+  name: string;
+  cron: string;
+  timezone: string;
+  targets: string;
+  templateId?: string;
+  enabled: boolean;
+  authorized: boolean;
+}
+
+interface SchedulesState {
+  schedules: ScheduleSummary[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  createSchedule: (draft: ScheduleDraft) => Promise<void>;
+  setEnabled: (id: string, enabled: boolean) => Promise<void>;
+  deleteSchedule: (id: string) => Promise<void>;
+  runNow: (id: string) => Promise<ScheduleRun>;
+  loadRuns: (id: string) => Promise<ScheduleRun[]>;
+}
+
+async function readPayload<T>(response: Response, fallbackMessage: string): Promise<T> {
+  const payload = await response.json().catch(() => null);
+  if (!response.ok || !payload) {
+    throw new Error(payload?.message ?? fallbackMessage);
+  }
+  return payload as T;
+}
+
+export default function useSchedules(): SchedulesState {
+  const { loading: authLoading } = useAuth();
+  const [schedules, setSchedules] = useState<ScheduleSummary[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (authLoading) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const payload = await readPayload<{ schedules: ScheduleSummary[] }>(
+        await fetch('/api/schedules'),
+        'Unable to load schedules.'
+      );
+      setSchedules(payload.schedules);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load schedules.');
+    } finally {
+      setLoading(false);
+    }
+  }, [authLoading]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const createSchedule = useCallback(
+    async (draft: ScheduleDraft) => {
+      await readPayload(
+        await fetch('/api/schedules', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(draft)
+        }),
+        'Unable to create schedule.'
+      );
+      await refresh();
+    },
+    [refresh]
+  );
+
+  const setEnabled = useCallback(
+    async (id: string, enabled: boolean) => {
+      await readPayload(
+        await fetch(`/api/schedules/${encodeURIComponent(id)}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ enabled })
+        }),
+        'Unable to update schedule.'
+      );
+      await refresh();
+    },
+    [refresh]
+  );
+
+  const deleteSchedule = useCallback(
+    async (id: string) => {
+      await readPayload(
+        await fetch(`/api/schedules/${encodeURIComponent(id)}`, { method: 'DELETE' }),
+        'Unable to delete schedule.'
+      );
+      await refresh();
+    },
+    [refresh]
+  );
+
+  const runNow = useCallback(
+    async (id: string) => {
+      const payload = await readPayload<{ run: ScheduleRun }>(
+        await fetch(`/api/schedules/${encodeURIComponent(id)}/run`, { method: 'POST' }),
+        'Unable to run schedule.'
+      );
+      await refresh();
+      return payload.run;
+    },
+    [refresh]
+  );
+
+  const loadRuns = useCallback(async (id: string) => {
+    const payload = await readPayload<{ runs: ScheduleRun[] }>(
+      await fetch(`/api/schedules/${encodeURIComponent(id)}`),
+      'Unable to load run history.'
+    );
+    return payload.runs;
+  }, []);
+
+  return { schedules, loading, error, refresh, createSchedule, setEnabled, deleteSchedule, runNow, loadRuns };
+}
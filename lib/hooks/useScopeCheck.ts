@@ -0,0 +1,56 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { ScopeDecision } from '@/lib/domain/scope';
+
+const CHECK_DEBOUNCE_MS = 400;
+
+interface ScopeCheckState {
+  decision: ScopeDecision | null;
+  checking: boolean;
+}
+
+/**
+ * Check a target against the engagement scope as the operator types.
+ * Lookup failures leave `decision` null; the launch route still enforces scope.
+ */
+export default function useScopeCheck(target: string): ScopeCheckState {
+  const [decision, setDecision] = useState<ScopeDecision | null>(null);
+  const [checking, setChecking] = useState(false);
+  const trimmed = target.trim();
+
+  useEffect(() => {
+    setDecision(null);
+    if (!trimmed) {
+      setChecking(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setChecking(true);
+    const timer = window.setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/scope/check?target=${encodeURIComponent(trimmed)}`, {
+          signal: controller.signal
+        });
+        const payload = await response.json().catch(() => null);
+        if (response.ok && payload && typeof payload.allowed === 'boolean') {
+          setDecision(payload as ScopeDecision);
+        }
+      } catch (_error) {
+        // Ignore aborted or failed checks; the server re-validates on submit.
+      } finally {
+        if (!controller.signal.aborted) {
+          setChecking(false);
+        }
+      }
+    }, CHECK_DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [trimmed]);
+
+  return { decision, checking };
+}
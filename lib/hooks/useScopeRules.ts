@@ -0,0 +1,85 @@
+'use client';
+
+import { useAuth } from '@/components/auth/AuthContext';
+import type { ScopeRule, ScopeRuleEffect } from '@/lib/domain/scope';
+import { useCallback, useEffect, useState } from 'react';
+
+interface ScopeRulesState {
+  rules: ScopeRule[];
+  /** Targets are allowed without allow rules (REDMESH_SCOPE_OPEN). */
+  open: boolean;
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  addRule: (effect: ScopeRuleEffect, value: string, note?: string) => Promise<void>;
+  removeRule: (id: string) => Promise<void>;
+}
+
+async function readPayload<T>(response: Response, fallbackMessage: string): Promise<T> {
+  const payload = await response.json().catch(() => null);
+  if (!response.ok || !payload) {
+    throw new Error(payload?.message ?? fallbackMessage);
+  }
+  return payload as T;
+}
+
+export default function useScopeRules(): ScopeRulesState {
+  const { loading: authLoading } = useAuth();
+  const [rules, setRules] = useState<ScopeRule[]>([]);
+  const [open, setOpen] = useState<boolean>(false);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (authLoading) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const payload = await readPayload<{ rules: ScopeRule[]; open?: boolean }>(
+        await fetch('/api/scope'),
+        'Unable to load scope rules.'
+      );
+      setRules(payload.rules);
+      setOpen(Boolean(payload.open));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load scope rules.');
+    } finally {
+      setLoading(false);
+    }
+  }, [authLoading]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const addRule = useCallback(
+    async (effect: ScopeRuleEffect, value: string, note?: string) => {
+      await readPayload(
+        await fetch('/api/scope', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ effect, value, note })
+        }),
+        'Unable to add scope rule.'
+      );
+      await refresh();
+    },
+    [refresh]
+  );
+
+  const removeRule = useCallback(
+    async (id: string) => {
+      await readPayload(
+        await fetch(`/api/scope/${encodeURIComponent(id)}`, { method: 'DELETE' }),
+        'Unable to remove scope rule.'
+      );
+      await refresh();
+    },
+    [refresh]
+  );
+
+  return { rules, open, loading, error, refresh, addRule, removeRule };
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { useAuth } from '@/components/auth/AuthContext';
+import type { SuppressionRule } from '@/lib/api/types';
+import { useCallback, useEffect, useState } from 'react';
+
+export type SuppressionRuleDraft = Partial<Omit<SuppressionRule, 'id' | 'createdAt' | 'createdBy'>>;
+
+interface SuppressionRulesState {
+  rules: SuppressionRule[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  createRule: (draft: SuppressionRuleDraft) => Promise<SuppressionRule>;
+  deleteRule: (id: string) => Promise<void>;
+}
+
+async function readPayload<T>(response: Response, fallbackMessage: string): Promise<T> {
+  const payload = await response.json().catch(() => null);
+  if (!response.ok || !payload) {
+    throw new Error(payload?.message ?? fallbackMessage);
+  }
+  return payload as T;
+}
+
+export default function useSuppressionRules(): SuppressionRulesState {
+  const { loading: authLoading } = useAuth();
+  const [rules, setRules] = useState<SuppressionRule[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (authLoading) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const payload = await readPayload<{ rules: SuppressionRule[] }>(
+        await fetch('/api/suppressions'),
+        'Unable to load suppression rules.'
+      );
+      setRules(payload.rules);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load suppression rules.');
+    } finally {
+      setLoading(false);
+    }
+  }, [authLoading]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const createRule = useCallback(
+    async (draft: SuppressionRuleDraft) => {
+      const payload = await readPayload<{ rule: SuppressionRule }>(
+        await fetch('/api/suppressions', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(draft)
+        }),
+        'Unable to save suppression rule.'
+      );
+      await refresh();
+      return payload.rule;
+    },
+    [refresh]
+  );
+
+  const deleteRule = useCallback(
+    async (id: string) => {
+      await readPayload(
+        await fetch(`/api/suppressions/${encodeURIComponent(id)}`, { method: 'DELETE' }),
+        'Unable to delete suppression rule.'
+      );
+      await refresh();
+    },
+    [refresh]
+  );
+
+  return { rules, loading, error, refresh, createRule, deleteRule };
+}
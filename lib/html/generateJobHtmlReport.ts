@@ -0,0 +1,423 @@
+import { format } from 'date-fns';
+import type { Job, LlmAnalysis, WorkerReport } from '@/lib/api/types';
+import { RUN_MODE } from '@/lib/api/constants';
+import { WELL_KNOWN_PORTS } from '@/lib/domain/knowledge';
+import { normalizeProbeResult } from '@/lib/utils/probeResult';
+import type { ParsedFinding } from '@/lib/utils/probeResult';
+import type { AggregatedPortsData, WorkerActivityItem } from '@/app/dashboard/jobs/[jobId]/types';
+
+/**
+ * Single-file HTML counterpart of the PDF report: searchable, copyable and readable on mobile.
+ * Styles and the severity filter script are inlined so the file works offline.
+ */
+
+const SEVERITIES: ParsedFinding['severity'][] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW', 'INFO'];
+
+interface GenerateJobHtmlReportParams {
+  job: Job;
+  reports: Record<string, WorkerReport>;
+  aggregatedPorts: AggregatedPortsData;
+  workerActivity: WorkerActivityItem[];
+  llmAnalyses?: Record<number, LlmAnalysis>;
+  quickSummaries?: Record<number, LlmAnalysis>;
+  /** Findings left out because suppression rules hide them; noted in the summary. */
+  suppressedCount?: number;
+  now?: Date;
+}
+
+function formatDate(value?: string): string {
+  if (!value) return '--';
+  try {
+    return format(new Date(value), 'MMM d, yyyy HH:mm:ss');
+  } catch {
+    return value;
+  }
+}
+
+function formatDuration(seconds?: number): string {
+  if (seconds == null || seconds < 0) return '--';
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  const m = Math.floor(seconds / 60);
+  const s = Math.round(seconds % 60);
+  if (m < 60) return s > 0 ? `${m}m ${s}s` : `${m}m`;
+  const h = Math.floor(m / 60);
+  const rm = m % 60;
+  return rm > 0 ? `${h}h ${rm}m` : `${h}h`;
+}
+
+export function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/** Numbers from job data (mesh or an imported bundle) may arrive as anything; print `--` unless finite. */
+function numberText(value: unknown): string {
+  const number = Number(value);
+  return value !== null && value !== '' && Number.isFinite(number) ? String(number) : '--';
+}
+
+/** Bold, italic, inline code and http(s) links, applied to already escaped text. */
+function inlineMarkdown(text: string): string {
+  return escapeHtml(text)
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/\*([^*]+)\*/g, '<em>$1</em>')
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, '<a href="$2" rel="noopener noreferrer">$1</a>');
+}
+
+/**
+ * Markdown subset used by the LLM analyses (headers, lists, code blocks, paragraphs), rendered
+ * with every piece of source text escaped first.
+ */
+export function markdownToHtml(content: string): string {
+  const html: string[] = [];
+  let list: string[] = [];
+  let code: string[] | null = null;
+
+  const flushList = () => {
+    if (list.length > 0) {
+      html.push(`<ul>${list.map((item) => `<li>${inlineMarkdown(item)}</li>`).join('')}</ul>`);
+      list = [];
+    }
+  };
+
+  content.split('\n').forEach((line) => {
+    if (line.startsWith('```')) {
+      if (code) {
+        html.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+        code = null;
+      } else {
+        flushList();
+        code = [];
+      }
+      return;
+    }
+    if (code) {
+      code.push(line);
+      return;
+    }
+
+    const heading = line.match(/^(#{1,4})\s+(.*)$/);
+    if (heading) {
+      flushList();
+      const level = heading[1].length + 2; // h3..h6 below the report's own section headings
+      html.push(`<h${level}>${inlineMarkdown(heading[2])}</h${level}>`);
+      return;
+    }
+    if (/^[-*]\s/.test(line)) {
+      list.push(line.slice(2));
+      return;
+    }
+    if (/^\d+\.\s/.test(line)) {
+      list.push(line.replace(/^\d+\.\s/, ''));
+      return;
+    }
+    if (line.trim() === '') {
+      flushList();
+      return;
+    }
+    flushList();
+    html.push(`<p>${inlineMarkdown(line)}</p>`);
+  });
+
+  flushList();
+  if (code) {
+    html.push(`<pre><code>${escapeHtml((code as string[]).join('\n'))}</code></pre>`);
+  }
+  return html.join('\n');
+}
+
+function riskLevel(score: number): { label: string; tone: string } {
+  if (score <= 20) return { label: 'Low Risk', tone: 'low' };
+  if (score <= 40) return { label: 'Moderate Risk', tone: 'moderate' };
+  if (score <= 60) return { label: 'Elevated Risk', tone: 'elevated' };
+  if (score <= 80) return { label: 'High Risk', tone: 'high' };
+  return { label: 'Critical Risk', tone: 'critical' };
+}
+
+/** Single pass: pass 1; continuous: the latest pass. Same choice as the PDF. */
+function pickAnalysis(job: Job, analyses?: Record<number, LlmAnalysis>): { analysis: LlmAnalysis; passNr: number } | null {
+  if (!analyses) return null;
+  if (job.runMode === RUN_MODE.SINGLEPASS) {
+    return analyses[1] ? { analysis: analyses[1], passNr: 1 } : null;
+  }
+  const latest = Object.keys(analyses).map(Number).sort((a, b) => b - a)[0];
+  return latest !== undefined && analyses[latest] ? { analysis: analyses[latest], passNr: latest } : null;
+}
+
+function renderFinding(finding: ParsedFinding): string {
+  const meta = [
+    finding.cvss_score !== undefined &&
+      `CVSS ${finding.cvss_score.toFixed(1)}${finding.cvss_vector ? ` <code>${escapeHtml(finding.cvss_vector)}</code>` : ''}`,
+    finding.cwe_id && `CWE: ${escapeHtml(finding.cwe_id)}`,
+    finding.owasp_id && `OWASP: ${escapeHtml(finding.owasp_id)}`,
+    finding.confidence && `Confidence: ${escapeHtml(finding.confidence)}`,
+  ].filter(Boolean);
+
+  const severity = escapeHtml(finding.severity);
+  return `<li class="finding" data-severity="${severity}">
+  <div class="finding-head"><span class="sev sev-${severity.toLowerCase()}">${severity}</span> <strong>${escapeHtml(finding.title)}</strong></div>
+  ${finding.description ? `<p>${escapeHtml(finding.description)}</p>` : ''}
+  ${finding.remediation ? `<p><span class="label">Remediation:</span> ${escapeHtml(finding.remediation)}</p>` : ''}
+  ${meta.length > 0 ? `<p class="muted">${meta.join(' &middot; ')}</p>` : ''}
+  ${finding.evidence ? `<details><summary>Evidence</summary><pre>${escapeHtml(finding.evidence)}</pre></details>` : ''}
+</li>`;
+}
+
+function renderPort(port: number, aggregatedPorts: AggregatedPortsData): string {
+  const probes = [
+    ...Object.entries(aggregatedPorts.services.get(port) ?? {}),
+    ...Object.entries(aggregatedPorts.webTests.get(port) ?? {}),
+  ];
+  const normalized = probes.map(([probe, result]) => ({ probe, ...normalizeProbeResult(result) }));
+  const findings = normalized.flatMap((entry) => entry.findings);
+  const banner = normalized.find((entry) => entry.banner)?.banner;
+  const protocol = WELL_KNOWN_PORTS[port];
+  const severities = Array.from(new Set(findings.map((finding) => finding.severity)));
+  const output = normalized.filter((entry) => entry.lines.length > 0);
+
+  return `<section class="port" data-severities="${severities.join(' ')}">
+  <h3>Port ${port}${protocol ? ` <span class="muted">${protocol}</span>` : ''}</h3>
+  ${banner ? `<p class="banner"><code>${escapeHtml(banner)}</code></p>` : ''}
+  ${
+    findings.length > 0
+      ? `<ul class="findings">${findings
+          .sort((a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity))
+          .map(renderFinding)
+          .join('\n')}</ul>`
+      : '<p class="muted">No findings on this port.</p>'
+  }
+  ${
+    output.length > 0
+      ? `<details><summary>Probe output (${output.length})</summary>${output
+          .map((entry) => `<p class="label">${escapeHtml(entry.probe)}</p><pre>${escapeHtml(entry.lines.join('\n'))}</pre>`)
+          .join('')}</details>`
+      : ''
+  }
+</section>`;
+}
+
+const STYLES = `
+:root { color-scheme: light; --primary: #d62828; --text: #1e293b; --muted: #64748b; --light: #f1f5f9; --border: #e2e8f0; }
+* { box-sizing: border-box; }
+body { margin: 0; font: 15px/1.55 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: var(--text); background: #fff; }
+header { background: var(--primary); color: #fff; padding: 24px 16px; }
+header h1 { margin: 0 0 4px; font-size: 26px; }
+main { max-width: 960px; margin: 0 auto; padding: 16px; }
+h2 { color: var(--primary); border-bottom: 1px solid var(--border); padding-bottom: 6px; margin-top: 32px; }
+h3 { margin: 0 0 8px; }
+.muted { color: var(--muted); }
+.label { font-weight: 600; color: var(--muted); }
+.meta { display: grid; grid-template-columns: repeat(auto-fit, minmax(220px, 1fr)); gap: 4px 16px; margin: 0; }
+.meta dt { font-weight: 600; color: var(--muted); }
+.meta dd { margin: 0 0 8px; word-break: break-all; }
+.stats { display: grid; grid-template-columns: repeat(auto-fit, minmax(120px, 1fr)); gap: 8px; margin: 16px 0; }
+.stat { background: var(--light); border-radius: 8px; padding: 12px; text-align: center; }
+.stat strong { display: block; font-size: 24px; color: var(--primary); }
+.risk { display: flex; align-items: baseline; gap: 12px; padding: 12px 16px; border-radius: 8px; border-left: 6px solid; margin: 16px 0; }
+.risk strong { font-size: 28px; }
+.risk-low { background: #ecfdf5; border-color: #10b981; color: #047857; }
+.risk-moderate { background: #fefce8; border-color: #eab308; color: #a16207; }
+.risk-elevated { background: #fffbeb; border-color: #f59e0b; color: #b45309; }
+.risk-high { background: #fef2f2; border-color: #ef4444; color: #b91c1c; }
+.risk-critical { background: #fee2e2; border-color: #b91c1c; color: #7f1d1d; }
+.summary { border-left: 3px solid var(--primary); padding-left: 12px; }
+.filters { position: sticky; top: 0; background: #fff; padding: 8px 0; border-bottom: 1px solid var(--border); display: flex; flex-wrap: wrap; gap: 12px; z-index: 1; }
+.filters label { display: inline-flex; gap: 4px; align-items: center; cursor: pointer; }
+.port { border: 1px solid var(--border); border-radius: 8px; padding: 12px 16px; margin: 12px 0; }
+.findings { list-style: none; padding: 0; margin: 0; }
+.finding { border-top: 1px solid var(--border); padding: 8px 0; }
+.finding:first-child { border-top: 0; }
+.finding p { margin: 4px 0; }
+.sev { display: inline-block; font-size: 11px; font-weight: 700; padding: 1px 6px; border-radius: 4px; color: #fff; }
+.sev-critical { background: #7f1d1d; } .sev-high { background: #ef4444; } .sev-medium { background: #f59e0b; } .sev-low { background: #3b82f6; } .sev-info { background: #64748b; }
+.hidden { display: none; }
+details { margin: 6px 0; }
+summary { cursor: pointer; color: var(--muted); }
+pre { background: #0f172a; color: #e2e8f0; padding: 10px; border-radius: 6px; overflow-x: auto; white-space: pre-wrap; word-break: break-word; font-size: 13px; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; }
+p code, li code { background: var(--light); padding: 1px 4px; border-radius: 4px; }
+.banner code { background: var(--light); }
+table { width: 100%; border-collapse: collapse; font-size: 14px; }
+th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid var(--border); vertical-align: top; }
+th { background: var(--light); }
+.table-wrap { overflow-x: auto; }
+footer { color: var(--muted); font-size: 13px; text-align: center; padding: 24px 16px; }
+@media print { .filters { display: none; } details { display: block; } }
+`;
+
+/** Hides findings, and ports left without visible findings, whose severity is unticked. */
+const FILTER_SCRIPT = `
+(function () {
+  var boxes = Array.prototype.slice.call(document.querySelectorAll('.filters input[data-severity]'));
+  function apply() {
+    var shown = boxes.filter(function (box) { return box.checked; }).map(function (box) { return box.getAttribute('data-severity'); });
+    document.querySelectorAll('.finding').forEach(function (el) {
+      el.classList.toggle('hidden', shown.indexOf(el.getAttribute('data-severity')) === -1);
+    });
+    var onlyWithFindings = document.getElementById('only-with-findings').checked;
+    document.querySelectorAll('.port').forEach(function (el) {
+      var severities = (el.getAttribute('data-severities') || '').split(' ').filter(Boolean);
+      var visible = severities.some(function (s) { return shown.indexOf(s) !== -1; });
+      el.classList.toggle('hidden', severities.length ? !visible : onlyWithFindings);
+    });
+  }
+  boxes.concat([document.getElementById('only-with-findings')]).forEach(function (box) { box.addEventListener('change', apply); });
+  apply();
+})();
+`;
+
+/**
+ * Render the job report as one standalone HTML document.
+ */
+export function renderJobHtmlReport({
+  job,
+  reports,
+  aggregatedPorts,
+  workerActivity,
+  llmAnalyses,
+  quickSummaries,
+  suppressedCount = 0,
+  now = new Date(),
+}: GenerateJobHtmlReportParams): string {
+  const generatedAt = formatDate(now.toISOString());
+  const userEvent = job.timeline.find((entry) => entry.actorType === 'user');
+  const requestedBy = userEvent?.actor ?? job.initiatorAlias ?? job.initiator;
+  const ports = [...aggregatedPorts.ports].sort((a, b) => a - b);
+  const totalPortsScanned = Object.values(reports).reduce((sum, report) => sum + (report.portsScanned ?? 0), 0);
+
+  const severityCounts = new Map<string, number>();
+  ports.forEach((port) => {
+    [...Object.values(aggregatedPorts.services.get(port) ?? {}), ...Object.values(aggregatedPorts.webTests.get(port) ?? {})].forEach(
+      (result) => {
+        normalizeProbeResult(result).findings.forEach((finding) => {
+          severityCounts.set(finding.severity, (severityCounts.get(finding.severity) ?? 0) + 1);
+        });
+      }
+    );
+  });
+
+  const quickSummary = pickAnalysis(job, quickSummaries);
+  const analysis = pickAnalysis(job, llmAnalyses);
+  const risk = job.riskScore != null ? riskLevel(job.riskScore) : null;
+
+  const meta: Array<[string, string]> = [
+    ['Target', job.target],
+    ['Job ID', job.id],
+    ['Requested by', requestedBy],
+    ['Status', job.status],
+    ['Mode', job.runMode === RUN_MODE.CONTINUOUS ? 'Continuous Monitoring' : 'Single Pass'],
+    ['Port range', `${job.portRange?.start ?? 1} - ${job.portRange?.end ?? 65535}`],
+    ['Started', formatDate(job.timeline[0]?.date)],
+    ['Duration', formatDuration(job.totalDuration)],
+  ];
+  if (job.summary && job.summary !== 'RedMesh scan job') {
+    meta.push(['Description', job.summary]);
+  }
+
+  const workerRows = workerActivity
+    .map(
+      (worker) => `<tr>
+  <td><code>${escapeHtml(worker.nodeAddress)}</code></td>
+  <td>${numberText(worker.startPort)} - ${numberText(worker.endPort)}</td>
+  <td>${numberText(Math.round(Number(worker.progress)))}%</td>
+  <td>${worker.openPorts.length > 0 ? escapeHtml([...worker.openPorts].sort((a, b) => a - b).join(', ')) : '--'}</td>
+  <td>${worker.done ? 'Done' : 'Running'}</td>
+</tr>`
+    )
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="RedMesh Navigator">
+<title>RedMesh Scan Report - ${escapeHtml(job.displayName)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>RedMesh Scan Report</h1>
+  <div>${escapeHtml(job.displayName)} &middot; Generated ${escapeHtml(generatedAt)}</div>
+</header>
+<main>
+<section id="summary">
+  <h2>Executive Summary</h2>
+  <dl class="meta">${meta.map(([label, value]) => `<div><dt>${label}</dt><dd>${escapeHtml(value)}</dd></div>`).join('')}</dl>
+  <div class="stats">
+    <div class="stat"><strong>${ports.length}</strong>Open ports</div>
+    <div class="stat"><strong>${aggregatedPorts.totalServices}</strong>Identified services</div>
+    <div class="stat"><strong>${aggregatedPorts.totalFindings}</strong>Findings</div>
+    <div class="stat"><strong>${totalPortsScanned ? numberText(totalPortsScanned) : '--'}</strong>Ports scanned</div>
+    <div class="stat"><strong>${numberText(workerActivity.length || job.workerCount)}</strong>Workers</div>
+  </div>
+  <p>${SEVERITIES.map((severity) => `<span class="sev sev-${severity.toLowerCase()}">${severity} ${severityCounts.get(severity) ?? 0}</span>`).join(' ')}</p>
+  ${
+    suppressedCount > 0
+      ? `<p class="muted">${suppressedCount} finding${suppressedCount !== 1 ? 's' : ''} hidden by suppression rules (accepted or known false positives) are not included.</p>`
+      : ''
+  }
+  ${
+    risk
+      ? `<div class="risk risk-${risk.tone}"><strong>${numberText(job.riskScore)}</strong><span>/100</span><span>${risk.label}</span></div>`
+      : ''
+  }
+  ${quickSummary?.analysis.content ? `<div class="summary"><h3>AI Summary</h3>${markdownToHtml(quickSummary.analysis.content)}</div>` : ''}
+</section>
+${
+  analysis
+    ? `<section id="analysis">
+  <h2>AI Security Analysis (Pass #${analysis.passNr})</h2>
+  <p class="muted">Type: ${escapeHtml(analysis.analysis.analysisType.replace(/_/g, ' '))} &middot; Generated ${escapeHtml(formatDate(analysis.analysis.createdAt))}</p>
+  ${markdownToHtml(analysis.analysis.content)}
+</section>`
+    : ''
+}
+<section id="findings">
+  <h2>Findings by Port</h2>
+  <div class="filters">
+    ${SEVERITIES.map((severity) => `<label><input type="checkbox" data-severity="${severity}" checked> ${severity}</label>`).join('\n    ')}
+    <label><input type="checkbox" id="only-with-findings"> Only ports with findings</label>
+  </div>
+  ${ports.length > 0 ? ports.map((port) => renderPort(port, aggregatedPorts)).join('\n') : '<p class="muted">No open ports were discovered.</p>'}
+</section>
+<section id="workers">
+  <h2>Worker Activity</h2>
+  ${
+    workerActivity.length > 0
+      ? `<div class="table-wrap"><table>
+<thead><tr><th>Node</th><th>Port range</th><th>Progress</th><th>Open ports</th><th>State</th></tr></thead>
+<tbody>
+${workerRows}
+</tbody>
+</table></div>`
+      : '<p class="muted">No worker reports available.</p>'
+  }
+</section>
+</main>
+<footer>RedMesh Report - ${escapeHtml(job.displayName)} &middot; ${escapeHtml(generatedAt)}</footer>
+<script>${FILTER_SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Generates the HTML report and downloads it as a single offline file.
+ */
+export function generateJobHtmlReport(params: GenerateJobHtmlReportParams): void {
+  const blob = new Blob([renderJobHtmlReport(params)], { type: 'text/html;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `redmesh-report-${params.job.id.slice(0, 8)}.html`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
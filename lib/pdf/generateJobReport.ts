@@ -1,9 +1,10 @@
 import jsPDF from 'jspdf';
 import { format } from 'date-fns';
-import type { Job, WorkerReport, LlmAnalysis } from '@/lib/api/types';
-import { RUN_MODE, JOB_STATUS } from '@/lib/api/constants';
+import type { Job, WorkerReport, LlmAnalysis, ReportProfileFields } from '@/lib/api/types';
+import { RUN_MODE, JOB_STATUS, DEFAULT_REPORT_PROFILE_FIELDS } from '@/lib/api/constants';
 import { probeResultToString, normalizeProbeResult } from '@/lib/utils/probeResult';
 import type { AggregatedPortsData, WorkerActivityItem } from '@/app/dashboard/jobs/[jobId]/types';
+import type { FindingComparisonState, JobComparison } from '@/lib/domain/jobCompare';
 
 type RGB = [number, number, number];
 
@@ -28,6 +29,13 @@ function formatDate(value?: string): string {
   }
 }
 
+const HEX_COLOR = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i;
+
+function hexToRgb(hex: string, fallback: string): RGB {
+  const match = HEX_COLOR.exec(hex) ?? HEX_COLOR.exec(fallback);
+  return match ? [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)] : [0, 0, 0];
+}
+
 function formatDuration(seconds?: number): string {
   if (seconds == null || seconds < 0) return '--';
   if (seconds < 60) return `${Math.round(seconds)}s`;
@@ -46,6 +54,12 @@ interface GenerateJobReportParams {
   workerActivity: WorkerActivityItem[];
   llmAnalyses?: Record<number, LlmAnalysis>;
   quickSummaries?: Record<number, LlmAnalysis>;
+  /** Findings left out because suppression rules hide them; noted under the aggregate stats. */
+  suppressedCount?: number;
+  /** Baseline job and its comparison with this job; adds a remediation verification section. */
+  remediation?: { baseline: Job; comparison: JobComparison };
+  /** Branding and section selection; the stock RedMesh report when missing. */
+  profile?: ReportProfileFields;
 }
 
 /**
@@ -58,6 +72,9 @@ export function generateJobReport({
   workerActivity,
   llmAnalyses,
   quickSummaries,
+  suppressedCount = 0,
+  remediation,
+  profile = DEFAULT_REPORT_PROFILE_FIELDS,
 }: GenerateJobReportParams): void {
   const doc = new jsPDF();
   let y = 20;
@@ -66,9 +83,12 @@ export function generateJobReport({
   const margin = 15;
   const contentWidth = pageWidth - margin * 2;
 
+  const sections = { ...DEFAULT_REPORT_PROFILE_FIELDS.sections, ...profile.sections };
+  const brandName = profile.companyName ?? 'RedMesh';
+
   const colors: PDFColors = {
-    primary: [214, 40, 40],     // brand-primary #d62828
-    secondary: [71, 85, 105],   // slate-500
+    primary: hexToRgb(profile.primaryColor, DEFAULT_REPORT_PROFILE_FIELDS.primaryColor),       // brand-primary #d62828 by default
+    secondary: hexToRgb(profile.secondaryColor, DEFAULT_REPORT_PROFILE_FIELDS.secondaryColor), // slate-500 by default
     danger: [239, 68, 68],      // red-500
     warning: [245, 158, 11],    // amber-500
     success: [34, 197, 94],     // green-500
@@ -431,11 +451,25 @@ export function generateJobReport({
   doc.setTextColor(255, 255, 255);
   doc.setFontSize(24);
   doc.setFont('Helvetica', 'bold');
-  doc.text('RedMesh Scan Report', margin, 28);
+  doc.text(profile.coverTitle ?? 'RedMesh Scan Report', margin, 28);
 
   doc.setFontSize(10);
   doc.setFont('Helvetica', 'normal');
-  doc.text(`Generated: ${formatDate(new Date().toISOString())}`, margin, 38);
+  const generatedLine = `Generated: ${formatDate(new Date().toISOString())}`;
+  doc.text(profile.companyName ? `${profile.companyName}  |  ${generatedLine}` : generatedLine, margin, 38);
+
+  // Logo, fitted into the right end of the banner
+  if (profile.logoDataUrl) {
+    try {
+      const image = doc.getImageProperties(profile.logoDataUrl);
+      const scale = Math.min(40 / image.width, 29 / image.height);
+      const width = image.width * scale;
+      const height = image.height * scale;
+      doc.addImage(profile.logoDataUrl, image.fileType, pageWidth - margin - width, (45 - height) / 2 + 2, width, height);
+    } catch {
+      // An unreadable logo should not block the export
+    }
+  }
 
   y = 55;
 
@@ -481,8 +515,13 @@ export function generateJobReport({
   }
   y += 5;
 
+  if (profile.coverText) {
+    addText(profile.coverText);
+    y += 5;
+  }
+
   // When executed — Visual Timeline
-  if (job.timeline.length > 0) {
+  if (sections.timeline && job.timeline.length > 0) {
     const dotColors: Record<string, RGB> = {
       created: [148, 163, 184],   // slate-400
       started: [52, 211, 153],    // emerald-400
@@ -647,7 +686,9 @@ export function generateJobReport({
   y += 2;
 
   const totalOpenPorts = aggregatedPorts.ports.length;
-  const reportsWithDetails = Object.entries(reports).filter(([, r]) => Object.keys(r.serviceInfo).length > 0 || Object.keys(r.webTestsInfo).length > 0);
+  const reportsWithDetails = sections.workerActivity || sections.rawEvidence
+    ? Object.entries(reports).filter(([, r]) => Object.keys(r.serviceInfo).length > 0 || Object.keys(r.webTestsInfo).length > 0)
+    : [];
 
   const stats = [
     { label: 'Open Ports', value: String(totalOpenPorts) },
@@ -674,6 +715,18 @@ export function generateJobReport({
 
   y += 25;
 
+  if (suppressedCount > 0) {
+    doc.setFontSize(8);
+    doc.setFont('Helvetica', 'italic');
+    doc.setTextColor(...colors.muted);
+    doc.text(
+      `${suppressedCount} finding${suppressedCount !== 1 ? 's' : ''} hidden by suppression rules (accepted or known false positives) are not included.`,
+      margin,
+      y - 1
+    );
+    y += 5;
+  }
+
   // === 3a. RISK SCORE BANNER ===
   if (job.riskScore != null) {
     checkPageBreak(22);
@@ -742,7 +795,7 @@ export function generateJobReport({
   }
 
   // === 3b. QUICK AI SUMMARY (after stats, before full analysis) ===
-  if (quickSummaries) {
+  if (quickSummaries && sections.llmAnalysis) {
     let bestQuickSummary: LlmAnalysis | undefined;
 
     if (job.runMode === RUN_MODE.SINGLEPASS) {
@@ -780,8 +833,100 @@ export function generateJobReport({
 
   addDivider();
 
+  // === 3c. REMEDIATION VERIFICATION (job comparison against a baseline scan) ===
+  if (remediation) {
+    const { baseline, comparison } = remediation;
+    const stateColors: Record<FindingComparisonState, RGB> = {
+      fixed: colors.success,
+      regressed: colors.danger,
+      new: colors.warning,
+      persisting: colors.muted,
+    };
+
+    doc.addPage();
+    y = 20;
+    addHeader('Remediation Verification', 14, colors.primary);
+    y += 2;
+    addLabelValue('Baseline', `${baseline.displayName} (${baseline.id.slice(0, 8)}) - ${formatDate(baseline.timeline[0]?.date)}`);
+    addLabelValue('Re-scan', `${job.displayName} (${job.id.slice(0, 8)}) - ${formatDate(job.timeline[0]?.date)}`);
+    if (!comparison.sameTarget) {
+      addLabelValue('Note', `The baseline target (${baseline.target}) differs from this job's target (${job.target}).`);
+    }
+    y += 3;
+
+    const remediationStats = [
+      { label: 'Fixed', value: comparison.summary.fixed, color: colors.success },
+      { label: 'Regressed', value: comparison.summary.regressed, color: colors.danger },
+      { label: 'New', value: comparison.summary.new, color: colors.warning },
+      { label: 'Persisting', value: comparison.summary.persisting, color: colors.secondary },
+      { label: 'Ports Closed', value: comparison.summary.closedPorts, color: colors.success },
+      { label: 'Ports Opened', value: comparison.summary.openedPorts, color: colors.danger },
+    ];
+    doc.setFillColor(...colors.light);
+    doc.roundedRect(margin, y, contentWidth, 20, 2, 2, 'F');
+    y += 5;
+    const remediationStatWidth = contentWidth / remediationStats.length;
+    remediationStats.forEach((stat, i) => {
+      const x = margin + i * remediationStatWidth + remediationStatWidth / 2;
+      doc.setFontSize(14);
+      doc.setFont('Helvetica', 'bold');
+      doc.setTextColor(...stat.color);
+      doc.text(String(stat.value), x, y + 4, { align: 'center' });
+      doc.setFontSize(7);
+      doc.setFont('Helvetica', 'normal');
+      doc.setTextColor(...colors.muted);
+      doc.text(stat.label, x, y + 10, { align: 'center' });
+    });
+    y += 25;
+
+    if (comparison.findings.length > 0) {
+      addHeader('Findings', 10, colors.secondary);
+      comparison.findings.forEach((finding) => {
+        checkPageBreak(6);
+        const severity =
+          finding.state === 'regressed'
+            ? `${finding.baseline?.severity} -> ${finding.current?.severity}`
+            : (finding.current ?? finding.baseline)?.severity ?? '';
+        doc.setFontSize(8);
+        doc.setFont('Helvetica', 'bold');
+        doc.setTextColor(...stateColors[finding.state]);
+        doc.text(finding.state.toUpperCase(), margin + 2, y);
+        doc.setTextColor(...colors.text);
+        doc.text(severity, margin + 24, y);
+        doc.setFont('Helvetica', 'normal');
+        const detail = `${finding.title} (port ${finding.port}, ${finding.probe})`;
+        const wrapped = doc.splitTextToSize(detail, contentWidth - 62);
+        wrapped.forEach((line: string, lineIdx: number) => {
+          if (lineIdx > 0) checkPageBreak(4);
+          doc.text(line, margin + 60, y);
+          y += 4;
+        });
+        y += 1;
+      });
+      y += 3;
+    }
+
+    const changedPorts = comparison.ports.filter((port) => port.state !== 'unchanged' || port.changes.length > 0);
+    if (changedPorts.length > 0) {
+      addHeader('Ports and Services', 10, colors.secondary);
+      changedPorts.forEach((port) => {
+        if (port.state === 'opened') {
+          addLabelValue(`Port ${port.port}`, `newly open${port.currentServices.length ? ` - ${port.currentServices.join(', ')}` : ''}`, 2);
+        } else if (port.state === 'closed') {
+          addLabelValue(`Port ${port.port}`, `closed${port.baselineServices.length ? ` - was ${port.baselineServices.join(', ')}` : ''}`, 2);
+        } else {
+          port.changes.forEach((change) => {
+            addLabelValue(`Port ${port.port}`, `${change.field}: ${change.before ?? '--'} -> ${change.after ?? '--'}`, 2);
+          });
+        }
+      });
+    }
+
+    addDivider();
+  }
+
   // === 4. AI SECURITY ANALYSIS (promoted — singlepass: pass 1, continuous: latest pass) ===
-  if (llmAnalyses) {
+  if (llmAnalyses && sections.llmAnalysis) {
     let bestAnalysis: LlmAnalysis | undefined;
     let bestPassNr: number | undefined;
 
@@ -873,7 +1018,8 @@ export function generateJobReport({
 
   // Detailed Worker Reports
   if (reportsWithDetails.length > 0) {
-    addHeader('Detailed Worker Reports', 14, colors.primary);
+    const workerSectionTitle = !sections.rawEvidence ? 'Worker Activity' : !sections.workerActivity ? 'Raw Evidence' : 'Detailed Worker Reports';
+    addHeader(workerSectionTitle, 14, colors.primary);
     y += 5;
 
     reportsWithDetails.forEach(([cid, report], idx) => {
@@ -882,31 +1028,33 @@ export function generateJobReport({
       const nodeAddress = cidToNodeAddress.get(cid) ?? cid;
 
       // Worker header
-      doc.setFillColor(...colors.light);
-      doc.roundedRect(margin, y, contentWidth, 18, 2, 2, 'F');
-      y += 5;
+      if (sections.workerActivity) {
+        doc.setFillColor(...colors.light);
+        doc.roundedRect(margin, y, contentWidth, 18, 2, 2, 'F');
+        y += 5;
 
-      doc.setFontSize(11);
-      doc.setFont('Helvetica', 'bold');
-      doc.setTextColor(...colors.text);
-      doc.text(`Node: ${truncateAddress(nodeAddress)}`, margin + 5, y);
+        doc.setFontSize(11);
+        doc.setFont('Helvetica', 'bold');
+        doc.setTextColor(...colors.text);
+        doc.text(`Node: ${truncateAddress(nodeAddress)}`, margin + 5, y);
 
-      // Status badge
-      const workerStatusColor = report.done ? colors.primary : report.canceled ? colors.danger : colors.warning;
-      doc.setFillColor(...workerStatusColor);
-      doc.roundedRect(pageWidth - margin - 35, y - 4, 30, 7, 2, 2, 'F');
-      doc.setTextColor(255, 255, 255);
-      doc.setFontSize(7);
-      doc.text(report.done ? 'DONE' : report.canceled ? 'CANCELED' : 'RUNNING', pageWidth - margin - 32, y);
+        // Status badge
+        const workerStatusColor = report.done ? colors.primary : report.canceled ? colors.danger : colors.warning;
+        doc.setFillColor(...workerStatusColor);
+        doc.roundedRect(pageWidth - margin - 35, y - 4, 30, 7, 2, 2, 'F');
+        doc.setTextColor(255, 255, 255);
+        doc.setFontSize(7);
+        doc.text(report.done ? 'DONE' : report.canceled ? 'CANCELED' : 'RUNNING', pageWidth - margin - 32, y);
 
-      y += 6;
-      doc.setFontSize(8);
-      doc.setTextColor(...colors.muted);
-      doc.text(`Ports ${report.startPort}-${report.endPort} | ${report.portsScanned} scanned | ${report.openPorts.length} open`, margin + 5, y);
-      y += 10;
+        y += 6;
+        doc.setFontSize(8);
+        doc.setTextColor(...colors.muted);
+        doc.text(`Ports ${report.startPort}-${report.endPort} | ${report.portsScanned} scanned | ${report.openPorts.length} open`, margin + 5, y);
+        y += 10;
+      }
 
       // Service Info
-      if (Object.keys(report.serviceInfo).length > 0) {
+      if (sections.rawEvidence && Object.keys(report.serviceInfo).length > 0) {
         addHeader('Service Detection Results', 10, colors.primary);
 
         Object.entries(report.serviceInfo).forEach(([port, probes]) => {
@@ -952,7 +1100,7 @@ export function generateJobReport({
       }
 
       // Web Tests Info
-      if (Object.keys(report.webTestsInfo).length > 0) {
+      if (sections.rawEvidence && Object.keys(report.webTestsInfo).length > 0) {
         addHeader('Web Security Tests', 10, [59, 130, 246]);
 
         Object.entries(report.webTestsInfo).forEach(([port, tests]) => {
@@ -998,7 +1146,7 @@ export function generateJobReport({
       }
 
       // Completed tests summary
-      if (report.completedTests && report.completedTests.length > 0) {
+      if (sections.workerActivity && report.completedTests && report.completedTests.length > 0) {
         checkPageBreak(15);
         doc.setFontSize(8);
         doc.setFont('Helvetica', 'bold');
@@ -1029,9 +1177,17 @@ export function generateJobReport({
     doc.setPage(i);
     doc.setFontSize(8);
     doc.setTextColor(...colors.muted);
-    doc.text(`RedMesh Report - ${job.displayName}`, margin, pageHeight - 10);
+    doc.text(`${brandName} Report - ${job.displayName}`, margin, pageHeight - 10);
     doc.text(`Page ${i} of ${totalPages}`, pageWidth - margin - 20, pageHeight - 10);
+
+    // Classification marking; white on the cover banner
+    if (profile.classification) {
+      doc.setFontSize(8);
+      doc.setFont('Helvetica', 'bold');
+      doc.setTextColor(...(i === 1 ? [255, 255, 255] as RGB : colors.primary));
+      doc.text(profile.classification.toUpperCase(), pageWidth / 2, 8, { align: 'center' });
+    }
   }
 
-  doc.save(`redmesh-report-${job.id.slice(0, 8)}.pdf`);
+  doc.save(`redmesh-${remediation ? 'remediation' : 'report'}-${job.id.slice(0, 8)}.pdf`);
 }
@@ -0,0 +1,80 @@
+import { ApiError } from '../api/errors';
+import type { Job } from '../api/types';
+import { getAppConfig } from '../config/env';
+import { DEFECTDOJO_SCAN_TYPE, DefectDojoReport } from '../export/defectDojo';
+import { createLogger } from './logger';
+
+/**
+ * Client for DefectDojo's `POST /api/v2/import-scan/`. Any server that accepts the same multipart
+ * request and `Authorization: Token ...` header works, which keeps local stand-ins simple.
+ */
+
+const PUSH_TIMEOUT_MS = 30_000;
+
+const defectDojoLogger = createLogger('DefectDojo');
+
+export interface DefectDojoPushResult {
+  /** DefectDojo test created for this import, when the server reports one */
+  testId: number | null;
+  findingCount: number;
+}
+
+export function isDefectDojoConfigured(): boolean {
+  const config = getAppConfig();
+  return Boolean(config.defectDojoUrl && config.defectDojoApiKey && config.defectDojoEngagementId);
+}
+
+export async function pushToDefectDojo(job: Job, report: DefectDojoReport): Promise<DefectDojoPushResult> {
+  const { defectDojoUrl, defectDojoApiKey, defectDojoEngagementId } = getAppConfig();
+  if (!defectDojoUrl || !defectDojoApiKey || !defectDojoEngagementId) {
+    throw new ApiError(501, 'DefectDojo push is not configured.');
+  }
+
+  const form = new FormData();
+  form.append('scan_type', DEFECTDOJO_SCAN_TYPE);
+  form.append('engagement', String(defectDojoEngagementId));
+  form.append('test_title', `RedMesh: ${job.displayName} (${job.id})`);
+  form.append('active', 'true');
+  form.append('verified', 'false');
+  form.append('close_old_findings', 'false');
+  form.append(
+    'file',
+    new Blob([JSON.stringify(report)], { type: 'application/json' }),
+    `redmesh-${job.id.slice(0, 8)}-defectdojo.json`
+  );
+
+  const url = `${defectDojoUrl}/api/v2/import-scan/`;
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), PUSH_TIMEOUT_MS);
+
+  try {
+    defectDojoLogger.info(`Pushing ${report.findings.length} findings of job ${job.id} to ${url}`);
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { Authorization: `Token ${defectDojoApiKey}` },
+      body: form,
+      signal: controller.signal
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      defectDojoLogger.error(`Import rejected with ${response.status}`, text);
+      throw new ApiError(502, `DefectDojo rejected the import (${response.status})${text ? `: ${text.slice(0, 300)}` : '.'}`);
+    }
+
+    const payload = (await response.json().catch(() => null)) as { test?: unknown; test_id?: unknown } | null;
+    const testId = Number(payload?.test_id ?? payload?.test);
+    return { testId: Number.isInteger(testId) ? testId : null, findingCount: report.findings.length };
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new ApiError(504, 'DefectDojo did not answer in time.');
+    }
+    defectDojoLogger.error('Push failed', error instanceof Error ? error.message : error);
+    throw new ApiError(502, 'Unable to reach DefectDojo.');
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
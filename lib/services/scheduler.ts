@@ -0,0 +1,45 @@
+import { runDueSchedules } from '../api/schedules';
+import { createLogger } from './logger';
+
+const TICK_INTERVAL_MS = 30_000;
+
+const schedulerLogger = createLogger('Scheduler');
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let ticking = false;
+
+async function tick(): Promise<void> {
+  // A slow launch must not let a second tick start on top of it.
+  if (ticking) {
+    return;
+  }
+  ticking = true;
+  try {
+    await runDueSchedules();
+  } catch (error) {
+    schedulerLogger.error('Scheduler tick failed', error instanceof Error ? error.message : error);
+  } finally {
+    ticking = false;
+  }
+}
+
+/**
+ * Start the in-process scheduler loop. Safe to call more than once.
+ * Set REDMESH_SCHEDULER_DISABLED=true on all but one instance when running several replicas.
+ */
+export function startScheduler(): void {
+  if (timer || process.env.REDMESH_SCHEDULER_DISABLED === 'true') {
+    return;
+  }
+  schedulerLogger.info(`Scheduler started (checking every ${TICK_INTERVAL_MS / 1000}s)`);
+  timer = setInterval(() => void tick(), TICK_INTERVAL_MS);
+  timer.unref?.();
+  void tick();
+}
+
+export function stopScheduler(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
@@ -0,0 +1,98 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import { getAppConfig } from '../config/env';
+
+/**
+ * Minimal file-backed persistence for Navigator-side state.
+ * Files live under REDMESH_DATA_DIR; writes to the same file are serialized in-process.
+ */
+
+const writeQueues = new Map<string, Promise<unknown>>();
+
+export function resolveDataPath(fileName: string): string {
+  return path.resolve(getAppConfig().dataDir, fileName);
+}
+
+function isMissingFile(error: unknown): boolean {
+  return (error as { code?: string })?.code === 'ENOENT';
+}
+
+/** Run `task` after every earlier write to the same file has settled. */
+function enqueue<T>(filePath: string, task: () => Promise<T>): Promise<T> {
+  const previous = writeQueues.get(filePath) ?? Promise.resolve();
+  const next = previous.then(task, task);
+  writeQueues.set(filePath, next.catch(() => undefined));
+  return next;
+}
+
+export async function readJsonFile<T>(fileName: string, fallback: T): Promise<T> {
+  try {
+    const raw = await readFile(resolveDataPath(fileName), 'utf8');
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    if (isMissingFile(error)) {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+async function writeJsonAtomically(filePath: string, data: unknown): Promise<void> {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+  await rename(tempPath, filePath);
+}
+
+/**
+ * Read-modify-write a JSON document. The mutator receives the current value (or `fallback`)
+ * and returns the next value plus an optional result handed back to the caller.
+ */
+export async function updateJsonFile<T, R = void>(
+  fileName: string,
+  fallback: T,
+  mutate: (current: T) => { value: T; result?: R } | Promise<{ value: T; result?: R }>
+): Promise<R | undefined> {
+  const filePath = resolveDataPath(fileName);
+  return enqueue(filePath, async () => {
+    const current = await readJsonFile<T>(fileName, fallback);
+    const { value, result } = await mutate(current);
+    await writeJsonAtomically(filePath, value);
+    return result;
+  });
+}
+
+/** Append one JSON document as a line to an append-only log file. */
+export async function appendJsonLine(fileName: string, entry: unknown): Promise<void> {
+  const filePath = resolveDataPath(fileName);
+  await enqueue(filePath, async () => {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await appendFile(filePath, `${JSON.stringify(entry)}\n`, 'utf8');
+  });
+}
+
+/** Read every parseable line of a JSON-lines log, oldest first. Corrupt lines are skipped. */
+export async function readJsonLines<T>(fileName: string): Promise<T[]> {
+  let raw: string;
+  try {
+    raw = await readFile(resolveDataPath(fileName), 'utf8');
+  } catch (error) {
+    if (isMissingFile(error)) {
+      return [];
+    }
+    throw error;
+  }
+
+  const entries: T[] = [];
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line) as T);
+    } catch (_error) {
+      // A partially written trailing line must not hide the rest of the log.
+    }
+  }
+  return entries;
+}
@@ -5,6 +5,8 @@
  * structured dict (new format from enhanced probes like SSH).
  */
 
+import { tryScoreCvssVector } from '../domain/cvss';
+
 export interface ParsedFinding {
   severity: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW' | 'INFO';
   title: string;
@@ -14,6 +16,20 @@ export interface ParsedFinding {
   owasp_id?: string;
   cwe_id?: string;
   confidence?: string;
+  cve_id?: string;
+  cvss_score?: number;
+  cvss_vector?: string;
+}
+
+const SEVERITIES: ParsedFinding['severity'][] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW', 'INFO'];
+
+/**
+ * A probe-reported severity as one of the five levels. Anything else is reported as INFO, so
+ * unexpected strings never reach the UI, reports or exports.
+ */
+export function parseSeverity(value: unknown): ParsedFinding['severity'] {
+  const severity = String(value ?? 'INFO').trim().toUpperCase();
+  return SEVERITIES.find((level) => level === severity) ?? 'INFO';
 }
 
 export interface NormalizedProbeResult {
@@ -64,7 +80,7 @@ export function normalizeProbeResult(result: unknown): NormalizedProbeResult {
       for (const f of obj.findings) {
         if (typeof f !== 'object' || f === null) continue;
         const finding = f as Record<string, unknown>;
-        const severity = String(finding.severity ?? 'INFO').toUpperCase() as ParsedFinding['severity'];
+        const severity = parseSeverity(finding.severity);
         const title = String(finding.title ?? '');
         const isVuln = severity === 'CRITICAL' || severity === 'HIGH' || severity === 'MEDIUM';
 
@@ -75,14 +91,23 @@ export function normalizeProbeResult(result: unknown): NormalizedProbeResult {
         if (finding.owasp_id) parsed.owasp_id = String(finding.owasp_id);
         if (finding.cwe_id) parsed.cwe_id = String(finding.cwe_id);
         if (finding.confidence) parsed.confidence = String(finding.confidence);
+        if (finding.cve_id) parsed.cve_id = String(finding.cve_id);
+        if (typeof finding.cvss_score === 'number') parsed.cvss_score = finding.cvss_score;
+        if (finding.cvss_vector) parsed.cvss_vector = String(finding.cvss_vector);
+        // Probes that only report a vector get its base score
+        if (parsed.cvss_score === undefined && parsed.cvss_vector) {
+          const scored = tryScoreCvssVector(parsed.cvss_vector);
+          if (scored) parsed.cvss_score = scored.score;
+        }
         findings.push(parsed);
 
+        const scoreSuffix = parsed.cvss_score !== undefined ? ` (CVSS ${parsed.cvss_score.toFixed(1)})` : '';
         if (isVuln) {
-          const label = `VULNERABILITY: [${severity}] ${title}`;
+          const label = `VULNERABILITY: [${severity}] ${title}${scoreSuffix}`;
           vulnerabilities.push(label);
           lines.push(label);
         } else {
-          lines.push(`[${severity}] ${title}`);
+          lines.push(`[${severity}] ${title}${scoreSuffix}`);
         }
       }
     }
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/api/session';
+
+/**
+ * API routes reachable without a session: signing in, signing out and the
+ * runtime config used by the login screen.
+ */
+const PUBLIC_API_ROUTES = ['/api/auth/login', '/api/auth/logout', '/api/config'];
+
+export function isPublicApiRoute(pathname: string): boolean {
+  const normalized = pathname.replace(/\/+$/, '');
+  return PUBLIC_API_ROUTES.includes(normalized);
+}
+
+/**
+ * Routes that also accept `Authorization: Bearer rmk_...` API keys. The key itself is checked in the
+ * route handler, which has access to the key store.
+ */
+const API_KEY_ROUTES = [
+  /^\/api\/jobs$/,
+  /^\/api\/jobs\/[^/]+$/,
+  /^\/api\/jobs\/[^/]+\/diff$/,
+  /^\/api\/jobs\/[^/]+\/export$/,
+  /^\/api\/jobs\/[^/]+\/bundle$/,
+  /^\/api\/reports\/[^/]+$/,
+  /^\/api\/campaigns$/,
+  /^\/api\/campaigns\/[^/]+$/
+];
+
+export function isApiKeyRoute(pathname: string): boolean {
+  const normalized = pathname.replace(/\/+$/, '');
+  return API_KEY_ROUTES.some((pattern) => pattern.test(normalized));
+}
+
+function hasApiKeyHeader(request: NextRequest): boolean {
+  return request.headers.get('authorization')?.startsWith('Bearer rmk_') ?? false;
+}
+
+export async function middleware(request: NextRequest) {
+  if (isPublicApiRoute(request.nextUrl.pathname)) {
+    return NextResponse.next();
+  }
+
+  if (hasApiKeyHeader(request) && isApiKeyRoute(request.nextUrl.pathname)) {
+    return NextResponse.next();
+  }
+
+  const session = await getSessionUser(request);
+  if (!session) {
+    return NextResponse.json({ message: 'Authentication required.' }, { status: 401 });
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: '/api/:path*'
+};